@@ -0,0 +1,70 @@
+import { screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createBlinkBackend, fixtureCategories, fixtureProducts, fixtureUser } from './data'
+import { createMockGateway } from './payments'
+import { createFakeBlink } from './test/fakeBlink'
+import { fillAddress } from './test/fillAddress'
+import { fillCard } from './test/fillCard'
+import { renderApp } from './test/renderApp'
+
+describe('shopping flow', () => {
+  it('browses, adds to cart, changes quantity and checks out', async () => {
+    const user = userEvent.setup()
+    const fake = createFakeBlink({ user: fixtureUser, tables: { products: fixtureProducts, categories: fixtureCategories } })
+    renderApp(createBlinkBackend(fake.client, { paymentProvider: createMockGateway() }))
+
+    // Browse: home → Sports category → product detail
+    const categorySection = (await screen.findByRole('heading', { name: 'Shop by Category' })).closest('section') as HTMLElement
+    await user.click(await within(categorySection).findByText('Sports'))
+    expect(await screen.findByRole('heading', { name: 'Sports' })).toBeInTheDocument()
+    await user.click(await screen.findByText('Yoga Mat'))
+    expect(await screen.findByRole('heading', { name: 'Yoga Mat' })).toBeInTheDocument()
+
+    // Add two to the cart
+    await user.click(screen.getByRole('button', { name: 'Increase quantity' }))
+    await user.click(screen.getByRole('button', { name: 'Add to Cart - $78.00' }))
+    const cartLink = screen.getByRole('link', { name: 'Cart' })
+    expect(await within(cartLink).findByText('2')).toBeInTheDocument()
+
+    // Change quantity in the cart
+    await user.click(cartLink)
+    expect(await screen.findByText('Shopping Cart (2 items)')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Increase quantity' }))
+    expect(await screen.findByText('Shopping Cart (3 items)')).toBeInTheDocument()
+    expect(screen.getAllByText('$117.00').length).toBeGreaterThan(0)
+
+    // Checkout
+    await user.click(screen.getByRole('button', { name: 'Proceed to Checkout' }))
+    await fillAddress(user)
+    await user.click(screen.getByRole('button', { name: 'Use This Address' }))
+    await fillCard(user)
+    await user.click(screen.getByRole('button', { name: 'Place Order - $117.00' }))
+
+    expect(await screen.findByRole('heading', { name: 'Order Details' })).toBeInTheDocument()
+    expect(fake.tables.orders).toHaveLength(1)
+    expect(fake.tables.orders[0]).toMatchObject({
+      userId: fixtureUser.id,
+      totalAmount: 117,
+      status: 'paid',
+      shippingAddress: 'Local Shopper\n1 Main St\nSpringfield, IL 62701\nUnited States'
+    })
+    expect(fake.tables.payments).toEqual([
+      expect.objectContaining({ orderId: fake.tables.orders[0].id, provider: 'mock', amount: 117, status: 'captured', cardLast4: '4242' })
+    ])
+    expect(fake.tables.addresses).toEqual([expect.objectContaining({ userId: fixtureUser.id, line1: '1 Main St', isDefault: true })])
+    expect(fake.tables.orderItems).toEqual([
+      expect.objectContaining({ orderId: fake.tables.orders[0].id, productId: 'prod_yoga_mat', quantity: 3, price: 39 })
+    ])
+    expect(fake.tables.cartItems).toHaveLength(0)
+    expect(fake.tables.products.find((product) => product.id === 'prod_yoga_mat')).toMatchObject({ stockQuantity: 27 })
+    expect(within(screen.getByRole('link', { name: 'Cart' })).queryByText(/\d/)).not.toBeInTheDocument()
+  })
+
+  it('renders the not found page for unknown routes', async () => {
+    const fake = createFakeBlink({ user: fixtureUser })
+    renderApp(createBlinkBackend(fake.client), '/nowhere')
+
+    expect(await screen.findByText('Page not found')).toBeInTheDocument()
+  })
+})
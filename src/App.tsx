@@ -1,67 +1,92 @@
-import { useState, useEffect, useCallback } from 'react'
-import { blink } from './blink/client'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Routes, Route, Navigate, Link } from 'react-router-dom'
 import { Toaster } from './components/ui/toaster'
 import { Header } from './components/layout/Header'
+import { WishlistNotifier } from './components/wishlist/WishlistNotifier'
 import { HomePage } from './pages/HomePage'
 import { ProductsPage } from './pages/ProductsPage'
 import { CartPage } from './pages/CartPage'
+import { WishlistPage } from './pages/WishlistPage'
 import { CheckoutPage } from './pages/CheckoutPage'
 import { ProductDetailPage } from './pages/ProductDetailPage'
-
-type Page = 'home' | 'products' | 'cart' | 'checkout' | 'product-detail'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
+import { OrdersPage } from './pages/OrdersPage'
+import { OrderDetailPage } from './pages/OrderDetailPage'
+import { OrderLookupPage } from './pages/OrderLookupPage'
+import { AddressesPage } from './pages/AddressesPage'
+import { NotFoundPage } from './pages/NotFoundPage'
+import { SignInRequiredPage } from './pages/SignInRequiredPage'
+import { AdminLayout } from './components/admin/AdminLayout'
+import { AdminProductsPage } from './pages/admin/AdminProductsPage'
+import { AdminProductFormPage } from './pages/admin/AdminProductFormPage'
+import { AdminOrdersPage } from './pages/admin/AdminOrdersPage'
+import { AdminReviewsPage } from './pages/admin/AdminReviewsPage'
+import { AdminCategoriesPage } from './pages/admin/AdminCategoriesPage'
+import { routePatterns, routes } from './lib/routes'
+import { cartItemCount as countCartItems, isAdmin, type User } from './domain'
+import { shopperCart, useData } from './data'
+import { useToast } from './hooks/use-toast'
+import { mergeGuestCart } from './services/guestCart'
 
 function App() {
+  const data = useData()
+  const { auth } = data
+  const { toast } = useToast()
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
-  const [currentPage, setCurrentPage] = useState<Page>('home')
-  const [selectedProductId, setSelectedProductId] = useState<string | null>(null)
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
   const [cartItemCount, setCartItemCount] = useState(0)
+  // The user whose guest cart has been merged; pages wait for it so they
+  // never show the account's cart half merged
+  const [mergedFor, setMergedFor] = useState<string | null>(null)
+  const mergeStartedFor = useRef<string | null>(null)
+  const merging = user !== null && mergedFor !== user.id
 
   const loadCartItemCount = useCallback(async () => {
-    if (!user) return
     try {
-      const cartItems = await blink.db.cartItems.list({
-        where: { userId: user.id }
-      })
-      const totalCount = cartItems.reduce((sum, item) => sum + Number(item.quantity), 0)
-      setCartItemCount(totalCount)
+      const { cart, ownerId } = shopperCart(data, user)
+      const cartItems = await cart.listByUser(ownerId)
+      setCartItemCount(countCartItems(cartItems))
     } catch (error) {
       console.error('Failed to load cart count:', error)
     }
-  }, [user])
+  }, [user, data])
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
     })
     return unsubscribe
-  }, [])
+  }, [auth])
 
   useEffect(() => {
-    if (user) {
+    if (!user || mergeStartedFor.current === user.id) return
+    mergeStartedFor.current = user.id
+    mergeGuestCart(data, user.id)
+      .then((result) => {
+        if (result.clamped > 0) {
+          toast({
+            title: "Cart updated",
+            description: "Some items from before you signed in were limited to what is in stock or are no longer sold."
+          })
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to merge guest cart:', error)
+      })
+      .finally(() => setMergedFor(user.id))
+  }, [user, data, toast])
+
+  useEffect(() => {
+    if (!merging) {
       loadCartItemCount()
     }
-  }, [user, loadCartItemCount])
-
-  const navigateTo = (page: Page, productId?: string, category?: string) => {
-    setCurrentPage(page)
-    if (productId) setSelectedProductId(productId)
-    if (category) setSelectedCategory(category)
-  }
+  }, [merging, loadCartItemCount])
 
   const updateCartCount = () => {
     loadCartItemCount()
   }
 
-  if (loading) {
+  if (loading || merging) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-lg">Loading...</div>
@@ -69,58 +94,64 @@ function App() {
     )
   }
 
-  if (!user) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="text-center">
-          <h1 className="text-2xl font-bold mb-4">Welcome to Our Store</h1>
-          <p className="text-gray-600 mb-6">Please sign in to start shopping</p>
-          <button
-            onClick={() => blink.auth.login()}
-            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700"
-          >
-            Sign In
-          </button>
-        </div>
-      </div>
-    )
-  }
-
-  const renderCurrentPage = () => {
-    switch (currentPage) {
-      case 'home':
-        return <HomePage onNavigate={navigateTo} />
-      case 'products':
-        return <ProductsPage onNavigate={navigateTo} category={selectedCategory} />
-      case 'cart':
-        return <CartPage onNavigate={navigateTo} onCartUpdate={updateCartCount} />
-      case 'checkout':
-        return <CheckoutPage onNavigate={navigateTo} />
-      case 'product-detail':
-        return (
-          <ProductDetailPage
-            productId={selectedProductId}
-            onNavigate={navigateTo}
-            onCartUpdate={updateCartCount}
-          />
-        )
-      default:
-        return <HomePage onNavigate={navigateTo} />
-    }
-  }
-
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header
-        user={user}
-        cartItemCount={cartItemCount}
-        onNavigate={navigateTo}
-        currentPage={currentPage}
-      />
+      <Header user={user} cartItemCount={cartItemCount} />
       <main className="pt-16">
-        {renderCurrentPage()}
+        <Routes>
+          <Route path={routePatterns.home} element={<HomePage />} />
+          <Route path={routePatterns.products} element={<ProductsPage />} />
+          <Route
+            path={routePatterns.productDetail}
+            element={<ProductDetailPage onCartUpdate={updateCartCount} />}
+          />
+          <Route path={routePatterns.cart} element={<CartPage onCartUpdate={updateCartCount} />} />
+          {/* Guests may browse, check out and open their own orders; the rest needs an account */}
+          <Route
+            path={routePatterns.wishlist}
+            element={user ? <WishlistPage onCartUpdate={updateCartCount} /> : <SignInRequiredPage message="Sign in to see your wishlist." />}
+          />
+          <Route
+            path={routePatterns.checkout}
+            element={<CheckoutPage onCartUpdate={updateCartCount} />}
+          />
+          <Route
+            path={routePatterns.orders}
+            element={user ? <OrdersPage /> : (
+              <SignInRequiredPage message="Sign in to see your orders.">
+                <p className="text-sm text-gray-600 mt-6">
+                  Checked out as a guest?{' '}
+                  <Link to={routes.orderLookup()} className="text-blue-600 hover:underline">Find your order</Link>
+                </p>
+              </SignInRequiredPage>
+            )}
+          />
+          <Route
+            path={routePatterns.orderLookup}
+            element={<OrderLookupPage requireCode={import.meta.env.VITE_ORDER_LOOKUP_CODE !== 'off'} />}
+          />
+          <Route path={routePatterns.orderDetail} element={<OrderDetailPage />} />
+          <Route
+            path={routePatterns.addresses}
+            element={user ? <AddressesPage /> : <SignInRequiredPage message="Sign in to manage your addresses." />}
+          />
+          {/* Non-admins fall through to the 404 page */}
+          {isAdmin(user) && (
+            <Route element={<AdminLayout />}>
+              <Route path={routePatterns.admin} element={<Navigate to={routes.adminProducts()} replace />} />
+              <Route path={routePatterns.adminProducts} element={<AdminProductsPage />} />
+              <Route path={routePatterns.adminProductNew} element={<AdminProductFormPage />} />
+              <Route path={routePatterns.adminProductEdit} element={<AdminProductFormPage />} />
+              <Route path={routePatterns.adminCategories} element={<AdminCategoriesPage />} />
+              <Route path={routePatterns.adminOrders} element={<AdminOrdersPage />} />
+              <Route path={routePatterns.adminReviews} element={<AdminReviewsPage />} />
+            </Route>
+          )}
+          <Route path="*" element={<NotFoundPage />} />
+        </Routes>
       </main>
       <Toaster />
+      {user && <WishlistNotifier userId={user.id} />}
     </div>
   )
 }
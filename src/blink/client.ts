@@ -2,5 +2,6 @@ import { createClient } from '@blinkdotnew/sdk'
 
 export const blink = createClient({
   projectId: 'simple-ecommerce-store-451sfsxl',
-  authRequired: true
+  // Visitors browse and fill a guest cart before signing in
+  authRequired: false
 })
\ No newline at end of file
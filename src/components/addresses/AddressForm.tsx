@@ -0,0 +1,178 @@
+import type { ReactNode } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../ui/form'
+import { addressSchema, countries, emptyAddress, findCountry, type Address } from '../../domain'
+import { InvalidAddressError } from '../../services/addressBook'
+
+interface AddressFormProps {
+  defaultValues?: Address
+  submitLabel: string
+  // Receives the address trimmed and checked against its country's rules
+  onSubmit: (address: Address) => Promise<void> | void
+  onCancel?: () => void
+  // Extra controls shown above the buttons, e.g. "save to address book"
+  children?: ReactNode
+}
+
+const optional = (label: string, required: boolean) => (required ? label : `${label} (optional)`)
+
+export function AddressForm({ defaultValues, submitLabel, onSubmit, onCancel, children }: AddressFormProps) {
+  const form = useForm<Address>({
+    resolver: zodResolver(addressSchema),
+    defaultValues: defaultValues ?? emptyAddress()
+  })
+  const country = findCountry(form.watch('country'))
+
+  const submit = async (address: Address) => {
+    try {
+      await onSubmit(address)
+    } catch (error) {
+      // The backend's check caught something the form did not
+      if (!(error instanceof InvalidAddressError)) throw error
+      for (const [field, message] of Object.entries(error.fieldErrors)) {
+        form.setError(field as keyof Address, { message })
+      }
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(submit)} className="space-y-4" noValidate>
+        <FormField
+          control={form.control}
+          name="fullName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full name</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="line1"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Street address</FormLabel>
+              <FormControl>
+                <Input autoComplete="address-line1" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="line2"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Apartment, suite, etc. (optional)</FormLabel>
+              <FormControl>
+                <Input autoComplete="address-line2" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="city"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>City</FormLabel>
+                <FormControl>
+                  <Input autoComplete="address-level2" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="region"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{optional(country?.regionLabel ?? 'Region', country?.regionRequired ?? false)}</FormLabel>
+                <FormControl>
+                  <Input autoComplete="address-level1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="postalCode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{optional(country?.postalLabel ?? 'Postal code', country?.postalRequired ?? true)}</FormLabel>
+                <FormControl>
+                  <Input autoComplete="postal-code" placeholder={country?.postalExample} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="country"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Country</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {countries.map((option) => (
+                      <SelectItem key={option.code} value={option.code}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone (optional)</FormLabel>
+              <FormControl>
+                <Input type="tel" autoComplete="tel" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {children}
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,19 @@
+import { addressLines, type Address } from '../../domain'
+
+interface AddressLinesProps {
+  address: Address
+  className?: string
+}
+
+// An address laid out like a shipping label
+export function AddressLines({ address, className }: AddressLinesProps) {
+  return (
+    <address className={className ?? 'not-italic text-sm text-gray-700'}>
+      {addressLines(address).map((line, index) => (
+        <span key={index} className="block">
+          {line}
+        </span>
+      ))}
+    </address>
+  )
+}
@@ -0,0 +1,76 @@
+import { FolderTree, MessageSquare, Package, Receipt, Store } from 'lucide-react'
+import { Link, Outlet, useLocation } from 'react-router-dom'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider
+} from '../ui/sidebar'
+import { routes } from '../../lib/routes'
+
+const navItems = [
+  { label: 'Products', to: routes.adminProducts(), icon: Package },
+  { label: 'Categories', to: routes.adminCategories(), icon: FolderTree },
+  { label: 'Orders', to: routes.adminOrders(), icon: Receipt },
+  { label: 'Reviews', to: routes.adminReviews(), icon: MessageSquare }
+]
+
+// Shell for every /admin page. The sidebar sits below the fixed site header,
+// so it is rendered inline rather than as the default off-canvas panel.
+export function AdminLayout() {
+  const { pathname } = useLocation()
+
+  return (
+    <SidebarProvider className="min-h-[calc(100vh-4rem)]">
+      <Sidebar collapsible="none" className="border-r bg-white">
+        <SidebarHeader className="px-4 py-3">
+          <span className="text-sm font-semibold text-gray-900">Store admin</span>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Manage</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {navItems.map((item) => (
+                  <SidebarMenuItem key={item.to}>
+                    <SidebarMenuButton asChild isActive={pathname.startsWith(item.to)}>
+                      <Link to={item.to}>
+                        <item.icon />
+                        <span>{item.label}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+          <SidebarGroup>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link to={routes.home()}>
+                      <Store />
+                      <span>Back to store</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+      <div className="flex-1 min-w-0 bg-gray-50 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <Outlet />
+        </div>
+      </div>
+    </SidebarProvider>
+  )
+}
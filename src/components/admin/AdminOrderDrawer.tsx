@@ -0,0 +1,294 @@
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Separator } from '../ui/separator'
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle
+} from '../ui/drawer'
+import { OrderStatusBadge } from '../orders/OrderStatusBadge'
+import { OrderTimeline } from '../orders/OrderTimeline'
+import { RefundHistory } from '../orders/RefundHistory'
+import { RefundDialog } from './RefundDialog'
+import {
+  allowedTransitions,
+  orderLineTotal,
+  orderStatusLabels,
+  orderTimeline,
+  paymentStatusLabels,
+  type OrderStatus,
+  type Payment,
+  type Refund
+} from '../../domain'
+import { loadOrderDetail, useData, type OrderDetail } from '../../data'
+import { useToast } from '../../hooks/use-toast'
+import { cancelOrder, transitionOrderStatus } from '../../services/orderLifecycle'
+import { capturePayment } from '../../services/payments'
+
+// Paying and refunding are not plain status changes: money has to move, so
+// an order is paid when its payment is captured, never by hand, and refunded
+// through the refund dialog
+const actionLabels: Partial<Record<OrderStatus, string>> = {
+  fulfilled: 'Mark as fulfilled',
+  shipped: 'Mark as shipped',
+  delivered: 'Mark as delivered',
+  cancelled: 'Cancel order'
+}
+
+interface AdminOrderDrawerProps {
+  // The drawer is open while an order id is set
+  orderId: string | null
+  onClose: () => void
+  onChanged: () => void
+}
+
+export function AdminOrderDrawer({ orderId, onClose, onChanged }: AdminOrderDrawerProps) {
+  const data = useData()
+  const { toast } = useToast()
+  const [detail, setDetail] = useState<OrderDetail | null>(null)
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [refunds, setRefunds] = useState<Refund[]>([])
+  const [refunding, setRefunding] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [note, setNote] = useState('')
+  const [updating, setUpdating] = useState(false)
+
+  const loadOrder = useCallback(async () => {
+    if (!orderId) return
+    setLoading(true)
+    try {
+      setDetail(await loadOrderDetail(data, orderId))
+      setPayments(await data.payments.listByOrder(orderId))
+      setRefunds(await data.refunds.listByOrder(orderId))
+    } catch (error) {
+      console.error('Failed to load order:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load order details.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [orderId, data, toast])
+
+  useEffect(() => {
+    setDetail(null)
+    setPayments([])
+    setRefunds([])
+    setRefunding(false)
+    setNote('')
+    loadOrder()
+  }, [loadOrder])
+
+  const handleTransition = async (to: OrderStatus) => {
+    if (!detail) return
+    setUpdating(true)
+    try {
+      const trimmed = note.trim() || undefined
+      if (to === 'cancelled') {
+        await cancelOrder(data, detail.order.id, trimmed)
+      } else {
+        await transitionOrderStatus(data, detail.order.id, to, { note: trimmed })
+      }
+      toast({
+        title: "Order updated",
+        description: `Order #${detail.order.id} is now ${orderStatusLabels[to].toLowerCase()}.`
+      })
+      setNote('')
+      onChanged()
+      await loadOrder()
+    } catch (error) {
+      console.error('Failed to update order:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update order.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  // For an authorization whose capture failed at checkout
+  const handleCapture = async () => {
+    if (!detail) return
+    setUpdating(true)
+    try {
+      await capturePayment(data, detail.order.id)
+      toast({
+        title: "Payment captured",
+        description: `Order #${detail.order.id} is now paid.`
+      })
+      onChanged()
+      await loadOrder()
+    } catch (error) {
+      console.error('Failed to capture payment:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to capture the payment.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const payment = payments[payments.length - 1]
+  const canCapture = detail?.order.status === 'pending' && payment?.status === 'authorized'
+  const actions = detail ? allowedTransitions(detail.order).filter((status) => actionLabels[status]) : []
+  const captured = payments.find((candidate) => candidate.status === 'captured')
+  const canRefund = Boolean(detail && captured && allowedTransitions(detail.order).includes('refunded'))
+
+  return (
+    <Drawer direction="right" open={orderId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DrawerContent className="inset-y-0 left-auto right-0 mt-0 h-full w-full max-w-lg rounded-none">
+        <DrawerHeader>
+          <DrawerTitle>Order #{orderId}</DrawerTitle>
+          <DrawerDescription>
+            {detail?.order.createdAt ? `Placed ${format(new Date(detail.order.createdAt), 'PPP p')}` : 'Order details'}
+          </DrawerDescription>
+        </DrawerHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 space-y-6">
+          {loading && !detail ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-gray-300 rounded w-1/2"></div>
+              <div className="h-24 bg-gray-300 rounded"></div>
+            </div>
+          ) : !detail ? (
+            <p className="text-gray-500">Order not found</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-500">Customer</p>
+                  <p className="font-medium text-gray-900">{detail.order.customerEmail ?? detail.order.userId}</p>
+                  {!detail.order.userId && <p className="text-xs text-gray-500">Guest checkout</p>}
+                </div>
+                <OrderStatusBadge status={detail.order.status} />
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Items</h3>
+                <ul className="space-y-2">
+                  {detail.lines.map((line) => (
+                    <li key={line.id} className="flex justify-between text-sm">
+                      <span>
+                        {line.product?.name ?? 'Product no longer available'}
+                        {line.variantLabel && ` (${line.variantLabel})`}
+                        <span className="text-gray-500"> × {line.quantity} @ ${line.price.toFixed(2)}</span>
+                      </span>
+                      <span className="font-medium">${orderLineTotal(line).toFixed(2)}</span>
+                    </li>
+                  ))}
+                </ul>
+                <Separator className="my-2" />
+                <div className="flex justify-between font-semibold">
+                  <span>Total</span>
+                  <span>${detail.order.totalAmount.toFixed(2)}</span>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Payment</h3>
+                {payment ? (
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <p>
+                      {paymentStatusLabels[payment.status]} · ${payment.amount.toFixed(2)}
+                      {payment.cardLast4 && ` · card ending ${payment.cardLast4}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {payment.provider} {payment.intentId}
+                    </p>
+                    {payment.failureMessage && <p className="text-red-600">{payment.failureMessage}</p>}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No payment yet</p>
+                )}
+              </div>
+
+              {refunds.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-2">Refunds</h3>
+                  <RefundHistory refunds={refunds} lines={detail.lines} showRestocked />
+                </div>
+              )}
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Shipping address</h3>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{detail.order.shippingAddress}</p>
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Status history</h3>
+                <OrderTimeline entries={orderTimeline(detail.order)} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DrawerFooter>
+          {canCapture && (
+            <Button disabled={updating} onClick={handleCapture}>
+              Capture payment
+            </Button>
+          )}
+          {canRefund && (
+            <Button variant="outline" disabled={updating} onClick={() => setRefunding(true)}>
+              Issue refund
+            </Button>
+          )}
+          {actions.length > 0 && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="status-note">Note (optional)</Label>
+                <Input
+                  id="status-note"
+                  placeholder="e.g. tracking number"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {actions.map((status) => (
+                  <Button
+                    key={status}
+                    variant={status === 'cancelled' ? 'destructive' : 'default'}
+                    disabled={updating}
+                    onClick={() => handleTransition(status)}
+                  >
+                    {actionLabels[status]}
+                  </Button>
+                ))}
+              </div>
+            </>
+          )}
+          <DrawerClose asChild>
+            <Button variant="outline">Close</Button>
+          </DrawerClose>
+        </DrawerFooter>
+      </DrawerContent>
+      {detail && captured && (
+        <RefundDialog
+          open={refunding}
+          detail={detail}
+          payment={captured}
+          refunds={refunds}
+          onClose={() => setRefunding(false)}
+          onRefunded={() => {
+            onChanged()
+            loadOrder()
+          }}
+        />
+      )}
+    </Drawer>
+  )
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../ui/dialog'
+import { CategorySelect } from '../categories/CategorySelect'
+import type { ProductChanges } from '../../domain'
+import { useData } from '../../data'
+import { useCategories } from '../../hooks/use-categories'
+import { useToast } from '../../hooks/use-toast'
+import { adjustPriceByPercent, bulkUpdateProducts } from '../../services/catalogAdmin'
+
+interface BulkEditDialogProps {
+  open: boolean
+  productIds: string[]
+  onOpenChange: (open: boolean) => void
+  onApplied: () => void
+}
+
+export function BulkEditDialog({ open, productIds, onOpenChange, onApplied }: BulkEditDialogProps) {
+  const data = useData()
+  const { toast } = useToast()
+  const { categories } = useCategories()
+  const [category, setCategory] = useState('')
+  const [pricePercent, setPricePercent] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setCategory('')
+      setPricePercent('')
+    }
+  }, [open])
+
+  const percent = /^[-+]?\d+(\.\d+)?$/.test(pricePercent.trim()) ? Number(pricePercent) : null
+  const percentInvalid = pricePercent.trim() !== '' && (percent === null || percent <= -100)
+  const hasChanges = category !== '' || (percent !== null && percent !== 0)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!hasChanges || percentInvalid) return
+    setSaving(true)
+    try {
+      const result = await bulkUpdateProducts(data, productIds, (product) => {
+        const changes: ProductChanges = {}
+        if (category) changes.category = category
+        if (percent) changes.price = adjustPriceByPercent(product.price, percent)
+        return changes
+      })
+      result.failed.forEach(({ productId, error }) => console.error(`Failed to update ${productId}:`, error))
+      toast({
+        title: result.failed.length > 0 ? "Some products were not updated" : "Products updated",
+        description: `${result.updated.length} updated${result.failed.length > 0 ? `, ${result.failed.length} failed` : ''}.`,
+        variant: result.failed.length > 0 ? "destructive" : undefined
+      })
+      onApplied()
+      onOpenChange(false)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Edit {productIds.length} products</DialogTitle>
+            <DialogDescription>Leave a field empty to keep its current values.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-category">Category</Label>
+              <CategorySelect
+                id="bulk-category"
+                categories={categories}
+                value={category}
+                onValueChange={setCategory}
+                noneLabel="Keep current categories"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-price">Price change (%)</Label>
+              <Input
+                id="bulk-price"
+                inputMode="decimal"
+                placeholder="e.g. -10 for a 10% discount"
+                value={pricePercent}
+                onChange={(e) => setPricePercent(e.target.value)}
+              />
+              {percentInvalid && (
+                <p className="text-sm text-red-600">Enter a percentage greater than -100.</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!hasChanges || percentInvalid || saving}>
+              {saving ? 'Saving...' : 'Apply'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
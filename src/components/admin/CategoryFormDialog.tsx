@@ -0,0 +1,248 @@
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Textarea } from '../ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '../ui/form'
+import { CategorySelect } from '../categories/CategorySelect'
+import { categoryColors, categoryIcon, categoryIcons } from '../categories/categoryStyle'
+import {
+  categoryFormSchema,
+  toCategoryDraft,
+  toCategoryFormValues,
+  type CategoryFormValues
+} from './categoryFormSchema'
+import { categorySubtree, slugify, type Category } from '../../domain'
+import { useData } from '../../data'
+import { useToast } from '../../hooks/use-toast'
+import { createCategory, updateCategory } from '../../services/categoryAdmin'
+
+interface CategoryFormDialogProps {
+  open: boolean
+  // Edits this category when set, otherwise creates a new one
+  category: Category | null
+  categories: Category[]
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+export function CategoryFormDialog({ open, category, categories, onOpenChange, onSaved }: CategoryFormDialogProps) {
+  const data = useData()
+  const { toast } = useToast()
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: toCategoryFormValues()
+  })
+  const { reset } = form
+
+  useEffect(() => {
+    if (open) reset(toCategoryFormValues(category))
+  }, [open, category, reset])
+
+  // A category cannot be moved under itself or one of its descendants
+  const blockedParents = category ? categorySubtree(categories, category.slug).map((item) => item.id) : []
+
+  const onSubmit = async (values: CategoryFormValues) => {
+    const draft = toCategoryDraft(values)
+    try {
+      if (category) {
+        await updateCategory(data, category.id, draft)
+        toast({ title: "Category saved", description: `${values.name} has been updated.` })
+      } else {
+        await createCategory(data, draft)
+        toast({ title: "Category created", description: `${values.name} is now in the catalog.` })
+      }
+      onSaved()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save category:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save category.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{category ? 'Edit Category' : 'New Category'}</DialogTitle>
+              <DialogDescription>
+                Products are filed under the slug, which also appears in storefront links.
+              </DialogDescription>
+            </DialogHeader>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e)
+                        // New categories get a slug from the name until the slug is edited by hand
+                        if (!category && !form.getFieldState('slug').isDirty) {
+                          form.setValue('slug', slugify(e.target.value))
+                        }
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="slug"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Slug</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  {category && (
+                    <FormDescription>Changing the slug moves its products along with it.</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="parentId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parent category</FormLabel>
+                  <FormControl>
+                    <CategorySelect
+                      categories={categories}
+                      valueKey="id"
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      noneLabel="None (top level)"
+                      disabledIds={blockedParents}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="icon"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Icon</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.keys(categoryIcons).map((key) => {
+                          const Icon = categoryIcon(key)
+                          return (
+                            <SelectItem key={key} value={key}>
+                              <Icon className="h-4 w-4 mr-2 inline" />
+                              {key}
+                            </SelectItem>
+                          )
+                        })}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Colour</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(categoryColors).map(([key, className]) => (
+                          <SelectItem key={key} value={key}>
+                            <span className={`inline-block h-3 w-3 rounded-full mr-2 ${className}`}></span>
+                            {key}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sortOrder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Position</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : category ? 'Save Changes' : 'Create Category'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
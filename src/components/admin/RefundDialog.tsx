@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../ui/dialog'
+import { fulfilmentStatus, holdsStock, type Payment, type Refund } from '../../domain'
+import { useData, type OrderDetail } from '../../data'
+import { useToast } from '../../hooks/use-toast'
+import { refundLine, refundOrder, refundTotal, refundableAmount, refundableLines } from '../../services/refunds'
+
+interface RefundDialogProps {
+  open: boolean
+  detail: OrderDetail
+  // The captured payment the money goes back to
+  payment: Payment
+  refunds: Refund[]
+  onClose: () => void
+  onRefunded: () => void
+}
+
+export function RefundDialog({ open, detail, payment, refunds, onClose, onRefunded }: RefundDialogProps) {
+  const data = useData()
+  const { toast } = useToast()
+  // Quantity to refund per order line, as typed
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [reason, setReason] = useState('')
+  const [restock, setRestock] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setQuantities({})
+    setReason('')
+    // Goods that have not shipped are still on the shelf
+    setRestock(holdsStock(fulfilmentStatus(detail.order)))
+  }, [open, detail])
+
+  const refundable = refundableLines(detail.lines, refunds).filter((line) => line.remaining > 0)
+  const left = refundableAmount(payment, refunds)
+  const chosen = refundable.flatMap(({ item, remaining }) => {
+    const quantity = Number(quantities[item.id] || 0)
+    return Number.isInteger(quantity) && quantity > 0 && quantity <= remaining ? [refundLine(item, quantity)] : []
+  })
+  const invalid = refundable.some(({ item, remaining }) => {
+    const quantity = Number(quantities[item.id] || 0)
+    return !Number.isInteger(quantity) || quantity < 0 || quantity > remaining
+  })
+  const { amount } = refundTotal(refundable, chosen, left)
+
+  const selectEverything = () => {
+    setQuantities(Object.fromEntries(refundable.map(({ item, remaining }) => [item.id, String(remaining)])))
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (chosen.length === 0 || invalid) return
+    setSaving(true)
+    try {
+      const { refund } = await refundOrder(data, detail.order.id, {
+        lines: chosen.map(({ orderItemId, quantity }) => ({ orderItemId, quantity })),
+        reason,
+        restock
+      })
+      toast({
+        title: "Refund issued",
+        description: `$${refund.amount.toFixed(2)} refunded on order #${detail.order.id}.`
+      })
+      onRefunded()
+      onClose()
+    } catch (error) {
+      console.error('Failed to refund order:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to refund the order.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Refund order #{detail.order.id}</DialogTitle>
+            <DialogDescription>
+              ${left.toFixed(2)} of the ${payment.amount.toFixed(2)} paid can still be refunded. Choose how many
+              of each item to give back.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Items</Label>
+                <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={selectEverything}>
+                  Refund everything
+                </Button>
+              </div>
+              {refundable.map(({ item, remaining }) => {
+                const line = detail.lines.find((candidate) => candidate.id === item.id)
+                const name = line?.product?.name ?? 'Product no longer available'
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                    <Label htmlFor={`refund-${item.id}`} className="font-normal">
+                      {name}
+                      {item.variantLabel && ` (${item.variantLabel})`}
+                      <span className="text-gray-500"> @ ${item.price.toFixed(2)}</span>
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id={`refund-${item.id}`}
+                        type="number"
+                        min={0}
+                        max={remaining}
+                        className="w-20"
+                        placeholder="0"
+                        value={quantities[item.id] ?? ''}
+                        onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                      />
+                      <span className="text-gray-500 whitespace-nowrap">of {remaining}</span>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea
+                id="refund-reason"
+                rows={2}
+                placeholder="e.g. arrived damaged"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="refund-restock" checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+              <Label htmlFor="refund-restock">Return refunded items to stock</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={chosen.length === 0 || invalid || !reason.trim() || saving}>
+              {saving ? 'Refunding...' : `Refund $${amount.toFixed(2)}`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../ui/dialog'
+import { variantLabel, type Product, type ProductVariant } from '../../domain'
+import { useData } from '../../data'
+import { useToast } from '../../hooks/use-toast'
+import { adjustStock } from '../../services/catalogAdmin'
+
+interface StockAdjustDialogProps {
+  // The dialog is open while a product is set
+  product: Product | null
+  onClose: () => void
+  onAdjusted: () => void
+}
+
+export function StockAdjustDialog({ product, onClose, onAdjusted }: StockAdjustDialogProps) {
+  const data = useData()
+  const { toast } = useToast()
+  const [delta, setDelta] = useState('')
+  const [saving, setSaving] = useState(false)
+  // Products with variants hold stock per variant; one is adjusted at a time
+  const [variants, setVariants] = useState<ProductVariant[]>([])
+  const [variantId, setVariantId] = useState('')
+
+  useEffect(() => {
+    setDelta('')
+    setVariants([])
+    setVariantId('')
+    if (!product) return
+    const loadVariants = async () => {
+      try {
+        const loaded = await data.variants.listByProduct(product.id)
+        setVariants(loaded)
+        setVariantId(loaded[0]?.id ?? '')
+      } catch (error) {
+        console.error('Failed to load variants:', error)
+      }
+    }
+    loadVariants()
+  }, [product, data])
+
+  const variant = variants.find((candidate) => candidate.id === variantId)
+  const current = variant ?? product
+  const parsedDelta = /^[-+]?\d+$/.test(delta.trim()) ? Number(delta) : null
+  const resulting = current && parsedDelta !== null ? Math.max(0, current.stockQuantity + parsedDelta) : null
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!product || parsedDelta === null) return
+    setSaving(true)
+    try {
+      const stockQuantity = await adjustStock(data, product.id, parsedDelta, variant?.id)
+      const name = variant ? `${product.name} (${variantLabel(variant)})` : product.name
+      toast({
+        title: "Stock updated",
+        description: `${name} now has ${stockQuantity} in stock.`
+      })
+      onAdjusted()
+      onClose()
+    } catch (error) {
+      console.error('Failed to adjust stock:', error)
+      toast({
+        title: "Error",
+        description: "Failed to adjust stock.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={product !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Adjust stock</DialogTitle>
+            <DialogDescription>
+              {product?.name} currently has {product?.stockQuantity} in stock. Enter a positive number
+              for deliveries or a negative one for damaged or missing units.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            {variants.length > 0 && (
+              <>
+                <Label htmlFor="stock-variant">Variant</Label>
+                <Select value={variantId} onValueChange={setVariantId}>
+                  <SelectTrigger id="stock-variant">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variants.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {variantLabel(candidate)} ({candidate.stockQuantity} in stock)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+            <Label htmlFor="stock-delta">Change</Label>
+            <Input
+              id="stock-delta"
+              inputMode="numeric"
+              placeholder="e.g. 10 or -2"
+              value={delta}
+              onChange={(e) => setDelta(e.target.value)}
+            />
+            {resulting !== null && (
+              <p className="text-sm text-gray-600">New stock level: {resulting}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={parsedDelta === null || parsedDelta === 0 || saving}>
+              {saving ? 'Saving...' : 'Apply'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
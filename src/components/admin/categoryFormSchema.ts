@@ -0,0 +1,35 @@
+import { z } from 'zod'
+import { categorySlug, type Category } from '../../domain'
+import type { CategoryDraft } from '../../services/categoryAdmin'
+
+// Like the product form, everything is text until toCategoryDraft converts it
+export const categoryFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  slug: categorySlug,
+  icon: z.string(),
+  color: z.string(),
+  description: z.string().trim(),
+  sortOrder: z
+    .string()
+    .trim()
+    .regex(/^\d+$/, 'Enter a whole number'),
+  parentId: z.string()
+})
+
+export type CategoryFormValues = z.infer<typeof categoryFormSchema>
+
+export function toCategoryFormValues(category?: Category | null): CategoryFormValues {
+  return {
+    name: category?.name ?? '',
+    slug: category?.slug ?? '',
+    icon: category?.icon ?? 'tag',
+    color: category?.color ?? 'gray',
+    description: category?.description ?? '',
+    sortOrder: String(category?.sortOrder ?? 0),
+    parentId: category?.parentId ?? ''
+  }
+}
+
+export function toCategoryDraft(values: CategoryFormValues): CategoryDraft {
+  return { ...values, sortOrder: Number(values.sortOrder), parentId: values.parentId || undefined }
+}
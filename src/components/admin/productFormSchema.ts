@@ -0,0 +1,155 @@
+import { z } from 'zod'
+import { optionCombinations, variantLabel, type Product, type ProductOption, type ProductVariant } from '../../domain'
+import type { ProductDraft, VariantDraft } from '../../services/catalogAdmin'
+
+// One "Name: value" pair per line; blank lines are ignored
+const ATTRIBUTE_LINE = /^\s*([^:]+?)\s*:\s*(.+?)\s*$/
+
+const attributeLines = (text: string) => text.split('\n').filter((line) => line.trim() !== '')
+
+// "Size: S, M, L" per line; values are comma separated
+export function parseOptionLines(text: string): ProductOption[] {
+  return attributeLines(text).flatMap((line) => {
+    const [, name, values] = ATTRIBUTE_LINE.exec(line) ?? []
+    if (!name) return []
+    return [{ name, values: [...new Set(values.split(',').map((value) => value.trim()).filter(Boolean))] }]
+  })
+}
+
+const priceText = z
+  .string()
+  .trim()
+  .regex(/^\d+(\.\d{1,2})?$/, 'Enter a price like 19.99')
+
+const unitsText = z
+  .string()
+  .trim()
+  .regex(/^\d+$/, 'Enter a whole number of units')
+
+const imageUrlText = z
+  .string()
+  .trim()
+  .refine((value) => value === '' || /^(https?:|data:image\/)/.test(value), 'Enter an image URL or upload a file')
+
+// One row of the variant editor. `id` is blank for variants not yet saved.
+const variantRowSchema = z.object({
+  id: z.string(),
+  options: z.record(z.string(), z.string()),
+  sku: z.string().trim(),
+  // Blank uses the product price
+  price: z.union([z.literal(''), priceText]),
+  stockQuantity: unitsText,
+  imageUrl: imageUrlText
+})
+
+export type VariantRowValues = z.infer<typeof variantRowSchema>
+
+const galleryImageSchema = z.object({
+  url: imageUrlText.refine((value) => value !== '', 'Enter an image URL or upload a file'),
+  alt: z.string().trim()
+})
+
+// Inputs hold text, so numbers are validated as text here and converted by
+// toProductDraft once the form is valid
+export const productFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().trim(),
+  category: z.string().trim().min(1, 'Category is required'),
+  brand: z.string().trim(),
+  attributes: z
+    .string()
+    .refine((text) => attributeLines(text).every((line) => ATTRIBUTE_LINE.test(line)), 'Write one "Name: value" per line'),
+  price: priceText,
+  stockQuantity: unitsText,
+  imageUrl: imageUrlText,
+  imageAlt: z.string().trim(),
+  // The images after the cover, in gallery order
+  gallery: z.array(galleryImageSchema),
+  options: z
+    .string()
+    .refine(
+      (text) => attributeLines(text).every((line) => ATTRIBUTE_LINE.test(line)),
+      'Write one "Name: value, value" per line'
+    ),
+  variants: z.array(variantRowSchema)
+})
+
+export type ProductFormValues = z.infer<typeof productFormSchema>
+
+const toVariantRow = (variant: ProductVariant): VariantRowValues => ({
+  id: variant.id,
+  options: variant.options,
+  sku: variant.sku,
+  price: variant.price !== undefined ? variant.price.toFixed(2) : '',
+  stockQuantity: String(variant.stockQuantity),
+  imageUrl: variant.imageUrl
+})
+
+// One row per combination of the options, keeping the rows that already
+// exist for a combination so their ids and details survive
+export function generateVariantRows(options: ProductOption[], rows: VariantRowValues[]): VariantRowValues[] {
+  if (options.length === 0) return []
+  return optionCombinations(options).map((combination) => {
+    const label = variantLabel({ options: combination })
+    return (
+      rows.find((row) => variantLabel(row) === label) ?? {
+        id: '',
+        options: combination,
+        sku: '',
+        price: '',
+        stockQuantity: '0',
+        imageUrl: ''
+      }
+    )
+  })
+}
+
+export function toProductFormValues(product?: Product | null, variants: ProductVariant[] = []): ProductFormValues {
+  const images = product?.images ?? []
+  // Older products have a cover but no gallery
+  const cover = images[0]?.url === product?.imageUrl ? images[0] : undefined
+  return {
+    name: product?.name ?? '',
+    description: product?.description ?? '',
+    category: product?.category ?? '',
+    brand: product?.brand ?? '',
+    attributes: Object.entries(product?.attributes ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n'),
+    price: product ? product.price.toFixed(2) : '',
+    stockQuantity: product ? String(product.stockQuantity) : '0',
+    imageUrl: product?.imageUrl ?? '',
+    imageAlt: cover?.alt ?? '',
+    gallery: (cover ? images.slice(1) : images).map(({ url, alt }) => ({ url, alt })),
+    options: (product?.options ?? []).map((option) => `${option.name}: ${option.values.join(', ')}`).join('\n'),
+    variants: variants.map(toVariantRow)
+  }
+}
+
+export function toProductDraft(values: ProductFormValues): ProductDraft {
+  const attributes = Object.fromEntries(
+    attributeLines(values.attributes).map((line) => {
+      const [, name, value] = ATTRIBUTE_LINE.exec(line) ?? []
+      return [name, value]
+    })
+  )
+  const { variants: _variants, imageAlt, gallery, ...fields } = values
+  const images = values.imageUrl ? [{ url: values.imageUrl, alt: imageAlt }, ...gallery] : gallery
+  return {
+    ...fields,
+    // Without a cover the first gallery image stands in
+    imageUrl: images[0]?.url ?? '',
+    images,
+    attributes,
+    options: parseOptionLines(values.options),
+    price: Number(values.price),
+    stockQuantity: Number(values.stockQuantity)
+  }
+}
+
+export function toVariantDrafts(values: ProductFormValues): VariantDraft[] {
+  return values.variants.map(({ id, price, stockQuantity, ...fields }) => ({
+    ...fields,
+    id: id || undefined,
+    price: price === '' ? undefined : Number(price),
+    stockQuantity: Number(stockQuantity)
+  }))
+}
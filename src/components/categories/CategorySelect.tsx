@@ -0,0 +1,54 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { flattenCategoryTree, type Category } from '../../domain'
+
+// Select values cannot be empty strings, so "none" gets a reserved value
+const NONE = '__none__'
+
+interface CategorySelectProps {
+  id?: string
+  categories: Category[]
+  // Which category field the value holds: products store slugs, parents ids
+  valueKey?: 'slug' | 'id'
+  value: string
+  onValueChange: (value: string) => void
+  placeholder?: string
+  // When set, an extra first option with this label selects ''
+  noneLabel?: string
+  disabledIds?: string[]
+}
+
+// Categories in tree order, subcategories indented under their parent
+export function CategorySelect({
+  id,
+  categories,
+  valueKey = 'slug',
+  value,
+  onValueChange,
+  placeholder = 'Choose a category',
+  noneLabel,
+  disabledIds = []
+}: CategorySelectProps) {
+  return (
+    <Select
+      value={value || (noneLabel ? NONE : '')}
+      onValueChange={(next) => onValueChange(next === NONE ? '' : next)}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {noneLabel && <SelectItem value={NONE}>{noneLabel}</SelectItem>}
+        {flattenCategoryTree(categories).map(({ category, depth }) => (
+          <SelectItem
+            key={category.id}
+            value={category[valueKey]}
+            disabled={disabledIds.includes(category.id)}
+            style={depth > 0 ? { paddingLeft: `${2 + depth}rem` } : undefined}
+          >
+            {category.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,52 @@
+import {
+  Baby,
+  BookOpen,
+  Car,
+  Dumbbell,
+  Gamepad2,
+  Gift,
+  Headphones,
+  Home,
+  PawPrint,
+  Shirt,
+  Smartphone,
+  Sparkles,
+  Tag,
+  UtensilsCrossed,
+  Watch
+} from 'lucide-react'
+
+// Categories store palette keys rather than class names so Tailwind can see
+// every class it needs at build time, and admins pick from a fixed set.
+export const categoryIcons: Record<string, typeof Tag> = {
+  tag: Tag,
+  smartphone: Smartphone,
+  headphones: Headphones,
+  watch: Watch,
+  shirt: Shirt,
+  home: Home,
+  dumbbell: Dumbbell,
+  book: BookOpen,
+  gamepad: Gamepad2,
+  gift: Gift,
+  baby: Baby,
+  car: Car,
+  pet: PawPrint,
+  kitchen: UtensilsCrossed,
+  beauty: Sparkles
+}
+
+export const categoryColors: Record<string, string> = {
+  gray: 'bg-gray-100 text-gray-600',
+  blue: 'bg-blue-100 text-blue-600',
+  purple: 'bg-purple-100 text-purple-600',
+  green: 'bg-green-100 text-green-600',
+  orange: 'bg-orange-100 text-orange-600',
+  red: 'bg-red-100 text-red-600',
+  pink: 'bg-pink-100 text-pink-600',
+  yellow: 'bg-yellow-100 text-yellow-700',
+  teal: 'bg-teal-100 text-teal-600'
+}
+
+export const categoryIcon = (key: string) => categoryIcons[key] ?? Tag
+export const categoryColorClass = (key: string) => categoryColors[key] ?? categoryColors.gray
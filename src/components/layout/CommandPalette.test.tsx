@@ -0,0 +1,42 @@
+import { screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser } from '../../data'
+import { loadRecentSearches } from '../../lib/recentSearches'
+import { renderApp } from '../../test/renderApp'
+
+describe('command palette', () => {
+  it('opens with Ctrl+K and jumps to a suggested product from the keyboard', async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser }))
+    await screen.findByRole('heading', { name: 'Shop by Category' })
+
+    await user.keyboard('{Control>}k{/Control}')
+    const palette = await screen.findByRole('dialog')
+    await user.type(within(palette).getByRole('combobox'), 'hedphones')
+    await within(palette).findByRole('option', { name: /Wireless Headphones/ })
+    // The first option searches for the text; the product is next
+    await user.keyboard('{ArrowDown}{Enter}')
+
+    expect(await screen.findByRole('heading', { name: 'Wireless Headphones' })).toBeInTheDocument()
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+  })
+
+  it('runs a full search and remembers it as a recent search', async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser }))
+
+    await user.click(await screen.findByRole('button', { name: 'Search' }))
+    await user.type(within(await screen.findByRole('dialog')).getByRole('combobox'), 'garden{Enter}')
+
+    expect(await screen.findByText('Showing 2 products')).toBeInTheDocument()
+    expect(screen.getByPlaceholderText('Search products...')).toHaveValue('garden')
+    expect(loadRecentSearches()).toEqual(['garden'])
+
+    await user.click(screen.getByRole('button', { name: 'Search' }))
+    const palette = await screen.findByRole('dialog')
+    expect(within(palette).getByRole('option', { name: 'garden' })).toBeInTheDocument()
+    await user.click(within(palette).getByRole('option', { name: 'Go to cart' }))
+    expect(await screen.findByRole('heading', { name: /Shopping Cart/ })).toBeInTheDocument()
+  })
+})
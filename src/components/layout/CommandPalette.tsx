@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react'
+import { Clock, CreditCard, Heart, LayoutDashboard, MapPin, Package, PackageSearch, Search, ShoppingBag, ShoppingCart } from 'lucide-react'
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator
+} from '../ui/command'
+import { DialogDescription, DialogTitle } from '../ui/dialog'
+import { HighlightedText } from '../search/HighlightedText'
+import { categoryIcon } from '../categories/categoryStyle'
+import { useAppNavigate } from '../../hooks/use-app-navigate'
+import { useCategories } from '../../hooks/use-categories'
+import { addRecentSearch, loadRecentSearches } from '../../lib/recentSearches'
+import { flattenCategoryTree, isAdmin, type User } from '../../domain'
+import { useData, type ProductSearchHit } from '../../data'
+import { normalize } from '../../search'
+
+const MAX_PRODUCT_SUGGESTIONS = 6
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Null while browsing as a guest
+  user: User | null
+  cartItemCount: number
+}
+
+export function CommandPalette({ open, onOpenChange, user, cartItemCount }: CommandPaletteProps) {
+  const { products } = useData()
+  const navigate = useAppNavigate()
+  const { categories, categoryName } = useCategories()
+  const [query, setQuery] = useState('')
+  const [hits, setHits] = useState<ProductSearchHit[]>([])
+  const [recentSearches, setRecentSearches] = useState<string[]>([])
+
+  useEffect(() => {
+    if (open) {
+      setQuery('')
+      setHits([])
+      setRecentSearches(loadRecentSearches())
+    }
+  }, [open])
+
+  useEffect(() => {
+    const text = query.trim()
+    if (!text) {
+      setHits([])
+      return
+    }
+    // Only the newest query may show its suggestions
+    let current = true
+    const timeoutId = setTimeout(async () => {
+      try {
+        const results = await products.search(text, { limit: MAX_PRODUCT_SUGGESTIONS })
+        if (current) setHits(results)
+      } catch (error) {
+        console.error('Failed to load suggestions:', error)
+      }
+    }, 150)
+    return () => {
+      current = false
+      clearTimeout(timeoutId)
+    }
+  }, [query, products])
+
+  const run = (action: () => void) => {
+    onOpenChange(false)
+    action()
+  }
+
+  const searchFor = (term: string) => {
+    run(() => {
+      setRecentSearches(addRecentSearch(term))
+      navigate('products', { q: term })
+    })
+  }
+
+  const text = normalize(query.trim())
+  const matchesText = (label: string) => !text || normalize(label).includes(text)
+
+  const matchingCategories = flattenCategoryTree(categories)
+    .map(({ category }) => category)
+    .filter((category) => matchesText(category.name))
+  const matchingRecent = recentSearches.filter(matchesText)
+
+  const actions = [
+    { label: 'Browse products', icon: ShoppingBag, go: () => navigate('products') },
+    { label: 'Go to cart', icon: ShoppingCart, go: () => navigate('cart') },
+    { label: 'My wishlist', icon: Heart, go: () => navigate('wishlist') },
+    { label: 'My orders', icon: Package, go: () => navigate('orders') },
+    { label: 'My addresses', icon: MapPin, go: () => navigate('addresses') },
+    ...(user ? [] : [{ label: 'Find a guest order', icon: PackageSearch, go: () => navigate('orderLookup') }]),
+    ...(cartItemCount > 0 ? [{ label: 'Checkout', icon: CreditCard, go: () => navigate('checkout') }] : []),
+    ...(isAdmin(user) ? [{ label: 'Admin console', icon: LayoutDashboard, go: () => navigate('admin') }] : [])
+  ].filter((action) => matchesText(action.label))
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      // Suggestions are already ranked by the search index; cmdk's own
+      // filter would drop typo matches it cannot see
+      commandProps={{ shouldFilter: false }}
+    >
+      <DialogTitle className="sr-only">Search the store</DialogTitle>
+      <DialogDescription className="sr-only">
+        Find products and categories or jump to another page
+      </DialogDescription>
+      <CommandInput
+        placeholder="Search products, categories and pages..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        {query.trim() && (
+          <CommandGroup>
+            <CommandItem value={`search:${query}`} onSelect={() => searchFor(query.trim())}>
+              <Search />
+              Search for "{query.trim()}"
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {hits.length > 0 && (
+          <CommandGroup heading="Products">
+            {hits.map(({ product, highlights }) => (
+              <CommandItem
+                key={product.id}
+                value={`product:${product.id}`}
+                onSelect={() => run(() => navigate('productDetail', product.id))}
+              >
+                <img src={product.imageUrl} alt="" className="h-8 w-8 rounded object-cover bg-gray-100" />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">
+                    <HighlightedText segments={highlights.name} />
+                  </p>
+                  <p className="text-xs text-gray-500">{categoryName(product.category)}</p>
+                </div>
+                <span className="text-sm font-medium">${product.price.toFixed(2)}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingRecent.length > 0 && (
+          <CommandGroup heading="Recent searches">
+            {matchingRecent.map((term) => (
+              <CommandItem key={term} value={`recent:${term}`} onSelect={() => searchFor(term)}>
+                <Clock />
+                {term}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingCategories.length > 0 && (
+          <CommandGroup heading="Categories">
+            {matchingCategories.map((category) => {
+              const Icon = categoryIcon(category.icon)
+              return (
+                <CommandItem
+                  key={category.id}
+                  value={`category:${category.slug}`}
+                  onSelect={() => run(() => navigate('products', { category: category.slug }))}
+                >
+                  <Icon />
+                  {category.name}
+                </CommandItem>
+              )
+            })}
+          </CommandGroup>
+        )}
+
+        {actions.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Go to">
+              {actions.map((action) => (
+                <CommandItem key={action.label} value={`action:${action.label}`} onSelect={() => run(action.go)}>
+                  <action.icon />
+                  {action.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
@@ -1,23 +1,53 @@
-import { ShoppingCart, User, LogOut } from 'lucide-react'
-import { blink } from '../../blink/client'
+import { useState, useEffect } from 'react'
+import { ShoppingCart, User, LogOut, LogIn, Package, ChevronDown, LayoutDashboard, Search, Heart, MapPin } from 'lucide-react'
+import { Link, NavLink } from 'react-router-dom'
 import { Button } from '../ui/button'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '../ui/dropdown-menu'
+import { CommandPalette } from './CommandPalette'
+import { routes } from '../../lib/routes'
+import { isAdmin, type User as AppUser } from '../../domain'
+import { useData } from '../../data'
+import { useAppNavigate } from '../../hooks/use-app-navigate'
 
 interface HeaderProps {
-  user: User
+  // Null while browsing as a guest
+  user: AppUser | null
   cartItemCount: number
-  onNavigate: (page: 'home' | 'products' | 'cart' | 'checkout' | 'product-detail') => void
-  currentPage: string
 }
 
-export function Header({ user, cartItemCount, onNavigate, currentPage }: HeaderProps) {
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+  `text-sm font-medium transition-colors ${
+    isActive ? 'text-blue-600' : 'text-gray-700 hover:text-blue-600'
+  }`
+
+export function Header({ user, cartItemCount }: HeaderProps) {
+  const { auth } = useData()
+  const navigate = useAppNavigate()
+  const [paletteOpen, setPaletteOpen] = useState(false)
+
+  // Ctrl+K (Cmd+K on macOS) opens the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setPaletteOpen((open) => !open)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   const handleLogout = () => {
-    blink.auth.logout()
+    auth.logout()
   }
 
   return (
@@ -26,43 +56,54 @@ export function Header({ user, cartItemCount, onNavigate, currentPage }: HeaderP
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
           <div className="flex items-center">
-            <button
-              onClick={() => onNavigate('home')}
+            <Link
+              to={routes.home()}
               className="text-xl font-bold text-blue-600 hover:text-blue-700"
             >
               ShopEasy
-            </button>
+            </Link>
           </div>
 
           {/* Navigation */}
           <nav className="hidden md:flex items-center space-x-8">
-            <button
-              onClick={() => onNavigate('home')}
-              className={`text-sm font-medium transition-colors ${
-                currentPage === 'home'
-                  ? 'text-blue-600'
-                  : 'text-gray-700 hover:text-blue-600'
-              }`}
-            >
+            <NavLink to={routes.home()} end className={navLinkClass}>
               Home
-            </button>
-            <button
-              onClick={() => onNavigate('products')}
-              className={`text-sm font-medium transition-colors ${
-                currentPage === 'products'
-                  ? 'text-blue-600'
-                  : 'text-gray-700 hover:text-blue-600'
-              }`}
-            >
+            </NavLink>
+            <NavLink to={routes.products()} className={navLinkClass}>
               Products
-            </button>
+            </NavLink>
           </nav>
 
           {/* Right side */}
           <div className="flex items-center space-x-4">
+            {/* Search */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPaletteOpen(true)}
+              aria-label="Search"
+              className="text-gray-500"
+            >
+              <Search className="h-4 w-4" />
+              <span className="hidden lg:inline ml-2">Search...</span>
+              <kbd className="hidden lg:inline ml-4 rounded border bg-gray-50 px-1.5 text-xs font-mono">
+                {isMac ? '⌘' : 'Ctrl '}K
+              </kbd>
+            </Button>
+
+            {/* Wishlist */}
+            <Link
+              to={routes.wishlist()}
+              aria-label="Wishlist"
+              className="p-2 text-gray-700 hover:text-blue-600 transition-colors"
+            >
+              <Heart className="h-6 w-6" />
+            </Link>
+
             {/* Cart */}
-            <button
-              onClick={() => onNavigate('cart')}
+            <Link
+              to={routes.cart()}
+              aria-label="Cart"
               className="relative p-2 text-gray-700 hover:text-blue-600 transition-colors"
             >
               <ShoppingCart className="h-6 w-6" />
@@ -71,27 +112,59 @@ export function Header({ user, cartItemCount, onNavigate, currentPage }: HeaderP
                   {cartItemCount}
                 </span>
               )}
-            </button>
+            </Link>
 
             {/* User menu */}
-            <div className="flex items-center space-x-2">
-              <div className="flex items-center space-x-2 text-sm text-gray-700">
-                <User className="h-4 w-4" />
-                <span className="hidden sm:inline">{user.email}</span>
-              </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleLogout}
-                className="text-gray-700 hover:text-red-600"
-              >
-                <LogOut className="h-4 w-4" />
-                <span className="hidden sm:ml-2 sm:inline">Logout</span>
+            {user ? (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-gray-700">
+                    <User className="h-4 w-4" />
+                    <span className="hidden sm:ml-2 sm:inline">{user.email}</span>
+                    <ChevronDown className="h-4 w-4 ml-1" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuLabel className="truncate">
+                    {user.displayName || user.email}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => navigate('orders')}>
+                    <Package className="h-4 w-4 mr-2" />
+                    My Orders
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => navigate('addresses')}>
+                    <MapPin className="h-4 w-4 mr-2" />
+                    My Addresses
+                  </DropdownMenuItem>
+                  {isAdmin(user) && (
+                    <DropdownMenuItem onSelect={() => navigate('admin')}>
+                      <LayoutDashboard className="h-4 w-4 mr-2" />
+                      Admin
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={handleLogout} className="text-red-600">
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Logout
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ) : (
+              <Button variant="ghost" size="sm" className="text-gray-700" onClick={() => auth.login()}>
+                <LogIn className="h-4 w-4" />
+                <span className="hidden sm:ml-2 sm:inline">Sign In</span>
               </Button>
-            </div>
+            )}
           </div>
         </div>
       </div>
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        user={user}
+        cartItemCount={cartItemCount}
+      />
     </header>
   )
 }
\ No newline at end of file
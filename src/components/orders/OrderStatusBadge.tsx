@@ -0,0 +1,27 @@
+import { Badge } from '../ui/badge'
+import { cn } from '../../lib/utils'
+import { orderStatusLabels, type OrderStatus } from '../../domain'
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  fulfilled: 'bg-indigo-100 text-indigo-800',
+  shipped: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  partially_refunded: 'bg-orange-100 text-orange-800',
+  refunded: 'bg-red-100 text-red-800'
+}
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus
+  className?: string
+}
+
+export function OrderStatusBadge({ status, className }: OrderStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('border-transparent', statusStyles[status], className)}>
+      {orderStatusLabels[status]}
+    </Badge>
+  )
+}
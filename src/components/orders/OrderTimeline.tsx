@@ -0,0 +1,23 @@
+import { format } from 'date-fns'
+import type { OrderTimelineEntry } from '../../domain'
+
+interface OrderTimelineProps {
+  entries: OrderTimelineEntry[]
+}
+
+export function OrderTimeline({ entries }: OrderTimelineProps) {
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {entries.map((entry, index) => (
+        <li key={`${entry.status}-${index}`} className="mb-6 ml-4 last:mb-0">
+          <div className="absolute w-3 h-3 bg-blue-600 rounded-full -left-1.5 mt-1.5 border border-white" />
+          <p className="text-sm font-semibold text-gray-900">{entry.label}</p>
+          <time className="text-sm text-gray-500">
+            {entry.at ? format(new Date(entry.at), 'PPP p') : '—'}
+          </time>
+          {entry.note && <p className="text-sm text-gray-600 mt-1">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  )
+}
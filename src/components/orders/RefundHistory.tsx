@@ -0,0 +1,45 @@
+import { format } from 'date-fns'
+import { refundStatusLabels, type OrderLine, type Refund } from '../../domain'
+
+interface RefundHistoryProps {
+  refunds: Refund[]
+  // The order's lines, to name what each refund covered
+  lines: OrderLine[]
+  // Staff also see whether the items went back on sale
+  showRestocked?: boolean
+}
+
+export function RefundHistory({ refunds, lines, showRestocked }: RefundHistoryProps) {
+  const lineName = (orderItemId: string) => {
+    const line = lines.find((candidate) => candidate.id === orderItemId)
+    if (!line) return 'Removed item'
+    const name = line.product?.name ?? 'Product no longer available'
+    return line.variantLabel ? `${name} (${line.variantLabel})` : name
+  }
+
+  return (
+    <ul className="space-y-3">
+      {refunds.map((refund) => (
+        <li key={refund.id} className="text-sm">
+          <div className="flex justify-between font-medium text-gray-900">
+            <span>
+              {refundStatusLabels[refund.status]} ${refund.amount.toFixed(2)}
+            </span>
+            <time className="text-gray-500 font-normal">
+              {refund.createdAt ? format(new Date(refund.createdAt), 'PPP') : '—'}
+            </time>
+          </div>
+          <p className="text-gray-600">{refund.reason}</p>
+          {refund.lines.length > 0 && (
+            <p className="text-gray-500">
+              {refund.lines.map((line) => `${line.quantity} × ${lineName(line.orderItemId)}`).join(', ')}
+            </p>
+          )}
+          {showRestocked && (
+            <p className="text-xs text-gray-500">{refund.restocked ? 'Returned to stock' : 'Not returned to stock'}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
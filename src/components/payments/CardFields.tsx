@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { useData } from '../../data'
+import { MOCK_TEST_CARDS, formatCardNumber, type CardForm, type CardFormErrors, type PaymentProvider } from '../../payments'
+
+interface CardFieldsProps {
+  value: CardForm
+  onChange: (value: CardForm) => void
+  errors?: CardFormErrors
+  disabled?: boolean
+}
+
+const testCards = [
+  { number: MOCK_TEST_CARDS.success, outcome: 'pays' },
+  { number: MOCK_TEST_CARDS.declined, outcome: 'is declined' },
+  { number: MOCK_TEST_CARDS.threeDSecure, outcome: 'asks for 3-D Secure' },
+  { number: MOCK_TEST_CARDS.networkFailure, outcome: 'loses the connection' }
+]
+
+// The provider's own card field, e.g. Stripe's, which the card details
+// never leave
+function HostedCardField({ provider }: { provider: PaymentProvider }) {
+  const container = useRef<HTMLDivElement>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    const element = container.current
+    if (!element || !provider.mountCardField) return
+    let unmount: (() => void) | null = null
+    let cancelled = false
+    provider.mountCardField(element)
+      .then((remove) => {
+        if (cancelled) remove()
+        else unmount = remove
+      })
+      .catch((error) => {
+        console.error('Failed to load the card field:', error)
+        setFailed(true)
+      })
+    return () => {
+      cancelled = true
+      unmount?.()
+    }
+  }, [provider])
+
+  return (
+    <div>
+      <Label>Card details</Label>
+      <div ref={container} className="mt-2 rounded-md border border-input bg-background px-3 py-3" />
+      {failed && <p className="text-sm text-red-600 mt-1">The card field could not be loaded. Reload the page to try again.</p>}
+    </div>
+  )
+}
+
+// Card number, expiry and security code, or the provider's own card field
+// when it has one. With the mock gateway in use the test cards are listed,
+// since nothing real is charged.
+export function CardFields({ value, onChange, errors = {}, disabled }: CardFieldsProps) {
+  const { paymentProvider } = useData()
+  const set = (field: keyof CardForm, text: string) => onChange({ ...value, [field]: text })
+
+  if (paymentProvider.mountCardField) return <HostedCardField provider={paymentProvider} />
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="card-number">Card number</Label>
+        <Input
+          id="card-number"
+          inputMode="numeric"
+          autoComplete="cc-number"
+          placeholder="1234 1234 1234 1234"
+          value={value.number}
+          disabled={disabled}
+          aria-invalid={Boolean(errors.number)}
+          onChange={(e) => set('number', formatCardNumber(e.target.value))}
+        />
+        {errors.number && <p className="text-sm text-red-600 mt-1">{errors.number}</p>}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="card-expiry">Expiry (MM/YY)</Label>
+          <Input
+            id="card-expiry"
+            inputMode="numeric"
+            autoComplete="cc-exp"
+            placeholder="MM/YY"
+            value={value.expiry}
+            disabled={disabled}
+            aria-invalid={Boolean(errors.expiry)}
+            onChange={(e) => set('expiry', e.target.value)}
+          />
+          {errors.expiry && <p className="text-sm text-red-600 mt-1">{errors.expiry}</p>}
+        </div>
+        <div>
+          <Label htmlFor="card-cvc">Security code</Label>
+          <Input
+            id="card-cvc"
+            inputMode="numeric"
+            autoComplete="cc-csc"
+            placeholder="CVC"
+            value={value.cvc}
+            disabled={disabled}
+            aria-invalid={Boolean(errors.cvc)}
+            onChange={(e) => set('cvc', e.target.value)}
+          />
+          {errors.cvc && <p className="text-sm text-red-600 mt-1">{errors.cvc}</p>}
+        </div>
+      </div>
+      {paymentProvider.name === 'mock' && (
+        <div className="bg-blue-50 p-4 rounded-lg text-sm text-blue-800">
+          <p className="font-semibold text-blue-900 mb-1">Test mode: no real charges</p>
+          <p className="mb-1">Use any future expiry and security code.</p>
+          <ul className="space-y-0.5">
+            {testCards.map((card) => (
+              <li key={card.number}>
+                <span className="font-mono">{formatCardNumber(card.number)}</span> {card.outcome}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import { ShieldCheck } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog'
+import { useData } from '../../data'
+import type { PaymentChallenge } from '../../hooks/use-order-payment'
+
+interface ThreeDSecureDialogProps {
+  challenge: PaymentChallenge | null
+  // Called once the shopper is done with the bank, whatever they answered;
+  // the payment's outcome is read back from the provider
+  onComplete: () => void
+}
+
+// The bank's 3-D Secure page in a dialog. The mock gateway has no bank, so
+// the dialog plays the bank's part with approve and decline buttons.
+export function ThreeDSecureDialog({ challenge, onComplete }: ThreeDSecureDialogProps) {
+  const { paymentProvider } = useData()
+  const [answering, setAnswering] = useState(false)
+
+  const answer = async (approve: boolean) => {
+    if (!challenge || !paymentProvider.simulateChallenge) return
+    setAnswering(true)
+    try {
+      await paymentProvider.simulateChallenge(challenge.intentId, approve)
+    } catch (error) {
+      // Reading the payment back reports what state it was left in
+      console.error('Failed to answer the 3-D Secure challenge:', error)
+    } finally {
+      setAnswering(false)
+      onComplete()
+    }
+  }
+
+  return (
+    <Dialog open={challenge !== null} onOpenChange={(open) => !open && onComplete()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-blue-600" />
+            Confirm with your bank
+          </DialogTitle>
+          <DialogDescription>
+            Your bank wants to make sure it's you before paying ${challenge?.amount.toFixed(2)}.
+          </DialogDescription>
+        </DialogHeader>
+        {paymentProvider.simulateChallenge ? (
+          <>
+            <div className="bg-gray-50 p-4 rounded-lg text-sm text-gray-700">
+              This stands in for your bank's page while payments run in test mode.
+            </div>
+            <DialogFooter>
+              <Button variant="outline" disabled={answering} onClick={() => answer(false)}>
+                Fail Authentication
+              </Button>
+              <Button disabled={answering} onClick={() => answer(true)}>
+                Approve Payment
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            {challenge && (
+              <iframe title="Bank verification" src={challenge.url} className="w-full h-96 rounded border" />
+            )}
+            <DialogFooter>
+              <Button onClick={onComplete}>I've Finished</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
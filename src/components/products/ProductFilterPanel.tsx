@@ -0,0 +1,214 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { Star, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Label } from '../ui/label'
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group'
+import { Slider } from '../ui/slider'
+import { filterChips, toggleValue } from '../../lib/productFilters'
+import type { FacetValue, ProductFacets, ProductFilters } from '../../data'
+
+interface ProductFilterPanelProps {
+  facets: ProductFacets | null
+  filters: ProductFilters
+  onChange: (filters: ProductFilters) => void
+}
+
+function FacetSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
+function FacetCheckboxes({
+  id,
+  values,
+  selected = [],
+  onToggle
+}: {
+  id: string
+  values: FacetValue[]
+  selected?: string[]
+  onToggle: (value: string) => void
+}) {
+  return (
+    <div className="space-y-2">
+      {values.map(({ value, count }) => {
+        const inputId = `${id}-${value}`
+        const checked = selected.includes(value)
+        return (
+          <div key={value} className="flex items-center gap-2">
+            <Checkbox
+              id={inputId}
+              checked={checked}
+              disabled={count === 0 && !checked}
+              onCheckedChange={() => onToggle(value)}
+            />
+            <Label htmlFor={inputId} className="flex-1 font-normal cursor-pointer">
+              {value}
+            </Label>
+            <span className="text-xs text-gray-500">{count}</span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// The slider keeps its own value while dragging and only filters on release,
+// so a drag does not fire a query per step
+function PriceRange({ facets, filters, onChange }: ProductFilterPanelProps & { facets: ProductFacets }) {
+  const min = Math.floor(facets.price.min)
+  const max = Math.ceil(facets.price.max)
+  const [range, setRange] = useState([filters.priceMin ?? min, filters.priceMax ?? max])
+
+  useEffect(() => {
+    setRange([filters.priceMin ?? min, filters.priceMax ?? max])
+  }, [filters.priceMin, filters.priceMax, min, max])
+
+  if (min === max) return null
+
+  return (
+    <FacetSection title="Price">
+      <Slider
+        min={min}
+        max={max}
+        step={1}
+        value={range}
+        minStepsBetweenThumbs={1}
+        onValueChange={setRange}
+        onValueCommit={([low, high]) =>
+          onChange({
+            ...filters,
+            priceMin: low > min ? low : undefined,
+            priceMax: high < max ? high : undefined
+          })
+        }
+        aria-label="Price range"
+      />
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>${range[0]}</span>
+        <span>${range[1]}</span>
+      </div>
+    </FacetSection>
+  )
+}
+
+export function ProductFilterPanel({ facets, filters, onChange }: ProductFilterPanelProps) {
+  if (!facets) {
+    return (
+      <div className="space-y-4 animate-pulse">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="h-16 bg-gray-200 rounded" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <PriceRange facets={facets} filters={filters} onChange={onChange} />
+
+      <FacetSection title="Availability">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="facet-in-stock"
+            checked={Boolean(filters.inStock)}
+            onCheckedChange={(checked) => onChange({ ...filters, inStock: checked === true || undefined })}
+          />
+          <Label htmlFor="facet-in-stock" className="flex-1 font-normal cursor-pointer">
+            In stock only
+          </Label>
+          <span className="text-xs text-gray-500">{facets.inStock}</span>
+        </div>
+      </FacetSection>
+
+      <FacetSection title="Rating">
+        <RadioGroup
+          value={filters.minRating !== undefined ? String(filters.minRating) : 'any'}
+          onValueChange={(value) => onChange({ ...filters, minRating: value === 'any' ? undefined : Number(value) })}
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="any" id="facet-rating-any" />
+            <Label htmlFor="facet-rating-any" className="font-normal cursor-pointer">Any rating</Label>
+          </div>
+          {facets.ratings.map(({ rating, count }) => (
+            <div key={rating} className="flex items-center gap-2">
+              <RadioGroupItem value={String(rating)} id={`facet-rating-${rating}`} />
+              <Label htmlFor={`facet-rating-${rating}`} className="flex-1 flex items-center gap-1 font-normal cursor-pointer">
+                {rating}
+                <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                & up
+              </Label>
+              <span className="text-xs text-gray-500">{count}</span>
+            </div>
+          ))}
+        </RadioGroup>
+      </FacetSection>
+
+      {facets.brands.length > 0 && (
+        <FacetSection title="Brand">
+          <FacetCheckboxes
+            id="facet-brand"
+            values={facets.brands}
+            selected={filters.brands}
+            onToggle={(brand) => onChange({ ...filters, brands: toggleValue(filters.brands, brand) })}
+          />
+        </FacetSection>
+      )}
+
+      {facets.attributes.map(({ name, values }) => (
+        <FacetSection key={name} title={name}>
+          <FacetCheckboxes
+            id={`facet-attr-${name}`}
+            values={values}
+            selected={filters.attributes?.[name]}
+            onToggle={(value) =>
+              onChange({
+                ...filters,
+                attributes: { ...filters.attributes, [name]: toggleValue(filters.attributes?.[name], value) }
+              })
+            }
+          />
+        </FacetSection>
+      ))}
+    </div>
+  )
+}
+
+interface FilterChipsProps {
+  filters: ProductFilters
+  onChange: (filters: ProductFilters) => void
+}
+
+export function FilterChips({ filters, onChange }: FilterChipsProps) {
+  const chips = filterChips(filters)
+  if (chips.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      {chips.map((chip) => (
+        <span
+          key={chip.key}
+          className="inline-flex items-center gap-1 rounded-full bg-blue-50 text-blue-700 text-sm pl-3 pr-1 py-1"
+        >
+          {chip.label}
+          <button
+            type="button"
+            aria-label={`Remove ${chip.label} filter`}
+            className="rounded-full p-0.5 hover:bg-blue-100"
+            onClick={() => onChange(chip.without)}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+        Clear all
+      </Button>
+    </div>
+  )
+}
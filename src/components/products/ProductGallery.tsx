@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from 'react'
+import { Maximize2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi
+} from '../ui/carousel'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '../ui/dialog'
+import { cn } from '../../lib/utils'
+import type { ProductImage } from '../../domain'
+
+const MAX_ZOOM = 4
+const HOVER_ZOOM = 2
+
+const clampZoom = (scale: number) => Math.min(MAX_ZOOM, Math.max(1, scale))
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y)
+
+// Zooms towards the mouse on hover, and follows two-finger pinches on touch
+// screens. A pinch stops its pointer events reaching the carousel so the
+// slide does not drag away mid-gesture.
+function ZoomableImage({ image, className }: { image: ProductImage; className?: string }) {
+  const [scale, setScale] = useState(1)
+  const [origin, setOrigin] = useState('50% 50%')
+  const touches = useRef(new Map<number, { x: number; y: number }>())
+  const pinch = useRef<{ distance: number; scale: number } | null>(null)
+
+  const originAt = (event: React.PointerEvent<HTMLDivElement>) => {
+    const box = event.currentTarget.getBoundingClientRect()
+    if (box.width === 0 || box.height === 0) return
+    setOrigin(`${((event.clientX - box.left) / box.width) * 100}% ${((event.clientY - box.top) / box.height) * 100}%`)
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType !== 'touch') return
+    touches.current.set(event.pointerId, { x: event.clientX, y: event.clientY })
+    if (touches.current.size === 2) {
+      const [a, b] = [...touches.current.values()]
+      pinch.current = { distance: distance(a, b), scale }
+      event.stopPropagation()
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === 'mouse') {
+      originAt(event)
+      setScale(HOVER_ZOOM)
+      return
+    }
+    if (!touches.current.has(event.pointerId)) return
+    touches.current.set(event.pointerId, { x: event.clientX, y: event.clientY })
+    if (pinch.current && touches.current.size === 2) {
+      const [a, b] = [...touches.current.values()]
+      originAt(event)
+      setScale(clampZoom((pinch.current.scale * distance(a, b)) / pinch.current.distance))
+      event.stopPropagation()
+    }
+  }
+
+  const handlePointerEnd = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === 'mouse') {
+      setScale(1)
+      return
+    }
+    touches.current.delete(event.pointerId)
+    if (touches.current.size < 2) pinch.current = null
+    // A pinch that ends close to the original size snaps back to it
+    if (touches.current.size === 0) setScale((current) => (current < 1.1 ? 1 : current))
+  }
+
+  return (
+    <div
+      className={cn('h-full w-full overflow-hidden', scale > 1 ? 'cursor-zoom-out' : 'cursor-zoom-in', className)}
+      style={{ touchAction: scale > 1 ? 'none' : 'pan-y' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+      onPointerLeave={handlePointerEnd}
+      onDoubleClick={() => setScale((current) => (current > 1 ? 1 : HOVER_ZOOM))}
+    >
+      <img
+        src={image.url}
+        alt={image.alt}
+        draggable={false}
+        className="h-full w-full object-cover transition-transform duration-150"
+        style={{ transform: `scale(${scale})`, transformOrigin: origin }}
+      />
+    </div>
+  )
+}
+
+// Follows the carousel as it moves between slides. The carousel starts on
+// `initial`, so only later moves are read back from it.
+function useSelectedSlide(api: CarouselApi | undefined, initial = 0) {
+  const [selected, setSelected] = useState(initial)
+
+  useEffect(() => {
+    if (!api) return
+    const onSelect = () => setSelected(api.selectedScrollSnap())
+    api.on('select', onSelect)
+    return () => {
+      api.off('select', onSelect)
+    }
+  }, [api])
+
+  return [selected, setSelected] as const
+}
+
+interface LightboxProps {
+  images: ProductImage[]
+  // The lightbox is open while an index is set
+  startIndex: number | null
+  onClose: (index: number) => void
+}
+
+function Lightbox({ images, startIndex, onClose }: LightboxProps) {
+  const [api, setApi] = useState<CarouselApi>()
+  const [selected, setSelected] = useSelectedSlide(api, startIndex ?? 0)
+
+  useEffect(() => {
+    if (startIndex !== null) setSelected(startIndex)
+  }, [startIndex, setSelected])
+
+  return (
+    <Dialog open={startIndex !== null} onOpenChange={(open) => !open && onClose(selected)}>
+      <DialogContent className="max-w-[95vw] h-[95vh] p-4 flex flex-col gap-2">
+        <DialogTitle className="sr-only">Product images</DialogTitle>
+        <DialogDescription className="text-sm text-gray-500">
+          Image {selected + 1} of {images.length}
+        </DialogDescription>
+        <Carousel
+          setApi={setApi}
+          opts={{ startIndex: startIndex ?? 0 }}
+          className="flex-1 min-h-0 px-12"
+          aria-label="Fullscreen product images"
+        >
+          <CarouselContent className="h-full">
+            {images.map((image) => (
+              <CarouselItem key={image.url} className="h-[80vh]">
+                <ZoomableImage image={image} className="[&_img]:object-contain" />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {images.length > 1 && (
+            <>
+              <CarouselPrevious className="left-0" />
+              <CarouselNext className="right-0" />
+            </>
+          )}
+        </Carousel>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ProductGalleryProps {
+  images: ProductImage[]
+  // Brought into view whenever it changes, e.g. the chosen variant's image
+  focusUrl?: string
+}
+
+export function ProductGallery({ images, focusUrl }: ProductGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>()
+  const [selected, setSelected] = useSelectedSlide(api)
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+
+  const show = (index: number) => {
+    setSelected(index)
+    api?.scrollTo(index)
+  }
+
+  useEffect(() => {
+    const index = focusUrl ? images.findIndex((image) => image.url === focusUrl) : -1
+    if (index === -1) return
+    setSelected(index)
+    api?.scrollTo(index)
+  }, [focusUrl, images, api, setSelected])
+
+  if (images.length === 0) {
+    return <div className="aspect-square rounded-lg bg-gray-100" />
+  }
+
+  return (
+    <div className="space-y-3">
+      <Carousel
+        setApi={setApi}
+        className="overflow-hidden rounded-lg bg-white shadow-sm"
+        aria-label="Product images"
+      >
+        <CarouselContent className="ml-0">
+          {images.map((image, index) => (
+            <CarouselItem key={image.url} className="pl-0 aspect-square" aria-hidden={index !== selected}>
+              <ZoomableImage image={image} />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+          </>
+        )}
+        <Button
+          variant="secondary"
+          size="icon"
+          className="absolute right-2 top-2"
+          aria-label="View fullscreen"
+          onClick={() => setLightboxIndex(selected)}
+        >
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+      </Carousel>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={image.url}
+              type="button"
+              aria-label={`Show image ${index + 1}`}
+              aria-current={index === selected}
+              className={cn(
+                'h-16 w-16 flex-shrink-0 overflow-hidden rounded border-2',
+                index === selected ? 'border-blue-600' : 'border-transparent opacity-70 hover:opacity-100'
+              )}
+              onClick={() => show(index)}
+            >
+              <img src={image.url} alt="" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Lightbox
+        images={images}
+        startIndex={lightboxIndex}
+        onClose={(index) => {
+          setLightboxIndex(null)
+          show(index)
+        }}
+      />
+    </div>
+  )
+}
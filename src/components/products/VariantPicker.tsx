@@ -0,0 +1,53 @@
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
+import {
+  isOptionValueAvailable,
+  type OptionSelection,
+  type ProductOption,
+  type ProductVariant
+} from '../../domain'
+
+interface VariantPickerProps {
+  options: ProductOption[]
+  variants: ProductVariant[]
+  selection: OptionSelection
+  onChange: (selection: OptionSelection) => void
+}
+
+// One row of choices per option. Values that cannot be bought with the other
+// choices as they stand are disabled; a chosen value stays enabled so the
+// shopper can see what they picked.
+export function VariantPicker({ options, variants, selection, onChange }: VariantPickerProps) {
+  return (
+    <div className="space-y-4">
+      {options.map((option) => (
+        <div key={option.name}>
+          <p className="text-sm font-medium text-gray-700 mb-2">
+            {option.name}
+            {selection[option.name] && <span className="font-normal text-gray-500">: {selection[option.name]}</span>}
+          </p>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="flex-wrap justify-start"
+            value={selection[option.name] ?? ''}
+            onValueChange={(value) => {
+              const { [option.name]: _previous, ...rest } = selection
+              onChange(value ? { ...rest, [option.name]: value } : rest)
+            }}
+            aria-label={option.name}
+          >
+            {option.values.map((value) => (
+              <ToggleGroupItem
+                key={value}
+                value={value}
+                disabled={selection[option.name] !== value && !isOptionValueAvailable(variants, selection, option.name, value)}
+              >
+                {value}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      ))}
+    </div>
+  )
+}
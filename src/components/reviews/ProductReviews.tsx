@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from 'react'
+import { ThumbsUp } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { RatingBadge, StarRating } from './StarRating'
+import { ReviewForm } from './ReviewForm'
+import type { ReviewFormValues } from './reviewFormSchema'
+import { useData, type ReviewQuery } from '../../data'
+import { useToast } from '../../hooks/use-toast'
+import type { RatingSummary, Review, User } from '../../domain'
+import { ReviewError, hasDeliveredPurchase, submitReview, voteHelpful } from '../../services/reviews'
+
+const REVIEWS_PAGE_SIZE = 5
+
+const REVIEW_SORTS = {
+  newest: { label: 'Most recent', orderBy: { field: 'createdAt', direction: 'desc' } },
+  helpful: { label: 'Most helpful', orderBy: { field: 'helpfulCount', direction: 'desc' } },
+  highest: { label: 'Highest rating', orderBy: { field: 'rating', direction: 'desc' } },
+  lowest: { label: 'Lowest rating', orderBy: { field: 'rating', direction: 'asc' } }
+} satisfies Record<string, { label: string; orderBy: ReviewQuery['orderBy'] }>
+
+type ReviewSort = keyof typeof REVIEW_SORTS
+
+interface ProductReviewsProps {
+  productId: string
+  summary: RatingSummary
+  // Called after the shopper's review changes the product's rating
+  onRatingChange: () => void
+}
+
+export function ProductReviews({ productId, summary, onRatingChange }: ProductReviewsProps) {
+  const data = useData()
+  const { toast } = useToast()
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [sort, setSort] = useState<ReviewSort>('newest')
+  const [loading, setLoading] = useState(true)
+  const [user, setUser] = useState<User | null>(null)
+  const [canReview, setCanReview] = useState(false)
+  const [ownReview, setOwnReview] = useState<Review | null>(null)
+  const [writing, setWriting] = useState(false)
+  const [voted, setVoted] = useState<string[]>([])
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true)
+    try {
+      const query: ReviewQuery = {
+        statuses: ['published'],
+        orderBy: REVIEW_SORTS[sort].orderBy,
+        limit: REVIEWS_PAGE_SIZE,
+        offset: (page - 1) * REVIEWS_PAGE_SIZE
+      }
+      const [found, count] = await Promise.all([
+        data.reviews.listByProduct(productId, query),
+        data.reviews.countByProduct(productId, { statuses: ['published'] })
+      ])
+      setReviews(found)
+      setTotal(count)
+    } catch (error) {
+      console.error('Failed to load reviews:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load reviews.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [data, productId, sort, page, toast])
+
+  // Whether this shopper may write a review, and what they already wrote or voted for
+  const loadShopper = useCallback(async () => {
+    try {
+      const me = await data.auth.current()
+      // Guests can read reviews but not write or vote
+      if (!me) return
+      const [eligible, existing, votedIds] = await Promise.all([
+        hasDeliveredPurchase(data, me.id, productId),
+        data.reviews.findByUser(productId, me.id),
+        data.reviews.listVotedReviewIds(productId, me.id)
+      ])
+      setUser(me)
+      setCanReview(eligible)
+      setOwnReview(existing)
+      setVoted(votedIds)
+    } catch (error) {
+      console.error('Failed to load review eligibility:', error)
+    }
+  }, [data, productId])
+
+  useEffect(() => {
+    loadReviews()
+  }, [loadReviews])
+
+  useEffect(() => {
+    loadShopper()
+  }, [loadShopper])
+
+  const handleSubmit = async (values: ReviewFormValues) => {
+    if (!user) return
+    try {
+      const review = await submitReview(data, user, productId, values)
+      toast({
+        title: ownReview ? "Review updated" : "Thanks for your review",
+        description: "Your review is now visible to other shoppers."
+      })
+      setOwnReview(review)
+      setWriting(false)
+      onRatingChange()
+      await loadReviews()
+    } catch (error) {
+      console.error('Failed to submit review:', error)
+      toast({
+        title: "Error",
+        description: error instanceof ReviewError ? error.message : "Failed to submit review.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleHelpful = async (review: Review) => {
+    if (!user) return
+    try {
+      const helpfulCount = await voteHelpful(data, review.id, user.id)
+      setVoted((current) => [...current, review.id])
+      setReviews((current) =>
+        current.map((candidate) => (candidate.id === review.id ? { ...candidate, helpfulCount } : candidate))
+      )
+    } catch (error) {
+      console.error('Failed to record helpful vote:', error)
+      toast({
+        title: "Error",
+        description: error instanceof ReviewError ? error.message : "Failed to record your vote.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / REVIEWS_PAGE_SIZE))
+
+  return (
+    <Card className="mt-12">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <div className="space-y-1">
+          <CardTitle>Customer reviews</CardTitle>
+          {summary.ratingCount ? (
+            <RatingBadge summary={summary} />
+          ) : (
+            <p className="text-sm text-gray-500">No reviews yet</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {total > 1 && (
+            <Select
+              value={sort}
+              onValueChange={(value) => {
+                setSort(value as ReviewSort)
+                setPage(1)
+              }}
+            >
+              <SelectTrigger className="w-44" aria-label="Sort reviews">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REVIEW_SORTS) as ReviewSort[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {REVIEW_SORTS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {canReview && !writing && (
+            <Button variant="outline" onClick={() => setWriting(true)}>
+              {ownReview ? 'Edit your review' : 'Write a review'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {writing && (
+          <div className="rounded-lg border p-4">
+            <ReviewForm existing={ownReview} onSubmit={handleSubmit} onCancel={() => setWriting(false)} />
+          </div>
+        )}
+        {ownReview?.status === 'hidden' && (
+          <p className="text-sm text-amber-700">Your review has been hidden by a moderator.</p>
+        )}
+
+        {loading && reviews.length === 0 ? (
+          <div className="space-y-4 animate-pulse">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-20 bg-gray-200 rounded" />
+            ))}
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-gray-600">
+            {canReview ? 'Be the first to review this product.' : 'Reviews come from shoppers whose order has been delivered.'}
+          </p>
+        ) : (
+          <ul className="divide-y" aria-label="Reviews">
+            {reviews.map((review) => {
+              const own = review.userId === user?.id
+              const hasVoted = voted.includes(review.id)
+              return (
+                <li key={review.id} className="py-4 first:pt-0">
+                  <div className="flex items-center gap-2">
+                    <StarRating rating={review.rating} />
+                    {review.title && <h4 className="font-semibold text-gray-900">{review.title}</h4>}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {review.authorName || 'Shopper'}
+                    {review.createdAt && ` · ${new Date(review.createdAt).toLocaleDateString()}`}
+                    {' · Verified purchase'}
+                  </p>
+                  <p className="text-gray-700 mt-2 whitespace-pre-line">{review.body}</p>
+                  <div className="flex items-center gap-3 mt-2 text-sm text-gray-500">
+                    {review.helpfulCount > 0 && (
+                      <span>
+                        {review.helpfulCount} {review.helpfulCount === 1 ? 'person' : 'people'} found this helpful
+                      </span>
+                    )}
+                    {user && !own && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={hasVoted}
+                        aria-label={`Mark review by ${review.authorName || 'Shopper'} as helpful`}
+                        onClick={() => handleHelpful(review)}
+                      >
+                        <ThumbsUp className="h-4 w-4 mr-1" />
+                        {hasVoted ? 'Thanks!' : 'Helpful'}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" disabled={page === 1 || loading} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page === pageCount || loading}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
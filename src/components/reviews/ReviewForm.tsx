@@ -0,0 +1,83 @@
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Textarea } from '../ui/textarea'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../ui/form'
+import { StarInput } from './StarRating'
+import { reviewFormSchema, toReviewFormValues, type ReviewFormValues } from './reviewFormSchema'
+import type { Review } from '../../domain'
+
+interface ReviewFormProps {
+  // The shopper's earlier review, which this form rewrites
+  existing: Review | null
+  onSubmit: (values: ReviewFormValues) => Promise<void>
+  onCancel?: () => void
+}
+
+export function ReviewForm({ existing, onSubmit, onCancel }: ReviewFormProps) {
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(reviewFormSchema),
+    defaultValues: toReviewFormValues(existing)
+  })
+  const { reset } = form
+
+  useEffect(() => {
+    reset(toReviewFormValues(existing))
+  }, [existing, reset])
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="rating"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Your rating</FormLabel>
+              <StarInput value={field.value} onChange={field.onChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input placeholder="Sum it up in a few words" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="body"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Review</FormLabel>
+              <FormControl>
+                <Textarea rows={4} placeholder="What did you like or dislike?" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? 'Submitting...' : existing ? 'Update review' : 'Submit review'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,66 @@
+import { Star } from 'lucide-react'
+import { cn } from '../../lib/utils'
+import { formatRating, type RatingSummary } from '../../domain'
+
+const STARS = [1, 2, 3, 4, 5]
+
+// Five stars filled to the nearest half
+export function StarRating({ rating, className }: { rating: number; className?: string }) {
+  const rounded = Math.round(rating * 2) / 2
+  return (
+    <span className={cn('inline-flex items-center', className)}>
+      <span className="sr-only">Rated {rating} out of 5</span>
+      {STARS.map((star) => (
+        <span key={star} className="relative h-4 w-4" aria-hidden="true">
+          <Star className="absolute inset-0 h-4 w-4 text-gray-300" />
+          {rounded >= star - 0.5 && (
+            <span className={cn('absolute inset-0 overflow-hidden', rounded < star && 'w-1/2')}>
+              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+            </span>
+          )}
+        </span>
+      ))}
+    </span>
+  )
+}
+
+// Stars, average and review count for product cards. Products nobody has
+// rated show nothing rather than zero stars.
+export function RatingBadge({ summary }: { summary: RatingSummary }) {
+  const average = formatRating(summary)
+  if (!average) return null
+  return (
+    <div className="flex items-center gap-1 text-sm text-gray-600">
+      <StarRating rating={summary.ratingAverage ?? 0} />
+      <span>{average}</span>
+      <span className="text-gray-400">({summary.ratingCount})</span>
+    </div>
+  )
+}
+
+interface StarInputProps {
+  value: number
+  onChange: (rating: number) => void
+}
+
+// Radio buttons drawn as stars, so keyboard and screen reader users pick a
+// rating the usual way
+export function StarInput({ value, onChange }: StarInputProps) {
+  return (
+    <div role="radiogroup" aria-label="Rating" className="flex gap-1">
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star > 1 ? 's' : ''}`}
+          onClick={() => onChange(star)}
+          className="rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+        >
+          <Star className={cn('h-6 w-6', star <= value ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300')} />
+        </button>
+      ))}
+    </div>
+  )
+}
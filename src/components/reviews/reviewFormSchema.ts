@@ -0,0 +1,19 @@
+import { z } from 'zod'
+import type { Review } from '../../domain'
+
+export const reviewFormSchema = z.object({
+  // 0 until a star is picked
+  rating: z.number().int().min(1, 'Choose a rating').max(5),
+  title: z.string().trim().max(120, 'Keep the title under 120 characters'),
+  body: z.string().trim().min(10, 'Tell other shoppers a little more (at least 10 characters)').max(4000)
+})
+
+export type ReviewFormValues = z.infer<typeof reviewFormSchema>
+
+export function toReviewFormValues(review?: Review | null): ReviewFormValues {
+  return {
+    rating: review?.rating ?? 0,
+    title: review?.title ?? '',
+    body: review?.body ?? ''
+  }
+}
@@ -0,0 +1,21 @@
+import type { TextSegment } from '../../search'
+
+interface HighlightedTextProps {
+  segments: TextSegment[]
+}
+
+export function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
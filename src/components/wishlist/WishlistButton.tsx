@@ -0,0 +1,31 @@
+import { Heart } from 'lucide-react'
+import { Button } from '../ui/button'
+import { cn } from '../../lib/utils'
+
+interface WishlistButtonProps {
+  productName: string
+  saved: boolean
+  onToggle: () => void
+  className?: string
+}
+
+// Heart toggle for product cards and the product page. Clicks stop here so a
+// card's own click handler does not open the product.
+export function WishlistButton({ productName, saved, onToggle, className }: WishlistButtonProps) {
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="icon"
+      aria-pressed={saved}
+      aria-label={saved ? `Remove ${productName} from wishlist` : `Save ${productName} to wishlist`}
+      onClick={(event) => {
+        event.stopPropagation()
+        onToggle()
+      }}
+      className={cn('rounded-full bg-white/90 hover:bg-white', className)}
+    >
+      <Heart className={cn('h-4 w-4', saved ? 'fill-red-500 text-red-500' : 'text-gray-600')} />
+    </Button>
+  )
+}
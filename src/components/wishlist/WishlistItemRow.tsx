@@ -0,0 +1,77 @@
+import { Link } from 'react-router-dom'
+import { ShoppingCart, Trash2 } from 'lucide-react'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Card, CardContent } from '../ui/card'
+import { routes } from '../../lib/routes'
+import { lineStock, lineUnitPrice, variantImage, variantLabel, type WishlistLine } from '../../domain'
+
+interface WishlistItemRowProps {
+  line: WishlistLine
+  busy: boolean
+  onMoveToCart: () => void
+  onRemove: () => void
+}
+
+// One saved product, shared by the wishlist page and the cart's "Saved for
+// later" list
+export function WishlistItemRow({ line, busy, onMoveToCart, onRemove }: WishlistItemRowProps) {
+  const price = lineUnitPrice(line)
+  const inStock = lineStock(line) > 0
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-center gap-4">
+          <Link to={routes.productDetail(line.productId)} className="w-20 h-20 flex-shrink-0">
+            <img
+              src={variantImage(line.product, line.variant)}
+              alt={line.product.name}
+              className="w-full h-full object-cover rounded"
+            />
+          </Link>
+
+          <div className="flex-1 min-w-0">
+            <Link to={routes.productDetail(line.productId)} className="hover:underline">
+              <h3 className="text-lg font-semibold text-gray-900 truncate">{line.product.name}</h3>
+            </Link>
+            {line.variant && <p className="text-sm text-gray-600 truncate">{variantLabel(line.variant)}</p>}
+            <div className="flex flex-wrap items-center gap-2 mt-1">
+              <span className="text-lg font-bold text-blue-600">${price.toFixed(2)}</span>
+              {price < line.savedPrice && (
+                <>
+                  <span className="text-sm text-gray-400 line-through">${line.savedPrice.toFixed(2)}</span>
+                  <Badge className="bg-green-600">Price dropped</Badge>
+                </>
+              )}
+              {!inStock && <Badge variant="secondary">Out of stock</Badge>}
+              {line.quantity > 1 && <span className="text-sm text-gray-500">Qty {line.quantity}</span>}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              onClick={onMoveToCart}
+              disabled={busy || !inStock}
+              aria-label={`Move ${line.product.name} to cart`}
+            >
+              <ShoppingCart className="h-4 w-4 mr-1" />
+              Move to cart
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              disabled={busy}
+              aria-label={`Remove ${line.product.name} from wishlist`}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react'
+import { ToastAction } from '../ui/toast'
+import { useToast } from '../../hooks/use-toast'
+import { useAppNavigate } from '../../hooks/use-app-navigate'
+import { useData } from '../../data'
+import { collectWishlistNotices, type WishlistNotice } from '../../services/wishlist'
+
+function describeNotice({ line, alerts }: WishlistNotice) {
+  const parts = alerts.map((alert) =>
+    alert.kind === 'price_drop'
+      ? `dropped from $${alert.previousPrice.toFixed(2)} to $${alert.price.toFixed(2)}`
+      : 'is back in stock'
+  )
+  return `${line.product.name} ${parts.join(' and ')}.`
+}
+
+// Checks the shopper's wishlist once per sign-in and announces price drops
+// and restocks. Only one toast shows at a time, so several changes are
+// summed up in one.
+export function WishlistNotifier({ userId }: { userId: string }) {
+  const data = useData()
+  const { toast } = useToast()
+  const navigate = useAppNavigate()
+  // Checking marks changes as seen, so it must not run twice for one user
+  const checkedFor = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (checkedFor.current === userId) return
+    checkedFor.current = userId
+    collectWishlistNotices(data, userId)
+      .then((notices) => {
+        if (notices.length === 0) return
+        toast({
+          title: notices.length === 1 ? "Wishlist update" : `${notices.length} wishlist updates`,
+          description: notices.length === 1
+            ? describeNotice(notices[0])
+            : "Some items on your wishlist are cheaper or back in stock.",
+          action: (
+            <ToastAction altText="View wishlist" onClick={() => navigate('wishlist')}>
+              View
+            </ToastAction>
+          )
+        })
+      })
+      .catch((error) => {
+        console.error('Failed to check wishlist:', error)
+      })
+  }, [data, userId, toast, navigate])
+
+  return null
+}
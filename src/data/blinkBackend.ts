@@ -0,0 +1,589 @@
+import type { BlinkClient } from '@blinkdotnew/sdk'
+import {
+  parseCartItem,
+  parseCategories,
+  parseCategory,
+  parseCartItems,
+  parseOrder,
+  parseOrderItems,
+  parseOrderLookupCode,
+  parseOrders,
+  parsePayment,
+  parsePayments,
+  parseProduct,
+  parseProductFacetFields,
+  parseProducts,
+  parseProductSearchFields,
+  parseRefund,
+  parseRefunds,
+  parseReview,
+  parseReviews,
+  parseReviewVotes,
+  parseSavedAddress,
+  parseSavedAddresses,
+  parseUser,
+  parseVariant,
+  parseVariants,
+  parseWishlistItem,
+  parseWishlistItems,
+  userRoleSchema,
+  type CartItem,
+  type Order,
+  type OrderItem,
+  type PaymentChanges,
+  type Product,
+  type ProductSearchFields,
+  type ProductVariant,
+  type Refund,
+  type User
+} from '../domain'
+import { createUnconfiguredProvider, type PaymentProvider } from '../payments'
+import type { SearchIndex } from '../search'
+import { createGuestCart } from './guestCart'
+import { defaultStorage } from './memoryTable'
+import { RATING_THRESHOLDS, computeFacets, countUnitsSold, matchesProductQuery, pageOf, sortProducts } from './productQuery'
+import { createProductSearchIndex, orderSearchHits, toProductSearchHit } from './productSearch'
+import type { DataBackend, OrderQuery, ProductFacets, ProductQuery, ReviewQuery } from './types'
+
+// How long a search index built from the catalog is reused. Writes made
+// through this backend rebuild it sooner; other admins' edits show up
+// within this window.
+const SEARCH_INDEX_TTL_MS = 60_000
+// Likewise for the units-sold totals behind the best-selling sort
+const UNITS_SOLD_TTL_MS = 60_000
+
+// Blink stores nested lists and records as JSON text
+function toOrderRow<T extends Partial<Order>>(order: T) {
+  const row: Record<string, unknown> = { ...order }
+  if (order.statusHistory) row.statusHistory = JSON.stringify(order.statusHistory)
+  if (order.shipTo) row.shipTo = JSON.stringify(order.shipTo)
+  return row
+}
+
+function toProductRow<T extends Partial<Product>>(product: T) {
+  const row: Record<string, unknown> = { ...product }
+  if (product.attributes) row.attributes = JSON.stringify(product.attributes)
+  if (product.options) row.options = JSON.stringify(product.options)
+  if (product.images) row.images = JSON.stringify(product.images)
+  return row
+}
+
+function toVariantRow<T extends Partial<ProductVariant>>(variant: T) {
+  // Clearing a price override needs an explicit null; Blink keeps the old
+  // value for undefined fields
+  const row: Record<string, unknown> = { ...variant }
+  if (variant.options) row.options = JSON.stringify(variant.options)
+  if ('price' in variant) row.price = variant.price ?? null
+  return row
+}
+
+// Clearing a failure message needs an explicit null, like variant prices
+function toPaymentRow(changes: PaymentChanges) {
+  const row: Record<string, unknown> = { ...changes }
+  if ('failureMessage' in changes) row.failureMessage = changes.failureMessage ?? null
+  return row
+}
+
+function toRefundRow(refund: Refund) {
+  return { ...refund, lines: JSON.stringify(refund.lines) }
+}
+
+const hasAttributeFilters = (query: ProductQuery) =>
+  Object.values(query.attributes ?? {}).some((values) => values.length > 0)
+
+// Columns the facets are counted over and the search index covers
+const FACET_COLUMNS = ['id', 'price', 'stockQuantity', 'ratingAverage', 'brand', 'attributes']
+const SEARCH_COLUMNS = ['id', 'name', 'description', 'brand', 'category']
+
+// Everything but attributes, which live in a JSON column and are matched
+// after fetching
+function productFilter(query: ProductQuery) {
+  const where: Record<string, unknown> = {}
+  if (query.categories) where.category = { in: query.categories }
+  // The archived column defaults to 0, so rows created before it existed match
+  if (!query.includeArchived) where.archived = false
+  const price: Record<string, number> = {}
+  if (query.priceMin !== undefined) price.gte = query.priceMin
+  if (query.priceMax !== undefined) price.lte = query.priceMax
+  if (Object.keys(price).length > 0) where.price = price
+  if (query.inStock) where.stockQuantity = { gt: 0 }
+  if (query.minRating !== undefined) where.ratingAverage = { gte: query.minRating }
+  if (query.brands && query.brands.length > 0) where.brand = { in: query.brands }
+  return where
+}
+
+// Blink ANDs the top-level fields of a filter together
+function orderFilter(query: OrderQuery) {
+  const where: Record<string, unknown> = {}
+  if (query.statuses && query.statuses.length > 0) where.status = { in: query.statuses }
+  // Operators with undefined values would be sent as the literal "undefined"
+  const createdAt: Record<string, string> = {}
+  if (query.createdFrom) createdAt.gte = query.createdFrom
+  if (query.createdTo) createdAt.lte = query.createdTo
+  if (Object.keys(createdAt).length > 0) where.createdAt = createdAt
+  if (query.customer?.trim()) where.customerEmail = { ilike: `%${query.customer.trim()}%` }
+  return where
+}
+
+function reviewFilter(query: ReviewQuery, where: Record<string, unknown> = {}) {
+  return query.statuses ? { ...where, status: { in: query.statuses } } : where
+}
+
+function reviewOrder(query: ReviewQuery): Record<string, 'asc' | 'desc'> {
+  const { field, direction } = query.orderBy ?? { field: 'createdAt', direction: 'desc' }
+  return field === 'createdAt' ? { createdAt: direction } : { [field]: direction, createdAt: 'desc' }
+}
+
+interface UserRoleRow {
+  id: string
+  userId: string
+  role: string
+}
+
+export interface BlinkBackendOptions {
+  // Where the guest cart is kept; defaults to localStorage
+  storage?: Storage | null
+  // Defaults to none, which turns checkout off. The mock gateway keeps its
+  // intents in one browser, so it is only used here when passed in.
+  paymentProvider?: PaymentProvider
+}
+
+export function createBlinkBackend(client: BlinkClient, options: BlinkBackendOptions = {}): DataBackend {
+  const storage = options.storage === undefined ? defaultStorage() : options.storage
+  const products = client.db.table<Record<string, unknown>>('products')
+  const productVariants = client.db.table<Record<string, unknown>>('productVariants')
+  const categories = client.db.table<Record<string, unknown>>('categories')
+  const cartItems = client.db.table<CartItem>('cartItems')
+  const wishlistItems = client.db.table<Record<string, unknown>>('wishlistItems')
+  const addresses = client.db.table<Record<string, unknown>>('addresses')
+  const orders = client.db.table<Record<string, unknown>>('orders')
+  const orderItems = client.db.table<OrderItem>('orderItems')
+  const orderLookupCodes = client.db.table<Record<string, unknown>>('orderLookupCodes')
+  const payments = client.db.table<Record<string, unknown>>('payments')
+  const refunds = client.db.table<Record<string, unknown>>('refunds')
+  const userRoles = client.db.table<UserRoleRow>('userRoles')
+  const reviews = client.db.table<Record<string, unknown>>('reviews')
+  const reviewVotes = client.db.table<Record<string, unknown>>('reviewVotes')
+
+  // Blink users carry no role, so grants live in their own table. Anyone
+  // without a row (or with an unknown role) is an ordinary shopper.
+  const withRole = async (raw: unknown): Promise<User> => {
+    const user = parseUser(raw)
+    const rows = await userRoles.list({ where: { userId: user.id }, limit: 1 })
+    const role = userRoleSchema.safeParse(rows[0]?.role)
+    return role.success ? { ...user, role: role.data } : user
+  }
+
+  // Blink has no full-text search, so the catalog is indexed on this side
+  let searchIndex: { index: SearchIndex<ProductSearchFields>; builtAt: number } | null = null
+  const invalidateSearchIndex = () => {
+    searchIndex = null
+  }
+  const productSearchIndex = async () => {
+    if (searchIndex && Date.now() - searchIndex.builtAt < SEARCH_INDEX_TTL_MS) return searchIndex.index
+    const [productRows, categoryRows] = await Promise.all([products.list({ select: SEARCH_COLUMNS }), categories.list()])
+    const index = createProductSearchIndex(parseProductSearchFields(productRows), parseCategories(categoryRows))
+    searchIndex = { index, builtAt: Date.now() }
+    return index
+  }
+
+  // Units sold are not a column, so best-selling order totals every order
+  // line, less what was refunded, on this side
+  let unitsSold: { units: Map<string, number>; builtAt: number } | null = null
+  const invalidateUnitsSold = () => {
+    unitsSold = null
+  }
+  const unitsSoldFor = async (query: ProductQuery) => {
+    if (query.orderBy?.field !== 'unitsSold') return undefined
+    if (unitsSold && Date.now() - unitsSold.builtAt < UNITS_SOLD_TTL_MS) return unitsSold.units
+    const [orderRows, itemRows, refundRows] = await Promise.all([orders.list(), orderItems.list(), refunds.list()])
+    const units = countUnitsSold(parseOrders(orderRows), parseOrderItems(itemRows), parseRefunds(refundRows))
+    unitsSold = { units, builtAt: Date.now() }
+    return units
+  }
+
+  const listProducts = async (query: ProductQuery) => {
+    // Attribute filters and the best-selling sort run after fetching, and
+    // paging has to wait for them
+    const filterAfter = hasAttributeFilters(query)
+    const sortAfter = query.orderBy?.field === 'unitsSold'
+    const pageAfter = filterAfter || sortAfter
+    const rows = parseProducts(await products.list({
+      where: productFilter(query),
+      orderBy: query.orderBy && !sortAfter ? { [query.orderBy.field]: query.orderBy.direction } : undefined,
+      limit: pageAfter ? undefined : query.limit,
+      offset: pageAfter ? undefined : query.offset
+    }))
+    if (!pageAfter) return rows
+    const matching = filterAfter ? rows.filter((product) => matchesProductQuery(product, query)) : rows
+    return pageOf(sortProducts(matching, (product) => product, query.orderBy, await unitsSoldFor(query)), query)
+  }
+
+  const searchProducts = async (text: string, query: ProductQuery) => {
+    const matches = (await productSearchIndex()).search(text)
+    if (matches.length === 0) return []
+    // Price, stock and archiving change more often than the index is
+    // rebuilt, so matches are re-read before filtering and display
+    const current = new Map(
+      parseProducts(await products.list({ where: { id: { in: matches.map((match) => match.doc.id) } } }))
+        .map((product) => [product.id, product])
+    )
+    const hits = matches.flatMap((match) => {
+      const product = current.get(match.doc.id)
+      return product && matchesProductQuery(product, query) ? [toProductSearchHit({ ...match, doc: product })] : []
+    })
+    return orderSearchHits(hits, query, await unitsSoldFor(query))
+  }
+
+  // Price range, stock and rating counts come from count queries, each
+  // leaving out the filter it counts. Brands and attributes need their
+  // values, so only those columns are fetched. Attribute filters cannot be
+  // expressed as a Blink filter, so with any set everything is counted here
+  // over the facet columns of the category.
+  const catalogFacets = async (query: ProductQuery): Promise<ProductFacets> => {
+    const scope = { categories: query.categories, includeArchived: query.includeArchived }
+    if (hasAttributeFilters(query)) {
+      const rows = await products.list({ where: productFilter(scope), select: FACET_COLUMNS })
+      return computeFacets(parseProductFacetFields(rows), query)
+    }
+
+    const where = (filters: ProductQuery) => productFilter({ ...query, ...filters })
+    const unpriced = where({ priceMin: undefined, priceMax: undefined })
+    const priceAt = async (direction: 'asc' | 'desc') => {
+      const rows = parseProductFacetFields(
+        await products.list({ where: unpriced, orderBy: { price: direction }, limit: 1, select: FACET_COLUMNS })
+      )
+      return rows[0]?.price ?? 0
+    }
+    const [min, max, inStock, ratings, valueRows] = await Promise.all([
+      priceAt('asc'),
+      priceAt('desc'),
+      products.count({ where: where({ inStock: true }) }),
+      Promise.all(RATING_THRESHOLDS.map(async (rating) => ({
+        rating,
+        count: await products.count({ where: where({ minRating: rating }) })
+      }))),
+      products.list({ where: where({ brands: undefined }), select: FACET_COLUMNS })
+    ])
+    // The rows leave out the brand filter so every brand is counted; the
+    // other filters are already applied
+    const { brands, attributes } = computeFacets(parseProductFacetFields(valueRows), { brands: query.brands })
+    return { price: { min, max }, inStock, ratings, brands, attributes }
+  }
+
+  return {
+    auth: {
+      onAuthStateChanged: (callback) => {
+        // Role lookups are async; only the newest auth event may report back
+        let latest = 0
+        return client.auth.onAuthStateChanged((state) => {
+          const event = ++latest
+          if (!state.user) {
+            callback({ user: null, isLoading: state.isLoading })
+            return
+          }
+          withRole(state.user)
+            .catch((error) => {
+              console.error('Failed to load user role:', error)
+              return parseUser(state.user)
+            })
+            .then((user) => {
+              if (event === latest) callback({ user, isLoading: state.isLoading })
+            })
+        })
+      },
+      me: async () => withRole(await client.auth.me()),
+      current: async () => (client.auth.isAuthenticated() ? withRole(await client.auth.me()) : null),
+      login: () => client.auth.login(),
+      logout: () => client.auth.logout()
+    },
+
+    products: {
+      list: (query = {}) => listProducts(query),
+      search: (text, query = {}) => searchProducts(text, query),
+      async count(query = {}, text) {
+        const unpaged = { ...query, limit: undefined, offset: undefined }
+        if (text?.trim()) return (await searchProducts(text, unpaged)).length
+        if (hasAttributeFilters(query)) return (await listProducts(unpaged)).length
+        return products.count({ where: productFilter(query) })
+      },
+      async facets(query = {}, text) {
+        if (!text?.trim()) return catalogFacets(query)
+        const scope = { categories: query.categories, includeArchived: query.includeArchived }
+        return computeFacets((await searchProducts(text, scope)).map((hit) => hit.product), query)
+      },
+      async get(id) {
+        const rows = await products.list({ where: { id } })
+        return rows.length > 0 ? parseProduct(rows[0]) : null
+      },
+      async create(product) {
+        invalidateSearchIndex()
+        return parseProduct(await products.create(toProductRow(product)))
+      },
+      async update(id, changes) {
+        invalidateSearchIndex()
+        await products.update(id, toProductRow(changes))
+      },
+      async updateStock(id, stockQuantity) {
+        await products.update(id, { stockQuantity })
+      }
+    },
+
+    variants: {
+      async listByProduct(productId) {
+        return parseVariants(await productVariants.list({ where: { productId }, orderBy: { position: 'asc' } }))
+      },
+      async get(id) {
+        const rows = await productVariants.list({ where: { id } })
+        return rows.length > 0 ? parseVariant(rows[0]) : null
+      },
+      async create(variant) {
+        return parseVariant(await productVariants.create(toVariantRow(variant)))
+      },
+      async update(id, changes) {
+        await productVariants.update(id, toVariantRow(changes))
+      },
+      async updateStock(id, stockQuantity) {
+        await productVariants.update(id, { stockQuantity })
+      },
+      async remove(id) {
+        await productVariants.delete(id)
+      }
+    },
+
+    categories: {
+      async list() {
+        return parseCategories(await categories.list({ orderBy: { sortOrder: 'asc', name: 'asc' } }))
+      },
+      async get(id) {
+        const rows = await categories.list({ where: { id } })
+        return rows.length > 0 ? parseCategory(rows[0]) : null
+      },
+      async create(category) {
+        invalidateSearchIndex()
+        return parseCategory(await categories.create(category))
+      },
+      async update(id, changes) {
+        invalidateSearchIndex()
+        // Blink keeps the old value for undefined fields, so clearing a parent needs an explicit null
+        await categories.update(id, 'parentId' in changes ? { ...changes, parentId: changes.parentId ?? null } : changes)
+      },
+      async remove(id) {
+        invalidateSearchIndex()
+        await categories.delete(id)
+      }
+    },
+
+    cart: {
+      async listByUser(userId) {
+        return parseCartItems(await cartItems.list({ where: { userId } }))
+      },
+      async findByProduct(userId, productId, variantId) {
+        // Lines without a variant hold null, which a filter cannot match on
+        const rows = parseCartItems(await cartItems.list({ where: { userId, productId } }))
+        return rows.find((item) => item.variantId === variantId) ?? null
+      },
+      async add(item) {
+        return parseCartItem(await cartItems.create(item))
+      },
+      async updateQuantity(id, quantity) {
+        await cartItems.update(id, { quantity })
+      },
+      async remove(id) {
+        await cartItems.delete(id)
+      }
+    },
+
+    guestCart: createGuestCart(storage),
+
+    wishlist: {
+      async listByUser(userId) {
+        return parseWishlistItems(await wishlistItems.list({ where: { userId }, orderBy: { createdAt: 'desc' } }))
+      },
+      async findByProduct(userId, productId, variantId) {
+        // Items without a variant hold null, which a filter cannot match on
+        const rows = parseWishlistItems(await wishlistItems.list({ where: { userId, productId } }))
+        return rows.find((item) => item.variantId === variantId) ?? null
+      },
+      async add(item) {
+        return parseWishlistItem(await wishlistItems.create(item))
+      },
+      async update(id, changes) {
+        await wishlistItems.update(id, changes)
+      },
+      async remove(id) {
+        await wishlistItems.delete(id)
+      }
+    },
+
+    addresses: {
+      async listByUser(userId) {
+        return parseSavedAddresses(await addresses.list({ where: { userId }, orderBy: { isDefault: 'desc', createdAt: 'desc' } }))
+      },
+      async create(address) {
+        return parseSavedAddress(await addresses.create(address))
+      },
+      async update(id, changes) {
+        await addresses.update(id, changes)
+      },
+      async remove(id) {
+        await addresses.delete(id)
+      }
+    },
+
+    orders: {
+      async get(id) {
+        const rows = await orders.list({ where: { id } })
+        return rows.length > 0 ? parseOrder(rows[0]) : null
+      },
+      async listByUser(userId) {
+        return parseOrders(await orders.list({ where: { userId }, orderBy: { createdAt: 'desc' } }))
+      },
+      async list(query = {}) {
+        return parseOrders(await orders.list({
+          where: orderFilter(query),
+          orderBy: { createdAt: 'desc' },
+          limit: query.limit,
+          offset: query.offset
+        }))
+      },
+      async count(query = {}) {
+        return orders.count({ where: orderFilter(query) })
+      },
+      async listItems(orderId) {
+        return parseOrderItems(await orderItems.list({ where: { orderId } }))
+      },
+      async create(order) {
+        return parseOrder(await orders.create(toOrderRow(order)))
+      },
+      async updateStatus(id, change) {
+        invalidateUnitsSold()
+        await orders.update(id, toOrderRow(change))
+      },
+      async setStockReleased(id, released) {
+        await orders.update(id, { stockReleased: released })
+      },
+      async addItems(items) {
+        invalidateUnitsSold()
+        return parseOrderItems(await orderItems.createMany(items))
+      },
+      async remove(id) {
+        invalidateUnitsSold()
+        await orders.delete(id)
+      },
+      async removeItems(orderId) {
+        invalidateUnitsSold()
+        await orderItems.deleteMany({ where: { orderId } })
+      }
+    },
+
+    orderLookupCodes: {
+      async findByOrder(orderId) {
+        const rows = await orderLookupCodes.list({ where: { orderId }, orderBy: { createdAt: 'desc' }, limit: 1 })
+        return rows.length > 0 ? parseOrderLookupCode(rows[0]) : null
+      },
+      async create(code) {
+        await orderLookupCodes.create(code)
+      },
+      async update(id, changes) {
+        await orderLookupCodes.update(id, changes)
+      },
+      async remove(id) {
+        await orderLookupCodes.delete(id)
+      }
+    },
+
+    payments: {
+      async listByOrder(orderId) {
+        return parsePayments(await payments.list({ where: { orderId }, orderBy: { createdAt: 'asc' } }))
+      },
+      async findByIntent(intentId) {
+        const rows = await payments.list({ where: { intentId }, limit: 1 })
+        return rows.length > 0 ? parsePayment(rows[0]) : null
+      },
+      async create(payment) {
+        return parsePayment(await payments.create(payment))
+      },
+      async update(id, changes) {
+        await payments.update(id, toPaymentRow(changes))
+      }
+    },
+
+    paymentProvider: options.paymentProvider ?? createUnconfiguredProvider(),
+
+    refunds: {
+      async listByOrder(orderId) {
+        return parseRefunds(await refunds.list({ where: { orderId }, orderBy: { createdAt: 'asc' } }))
+      },
+      async create(refund) {
+        invalidateUnitsSold()
+        return parseRefund(await refunds.create(toRefundRow(refund)))
+      }
+    },
+
+    reviews: {
+      async listByProduct(productId, query = {}) {
+        return parseReviews(await reviews.list({
+          where: reviewFilter(query, { productId }),
+          orderBy: reviewOrder(query),
+          limit: query.limit,
+          offset: query.offset
+        }))
+      },
+      async countByProduct(productId, query = {}) {
+        return reviews.count({ where: reviewFilter(query, { productId }) })
+      },
+      async list(query = {}) {
+        return parseReviews(await reviews.list({
+          where: reviewFilter(query),
+          orderBy: reviewOrder(query),
+          limit: query.limit,
+          offset: query.offset
+        }))
+      },
+      async count(query = {}) {
+        return reviews.count({ where: reviewFilter(query) })
+      },
+      async get(id) {
+        const rows = await reviews.list({ where: { id } })
+        return rows.length > 0 ? parseReview(rows[0]) : null
+      },
+      async findByUser(productId, userId) {
+        const rows = await reviews.list({ where: { productId, userId }, limit: 1 })
+        return rows.length > 0 ? parseReview(rows[0]) : null
+      },
+      async create(review) {
+        return parseReview(await reviews.create(review))
+      },
+      async update(id, changes) {
+        await reviews.update(id, changes)
+      },
+      async remove(id) {
+        await reviews.delete(id)
+      },
+      async listVotedReviewIds(productId, userId) {
+        return parseReviewVotes(await reviewVotes.list({ where: { productId, userId } })).map((vote) => vote.reviewId)
+      },
+      async addVote(vote) {
+        await reviewVotes.create(vote)
+      },
+      async removeVotes(reviewId) {
+        await reviewVotes.deleteMany({ where: { reviewId } })
+      }
+    },
+
+    media: {
+      async upload(file, path) {
+        const { publicUrl } = await client.storage.upload(file, path, { upsert: true })
+        return publicUrl
+      }
+    },
+
+    mail: {
+      async send(message) {
+        const { success } = await client.notifications.email(message)
+        if (!success) throw new Error(`Mail to ${message.to} was not accepted`)
+      }
+    }
+  }
+}
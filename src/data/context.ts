@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react'
+import type { DataBackend } from './types'
+
+export const DataContext = createContext<DataBackend | null>(null)
+
+export function useData(): DataBackend {
+  const backend = useContext(DataContext)
+  if (!backend) {
+    throw new Error('useData must be used inside <DataContext.Provider>')
+  }
+  return backend
+}
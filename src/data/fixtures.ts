@@ -0,0 +1,267 @@
+import type { Address, Category, Product, ProductVariant, User } from '../domain'
+
+// Seed data for the in-memory backend: enough of a catalog to exercise every
+// category (including a subcategory), an out-of-stock item, a low-stock item
+// and a product sold in variants.
+
+export const fixtureUser: User = {
+  id: 'user_local',
+  email: 'shopper@example.com',
+  displayName: 'Local Shopper'
+}
+
+export const fixtureAddress: Address = {
+  fullName: 'Local Shopper',
+  line1: '1 Main St',
+  line2: '',
+  city: 'Springfield',
+  region: 'IL',
+  postalCode: '62701',
+  country: 'US',
+  phone: ''
+}
+
+export const fixtureCategories: Category[] = [
+  {
+    id: 'cat_electronics',
+    slug: 'electronics',
+    name: 'Electronics',
+    icon: 'smartphone',
+    color: 'blue',
+    description: 'Gadgets, audio and wearables',
+    sortOrder: 1
+  },
+  {
+    id: 'cat_audio',
+    slug: 'audio',
+    name: 'Audio',
+    icon: 'headphones',
+    color: 'blue',
+    description: 'Headphones and speakers',
+    sortOrder: 1,
+    parentId: 'cat_electronics'
+  },
+  {
+    id: 'cat_clothing',
+    slug: 'clothing',
+    name: 'Clothing',
+    icon: 'shirt',
+    color: 'purple',
+    description: 'Everyday wear and outerwear',
+    sortOrder: 2
+  },
+  {
+    id: 'cat_home_garden',
+    slug: 'home-garden',
+    name: 'Home & Garden',
+    icon: 'home',
+    color: 'green',
+    description: 'Planters, tools and decor',
+    sortOrder: 3
+  },
+  {
+    id: 'cat_sports',
+    slug: 'sports',
+    name: 'Sports',
+    icon: 'dumbbell',
+    color: 'orange',
+    description: 'Gear for training and play',
+    sortOrder: 4
+  }
+]
+
+export const fixtureProducts: Product[] = [
+  {
+    id: 'prod_headphones',
+    name: 'Wireless Headphones',
+    description: 'Over-ear noise cancelling headphones with 30 hour battery life.',
+    price: 129.99,
+    imageUrl: 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=800',
+    category: 'audio',
+    brand: 'Sonora',
+    attributes: { Colour: 'Black', Connectivity: 'Bluetooth' },
+    options: [],
+    images: [
+      {
+        url: 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=800',
+        alt: 'Black over-ear headphones on a yellow background'
+      },
+      {
+        url: 'https://images.unsplash.com/photo-1484704849700-f032a568e944?w=800',
+        alt: 'Headphones folded flat beside a laptop'
+      }
+    ],
+    stockQuantity: 25,
+    ratingAverage: 4.5,
+    ratingCount: 28,
+    createdAt: '2024-01-10T09:00:00.000Z'
+  },
+  {
+    id: 'prod_smartwatch',
+    name: 'Fitness Smartwatch',
+    description: 'Heart rate, sleep and GPS tracking in a lightweight aluminium case.',
+    price: 199.5,
+    imageUrl: 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=800',
+    category: 'electronics',
+    brand: 'Pulse',
+    attributes: { Colour: 'Silver', Connectivity: 'Bluetooth' },
+    options: [],
+    images: [],
+    stockQuantity: 3,
+    ratingAverage: 4.1,
+    ratingCount: 12,
+    createdAt: '2024-02-01T09:00:00.000Z'
+  },
+  {
+    id: 'prod_denim_jacket',
+    name: 'Denim Jacket',
+    description: 'Classic fit jacket in washed organic cotton denim.',
+    price: 79,
+    imageUrl: 'https://images.unsplash.com/photo-1551537482-f2075a1d41f2?w=800',
+    category: 'clothing',
+    brand: 'Northline',
+    attributes: { Colour: 'Blue', Material: 'Cotton' },
+    options: [
+      { name: 'Colour', values: ['Blue', 'Black'] },
+      { name: 'Size', values: ['S', 'M', 'L'] }
+    ],
+    images: [
+      {
+        url: 'https://images.unsplash.com/photo-1551537482-f2075a1d41f2?w=800',
+        alt: 'Blue denim jacket on a hanger'
+      },
+      {
+        url: 'https://images.unsplash.com/photo-1576995853123-5a10305d93c0?w=800',
+        alt: 'Denim jacket worn open over a white tee'
+      },
+      {
+        url: 'https://images.unsplash.com/photo-1601333144130-8cbb312386b6?w=800',
+        alt: 'Close-up of the copper buttons and chest pocket'
+      }
+    ],
+    stockQuantity: 12,
+    ratingAverage: 4.7,
+    ratingCount: 9,
+    createdAt: '2024-01-20T09:00:00.000Z'
+  },
+  {
+    id: 'prod_running_tee',
+    name: 'Running Tee',
+    description: 'Breathable quick-dry shirt for long runs.',
+    price: 24.99,
+    imageUrl: 'https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=800',
+    category: 'clothing',
+    brand: 'Stride',
+    attributes: { Colour: 'Black', Material: 'Polyester' },
+    options: [],
+    images: [],
+    stockQuantity: 0,
+    ratingAverage: 3.8,
+    ratingCount: 5,
+    createdAt: '2024-03-05T09:00:00.000Z'
+  },
+  {
+    id: 'prod_planter',
+    name: 'Ceramic Planter',
+    description: 'Hand glazed planter with drainage tray, suits indoor plants.',
+    price: 34.5,
+    imageUrl: 'https://images.unsplash.com/photo-1485955900006-10f4d324d411?w=800',
+    category: 'home-garden',
+    brand: 'Terra & Co',
+    attributes: { Colour: 'White', Material: 'Ceramic' },
+    options: [],
+    images: [],
+    stockQuantity: 40,
+    ratingAverage: 4.3,
+    ratingCount: 17,
+    createdAt: '2024-02-14T09:00:00.000Z'
+  },
+  {
+    id: 'prod_garden_tools',
+    name: 'Garden Tool Set',
+    description: 'Trowel, fork and pruners with ash wood handles.',
+    price: 49.99,
+    imageUrl: 'https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=800',
+    category: 'home-garden',
+    brand: 'Terra & Co',
+    attributes: { Material: 'Ash wood' },
+    options: [],
+    images: [],
+    stockQuantity: 8,
+    ratingAverage: 4,
+    ratingCount: 6,
+    createdAt: '2024-01-02T09:00:00.000Z'
+  },
+  {
+    id: 'prod_yoga_mat',
+    name: 'Yoga Mat',
+    description: 'Non-slip 6mm mat with carry strap.',
+    price: 39,
+    imageUrl: 'https://images.unsplash.com/photo-1601925260368-ae2f83cf8b7f?w=800',
+    category: 'sports',
+    brand: 'Stride',
+    attributes: { Colour: 'Purple', Material: 'TPE' },
+    options: [],
+    images: [],
+    stockQuantity: 30,
+    ratingAverage: 4.6,
+    ratingCount: 31,
+    createdAt: '2024-03-01T09:00:00.000Z'
+  },
+  {
+    id: 'prod_football',
+    name: 'Match Football',
+    description: 'Size 5 thermally bonded match ball.',
+    price: 29.95,
+    imageUrl: 'https://images.unsplash.com/photo-1614632537190-23e4146777db?w=800',
+    category: 'sports',
+    brand: 'Kickline',
+    attributes: { Material: 'Polyurethane' },
+    options: [],
+    images: [],
+    stockQuantity: 15,
+    createdAt: '2024-02-20T09:00:00.000Z'
+  }
+]
+
+// The denim jacket in colours and sizes. Black only comes in M, which is sold
+// out, and L costs more.
+export const fixtureVariants: ProductVariant[] = [
+  {
+    id: 'var_denim_blue_s',
+    productId: 'prod_denim_jacket',
+    sku: 'NL-DJ-BLU-S',
+    options: { Colour: 'Blue', Size: 'S' },
+    stockQuantity: 4,
+    imageUrl: '',
+    position: 0
+  },
+  {
+    id: 'var_denim_blue_m',
+    productId: 'prod_denim_jacket',
+    sku: 'NL-DJ-BLU-M',
+    options: { Colour: 'Blue', Size: 'M' },
+    stockQuantity: 5,
+    imageUrl: '',
+    position: 1
+  },
+  {
+    id: 'var_denim_blue_l',
+    productId: 'prod_denim_jacket',
+    sku: 'NL-DJ-BLU-L',
+    options: { Colour: 'Blue', Size: 'L' },
+    price: 84,
+    stockQuantity: 3,
+    imageUrl: '',
+    position: 2
+  },
+  {
+    id: 'var_denim_black_m',
+    productId: 'prod_denim_jacket',
+    sku: 'NL-DJ-BLK-M',
+    options: { Colour: 'Black', Size: 'M' },
+    stockQuantity: 0,
+    imageUrl: 'https://images.unsplash.com/photo-1543076447-215ad9ba6923?w=800',
+    position: 3
+  }
+]
@@ -0,0 +1,39 @@
+import { parseCartItems, type User } from '../domain'
+import { MemoryTable } from './memoryTable'
+import type { CartRepository, DataBackend } from './types'
+
+// Owner id on guest cart lines; they never reach the backend under it
+export const GUEST_CART_OWNER = 'guest'
+
+// The cart of a visitor who has not signed in, kept in this browser. Lines
+// move into the account's cart on sign-in.
+export function createGuestCart(storage: Storage | null): CartRepository {
+  const items = new MemoryTable('guestCart', storage, parseCartItems([]))
+  const now = () => new Date().toISOString()
+
+  return {
+    async listByUser() {
+      return items.all()
+    },
+    async findByProduct(_userId, productId, variantId) {
+      return items.where((item) => item.productId === productId && item.variantId === variantId)[0] ?? null
+    },
+    async add(item) {
+      return items.insert({ ...item, userId: GUEST_CART_OWNER, createdAt: now() })
+    },
+    async updateQuantity(id, quantity) {
+      items.update(id, { quantity, updatedAt: now() })
+    },
+    async remove(id) {
+      items.delete(id)
+    }
+  }
+}
+
+// The cart the shopper is filling: their account's once signed in, this
+// browser's guest cart before that
+export function shopperCart(backend: Pick<DataBackend, 'cart' | 'guestCart'>, user: User | null) {
+  return user
+    ? { cart: backend.cart, ownerId: user.id }
+    : { cart: backend.guestCart, ownerId: GUEST_CART_OWNER }
+}
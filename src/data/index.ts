@@ -0,0 +1,26 @@
+import { createBlinkBackend } from './blinkBackend'
+import { createMemoryBackend } from './memoryBackend'
+import type { PaymentProvider } from '../payments'
+import type { DataBackend, DataBackendKind } from './types'
+
+export * from './types'
+export { createBlinkBackend, type BlinkBackendOptions } from './blinkBackend'
+export { createMemoryBackend, type MemoryBackendOptions, type MemorySeed } from './memoryBackend'
+export { fixtureAddress, fixtureCategories, fixtureProducts, fixtureUser, fixtureVariants } from './fixtures'
+export { GUEST_CART_OWNER, createGuestCart, shopperCart } from './guestCart'
+export { loadCartLines, loadOrderDetail, loadWishlistLines, type OrderDetail } from './queries'
+export { DataContext, useData } from './context'
+
+export function resolveBackendKind(value: string | undefined): DataBackendKind {
+  return value === 'memory' ? 'memory' : 'blink'
+}
+
+// The Blink client is only imported for the hosted backend, so developing
+// offline never loads the SDK or contacts the hosted project.
+export async function createDataBackend(kind: DataBackendKind, paymentProvider?: PaymentProvider): Promise<DataBackend> {
+  if (kind === 'memory') {
+    return createMemoryBackend({ paymentProvider })
+  }
+  const { blink } = await import('../blink/client')
+  return createBlinkBackend(blink, { paymentProvider })
+}
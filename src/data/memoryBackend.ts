@@ -0,0 +1,469 @@
+import type { z } from 'zod'
+import {
+  cartItemSchema,
+  orderItemSchema,
+  orderSchema,
+  parseCartItems,
+  parseOrderItems,
+  parseOrders,
+  categorySchema,
+  parseCategories,
+  parseProducts,
+  productSchema,
+  productVariantSchema,
+  parseVariants,
+  parseReviews,
+  parseReviewVotes,
+  reviewSchema,
+  reviewVoteSchema,
+  parseWishlistItems,
+  wishlistItemSchema,
+  parseSavedAddresses,
+  parsePayments,
+  paymentSchema,
+  parseRefunds,
+  refundSchema,
+  savedAddressSchema,
+  sortCategories,
+  sortVariants,
+  type Order,
+  type OrderLookupCode,
+  type Product,
+  type Review,
+  type User
+} from '../domain'
+import { createMockGateway, type PaymentProvider } from '../payments'
+import { fixtureCategories, fixtureProducts, fixtureVariants } from './fixtures'
+import { createGuestCart } from './guestCart'
+import { MemoryTable, defaultStorage } from './memoryTable'
+import { compareValues, computeFacets, countUnitsSold, matchesProductQuery, pageOf, sortProducts } from './productQuery'
+import { createProductSearchIndex, orderSearchHits, toProductSearchHit } from './productSearch'
+import type { AuthState, DataBackend, MailMessage, OrderQuery, ProductQuery, ReviewQuery } from './types'
+
+const AUTH_KEY = 'shopeasy:auth:user'
+
+// Seeds are parsed like backend rows, so they may omit defaulted fields
+export interface MemorySeed {
+  products: z.input<typeof productSchema>[]
+  productVariants: z.input<typeof productVariantSchema>[]
+  categories: z.input<typeof categorySchema>[]
+  cartItems: z.input<typeof cartItemSchema>[]
+  wishlistItems: z.input<typeof wishlistItemSchema>[]
+  addresses: z.input<typeof savedAddressSchema>[]
+  orders: z.input<typeof orderSchema>[]
+  orderItems: z.input<typeof orderItemSchema>[]
+  payments: z.input<typeof paymentSchema>[]
+  refunds: z.input<typeof refundSchema>[]
+  reviews: z.input<typeof reviewSchema>[]
+  reviewVotes: z.input<typeof reviewVoteSchema>[]
+}
+
+export interface MemoryBackendOptions {
+  seed?: Partial<MemorySeed>
+  // Pass null for a purely in-memory backend (tests); defaults to localStorage
+  storage?: Storage | null
+  // User signed in from the start; otherwise restored from storage
+  user?: User | null
+  // User that login() signs in as
+  loginAs?: User
+  // Sent mail is collected here; without one it is written to the console
+  outbox?: MailMessage[]
+  // Defaults to the mock gateway, keeping its intents alongside the other tables
+  paymentProvider?: PaymentProvider
+}
+
+// Offline development needs the admin console as much as the storefront
+const defaultLoginUser: User = {
+  id: 'user_offline',
+  email: 'dev@localhost',
+  displayName: 'Offline Developer',
+  role: 'admin'
+}
+
+// Uploads are kept inline as data URLs; there is no file server offline
+function readAsDataUrl(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
+
+function queryProducts(rows: Product[], query: ProductQuery, unitsSold?: Map<string, number>) {
+  const result = rows.filter((product) => matchesProductQuery(product, query))
+  return pageOf(sortProducts(result, (product) => product, query.orderBy, unitsSold), query)
+}
+
+function matchesOrderQuery(order: Order, query: OrderQuery) {
+  const createdAt = order.createdAt ?? ''
+  const customer = query.customer?.trim().toLowerCase()
+  return (
+    (!query.statuses || query.statuses.length === 0 || query.statuses.includes(order.status)) &&
+    (!query.createdFrom || createdAt >= query.createdFrom) &&
+    (!query.createdTo || createdAt <= query.createdTo) &&
+    (!customer || (order.customerEmail ?? '').toLowerCase().includes(customer))
+  )
+}
+
+function queryReviews(rows: Review[], query: ReviewQuery) {
+  const { field, direction } = query.orderBy ?? { field: 'createdAt', direction: 'desc' }
+  const sign = direction === 'asc' ? 1 : -1
+  const matching = rows
+    .filter((review) => !query.statuses || query.statuses.includes(review.status))
+    .sort((a, b) => sign * compareValues(a[field], b[field]) || compareValues(b.createdAt, a.createdAt))
+  return pageOf(matching, query)
+}
+
+export function createMemoryBackend(options: MemoryBackendOptions = {}): DataBackend {
+  const storage = options.storage === undefined ? defaultStorage() : options.storage
+  const seed = options.seed ?? {}
+
+  const products = new MemoryTable('products', storage, parseProducts(seed.products ?? fixtureProducts))
+  // Fixture variants come along with any fixture product that is seeded
+  const productVariants = new MemoryTable(
+    'productVariants',
+    storage,
+    parseVariants(seed.productVariants ?? fixtureVariants.filter((variant) => products.get(variant.productId)))
+  )
+  const categories = new MemoryTable('categories', storage, parseCategories(seed.categories ?? fixtureCategories))
+  const cartItems = new MemoryTable('cartItems', storage, parseCartItems(seed.cartItems ?? []))
+  const wishlistItems = new MemoryTable('wishlistItems', storage, parseWishlistItems(seed.wishlistItems ?? []))
+  const addresses = new MemoryTable('addresses', storage, parseSavedAddresses(seed.addresses ?? []))
+  const orders = new MemoryTable('orders', storage, parseOrders(seed.orders ?? []))
+  const orderItems = new MemoryTable('orderItems', storage, parseOrderItems(seed.orderItems ?? []))
+  const orderLookupCodes = new MemoryTable<OrderLookupCode>('orderLookupCodes', storage)
+  const payments = new MemoryTable('payments', storage, parsePayments(seed.payments ?? []))
+  const refunds = new MemoryTable('refunds', storage, parseRefunds(seed.refunds ?? []))
+  const reviews = new MemoryTable('reviews', storage, parseReviews(seed.reviews ?? []))
+  const reviewVotes = new MemoryTable('reviewVotes', storage, parseReviewVotes(seed.reviewVotes ?? []))
+
+  const loginAs = options.loginAs ?? defaultLoginUser
+  let currentUser: User | null =
+    options.user !== undefined ? options.user : JSON.parse(storage?.getItem(AUTH_KEY) ?? 'null')
+  const listeners = new Set<(state: AuthState) => void>()
+
+  const setUser = (user: User | null) => {
+    currentUser = user
+    if (user) {
+      storage?.setItem(AUTH_KEY, JSON.stringify(user))
+    } else {
+      storage?.removeItem(AUTH_KEY)
+    }
+    listeners.forEach((listener) => listener({ user, isLoading: false }))
+  }
+
+  const now = () => new Date().toISOString()
+
+  const unitsSoldFor = (query: ProductQuery) =>
+    query.orderBy?.field === 'unitsSold' ? countUnitsSold(orders.all(), orderItems.all(), refunds.all()) : undefined
+
+  const searchProducts = (text: string, query: ProductQuery) => {
+    const index = createProductSearchIndex(products.all(), categories.all())
+    const matches = index.search(text, (product) => matchesProductQuery(product, query))
+    return orderSearchHits(matches.map(toProductSearchHit), query, unitsSoldFor(query))
+  }
+
+  return {
+    auth: {
+      onAuthStateChanged(callback) {
+        listeners.add(callback)
+        callback({ user: currentUser, isLoading: false })
+        return () => {
+          listeners.delete(callback)
+        }
+      },
+      async me() {
+        if (!currentUser) throw new Error('Not signed in')
+        return currentUser
+      },
+      async current() {
+        return currentUser
+      },
+      login: () => setUser(loginAs),
+      logout: () => setUser(null)
+    },
+
+    products: {
+      async list(query = {}) {
+        return queryProducts(products.all(), query, unitsSoldFor(query))
+      },
+      async search(text, query = {}) {
+        return searchProducts(text, query)
+      },
+      async count(query = {}, text) {
+        const unpaged = { ...query, limit: undefined, offset: undefined }
+        return text?.trim() ? searchProducts(text, unpaged).length : queryProducts(products.all(), unpaged).length
+      },
+      async facets(query = {}, text) {
+        const scope = { categories: query.categories, includeArchived: query.includeArchived }
+        const candidates = text?.trim()
+          ? searchProducts(text, scope).map((hit) => hit.product)
+          : queryProducts(products.all(), scope)
+        return computeFacets(candidates, query)
+      },
+      async get(id) {
+        return products.get(id)
+      },
+      async create(product) {
+        const at = now()
+        return products.insert({ ...product, createdAt: product.createdAt ?? at, updatedAt: at })
+      },
+      async update(id, changes) {
+        products.update(id, { ...changes, updatedAt: now() })
+      },
+      async updateStock(id, stockQuantity) {
+        products.update(id, { stockQuantity, updatedAt: now() })
+      }
+    },
+
+    variants: {
+      async listByProduct(productId) {
+        return sortVariants(productVariants.where((variant) => variant.productId === productId))
+      },
+      async get(id) {
+        return productVariants.get(id)
+      },
+      async create(variant) {
+        const at = now()
+        return productVariants.insert({ ...variant, createdAt: variant.createdAt ?? at, updatedAt: at })
+      },
+      async update(id, changes) {
+        productVariants.update(id, { ...changes, updatedAt: now() })
+      },
+      async updateStock(id, stockQuantity) {
+        productVariants.update(id, { stockQuantity, updatedAt: now() })
+      },
+      async remove(id) {
+        productVariants.delete(id)
+      }
+    },
+
+    categories: {
+      async list() {
+        return sortCategories(categories.all())
+      },
+      async get(id) {
+        return categories.get(id)
+      },
+      async create(category) {
+        const at = now()
+        return categories.insert({ ...category, createdAt: category.createdAt ?? at, updatedAt: at })
+      },
+      async update(id, changes) {
+        categories.update(id, { ...changes, updatedAt: now() })
+      },
+      async remove(id) {
+        categories.delete(id)
+      }
+    },
+
+    cart: {
+      async listByUser(userId) {
+        return cartItems.where((item) => item.userId === userId)
+      },
+      async findByProduct(userId, productId, variantId) {
+        return cartItems.where((item) =>
+          item.userId === userId && item.productId === productId && item.variantId === variantId
+        )[0] ?? null
+      },
+      async add(item) {
+        return cartItems.insert({ ...item, createdAt: now() })
+      },
+      async updateQuantity(id, quantity) {
+        cartItems.update(id, { quantity, updatedAt: now() })
+      },
+      async remove(id) {
+        cartItems.delete(id)
+      }
+    },
+
+    guestCart: createGuestCart(storage),
+
+    wishlist: {
+      async listByUser(userId) {
+        return wishlistItems
+          .where((item) => item.userId === userId)
+          .sort((a, b) => compareValues(b.createdAt, a.createdAt))
+      },
+      async findByProduct(userId, productId, variantId) {
+        return wishlistItems.where((item) =>
+          item.userId === userId && item.productId === productId && item.variantId === variantId
+        )[0] ?? null
+      },
+      async add(item) {
+        return wishlistItems.insert({ ...item, createdAt: item.createdAt ?? now() })
+      },
+      async update(id, changes) {
+        wishlistItems.update(id, { ...changes, updatedAt: now() })
+      },
+      async remove(id) {
+        wishlistItems.delete(id)
+      }
+    },
+
+    addresses: {
+      async listByUser(userId) {
+        return addresses
+          .where((address) => address.userId === userId)
+          .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || compareValues(b.createdAt, a.createdAt))
+      },
+      async create(address) {
+        return addresses.insert({ ...address, createdAt: address.createdAt ?? now() })
+      },
+      async update(id, changes) {
+        addresses.update(id, { ...changes, updatedAt: now() })
+      },
+      async remove(id) {
+        addresses.delete(id)
+      }
+    },
+
+    orders: {
+      async get(id) {
+        return orders.get(id)
+      },
+      async listByUser(userId) {
+        return orders
+          .where((order) => order.userId === userId)
+          .sort((a, b) => compareValues(b.createdAt, a.createdAt))
+      },
+      async list(query = {}) {
+        const matching = orders
+          .where((order) => matchesOrderQuery(order, query))
+          .sort((a, b) => compareValues(b.createdAt, a.createdAt))
+        const offset = query.offset ?? 0
+        return matching.slice(offset, query.limit !== undefined ? offset + query.limit : undefined)
+      },
+      async count(query = {}) {
+        return orders.where((order) => matchesOrderQuery(order, query)).length
+      },
+      async listItems(orderId) {
+        return orderItems.where((item) => item.orderId === orderId)
+      },
+      async create(order) {
+        return orders.insert({ ...order, createdAt: order.createdAt ?? now() })
+      },
+      async updateStatus(id, change) {
+        orders.update(id, { ...change, updatedAt: now() })
+      },
+      async setStockReleased(id, released) {
+        orders.update(id, { stockReleased: released, updatedAt: now() })
+      },
+      async addItems(items) {
+        return items.map((item) => orderItems.insert({ ...item, createdAt: item.createdAt ?? now() }))
+      },
+      async remove(id) {
+        orders.delete(id)
+      },
+      async removeItems(orderId) {
+        orderItems.where((item) => item.orderId === orderId).forEach((item) => orderItems.delete(item.id))
+      }
+    },
+
+    orderLookupCodes: {
+      async findByOrder(orderId) {
+        return orderLookupCodes
+          .where((code) => code.orderId === orderId)
+          .sort((a, b) => compareValues(b.createdAt, a.createdAt))[0] ?? null
+      },
+      async create(code) {
+        orderLookupCodes.insert({ ...code, createdAt: code.createdAt ?? now() })
+      },
+      async update(id, changes) {
+        orderLookupCodes.update(id, changes)
+      },
+      async remove(id) {
+        orderLookupCodes.delete(id)
+      }
+    },
+
+    payments: {
+      async listByOrder(orderId) {
+        return payments
+          .where((payment) => payment.orderId === orderId)
+          .sort((a, b) => compareValues(a.createdAt, b.createdAt))
+      },
+      async findByIntent(intentId) {
+        return payments.where((payment) => payment.intentId === intentId)[0] ?? null
+      },
+      async create(payment) {
+        return payments.insert({ ...payment, createdAt: payment.createdAt ?? now() })
+      },
+      async update(id, changes) {
+        payments.update(id, { ...changes, updatedAt: now() })
+      }
+    },
+
+    paymentProvider: options.paymentProvider ?? createMockGateway({ storage }),
+
+    refunds: {
+      async listByOrder(orderId) {
+        return refunds
+          .where((refund) => refund.orderId === orderId)
+          .sort((a, b) => compareValues(a.createdAt, b.createdAt))
+      },
+      async create(refund) {
+        return refunds.insert({ ...refund, createdAt: refund.createdAt ?? now() })
+      }
+    },
+
+    reviews: {
+      async listByProduct(productId, query = {}) {
+        return queryReviews(reviews.where((review) => review.productId === productId), query)
+      },
+      async countByProduct(productId, query = {}) {
+        return queryReviews(reviews.where((review) => review.productId === productId), { statuses: query.statuses }).length
+      },
+      async list(query = {}) {
+        return queryReviews(reviews.all(), query)
+      },
+      async count(query = {}) {
+        return queryReviews(reviews.all(), { statuses: query.statuses }).length
+      },
+      async get(id) {
+        return reviews.get(id)
+      },
+      async findByUser(productId, userId) {
+        return reviews.where((review) => review.productId === productId && review.userId === userId)[0] ?? null
+      },
+      async create(review) {
+        const at = now()
+        return reviews.insert({ ...review, createdAt: review.createdAt ?? at, updatedAt: at })
+      },
+      async update(id, changes) {
+        reviews.update(id, { ...changes, updatedAt: now() })
+      },
+      async remove(id) {
+        reviews.delete(id)
+      },
+      async listVotedReviewIds(productId, userId) {
+        return reviewVotes
+          .where((vote) => vote.productId === productId && vote.userId === userId)
+          .map((vote) => vote.reviewId)
+      },
+      async addVote(vote) {
+        reviewVotes.insert({ ...vote, createdAt: vote.createdAt ?? now() })
+      },
+      async removeVotes(reviewId) {
+        reviewVotes.where((vote) => vote.reviewId === reviewId).forEach((vote) => reviewVotes.delete(vote.id))
+      }
+    },
+
+    media: {
+      async upload(file) {
+        return readAsDataUrl(file)
+      }
+    },
+
+    mail: {
+      async send(message) {
+        if (options.outbox) {
+          options.outbox.push(message)
+        } else {
+          console.info(`Mail to ${message.to}: ${message.subject}\n\n${message.text}`)
+        }
+      }
+    }
+  }
+}
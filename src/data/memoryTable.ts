@@ -0,0 +1,74 @@
+const STORAGE_PREFIX = 'shopeasy:data:'
+
+export function defaultStorage(): Storage | null {
+  return typeof window !== 'undefined' ? window.localStorage : null
+}
+
+// A single collection held in memory, optionally mirrored to localStorage so
+// offline data survives reloads. Rows are copied on the way in and out so
+// callers can never mutate stored state by accident.
+export class MemoryTable<T extends { id: string }> {
+  private readonly key: string
+  private readonly storage: Storage | null
+  private rows: Map<string, T>
+
+  constructor(name: string, storage: Storage | null, seed: T[] = []) {
+    this.key = `${STORAGE_PREFIX}${name}`
+    this.storage = storage
+    this.rows = new Map(this.load(seed).map((row) => [row.id, row]))
+  }
+
+  all(): T[] {
+    return [...this.rows.values()].map((row) => structuredClone(row))
+  }
+
+  where(predicate: (row: T) => boolean): T[] {
+    return this.all().filter(predicate)
+  }
+
+  get(id: string): T | null {
+    const row = this.rows.get(id)
+    return row ? structuredClone(row) : null
+  }
+
+  insert(row: T): T {
+    if (this.rows.has(row.id)) {
+      throw new Error(`Duplicate id "${row.id}" in ${this.key}`)
+    }
+    this.rows.set(row.id, structuredClone(row))
+    this.save()
+    return structuredClone(row)
+  }
+
+  update(id: string, patch: Partial<T>): T {
+    const existing = this.rows.get(id)
+    if (!existing) {
+      throw new Error(`No row "${id}" in ${this.key}`)
+    }
+    const next = { ...existing, ...structuredClone(patch), id }
+    this.rows.set(id, next)
+    this.save()
+    return structuredClone(next)
+  }
+
+  delete(id: string) {
+    this.rows.delete(id)
+    this.save()
+  }
+
+  private load(seed: T[]): T[] {
+    const stored = this.storage?.getItem(this.key)
+    if (stored) {
+      try {
+        return JSON.parse(stored) as T[]
+      } catch (error) {
+        console.warn(`Discarding unreadable ${this.key}:`, error)
+      }
+    }
+    return structuredClone(seed)
+  }
+
+  private save() {
+    this.storage?.setItem(this.key, JSON.stringify([...this.rows.values()]))
+  }
+}
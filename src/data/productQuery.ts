@@ -0,0 +1,140 @@
+import {
+  isArchived,
+  isInStock,
+  type Order,
+  type OrderItem,
+  type OrderStatus,
+  type Product,
+  type ProductFacetFields,
+  type Refund
+} from '../domain'
+import type { FacetValue, ProductFacets, ProductFilters, ProductQuery, ProductSortField } from './types'
+
+// "4 stars & up" and so on
+export const RATING_THRESHOLDS = [4, 3, 2, 1]
+
+type Facet = 'price' | 'inStock' | 'rating' | 'brand' | 'attribute'
+
+// Whether `product` passes every filter except the facet being counted
+function matchesFilters(product: Omit<ProductFacetFields, 'id'>, filters: ProductFilters, skip?: { facet: Facet; attribute?: string }) {
+  const { priceMin, priceMax, minRating, brands, attributes = {} } = filters
+  return (
+    (skip?.facet === 'price' ||
+      ((priceMin === undefined || product.price >= priceMin) && (priceMax === undefined || product.price <= priceMax))) &&
+    (skip?.facet === 'inStock' || !filters.inStock || isInStock(product)) &&
+    (skip?.facet === 'rating' || minRating === undefined || (product.ratingAverage ?? 0) >= minRating) &&
+    (skip?.facet === 'brand' || !brands?.length || brands.includes(product.brand)) &&
+    Object.entries(attributes).every(([name, values]) =>
+      (skip?.facet === 'attribute' && skip.attribute === name) ||
+      values.length === 0 ||
+      values.includes(product.attributes[name])
+    )
+  )
+}
+
+export function matchesProductQuery(product: Product, query: ProductQuery) {
+  return (
+    (query.includeArchived || !isArchived(product)) &&
+    (!query.categories || query.categories.includes(product.category)) &&
+    matchesFilters(product, query)
+  )
+}
+
+// The `limit` and `offset` window of an already filtered and sorted list
+export function pageOf<T>(items: T[], query: Pick<ProductQuery, 'limit' | 'offset'>) {
+  const offset = query.offset ?? 0
+  return items.slice(offset, query.limit !== undefined ? offset + query.limit : undefined)
+}
+
+export function compareValues(a: unknown, b: unknown) {
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a ?? '').localeCompare(String(b ?? ''))
+}
+
+// Orders whose units no longer count as sold
+const UNSOLD_STATUSES: OrderStatus[] = ['cancelled', 'refunded']
+
+// Product id → units sold, for the best-selling sort. Units refunded from an
+// order that is still live were given back, so they do not count either.
+export function countUnitsSold(
+  orders: Pick<Order, 'id' | 'status'>[],
+  items: OrderItem[],
+  refunds: Pick<Refund, 'orderId' | 'lines'>[] = []
+) {
+  const counted = new Set(orders.filter((order) => !UNSOLD_STATUSES.includes(order.status)).map((order) => order.id))
+  const refunded = new Map<string, number>()
+  refunds
+    .filter((refund) => counted.has(refund.orderId))
+    .flatMap((refund) => refund.lines)
+    .forEach((line) => refunded.set(line.orderItemId, (refunded.get(line.orderItemId) ?? 0) + line.quantity))
+  const units = new Map<string, number>()
+  items
+    .filter((item) => counted.has(item.orderId))
+    .forEach((item) => {
+      const kept = Math.max(item.quantity - (refunded.get(item.id) ?? 0), 0)
+      units.set(item.productId, (units.get(item.productId) ?? 0) + kept)
+    })
+  return units
+}
+
+function sortValue(product: Product, field: ProductSortField, unitsSold?: Map<string, number>) {
+  if (field === 'unitsSold') return unitsSold?.get(product.id) ?? 0
+  if (field === 'ratingAverage') return product.ratingAverage ?? 0
+  return product[field]
+}
+
+// Sorts by `query.orderBy`, keeping the given order for ties. `unitsSold`
+// is only needed for the best-selling sort.
+export function sortProducts<T>(
+  items: T[],
+  product: (item: T) => Product,
+  orderBy: ProductQuery['orderBy'],
+  unitsSold?: Map<string, number>
+) {
+  if (!orderBy) return items
+  const sign = orderBy.direction === 'asc' ? 1 : -1
+  return [...items].sort((a, b) =>
+    sign * compareValues(sortValue(product(a), orderBy.field, unitsSold), sortValue(product(b), orderBy.field, unitsSold))
+  )
+}
+
+// Selected values stay listed (with a zero count) so they can be unticked
+function countValues(values: string[], selected: string[] = []): FacetValue[] {
+  const counts = new Map<string, number>()
+  values.filter(Boolean).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+  selected.forEach((value) => counts.set(value, counts.get(value) ?? 0))
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value.localeCompare(b.value))
+}
+
+// Facets over `products`, which should already be narrowed to the category,
+// archive state and search text the shopper is looking at
+export function computeFacets(products: Omit<ProductFacetFields, 'id'>[], filters: ProductFilters): ProductFacets {
+  const without = (facet: Facet, attribute?: string) =>
+    products.filter((product) => matchesFilters(product, filters, { facet, attribute }))
+
+  const priced = without('price').map((product) => product.price)
+  const rated = without('rating')
+  const attributeNames = [...new Set([
+    ...products.flatMap((product) => Object.keys(product.attributes)),
+    ...Object.keys(filters.attributes ?? {})
+  ])].sort((a, b) => a.localeCompare(b))
+
+  return {
+    price: priced.length > 0 ? { min: Math.min(...priced), max: Math.max(...priced) } : { min: 0, max: 0 },
+    inStock: without('inStock').filter(isInStock).length,
+    ratings: RATING_THRESHOLDS.map((rating) => ({
+      rating,
+      count: rated.filter((product) => (product.ratingAverage ?? 0) >= rating).length
+    })),
+    brands: countValues(without('brand').map((product) => product.brand), filters.brands),
+    attributes: attributeNames.map((name) => ({
+      name,
+      values: countValues(
+        without('attribute', name).map((product) => product.attributes[name] ?? ''),
+        filters.attributes?.[name]
+      )
+    }))
+  }
+}
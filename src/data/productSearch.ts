@@ -0,0 +1,35 @@
+import { categoryTrail, type Category, type Product, type ProductSearchFields } from '../domain'
+import { SearchIndex, highlight, snippet, type SearchMatch } from '../search'
+import { pageOf, sortProducts } from './productQuery'
+import type { ProductQuery, ProductSearchHit } from './types'
+
+// Products are indexed under their whole category trail, so "electronics"
+// also finds products filed under Audio
+export function createProductSearchIndex<T extends ProductSearchFields>(products: T[], categories: Category[]) {
+  return new SearchIndex<T>(products, [
+    { name: 'name', boost: 3, text: (product) => product.name },
+    {
+      name: 'category',
+      boost: 2,
+      text: (product) => {
+        const trail = categoryTrail(categories, product.category)
+        return trail.length > 0 ? trail.map((category) => category.name).join(' ') : product.category
+      }
+    },
+    { name: 'brand', boost: 2, text: (product) => product.brand },
+    { name: 'description', boost: 1, text: (product) => product.description }
+  ])
+}
+
+export function toProductSearchHit({ doc: product, score, terms }: SearchMatch<Product>): ProductSearchHit {
+  return {
+    product,
+    score,
+    highlights: { name: highlight(product.name, terms), description: snippet(product.description, terms) }
+  }
+}
+
+// An explicit orderBy overrides relevance; equal values keep relevance order
+export function orderSearchHits(hits: ProductSearchHit[], query: ProductQuery, unitsSold?: Map<string, number>) {
+  return pageOf(sortProducts(hits, (hit) => hit.product, query.orderBy, unitsSold), query)
+}
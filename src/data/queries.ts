@@ -0,0 +1,58 @@
+import type { CartLine, Order, OrderLine, Product, ProductVariant, WishlistLine } from '../domain'
+import type { DataBackend } from './types'
+
+type CatalogReader = Pick<DataBackend, 'products' | 'variants'>
+
+// Items joined to their products and chosen variants. Items whose product or
+// variant has since been removed from the catalog are dropped.
+async function joinCatalog<T extends { productId: string; variantId?: string }>(
+  backend: CatalogReader,
+  items: T[]
+): Promise<(T & { product: Product; variant?: ProductVariant })[]> {
+  const lines = await Promise.all(
+    items.map(async (item) => {
+      const product = await backend.products.get(item.productId)
+      if (!product) return null
+      if (!item.variantId) return { ...item, product }
+      const variant = await backend.variants.get(item.variantId)
+      return variant ? { ...item, product, variant } : null
+    })
+  )
+  return lines.filter((line) => line !== null)
+}
+
+export async function loadCartLines(
+  backend: Pick<DataBackend, 'cart'> & CatalogReader,
+  userId: string
+): Promise<CartLine[]> {
+  return joinCatalog(backend, await backend.cart.listByUser(userId))
+}
+
+// The shopper's wishlist, newest first, joined like the cart
+export async function loadWishlistLines(
+  backend: Pick<DataBackend, 'wishlist'> & CatalogReader,
+  userId: string
+): Promise<WishlistLine[]> {
+  return joinCatalog(backend, await backend.wishlist.listByUser(userId))
+}
+
+export interface OrderDetail {
+  order: Order
+  lines: OrderLine[]
+}
+
+// An order with its items joined to the current product records. Prices come
+// from the items, which captured them at purchase time.
+export async function loadOrderDetail(
+  backend: Pick<DataBackend, 'orders' | 'products'>,
+  orderId: string
+): Promise<OrderDetail | null> {
+  const order = await backend.orders.get(orderId)
+  if (!order) return null
+
+  const items = await backend.orders.listItems(orderId)
+  const lines = await Promise.all(
+    items.map(async (item) => ({ ...item, product: await backend.products.get(item.productId) }))
+  )
+  return { order, lines }
+}
@@ -0,0 +1,287 @@
+import type {
+  CartItem,
+  Category,
+  CategoryChanges,
+  Order,
+  OrderItem,
+  OrderLookupCode,
+  OrderStatus,
+  Payment,
+  PaymentChanges,
+  Product,
+  ProductChanges,
+  ProductVariant,
+  ProductVariantChanges,
+  Refund,
+  Review,
+  ReviewChanges,
+  ReviewStatus,
+  ReviewVote,
+  SavedAddress,
+  SavedAddressChanges,
+  User,
+  WishlistItem,
+  WishlistItemChanges
+} from '../domain'
+import type { PaymentProvider } from '../payments'
+import type { TextSegment } from '../search'
+
+export type SortDirection = 'asc' | 'desc'
+
+// Shopper-facing facet filters. Within one facet any selected value matches;
+// different facets must all match.
+export interface ProductFilters {
+  priceMin?: number
+  priceMax?: number
+  inStock?: boolean
+  // Average rating at or above this
+  minRating?: number
+  brands?: string[]
+  // Attribute name → accepted values
+  attributes?: Record<string, string[]>
+}
+
+export interface FacetValue {
+  value: string
+  count: number
+}
+
+// Counts for each facet value among the products matching every other
+// facet, so selecting a brand does not zero out the other brands
+export interface ProductFacets {
+  // Cheapest and dearest price, for the range slider
+  price: { min: number; max: number }
+  inStock: number
+  // Products rated at or above each threshold, highest first
+  ratings: { rating: number; count: number }[]
+  brands: FacetValue[]
+  attributes: { name: string; values: FacetValue[] }[]
+}
+
+// `unitsSold` is not a column: it is the quantity on order lines of orders
+// that were not cancelled or refunded
+export type ProductSortField = 'name' | 'price' | 'category' | 'createdAt' | 'ratingAverage' | 'unitsSold'
+
+export interface ProductQuery extends ProductFilters {
+  // Products whose category is any of these values; see categoryFilterValues
+  categories?: string[]
+  // Unrated products count as rated 0
+  orderBy?: { field: ProductSortField; direction: SortDirection }
+  limit?: number
+  offset?: number
+  // The storefront never sees archived products; the admin console does
+  includeArchived?: boolean
+}
+
+export interface ProductSearchHit {
+  product: Product
+  score: number
+  highlights: {
+    name: TextSegment[]
+    // Excerpt around the first match
+    description: TextSegment[]
+  }
+}
+
+export interface ProductRepository {
+  list(query?: ProductQuery): Promise<Product[]>
+  // Ranked by relevance unless the query has an orderBy; filters, `limit`
+  // and `offset` apply as they do for list
+  search(text: string, query?: ProductQuery): Promise<ProductSearchHit[]>
+  // How many products match `query` (or the search, when text is given),
+  // ignoring paging
+  count(query?: ProductQuery, text?: string): Promise<number>
+  // Facet counts for products matching the query, or the search when text is given
+  facets(query?: ProductQuery, text?: string): Promise<ProductFacets>
+  // Returns archived products too, so order history can still show them
+  get(id: string): Promise<Product | null>
+  create(product: Product): Promise<Product>
+  update(id: string, changes: ProductChanges): Promise<void>
+  updateStock(id: string, stockQuantity: number): Promise<void>
+}
+
+export interface ProductVariantRepository {
+  // In picker order (position)
+  listByProduct(productId: string): Promise<ProductVariant[]>
+  get(id: string): Promise<ProductVariant | null>
+  create(variant: ProductVariant): Promise<ProductVariant>
+  update(id: string, changes: ProductVariantChanges): Promise<void>
+  updateStock(id: string, stockQuantity: number): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export interface CategoryRepository {
+  // In display order: sortOrder, then name
+  list(): Promise<Category[]>
+  get(id: string): Promise<Category | null>
+  create(category: Category): Promise<Category>
+  update(id: string, changes: CategoryChanges): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export interface CartRepository {
+  listByUser(userId: string): Promise<CartItem[]>
+  // The line for exactly this product and variant (none for products
+  // without variants)
+  findByProduct(userId: string, productId: string, variantId?: string): Promise<CartItem | null>
+  add(item: CartItem): Promise<CartItem>
+  updateQuantity(id: string, quantity: number): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export interface WishlistRepository {
+  listByUser(userId: string): Promise<WishlistItem[]>
+  // The entry for exactly this product and variant, like cart lines
+  findByProduct(userId: string, productId: string, variantId?: string): Promise<WishlistItem | null>
+  add(item: WishlistItem): Promise<WishlistItem>
+  update(id: string, changes: WishlistItemChanges): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export interface AddressRepository {
+  // The default address first, then newest first
+  listByUser(userId: string): Promise<SavedAddress[]>
+  create(address: SavedAddress): Promise<SavedAddress>
+  update(id: string, changes: SavedAddressChanges): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export interface OrderQuery {
+  statuses?: OrderStatus[]
+  // Inclusive ISO timestamp bounds on createdAt
+  createdFrom?: string
+  createdTo?: string
+  // Case-insensitive match on part of the customer's email
+  customer?: string
+  limit?: number
+  offset?: number
+}
+
+export interface OrderRepository {
+  get(id: string): Promise<Order | null>
+  // Newest first
+  listByUser(userId: string): Promise<Order[]>
+  // Every customer's orders, newest first; limit and offset page through them
+  list(query?: OrderQuery): Promise<Order[]>
+  // How many orders match the filters of `query`, ignoring paging
+  count(query?: OrderQuery): Promise<number>
+  listItems(orderId: string): Promise<OrderItem[]>
+  create(order: Order): Promise<Order>
+  updateStatus(id: string, change: Pick<Order, 'status' | 'statusHistory'>): Promise<void>
+  setStockReleased(id: string, released: boolean): Promise<void>
+  addItems(items: OrderItem[]): Promise<OrderItem[]>
+  remove(id: string): Promise<void>
+  removeItems(orderId: string): Promise<void>
+}
+
+export interface OrderLookupCodeRepository {
+  // The code most recently sent for the order
+  findByOrder(orderId: string): Promise<OrderLookupCode | null>
+  create(code: OrderLookupCode): Promise<void>
+  update(id: string, changes: Pick<OrderLookupCode, 'attempts'>): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export interface PaymentRepository {
+  // Oldest first
+  listByOrder(orderId: string): Promise<Payment[]>
+  // The payment behind a provider's intent, for webhooks
+  findByIntent(intentId: string): Promise<Payment | null>
+  create(payment: Payment): Promise<Payment>
+  update(id: string, changes: PaymentChanges): Promise<void>
+}
+
+export interface RefundRepository {
+  // Oldest first
+  listByOrder(orderId: string): Promise<Refund[]>
+  create(refund: Refund): Promise<Refund>
+}
+
+export type ReviewSortField = 'createdAt' | 'rating' | 'helpfulCount'
+
+export interface ReviewQuery {
+  // Shoppers only see published reviews; moderators choose
+  statuses?: ReviewStatus[]
+  // Newest first by default; ties fall back to newest first
+  orderBy?: { field: ReviewSortField; direction: SortDirection }
+  limit?: number
+  offset?: number
+}
+
+export interface ReviewRepository {
+  listByProduct(productId: string, query?: ReviewQuery): Promise<Review[]>
+  // How many of the product's reviews match `query`, ignoring paging
+  countByProduct(productId: string, query?: ReviewQuery): Promise<number>
+  // Every product's reviews, for moderation
+  list(query?: ReviewQuery): Promise<Review[]>
+  count(query?: ReviewQuery): Promise<number>
+  get(id: string): Promise<Review | null>
+  // The shopper's own review of the product; each shopper writes at most one
+  findByUser(productId: string, userId: string): Promise<Review | null>
+  create(review: Review): Promise<Review>
+  update(id: string, changes: ReviewChanges): Promise<void>
+  remove(id: string): Promise<void>
+  // Ids of the product's reviews this shopper has marked helpful
+  listVotedReviewIds(productId: string, userId: string): Promise<string[]>
+  addVote(vote: ReviewVote): Promise<void>
+  removeVotes(reviewId: string): Promise<void>
+}
+
+export interface AuthState {
+  user: User | null
+  isLoading: boolean
+}
+
+export interface AuthGateway {
+  onAuthStateChanged(callback: (state: AuthState) => void): () => void
+  me(): Promise<User>
+  // The signed-in user, or null for a visitor browsing as a guest
+  current(): Promise<User | null>
+  login(): void
+  logout(): void
+}
+
+export interface MediaStorage {
+  // Stores the file under `path`, replacing any previous upload, and returns
+  // a URL the browser can load it from
+  upload(file: File, path: string): Promise<string>
+}
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailGateway {
+  // Resolves once the message is handed off for delivery
+  send(message: MailMessage): Promise<void>
+}
+
+// Everything the UI needs from the outside world, bundled so a whole backend
+// can be swapped at startup or in tests.
+export interface DataBackend {
+  auth: AuthGateway
+  products: ProductRepository
+  variants: ProductVariantRepository
+  categories: CategoryRepository
+  cart: CartRepository
+  // This browser's cart for visitors who have not signed in
+  guestCart: CartRepository
+  wishlist: WishlistRepository
+  // Each shopper's saved shipping addresses
+  addresses: AddressRepository
+  orders: OrderRepository
+  orderLookupCodes: OrderLookupCodeRepository
+  // What each order's shopper has paid, as recorded by the store
+  payments: PaymentRepository
+  // Where the money actually moves
+  paymentProvider: PaymentProvider
+  // Money given back on orders
+  refunds: RefundRepository
+  reviews: ReviewRepository
+  media: MediaStorage
+  mail: MailGateway
+}
+
+export type DataBackendKind = 'blink' | 'memory'
@@ -0,0 +1,142 @@
+import { z } from 'zod'
+import { flag, id, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+
+export interface Country {
+  // ISO 3166-1 alpha-2
+  code: string
+  name: string
+  regionLabel: string
+  regionRequired: boolean
+  postalLabel: string
+  postalRequired: boolean
+  postalPattern: RegExp
+  postalExample: string
+}
+
+// Countries the store ships to
+export const countries: Country[] = [
+  { code: 'US', name: 'United States', regionLabel: 'State', regionRequired: true, postalLabel: 'ZIP code', postalRequired: true, postalPattern: /^\d{5}(-\d{4})?$/, postalExample: '94103' },
+  { code: 'CA', name: 'Canada', regionLabel: 'Province', regionRequired: true, postalLabel: 'Postal code', postalRequired: true, postalPattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/, postalExample: 'K1A 0B1' },
+  { code: 'GB', name: 'United Kingdom', regionLabel: 'County', regionRequired: false, postalLabel: 'Postcode', postalRequired: true, postalPattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/, postalExample: 'SW1A 1AA' },
+  { code: 'IE', name: 'Ireland', regionLabel: 'County', regionRequired: false, postalLabel: 'Eircode', postalRequired: false, postalPattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/, postalExample: 'D02 X285' },
+  { code: 'DE', name: 'Germany', regionLabel: 'State', regionRequired: false, postalLabel: 'Postal code', postalRequired: true, postalPattern: /^\d{5}$/, postalExample: '10115' },
+  { code: 'FR', name: 'France', regionLabel: 'Region', regionRequired: false, postalLabel: 'Postal code', postalRequired: true, postalPattern: /^\d{5}$/, postalExample: '75001' },
+  { code: 'NL', name: 'Netherlands', regionLabel: 'Province', regionRequired: false, postalLabel: 'Postal code', postalRequired: true, postalPattern: /^\d{4} ?[A-Z]{2}$/, postalExample: '1011 AB' },
+  { code: 'AU', name: 'Australia', regionLabel: 'State', regionRequired: true, postalLabel: 'Postcode', postalRequired: true, postalPattern: /^\d{4}$/, postalExample: '2000' }
+]
+
+export const DEFAULT_COUNTRY = 'US'
+
+export function findCountry(code: string) {
+  return countries.find((country) => country.code === code)
+}
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/
+
+const addressFields = z.object({
+  fullName: z.string().trim().min(1, 'Full name is required'),
+  line1: z.string().trim().min(1, 'Street address is required'),
+  line2: z.string().trim(),
+  city: z.string().trim().min(1, 'City is required'),
+  region: z.string().trim(),
+  postalCode: z.string().trim().toUpperCase(),
+  country: z.string(),
+  phone: z.string().trim()
+})
+
+// A shipping address as entered. Which region and postal code are needed,
+// and what a postal code looks like, depends on the country.
+export const addressSchema = addressFields.superRefine((address, ctx) => {
+  const country = findCountry(address.country)
+  if (!country) {
+    ctx.addIssue({ code: 'custom', path: ['country'], message: "We don't ship to that country" })
+    return
+  }
+  if (country.regionRequired && !address.region) {
+    ctx.addIssue({ code: 'custom', path: ['region'], message: `${country.regionLabel} is required` })
+  }
+  if (!address.postalCode) {
+    if (country.postalRequired) {
+      ctx.addIssue({ code: 'custom', path: ['postalCode'], message: `${country.postalLabel} is required` })
+    }
+  } else if (!country.postalPattern.test(address.postalCode)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['postalCode'],
+      message: `${country.postalLabel} should look like ${country.postalExample}`
+    })
+  }
+  if (address.phone && !PHONE_PATTERN.test(address.phone)) {
+    ctx.addIssue({ code: 'custom', path: ['phone'], message: 'Phone number should only have digits, spaces and + ( ) - .' })
+  }
+})
+
+export type Address = z.infer<typeof addressSchema>
+
+export const emptyAddress = (country = DEFAULT_COUNTRY): Address => ({
+  fullName: '',
+  line1: '',
+  line2: '',
+  city: '',
+  region: '',
+  postalCode: '',
+  country,
+  phone: ''
+})
+
+// Blank optional columns come back from Blink as null
+const optionalText = z.string().nullish().transform((value) => value ?? '')
+
+// Addresses as stored. Rows are not re-validated against the country rules,
+// so tightening a rule never hides an address the shopper already saved.
+export const storedAddressSchema = z.object({
+  fullName: z.string(),
+  line1: z.string(),
+  line2: optionalText,
+  city: z.string(),
+  region: optionalText,
+  postalCode: optionalText,
+  country: z.string(),
+  phone: optionalText
+})
+
+export const savedAddressSchema = storedAddressSchema.extend({
+  id,
+  userId: id,
+  // Preselected at checkout; at most one per user
+  isDefault: flag,
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type SavedAddress = z.infer<typeof savedAddressSchema>
+
+export type SavedAddressChanges = Partial<Address & Pick<SavedAddress, 'isDefault'>>
+
+export const parseSavedAddress = (raw: unknown) => parseRecord(savedAddressSchema, 'address', raw)
+export const parseSavedAddresses = (rows: unknown) => parseRecords(savedAddressSchema, 'address', rows)
+
+// Just the address parts of a saved address, for placing an order or editing
+export function addressOf(saved: Address): Address {
+  const { fullName, line1, line2, city, region, postalCode, country, phone } = saved
+  return { fullName, line1, line2, city, region, postalCode, country, phone }
+}
+
+// The address as printed on a label, one line per entry
+export function addressLines(address: Address) {
+  const cityAndRegion = [address.city, address.region].filter(Boolean).join(', ')
+  const locality = [cityAndRegion, address.postalCode].filter(Boolean).join(' ')
+  return [
+    address.fullName,
+    address.line1,
+    address.line2,
+    locality,
+    findCountry(address.country)?.name ?? address.country,
+    address.phone
+  ].filter(Boolean)
+}
+
+export function formatAddress(address: Address) {
+  return addressLines(address).join('\n')
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod'
+import { id, optionalId, positiveCount, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+import type { Product } from './product'
+import { variantPrice, type ProductVariant } from './variant'
+
+export const cartItemSchema = z.object({
+  id,
+  userId: id,
+  productId: id,
+  // Set when the product is sold in variants
+  variantId: optionalId,
+  quantity: positiveCount,
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type CartItem = z.infer<typeof cartItemSchema>
+
+// A cart item joined to the product (and variant) it refers to
+export interface CartLine extends CartItem {
+  product: Product
+  variant?: ProductVariant
+}
+
+export const parseCartItem = (raw: unknown) => parseRecord(cartItemSchema, 'cartItem', raw)
+export const parseCartItems = (rows: unknown) => parseRecords(cartItemSchema, 'cartItem', rows)
+
+export const lineUnitPrice = (line: Pick<CartLine, 'product' | 'variant'>) => variantPrice(line.product, line.variant)
+
+// What is left to sell of the line's variant, or of the product
+export const lineStock = (line: Pick<CartLine, 'product' | 'variant'>) =>
+  line.variant?.stockQuantity ?? line.product.stockQuantity
+
+export function cartSubtotal(lines: CartLine[]) {
+  return lines.reduce((total, line) => total + lineUnitPrice(line) * line.quantity, 0)
+}
+
+export function cartItemCount(items: Pick<CartItem, 'quantity'>[]) {
+  return items.reduce((total, item) => total + item.quantity, 0)
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod'
+import { count, id, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+
+export const categorySlug = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and single dashes')
+
+export const categorySchema = z.object({
+  id,
+  slug: categorySlug,
+  name: z.string().min(1),
+  // Keys into the storefront's icon and colour palettes; unknown keys fall
+  // back to a neutral style rather than failing the whole catalog
+  icon: z.string().default('tag'),
+  color: z.string().default('gray'),
+  description: z.string().default(''),
+  sortOrder: count.default(0),
+  // Subcategories point at their parent's id; Blink returns '' or null for none
+  parentId: z.union([id, z.literal(''), z.null()]).transform((value) => value || undefined).optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type Category = z.infer<typeof categorySchema>
+
+export type CategoryChanges = Partial<Omit<Category, 'id' | 'createdAt' | 'updatedAt'>>
+
+export const parseCategory = (raw: unknown) => parseRecord(categorySchema, 'category', raw)
+export const parseCategories = (rows: unknown) => parseRecords(categorySchema, 'category', rows)
+
+export function sortCategories(categories: Category[]) {
+  return [...categories].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+}
+
+export function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// Products reference categories by slug. Rows written before categories were
+// data-driven hold the display name instead, so that is accepted too.
+export function findCategory(categories: Category[], key: string | null | undefined) {
+  if (!key) return undefined
+  return categories.find((category) => category.slug === key) ??
+    categories.find((category) => category.name === key)
+}
+
+export function topLevelCategories(categories: Category[]) {
+  return sortCategories(categories.filter((category) => !category.parentId))
+}
+
+export function childCategories(categories: Category[], parentId: string) {
+  return sortCategories(categories.filter((category) => category.parentId === parentId))
+}
+
+// Root first, ending with the category itself. Stops at a missing parent or
+// a cycle instead of looping.
+export function categoryTrail(categories: Category[], key: string | null | undefined): Category[] {
+  const trail: Category[] = []
+  const seen = new Set<string>()
+  let current = findCategory(categories, key)
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    trail.unshift(current)
+    const parentId = current.parentId
+    current = parentId ? categories.find((category) => category.id === parentId) : undefined
+  }
+  return trail
+}
+
+// The category and everything nested under it, depth first
+export function categorySubtree(categories: Category[], key: string | null | undefined): Category[] {
+  const root = findCategory(categories, key)
+  if (!root) return []
+  const result: Category[] = []
+  const visit = (category: Category) => {
+    if (result.includes(category)) return
+    result.push(category)
+    childCategories(categories, category.id).forEach(visit)
+  }
+  visit(root)
+  return result
+}
+
+// Every product.category value that belongs under `key`: the subtree's slugs
+// plus their names for rows that predate slugs.
+export function categoryFilterValues(categories: Category[], key: string | null | undefined) {
+  return categorySubtree(categories, key).flatMap((category) => [category.slug, category.name])
+}
+
+// Whether making `parentId` the parent of `categoryId` would nest a category
+// inside itself
+export function wouldCreateCycle(categories: Category[], categoryId: string, parentId: string | undefined) {
+  let current = parentId
+  const seen = new Set<string>()
+  while (current && !seen.has(current)) {
+    if (current === categoryId) return true
+    seen.add(current)
+    current = categories.find((category) => category.id === current)?.parentId
+  }
+  return false
+}
+
+// Tree order with nesting depth, for indented pickers and admin tables
+export function flattenCategoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  const result: { category: Category; depth: number }[] = []
+  const seen = new Set<string>()
+  const visit = (category: Category, depth: number) => {
+    if (seen.has(category.id)) return
+    seen.add(category.id)
+    result.push({ category, depth })
+    childCategories(categories, category.id).forEach((child) => visit(child, depth + 1))
+  }
+  // Categories whose parent no longer exists are shown at the top level
+  sortCategories(categories)
+    .filter((category) => !category.parentId || !categories.some((parent) => parent.id === category.parentId))
+    .forEach((category) => visit(category, 0))
+  return result
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { fixtureCategories, fixtureProducts, fixtureVariants } from '../data/fixtures'
+import {
+  DomainValidationError,
+  cartItemCount,
+  cartSubtotal,
+  categoryFilterValues,
+  categoryTrail,
+  findVariant,
+  flattenCategoryTree,
+  isOptionValueAvailable,
+  optionCombinations,
+  parseCartItem,
+  parseCategories,
+  parseProducts,
+  wouldCreateCycle
+} from '.'
+
+describe('domain parsing', () => {
+  it('coerces numeric strings from the backend', () => {
+    const item = parseCartItem({ id: 'c1', userId: 'u1', productId: 'p1', quantity: '3' })
+    expect(item.quantity).toBe(3)
+  })
+
+  it('rejects malformed records with a typed error', () => {
+    const parse = () => parseProducts([{ ...fixtureProducts[0], price: 'free' }])
+    expect(parse).toThrow(DomainValidationError)
+    try {
+      parse()
+    } catch (error) {
+      expect(error).toMatchObject({ entity: 'product', recordId: fixtureProducts[0].id })
+      expect((error as DomainValidationError).issues[0].path).toBe('price')
+    }
+  })
+
+  it('rejects non-positive cart quantities', () => {
+    expect(() => parseCartItem({ id: 'c1', userId: 'u1', productId: 'p1', quantity: 0 })).toThrow(DomainValidationError)
+  })
+})
+
+describe('cart totals', () => {
+  const [headphones, smartwatch] = fixtureProducts
+  const lines = [
+    { id: 'c1', userId: 'u1', productId: headphones.id, quantity: 2, product: headphones },
+    { id: 'c2', userId: 'u1', productId: smartwatch.id, quantity: 1, product: smartwatch }
+  ]
+
+  it('sums price × quantity', () => {
+    expect(cartSubtotal(lines)).toBeCloseTo(459.48)
+  })
+
+  it('counts units, not lines', () => {
+    expect(cartItemCount(lines)).toBe(3)
+  })
+})
+
+describe('variants', () => {
+  const jacket = fixtureProducts.find((product) => product.id === 'prod_denim_jacket')!
+
+  it('finds the variant once every option is chosen', () => {
+    expect(findVariant(jacket.options, fixtureVariants, { Colour: 'Blue' })).toBeUndefined()
+    expect(findVariant(jacket.options, fixtureVariants, { Colour: 'Blue', Size: 'L' })?.id).toBe('var_denim_blue_l')
+  })
+
+  it('marks values that only lead to sold out variants as unavailable', () => {
+    expect(isOptionValueAvailable(fixtureVariants, {}, 'Colour', 'Black')).toBe(false)
+    expect(isOptionValueAvailable(fixtureVariants, { Colour: 'Blue' }, 'Size', 'M')).toBe(true)
+  })
+
+  it('lists every combination of option values in picker order', () => {
+    expect(optionCombinations(jacket.options)).toEqual([
+      { Colour: 'Blue', Size: 'S' },
+      { Colour: 'Blue', Size: 'M' },
+      { Colour: 'Blue', Size: 'L' },
+      { Colour: 'Black', Size: 'S' },
+      { Colour: 'Black', Size: 'M' },
+      { Colour: 'Black', Size: 'L' }
+    ])
+  })
+})
+
+describe('category tree', () => {
+  const categories = parseCategories(fixtureCategories)
+
+  it('treats blank parent ids from the backend as top level', () => {
+    const [category] = parseCategories([{ ...fixtureCategories[0], parentId: '' }])
+    expect(category.parentId).toBeUndefined()
+  })
+
+  it('walks from the root down to a subcategory', () => {
+    expect(categoryTrail(categories, 'audio').map((category) => category.slug)).toEqual(['electronics', 'audio'])
+  })
+
+  it('filters a parent category by its own and its children\'s values', () => {
+    expect(categoryFilterValues(categories, 'electronics')).toEqual(['electronics', 'Electronics', 'audio', 'Audio'])
+  })
+
+  it('nests subcategories under their parent in tree order', () => {
+    expect(flattenCategoryTree(categories).map(({ category, depth }) => `${depth}:${category.slug}`)).toEqual([
+      '0:electronics',
+      '1:audio',
+      '0:clothing',
+      '0:home-garden',
+      '0:sports'
+    ])
+  })
+
+  it('detects a category being moved under its own descendant', () => {
+    expect(wouldCreateCycle(categories, 'cat_electronics', 'cat_audio')).toBe(true)
+    expect(wouldCreateCycle(categories, 'cat_audio', 'cat_sports')).toBe(false)
+  })
+})
@@ -0,0 +1,52 @@
+import type { z } from 'zod'
+
+export type EntityName =
+  | 'product'
+  | 'productVariant'
+  | 'category'
+  | 'cartItem'
+  | 'order'
+  | 'orderItem'
+  | 'review'
+  | 'reviewVote'
+  | 'wishlistItem'
+  | 'orderLookupCode'
+  | 'address'
+  | 'payment'
+  | 'refund'
+  | 'user'
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+// Raised when a record from the backend does not match its domain schema.
+// Callers catch it alongside network errors, so render code only ever sees
+// fully-typed records.
+export class DomainValidationError extends Error {
+  readonly entity: EntityName
+  readonly recordId: string | null
+  readonly issues: ValidationIssue[]
+
+  constructor(entity: EntityName, recordId: string | null, issues: ValidationIssue[]) {
+    const summary = issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`).join('; ')
+    super(`Invalid ${entity}${recordId ? ` "${recordId}"` : ''}: ${summary}`)
+    this.name = 'DomainValidationError'
+    this.entity = entity
+    this.recordId = recordId
+    this.issues = issues
+  }
+
+  static fromZodError(entity: EntityName, raw: unknown, error: z.ZodError) {
+    const id = typeof raw === 'object' && raw !== null && 'id' in raw ? String(raw.id) : null
+    return new DomainValidationError(
+      entity,
+      id,
+      error.issues.map((issue) => ({
+        path: issue.path.map(String).join('.'),
+        message: issue.message
+      }))
+    )
+  }
+}
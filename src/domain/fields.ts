@@ -0,0 +1,64 @@
+import { z } from 'zod'
+
+// Blink returns numeric columns as either numbers or numeric strings depending
+// on the query path, so every numeric field is coerced exactly once here.
+export const money = z.coerce.number().finite().nonnegative()
+export const count = z.coerce.number().int().nonnegative()
+export const positiveCount = z.coerce.number().int().positive()
+
+export const id = z.string().min(1)
+// Blank references come back from Blink as null or ''
+export const optionalId = z.union([id, z.literal(''), z.null()]).transform((value) => value || undefined).optional()
+export const timestamp = z.string().optional()
+
+// SQLite has no boolean type, so Blink hands flags back as 0/1 or "0"/"1"
+export const flag = z
+  .union([z.boolean(), z.number(), z.string()])
+  .transform((value) => value === true || value === 1 || value === '1' || value === 'true')
+
+// Name → value maps (product attributes) are stored as JSON text in Blink and
+// as plain objects in memory
+export const stringMap = z
+  .union([z.record(z.string(), z.string()), z.string(), z.null()])
+  .optional()
+  .transform((value, ctx): Record<string, string> => {
+    if (value === null || value === undefined || value === '') return {}
+    if (typeof value !== 'string') return value
+    try {
+      const parsed = JSON.parse(value)
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) &&
+        Object.values(parsed).every((entry) => typeof entry === 'string')) {
+        return parsed
+      }
+    } catch {
+      // Reported below
+    }
+    ctx.addIssue({ code: 'custom', message: 'Expected a JSON object of text values' })
+    return z.NEVER
+  })
+
+// Lists are stored as JSON text columns in Blink and as real arrays in memory
+export function jsonList<S extends z.ZodType>(item: S) {
+  return z.preprocess((value) => {
+    if (value === null || value === undefined || value === '') return []
+    if (typeof value !== 'string') return value
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value
+    }
+  }, z.array(item))
+}
+
+// Nested records are stored the same way; a blank column reads as absent
+export function jsonObject<S extends z.ZodType>(schema: S) {
+  return z.preprocess((value) => {
+    if (value === null || value === undefined || value === '') return undefined
+    if (typeof value !== 'string') return value
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value
+    }
+  }, schema.optional()).optional()
+}
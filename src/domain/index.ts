@@ -0,0 +1,15 @@
+export * from './errors'
+export * from './parse'
+export * from './product'
+export * from './variant'
+export * from './category'
+export * from './cart'
+export * from './order'
+export * from './orderLookup'
+export * from './review'
+export * from './wishlist'
+export * from './address'
+export * from './payment'
+export * from './refund'
+export * from './orderStatus'
+export * from './user'
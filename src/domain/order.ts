@@ -0,0 +1,89 @@
+import { z } from 'zod'
+import { flag, id, jsonList, jsonObject, money, optionalId, positiveCount, timestamp } from './fields'
+import { storedAddressSchema } from './address'
+import { parseRecord, parseRecords } from './parse'
+import type { Product } from './product'
+import { orderStatusLabels, orderStatusSchema, statusChangeSchema, type OrderStatus } from './orderStatus'
+
+export const orderSchema = z.object({
+  id,
+  // Unset for guest checkouts
+  userId: optionalId,
+  // Copied from the account at checkout so staff can find orders by customer;
+  // for guests it is the only link back to the buyer
+  customerEmail: z.string().optional(),
+  totalAmount: money,
+  status: orderStatusSchema,
+  // Every transition the order has been through, oldest first
+  statusHistory: jsonList(statusChangeSchema),
+  // The address formatted for display; orders from before addresses were
+  // structured only have this
+  shippingAddress: z.string().default(''),
+  // The same address field by field
+  shipTo: jsonObject(storedAddressSchema),
+  // Client-supplied key that makes placement safe to retry
+  idempotencyKey: z.string().optional(),
+  // Set while an unpaid order has handed its stock back after a declined
+  // payment; paying for it takes the stock again
+  stockReleased: flag.optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type Order = z.infer<typeof orderSchema>
+
+export const orderItemSchema = z.object({
+  id,
+  orderId: id,
+  productId: id,
+  variantId: optionalId,
+  // The variant's SKU and options as they were at purchase, so the line
+  // still reads right after the variant changes or is removed
+  sku: z.string().nullish().transform((value) => value || undefined).optional(),
+  variantLabel: z.string().nullish().transform((value) => value || undefined).optional(),
+  quantity: positiveCount,
+  // Unit price captured at the time of purchase
+  price: money,
+  createdAt: timestamp
+})
+
+export type OrderItem = z.infer<typeof orderItemSchema>
+
+// An order item joined to its product; null once the product is deleted
+export interface OrderLine extends OrderItem {
+  product: Product | null
+}
+
+export interface OrderTimelineEntry {
+  status: OrderStatus
+  label: string
+  at?: string
+  note?: string
+}
+
+// Rounds to whole cents, e.g. after adding up prices
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+export function orderLineTotal(line: Pick<OrderItem, 'price' | 'quantity'>) {
+  return line.price * line.quantity
+}
+
+const timelineLabel = (status: OrderStatus) => (status === 'pending' ? 'Order placed' : orderStatusLabels[status])
+
+export function orderTimeline(order: Order): OrderTimelineEntry[] {
+  // Orders written before status history was recorded only know when they
+  // were placed and where they are now
+  if (order.statusHistory.length === 0) {
+    const entries: OrderTimelineEntry[] = [{ status: 'pending', label: timelineLabel('pending'), at: order.createdAt }]
+    if (order.status !== 'pending') {
+      entries.push({ status: order.status, label: timelineLabel(order.status), at: order.updatedAt })
+    }
+    return entries
+  }
+  return order.statusHistory.map((change) => ({ ...change, label: timelineLabel(change.status) }))
+}
+
+export const parseOrder = (raw: unknown) => parseRecord(orderSchema, 'order', raw)
+export const parseOrders = (rows: unknown) => parseRecords(orderSchema, 'order', rows)
+export const parseOrderItem = (raw: unknown) => parseRecord(orderItemSchema, 'orderItem', raw)
+export const parseOrderItems = (rows: unknown) => parseRecords(orderItemSchema, 'orderItem', rows)
@@ -0,0 +1,29 @@
+import { z } from 'zod'
+import { count, id, timestamp } from './fields'
+import { parseRecord } from './parse'
+
+// A one-time code emailed to a guest to confirm they own the address an
+// order was placed with. One live code per order; asking again replaces it,
+// keeping the count of wrong guesses.
+export const orderLookupCodeSchema = z.object({
+  id,
+  orderId: id,
+  // SHA-256 of the order id and code; the code itself is only in the email.
+  // Readable by the browser, so it hides the code rather than securing it.
+  codeHash: z.string().min(1),
+  expiresAt: z.string(),
+  // Wrong guesses so far, across the codes sent while one was live
+  attempts: count.default(0),
+  createdAt: timestamp
+})
+
+export type OrderLookupCode = z.infer<typeof orderLookupCodeSchema>
+
+export const parseOrderLookupCode = (raw: unknown) => parseRecord(orderLookupCodeSchema, 'orderLookupCode', raw)
+
+// Addresses are compared the way mail servers treat them in practice
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+export const emailAddressSchema = z.email('Enter a valid email address.')
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { IllegalTransitionError, allowedTransitions, applyTransition, canTransition, initialStatusHistory, parseOrder } from '.'
+
+const placedAt = '2024-04-01T10:00:00.000Z'
+
+const pendingOrder = parseOrder({
+  id: 'order_1',
+  userId: 'user_1',
+  totalAmount: 10,
+  status: 'pending',
+  statusHistory: initialStatusHistory(placedAt)
+})
+
+describe('order status machine', () => {
+  it('walks the happy path recording a timestamp per transition', () => {
+    const steps = ['paid', 'fulfilled', 'shipped', 'delivered'] as const
+    const delivered = steps.reduce(
+      (order, status, index) => applyTransition(order, status, `2024-04-0${index + 2}T10:00:00.000Z`),
+      pendingOrder
+    )
+
+    expect(delivered.status).toBe('delivered')
+    expect(delivered.statusHistory.map((change) => [change.status, change.at])).toEqual([
+      ['pending', placedAt],
+      ['paid', '2024-04-02T10:00:00.000Z'],
+      ['fulfilled', '2024-04-03T10:00:00.000Z'],
+      ['shipped', '2024-04-04T10:00:00.000Z'],
+      ['delivered', '2024-04-05T10:00:00.000Z']
+    ])
+  })
+
+  it('rejects skipping steps and leaving terminal states', () => {
+    expect(() => applyTransition(pendingOrder, 'shipped', placedAt)).toThrow(IllegalTransitionError)
+    const cancelled = applyTransition(pendingOrder, 'cancelled', placedAt)
+    expect(() => applyTransition(cancelled, 'paid', placedAt)).toThrow('cannot move from cancelled to paid')
+  })
+
+  it('only cancels unpaid orders and refunds paid ones', () => {
+    expect(canTransition('pending', 'cancelled')).toBe(true)
+    expect(canTransition('paid', 'cancelled')).toBe(false)
+    expect(canTransition('fulfilled', 'cancelled')).toBe(false)
+    expect(canTransition('paid', 'refunded')).toBe(true)
+    expect(canTransition('shipped', 'cancelled')).toBe(false)
+    expect(canTransition('shipped', 'refunded')).toBe(true)
+    expect(canTransition('pending', 'refunded')).toBe(false)
+  })
+
+  it('carries a partially refunded order on from the step it had reached', () => {
+    const shipped = ['paid', 'fulfilled', 'shipped', 'partially_refunded'] as const
+    const order = shipped.reduce((current, status) => applyTransition(current, status, placedAt), pendingOrder)
+
+    expect(allowedTransitions(order)).toEqual(['delivered', 'partially_refunded', 'refunded'])
+    expect(allowedTransitions(applyTransition(pendingOrder, 'paid', placedAt))).not.toContain('cancelled')
+    expect(() => applyTransition(order, 'fulfilled', placedAt)).toThrow(IllegalTransitionError)
+  })
+
+  it('parses history stored as JSON text', () => {
+    const order = parseOrder({ ...pendingOrder, statusHistory: JSON.stringify(pendingOrder.statusHistory) })
+    expect(order.statusHistory).toEqual([{ status: 'pending', at: placedAt }])
+  })
+})
@@ -0,0 +1,113 @@
+import { z } from 'zod'
+
+export const ORDER_STATUSES = [
+  'pending',
+  'paid',
+  'fulfilled',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'partially_refunded',
+  'refunded'
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+export const orderStatusSchema = z.enum(ORDER_STATUSES)
+
+export const statusChangeSchema = z.object({
+  status: orderStatusSchema,
+  at: z.string(),
+  note: z.string().optional()
+})
+
+export type StatusChange = z.infer<typeof statusChangeSchema>
+
+// The happy path runs pending → paid → fulfilled → shipped → delivered.
+// Only unpaid orders can be cancelled; once money has been taken an order
+// leaves the flow through a refund, which gives the money back and can
+// restock the goods. Giving back part of the money does not end the order:
+// see allowedTransitions.
+const transitions: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['fulfilled', 'partially_refunded', 'refunded'],
+  fulfilled: ['shipped', 'partially_refunded', 'refunded'],
+  shipped: ['delivered', 'partially_refunded', 'refunded'],
+  delivered: ['partially_refunded', 'refunded'],
+  cancelled: [],
+  partially_refunded: ['partially_refunded', 'refunded'],
+  refunded: []
+}
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  fulfilled: 'Fulfilled',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded'
+}
+
+export class IllegalTransitionError extends Error {
+  readonly from: OrderStatus
+  readonly to: OrderStatus
+
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`An order cannot move from ${orderStatusLabels[from].toLowerCase()} to ${orderStatusLabels[to].toLowerCase()}.`)
+    this.name = 'IllegalTransitionError'
+    this.from = from
+    this.to = to
+  }
+}
+
+export function nextStatuses(from: OrderStatus): readonly OrderStatus[] {
+  return transitions[from]
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return transitions[from].includes(to)
+}
+
+interface HasStatus {
+  status: OrderStatus
+  statusHistory: StatusChange[]
+}
+
+// The step of the happy path the order last reached, looking past partial
+// refunds
+export function fulfilmentStatus(order: HasStatus): OrderStatus {
+  if (order.status !== 'partially_refunded') return order.status
+  const reached = [...order.statusHistory].reverse().find((change) => change.status !== 'partially_refunded')
+  return reached?.status ?? 'paid'
+}
+
+// Where this particular order can go next. A partially refunded order still
+// has goods to deliver, so it carries on from the step it had reached.
+export function allowedTransitions(order: HasStatus): readonly OrderStatus[] {
+  if (order.status !== 'partially_refunded') return transitions[order.status]
+  return [...new Set([...transitions[fulfilmentStatus(order)], ...transitions.partially_refunded])]
+}
+
+export function isTerminalStatus(status: OrderStatus) {
+  return transitions[status].length === 0
+}
+
+// Whether stock taken for the order is still held, i.e. the goods have not
+// left the warehouse and the order is still live.
+export function holdsStock(status: OrderStatus) {
+  return status === 'pending' || status === 'paid' || status === 'fulfilled'
+}
+
+export function initialStatusHistory(at: string): StatusChange[] {
+  return [{ status: 'pending', at }]
+}
+
+export function applyTransition<T extends HasStatus>(order: T, to: OrderStatus, at: string, note?: string): T {
+  if (!allowedTransitions(order).includes(to)) {
+    throw new IllegalTransitionError(order.status, to)
+  }
+  const change: StatusChange = note ? { status: to, at, note } : { status: to, at }
+  return { ...order, status: to, statusHistory: [...order.statusHistory, change] }
+}
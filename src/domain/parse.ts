@@ -0,0 +1,17 @@
+import type { z } from 'zod'
+import { DomainValidationError, type EntityName } from './errors'
+
+export function parseRecord<S extends z.ZodType>(schema: S, entity: EntityName, raw: unknown): z.output<S> {
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    throw DomainValidationError.fromZodError(entity, raw, result.error)
+  }
+  return result.data
+}
+
+export function parseRecords<S extends z.ZodType>(schema: S, entity: EntityName, rows: unknown): z.output<S>[] {
+  if (!Array.isArray(rows)) {
+    throw new DomainValidationError(entity, null, [{ path: '', message: 'expected a list of records' }])
+  }
+  return rows.map((row) => parseRecord(schema, entity, row))
+}
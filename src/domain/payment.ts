@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { id, money, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+
+// Where the money for an order stands. A declined card leaves the payment
+// failed but open: the shopper can try another card against the same intent.
+export const PAYMENT_STATUSES = ['pending', 'requires_action', 'authorized', 'captured', 'failed'] as const
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number]
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  pending: 'Awaiting payment',
+  requires_action: 'Awaiting bank confirmation',
+  authorized: 'Authorized',
+  captured: 'Captured',
+  failed: 'Failed'
+}
+
+const optionalText = z.string().nullish().transform((value) => value || undefined).optional()
+
+export const paymentSchema = z.object({
+  id,
+  orderId: id,
+  // The PaymentProvider that holds the money, e.g. 'mock' or 'stripe'
+  provider: z.string().min(1),
+  // The provider's payment intent
+  intentId: id,
+  amount: money,
+  currency: z.string().default('usd'),
+  status: z.enum(PAYMENT_STATUSES),
+  // Last four digits of the card last tried
+  cardLast4: optionalText,
+  // Why the last attempt failed, in words fit for the shopper
+  failureMessage: optionalText,
+  capturedAt: optionalText,
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type Payment = z.infer<typeof paymentSchema>
+
+export type PaymentChanges = Partial<Pick<Payment, 'status' | 'cardLast4' | 'failureMessage' | 'capturedAt'>>
+
+export const parsePayment = (raw: unknown) => parseRecord(paymentSchema, 'payment', raw)
+export const parsePayments = (rows: unknown) => parseRecords(paymentSchema, 'payment', rows)
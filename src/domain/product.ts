@@ -0,0 +1,77 @@
+import { z } from 'zod'
+import { count, flag, id, jsonList, money, stringMap, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+import { productOptionSchema } from './variant'
+
+// One picture in a product's gallery. Alt text describes the picture for
+// screen readers; blank falls back to the product name.
+export const productImageSchema = z.object({
+  url: z.string().min(1),
+  alt: z.string().nullish().transform((value) => value ?? '')
+})
+
+export type ProductImage = z.infer<typeof productImageSchema>
+
+export const productSchema = z.object({
+  id,
+  name: z.string().min(1),
+  description: z.string().default(''),
+  price: money,
+  // The cover shown on cards and in the cart; the first of `images` when set
+  imageUrl: z.string().default(''),
+  // The gallery on the product page, in display order
+  images: jsonList(productImageSchema).optional().transform((value) => value ?? []),
+  category: z.string().min(1),
+  brand: z.string().nullish().transform((value) => value ?? ''),
+  // Free-form specifications shown as facets, e.g. { Colour: 'Black' }
+  attributes: stringMap,
+  // Options shoppers choose between, e.g. Size. A product with options is
+  // sold through its variants: its price is the base price variants may
+  // override, and its stock is the total over its variants.
+  options: jsonList(productOptionSchema).optional().transform((value) => value ?? []),
+  stockQuantity: count,
+  // Review aggregates, kept up to date by the backend rather than the admin form
+  ratingAverage: z.coerce.number().min(0).max(5).optional(),
+  ratingCount: count.optional(),
+  // Archived products stay readable for past orders but leave the catalog
+  archived: flag.optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type Product = z.infer<typeof productSchema>
+
+// Fields an admin may change; identity and timestamps are owned by the backend
+export type ProductChanges = Partial<Omit<Product, 'id' | 'createdAt' | 'updatedAt'>>
+
+export const isInStock = (product: Pick<Product, 'stockQuantity'>) => product.stockQuantity > 0
+
+// The gallery, or the cover alone for products without one. Alt text falls
+// back to the product name.
+export function productMedia(product: Pick<Product, 'name' | 'imageUrl' | 'images'>): ProductImage[] {
+  const images = product.images.length > 0 ? product.images : product.imageUrl ? [{ url: product.imageUrl, alt: '' }] : []
+  return images.map((image) => ({ url: image.url, alt: image.alt || product.name }))
+}
+
+export const isArchived = (product: Pick<Product, 'archived'>) => product.archived === true
+
+export const parseProduct = (raw: unknown) => parseRecord(productSchema, 'product', raw)
+export const parseProducts = (rows: unknown) => parseRecords(productSchema, 'product', rows)
+
+// The columns facets are counted over and the search index covers, for
+// backends that can fetch just those rather than whole products
+export const productFacetFieldsSchema = productSchema.pick({
+  id: true,
+  price: true,
+  stockQuantity: true,
+  ratingAverage: true,
+  brand: true,
+  attributes: true
+})
+export const productSearchFieldsSchema = productSchema.pick({ id: true, name: true, description: true, brand: true, category: true })
+
+export type ProductFacetFields = z.infer<typeof productFacetFieldsSchema>
+export type ProductSearchFields = z.infer<typeof productSearchFieldsSchema>
+
+export const parseProductFacetFields = (rows: unknown) => parseRecords(productFacetFieldsSchema, 'product', rows)
+export const parseProductSearchFields = (rows: unknown) => parseRecords(productSearchFieldsSchema, 'product', rows)
@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { flag, id, jsonList, money, positiveCount, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+
+// Refunds the provider turned down are never recorded, so a refund is either
+// done or still on its way back to the card
+export const REFUND_STATUSES = ['pending', 'succeeded'] as const
+
+export type RefundStatus = (typeof REFUND_STATUSES)[number]
+
+export const refundStatusLabels: Record<RefundStatus, string> = {
+  pending: 'Refund pending',
+  succeeded: 'Refunded'
+}
+
+export const refundLineSchema = z.object({
+  orderItemId: id,
+  quantity: positiveCount,
+  // The quantity at the price paid for it
+  amount: money
+})
+
+export type RefundLine = z.infer<typeof refundLineSchema>
+
+export const refundSchema = z.object({
+  id,
+  orderId: id,
+  paymentId: id,
+  // The provider's record of the money going back
+  providerRefundId: id,
+  amount: money,
+  status: z.enum(REFUND_STATUSES),
+  reason: z.string().min(1),
+  // The order lines given back; a refund of what is left on an order can
+  // also cover money no line accounts for
+  lines: jsonList(refundLineSchema),
+  // Whether the quantities went back on sale
+  restocked: flag,
+  createdAt: timestamp
+})
+
+export type Refund = z.infer<typeof refundSchema>
+
+export const parseRefund = (raw: unknown) => parseRecord(refundSchema, 'refund', raw)
+export const parseRefunds = (rows: unknown) => parseRecords(refundSchema, 'refund', rows)
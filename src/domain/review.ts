@@ -0,0 +1,75 @@
+import { z } from 'zod'
+import { count, id, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+import type { Product } from './product'
+
+// Reviews go live when written; moderators hide the ones that break the rules
+export const REVIEW_STATUSES = ['published', 'hidden'] as const
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number]
+
+export const reviewSchema = z.object({
+  id,
+  productId: id,
+  userId: id,
+  // Shown with the review; copied from the account when it is written
+  authorName: z.string().default(''),
+  rating: z.coerce.number().int().min(1).max(5),
+  title: z.string().nullish().transform((value) => value ?? ''),
+  body: z.string().default(''),
+  status: z.enum(REVIEW_STATUSES).default('published'),
+  helpfulCount: count.default(0),
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type Review = z.infer<typeof reviewSchema>
+
+export type ReviewChanges = Partial<Pick<Review, 'rating' | 'title' | 'body' | 'status' | 'helpfulCount'>>
+
+// One per shopper and review; the id is derived from both so a second vote
+// collides instead of counting twice
+export const reviewVoteSchema = z.object({
+  id,
+  reviewId: id,
+  productId: id,
+  userId: id,
+  createdAt: timestamp
+})
+
+export type ReviewVote = z.infer<typeof reviewVoteSchema>
+
+export const reviewVoteId = (reviewId: string, userId: string) => `vote_${reviewId}_${userId}`
+
+export type RatingSummary = Pick<Product, 'ratingAverage' | 'ratingCount'>
+
+// The product's aggregates with one published rating added, `previous`
+// replaced or, with no `next`, `previous` taken away. Kept incrementally so
+// showing a product never needs its reviews.
+export function updateRatingSummary(summary: RatingSummary, change: { previous?: number; next?: number }) {
+  const ratingCount = summary.ratingCount ?? 0
+  let total = (summary.ratingAverage ?? 0) * ratingCount
+  let countAfter = ratingCount
+  if (change.previous !== undefined && ratingCount > 0) {
+    total -= change.previous
+    countAfter -= 1
+  }
+  if (change.next !== undefined) {
+    total += change.next
+    countAfter += 1
+  }
+  return {
+    ratingCount: countAfter,
+    // Rounded so repeated updates do not accumulate floating point noise
+    ratingAverage: countAfter > 0 ? Math.round((total / countAfter) * 1000) / 1000 : 0
+  }
+}
+
+// "4.5", or undefined for a product nobody has rated
+export function formatRating(summary: RatingSummary) {
+  return summary.ratingCount ? (summary.ratingAverage ?? 0).toFixed(1) : undefined
+}
+
+export const parseReview = (raw: unknown) => parseRecord(reviewSchema, 'review', raw)
+export const parseReviews = (rows: unknown) => parseRecords(reviewSchema, 'review', rows)
+export const parseReviewVotes = (rows: unknown) => parseRecords(reviewVoteSchema, 'reviewVote', rows)
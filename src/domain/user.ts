@@ -0,0 +1,25 @@
+import { z } from 'zod'
+import { id } from './fields'
+import { parseRecord } from './parse'
+
+export const USER_ROLES = ['customer', 'admin'] as const
+
+export const userRoleSchema = z.enum(USER_ROLES)
+
+export type UserRole = z.infer<typeof userRoleSchema>
+
+export const userSchema = z.object({
+  id,
+  email: z.string(),
+  displayName: z.string().optional(),
+  // Absent for ordinary shoppers
+  role: userRoleSchema.optional()
+})
+
+export type User = z.infer<typeof userSchema>
+
+export const parseUser = (raw: unknown) => parseRecord(userSchema, 'user', raw)
+
+// Only decides what the UI offers; the backend's access rules are what
+// actually keep non-admins out of admin writes.
+export const isAdmin = (user: Pick<User, 'role'> | null | undefined) => user?.role === 'admin'
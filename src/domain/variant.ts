@@ -0,0 +1,115 @@
+import { z } from 'zod'
+import { count, id, money, stringMap, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+import { productMedia, type Product, type ProductImage } from './product'
+
+// A choice the shopper makes, e.g. Size with values S, M and L. Values are
+// listed in the order the picker shows them.
+export const productOptionSchema = z.object({
+  name: z.string().min(1),
+  values: z.array(z.string().min(1)).min(1)
+})
+
+export type ProductOption = z.infer<typeof productOptionSchema>
+
+export const productVariantSchema = z.object({
+  id,
+  productId: id,
+  sku: z.string().nullish().transform((value) => value ?? ''),
+  // Option name → value, one entry per option of the product
+  options: stringMap,
+  // Replaces the product price when set. Blink hands back blank columns as
+  // null or '', which must not coerce to a price of 0.
+  price: z
+    .union([z.null(), z.literal(''), money])
+    .transform((value) => (value === null || value === '' ? undefined : value))
+    .optional(),
+  stockQuantity: count,
+  // Falls back to the product image when blank
+  imageUrl: z.string().nullish().transform((value) => value ?? ''),
+  position: count.default(0),
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type ProductVariant = z.infer<typeof productVariantSchema>
+
+export type ProductVariantChanges = Partial<Omit<ProductVariant, 'id' | 'productId' | 'createdAt' | 'updatedAt'>>
+
+// Option name → chosen value; may be partial while the shopper is choosing
+export type OptionSelection = Record<string, string>
+
+export const hasVariants = (product: Pick<Product, 'options'>) => product.options.length > 0
+
+export const variantPrice = (product: Pick<Product, 'price'>, variant?: Pick<ProductVariant, 'price'> | null) =>
+  variant?.price ?? product.price
+
+export const variantImage = (product: Pick<Product, 'imageUrl'>, variant?: Pick<ProductVariant, 'imageUrl'> | null) =>
+  variant?.imageUrl || product.imageUrl
+
+// "Size: M, Colour: Blue", in the variant's own option order
+export function variantLabel(variant: Pick<ProductVariant, 'options'>) {
+  return Object.entries(variant.options).map(([name, value]) => `${name}: ${value}`).join(', ')
+}
+
+export function matchesSelection(variant: Pick<ProductVariant, 'options'>, selection: OptionSelection) {
+  return Object.entries(selection).every(([name, value]) => variant.options[name] === value)
+}
+
+// The variant for a complete selection; undefined while any option is unchosen
+export function findVariant<V extends Pick<ProductVariant, 'options'>>(
+  options: ProductOption[],
+  variants: V[],
+  selection: OptionSelection
+): V | undefined {
+  if (!options.every((option) => selection[option.name])) return undefined
+  return variants.find((variant) => matchesSelection(variant, selection))
+}
+
+// Whether picking `value` for `optionName`, keeping the other choices, leads
+// to a variant that is in stock
+export function isOptionValueAvailable(
+  variants: Pick<ProductVariant, 'options' | 'stockQuantity'>[],
+  selection: OptionSelection,
+  optionName: string,
+  value: string
+) {
+  const next = { ...selection, [optionName]: value }
+  return variants.some((variant) => variant.stockQuantity > 0 && matchesSelection(variant, next))
+}
+
+// Every combination of option values, in picker order: the admin console
+// generates one variant per combination
+export function optionCombinations(options: ProductOption[]): OptionSelection[] {
+  return options.reduce<OptionSelection[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) => option.values.map((value) => ({ ...combination, [option.name]: value }))),
+    [{}]
+  )
+}
+
+// The product gallery followed by variant images it does not already show, so
+// choosing a variant can bring its picture into view
+export function variantGallery(
+  product: Pick<Product, 'name' | 'imageUrl' | 'images'>,
+  variants: Pick<ProductVariant, 'options' | 'imageUrl'>[]
+): ProductImage[] {
+  const gallery = productMedia(product)
+  for (const variant of variants) {
+    if (variant.imageUrl && !gallery.some((image) => image.url === variant.imageUrl)) {
+      gallery.push({ url: variant.imageUrl, alt: `${product.name} (${variantLabel(variant)})` })
+    }
+  }
+  return gallery
+}
+
+export function totalVariantStock(variants: Pick<ProductVariant, 'stockQuantity'>[]) {
+  return variants.reduce((total, variant) => total + variant.stockQuantity, 0)
+}
+
+export function sortVariants<V extends Pick<ProductVariant, 'position'>>(variants: V[]) {
+  return [...variants].sort((a, b) => a.position - b.position)
+}
+
+export const parseVariant = (raw: unknown) => parseRecord(productVariantSchema, 'productVariant', raw)
+export const parseVariants = (rows: unknown) => parseRecords(productVariantSchema, 'productVariant', rows)
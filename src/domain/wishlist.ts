@@ -0,0 +1,60 @@
+import { z } from 'zod'
+import { flag, id, money, optionalId, positiveCount, timestamp } from './fields'
+import { parseRecord, parseRecords } from './parse'
+import { lineStock, lineUnitPrice, type CartLine } from './cart'
+import type { Product } from './product'
+import type { ProductVariant } from './variant'
+
+export const wishlistItemSchema = z.object({
+  id,
+  userId: id,
+  productId: id,
+  // Set when the item was saved for later from a cart line with a variant
+  variantId: optionalId,
+  // Restored to the cart by "move to cart"
+  quantity: positiveCount.default(1),
+  // Unit price when the item was saved
+  savedPrice: money,
+  // What the shopper was last told about, so each price drop or restock
+  // is announced once
+  seenPrice: money,
+  seenInStock: flag,
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export type WishlistItem = z.infer<typeof wishlistItemSchema>
+
+export type WishlistItemChanges = Partial<Pick<WishlistItem, 'quantity' | 'seenPrice' | 'seenInStock'>>
+
+// A wishlist item joined to the product (and variant) it refers to
+export interface WishlistLine extends WishlistItem {
+  product: Product
+  variant?: ProductVariant
+}
+
+export type WishlistAlert =
+  | { kind: 'price_drop'; previousPrice: number; price: number }
+  | { kind: 'back_in_stock' }
+
+export const parseWishlistItem = (raw: unknown) => parseRecord(wishlistItemSchema, 'wishlistItem', raw)
+export const parseWishlistItems = (rows: unknown) => parseRecords(wishlistItemSchema, 'wishlistItem', rows)
+
+// Price and availability as the shopper sees them now
+export function wishlistSnapshot(line: Pick<CartLine, 'product' | 'variant'>) {
+  return { seenPrice: lineUnitPrice(line), seenInStock: lineStock(line) > 0 }
+}
+
+// What changed in the shopper's favour since they last looked. Price rises
+// and sell-outs are not announced.
+export function wishlistAlerts(line: WishlistLine): WishlistAlert[] {
+  const { seenPrice, seenInStock } = wishlistSnapshot(line)
+  const alerts: WishlistAlert[] = []
+  if (seenPrice < line.seenPrice) {
+    alerts.push({ kind: 'price_drop', previousPrice: line.seenPrice, price: seenPrice })
+  }
+  if (seenInStock && !line.seenInStock) {
+    alerts.push({ kind: 'back_in_stock' })
+  }
+  return alerts
+}
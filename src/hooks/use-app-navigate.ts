@@ -0,0 +1,22 @@
+import { useCallback } from 'react'
+import { useNavigate, useParams, type NavigateOptions } from 'react-router-dom'
+import { routes, type RouteArgs, type RouteName, type RouteParams } from '../lib/routes'
+
+export type AppNavigate = <K extends RouteName>(route: K, ...args: RouteArgs<K>) => void
+
+export function useAppNavigate(options?: NavigateOptions): AppNavigate {
+  const navigate = useNavigate()
+  const replace = options?.replace
+
+  return useCallback(
+    <K extends RouteName>(route: K, ...args: RouteArgs<K>) => {
+      const build = routes[route] as (...params: RouteArgs<K>) => string
+      navigate(build(...args), { replace })
+    },
+    [navigate, replace]
+  )
+}
+
+export function useRouteParams<K extends keyof RouteParams>(): Partial<RouteParams[K]> {
+  return useParams() as Partial<RouteParams[K]>
+}
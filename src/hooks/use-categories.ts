@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react'
+import { findCategory, type Category } from '../domain'
+import { useData } from '../data'
+
+// The category list, loaded once per page. Categories change rarely, so
+// pages that only display names do not need to refresh it.
+export function useCategories() {
+  const { categories: repository } = useData()
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const reload = useCallback(async () => {
+    try {
+      setCategories(await repository.list())
+    } catch (error) {
+      console.error('Failed to load categories:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [repository])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  // Display name for a product's category value, or the raw value when it
+  // matches no category
+  const categoryName = useCallback(
+    (key: string) => findCategory(categories, key)?.name ?? key,
+    [categories]
+  )
+
+  return { categories, loading, reload, categoryName }
+}
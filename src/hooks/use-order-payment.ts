@@ -0,0 +1,39 @@
+import { useCallback, useRef, useState } from 'react'
+import { useData } from '../data'
+import type { CardDetails } from '../payments'
+import { payOrder, resumePayment, type PaymentOutcome } from '../services/payments'
+
+// A 3-D Secure challenge the shopper is working through
+export interface PaymentChallenge {
+  intentId: string
+  url: string
+  amount: number
+}
+
+// Pays for orders from a page. When the bank asks for 3-D Secure, `challenge`
+// is set until the page's ThreeDSecureDialog calls `completeChallenge`; `pay`
+// resolves after that, paid or declined.
+export function useOrderPayment() {
+  const data = useData()
+  const [challenge, setChallenge] = useState<PaymentChallenge | null>(null)
+  const finishChallenge = useRef<(() => void) | null>(null)
+
+  const pay = useCallback(async (orderId: string, card?: CardDetails): Promise<PaymentOutcome> => {
+    const outcome = await payOrder(data, orderId, card)
+    if (outcome.status !== 'requires_action') return outcome
+
+    await new Promise<void>((resolve) => {
+      finishChallenge.current = resolve
+      setChallenge({ intentId: outcome.payment.intentId, url: outcome.action.url, amount: outcome.payment.amount })
+    })
+    setChallenge(null)
+    return resumePayment(data, orderId)
+  }, [data])
+
+  const completeChallenge = useCallback(() => {
+    finishChallenge.current?.()
+    finishChallenge.current = null
+  }, [])
+
+  return { pay, challenge, completeChallenge }
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { Product, ProductVariant, WishlistItem } from '../domain'
+import { useData } from '../data'
+import { ToastAction } from '../components/ui/toast'
+import { useToast } from './use-toast'
+import { addToWishlist, isWishlisted, removeFromWishlist } from '../services/wishlist'
+
+// The signed-in shopper's wishlist for pages that show hearts, loaded once
+// per page and refreshed after each toggle.
+export function useWishlist() {
+  const data = useData()
+  const { toast } = useToast()
+  const [items, setItems] = useState<WishlistItem[]>([])
+
+  const reload = useCallback(async () => {
+    try {
+      const user = await data.auth.current()
+      setItems(user ? await data.wishlist.listByUser(user.id) : [])
+    } catch (error) {
+      console.error('Failed to load wishlist:', error)
+    }
+  }, [data])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const isSaved = useCallback((productId: string) => isWishlisted(items, productId), [items])
+
+  // Hearts and un-hearts the product; a chosen variant is remembered so
+  // "move to cart" can add it without asking again
+  const toggle = useCallback(async (product: Product, variant?: ProductVariant) => {
+    try {
+      const user = await data.auth.current()
+      if (!user) {
+        toast({
+          title: "Sign in to save items",
+          description: "Your wishlist is kept with your account.",
+          action: (
+            <ToastAction altText="Sign in" onClick={() => data.auth.login()}>
+              Sign In
+            </ToastAction>
+          )
+        })
+        return
+      }
+      if (isWishlisted(items, product.id)) {
+        await removeFromWishlist(data, user.id, product.id)
+        toast({ title: "Removed from wishlist", description: `${product.name} is no longer on your wishlist.` })
+      } else {
+        await addToWishlist(data, user.id, product, { variant })
+        toast({
+          title: "Saved to wishlist",
+          description: `We'll let you know if ${product.name} drops in price or comes back in stock.`
+        })
+      }
+      await reload()
+    } catch (error) {
+      console.error('Failed to update wishlist:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update your wishlist.",
+        variant: "destructive"
+      })
+    }
+  }, [data, items, reload, toast])
+
+  return { items, isSaved, toggle, reload }
+}
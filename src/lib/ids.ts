@@ -0,0 +1,4 @@
+// Client-generated record ids, e.g. `cart_1718000000000_k3j9x0a1b`
+export function createId(prefix: string) {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
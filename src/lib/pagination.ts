@@ -0,0 +1,24 @@
+export type PageWindowItem = number | 'ellipsis'
+
+// Page numbers to show in a pager: always the first and last page, the
+// current page with `siblings` neighbours either side, and an ellipsis
+// wherever pages are skipped. 1-based.
+export function pageWindow(current: number, pageCount: number, siblings = 1): PageWindowItem[] {
+  const pages = new Set([1, pageCount])
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page >= 1 && page <= pageCount) pages.add(page)
+  }
+
+  const items: PageWindowItem[] = []
+  let previous = 0
+  for (const page of [...pages].sort((a, b) => a - b)) {
+    if (page - previous === 2) {
+      items.push(previous + 1)
+    } else if (page - previous > 2) {
+      items.push('ellipsis')
+    }
+    items.push(page)
+    previous = page
+  }
+  return items
+}
@@ -0,0 +1,98 @@
+import type { ProductFilters } from '../data'
+
+// Facet filters as URL search params, so a filtered view can be shared:
+// ?min=20&max=80&stock=1&rating=4&brand=Sonora&brand=Pulse&attr.Colour=Black
+const ATTRIBUTE_PREFIX = 'attr.'
+const FILTER_KEYS = ['min', 'max', 'stock', 'rating', 'brand']
+
+function parseNumber(value: string | null) {
+  if (value === null || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : undefined
+}
+
+export function parseProductFilters(params: URLSearchParams): ProductFilters {
+  const attributes: Record<string, string[]> = {}
+  params.forEach((value, key) => {
+    if (!key.startsWith(ATTRIBUTE_PREFIX) || !value) return
+    const name = key.slice(ATTRIBUTE_PREFIX.length)
+    attributes[name] = [...(attributes[name] ?? []), value]
+  })
+  return {
+    priceMin: parseNumber(params.get('min')),
+    priceMax: parseNumber(params.get('max')),
+    inStock: params.get('stock') === '1' || undefined,
+    minRating: parseNumber(params.get('rating')),
+    brands: params.getAll('brand').filter(Boolean),
+    attributes
+  }
+}
+
+// A copy of `params` with its filter keys replaced; other keys (category,
+// search text) are kept
+export function writeProductFilters(params: URLSearchParams, filters: ProductFilters) {
+  const next = new URLSearchParams(params)
+  FILTER_KEYS.forEach((key) => next.delete(key))
+  ;[...next.keys()].filter((key) => key.startsWith(ATTRIBUTE_PREFIX)).forEach((key) => next.delete(key))
+
+  if (filters.priceMin !== undefined) next.set('min', String(filters.priceMin))
+  if (filters.priceMax !== undefined) next.set('max', String(filters.priceMax))
+  if (filters.inStock) next.set('stock', '1')
+  if (filters.minRating !== undefined) next.set('rating', String(filters.minRating))
+  filters.brands?.forEach((brand) => next.append('brand', brand))
+  Object.entries(filters.attributes ?? {}).forEach(([name, values]) =>
+    values.forEach((value) => next.append(`${ATTRIBUTE_PREFIX}${name}`, value))
+  )
+  return next
+}
+
+// Adds `value` to the list when absent, removes it when present
+export function toggleValue(values: string[] = [], value: string) {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+}
+
+export interface FilterChip {
+  key: string
+  label: string
+  // The filters with just this one removed
+  without: ProductFilters
+}
+
+const formatPrice = (value: number) => `$${value % 1 === 0 ? value : value.toFixed(2)}`
+
+// One removable chip per active filter value
+export function filterChips(filters: ProductFilters): FilterChip[] {
+  const chips: FilterChip[] = []
+  const { priceMin, priceMax } = filters
+  const priceLabel = priceMin !== undefined && priceMax !== undefined
+    ? `${formatPrice(priceMin)} – ${formatPrice(priceMax)}`
+    : priceMin !== undefined
+      ? `From ${formatPrice(priceMin)}`
+      : priceMax !== undefined ? `Up to ${formatPrice(priceMax)}` : null
+  if (priceLabel) {
+    chips.push({ key: 'price', label: priceLabel, without: { ...filters, priceMin: undefined, priceMax: undefined } })
+  }
+  if (filters.inStock) {
+    chips.push({ key: 'stock', label: 'In stock', without: { ...filters, inStock: undefined } })
+  }
+  if (filters.minRating !== undefined) {
+    chips.push({ key: 'rating', label: `${filters.minRating}★ & up`, without: { ...filters, minRating: undefined } })
+  }
+  filters.brands?.forEach((brand) => {
+    chips.push({
+      key: `brand:${brand}`,
+      label: brand,
+      without: { ...filters, brands: toggleValue(filters.brands, brand) }
+    })
+  })
+  Object.entries(filters.attributes ?? {}).forEach(([name, values]) => {
+    values.forEach((value) => {
+      chips.push({
+        key: `attr:${name}:${value}`,
+        label: `${name}: ${value}`,
+        without: { ...filters, attributes: { ...filters.attributes, [name]: toggleValue(values, value) } }
+      })
+    })
+  })
+  return chips
+}
@@ -0,0 +1,54 @@
+export const PRODUCTS_PAGE_SIZE = 12
+
+// Numbered pages or one list that grows as the shopper scrolls
+export type PagingMode = 'pages' | 'infinite'
+
+const PAGING_MODE_KEY = 'shopeasy:product-paging'
+const LIST_POSITION_KEY = 'shopeasy:product-list-position'
+
+export function loadPagingMode(storage: Storage = localStorage): PagingMode {
+  return storage.getItem(PAGING_MODE_KEY) === 'infinite' ? 'infinite' : 'pages'
+}
+
+export function savePagingMode(mode: PagingMode, storage: Storage = localStorage) {
+  storage.setItem(PAGING_MODE_KEY, mode)
+}
+
+// 1-based; anything unreadable is the first page
+export function parsePage(value: string | null) {
+  const page = Number(value)
+  return Number.isInteger(page) && page > 1 ? page : 1
+}
+
+// Where the shopper was in a product list when they opened a product. `key`
+// identifies the list (its URL and paging mode), so a position is only
+// restored on the same list.
+export interface ListPosition {
+  key: string
+  // Products shown, so an infinite list can be reloaded to the same length
+  loaded: number
+  scrollY: number
+}
+
+// Session storage: a position is only useful within the same tab
+export function saveListPosition(position: ListPosition, storage: Storage = sessionStorage) {
+  storage.setItem(LIST_POSITION_KEY, JSON.stringify(position))
+}
+
+// The saved position for `key`, if that is the list being shown. Unreadable
+// storage is treated as empty.
+export function readListPosition(key: string, storage: Storage = sessionStorage): ListPosition | null {
+  try {
+    const position = JSON.parse(storage.getItem(LIST_POSITION_KEY) ?? 'null')
+    return position?.key === key && Number.isFinite(position.loaded) && Number.isFinite(position.scrollY)
+      ? position
+      : null
+  } catch {
+    return null
+  }
+}
+
+// Called once a position has been restored, so it is restored at most once
+export function clearListPosition(storage: Storage = sessionStorage) {
+  storage.removeItem(LIST_POSITION_KEY)
+}
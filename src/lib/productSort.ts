@@ -0,0 +1,32 @@
+import type { ProductQuery } from '../data'
+
+// Storefront sort choices, in menu order. Relevance has no orderBy: search
+// results come back ranked.
+export const PRODUCT_SORTS = {
+  relevance: { label: 'Relevance', orderBy: undefined },
+  name: { label: 'Name', orderBy: { field: 'name', direction: 'asc' } },
+  'price-asc': { label: 'Price: low to high', orderBy: { field: 'price', direction: 'asc' } },
+  'price-desc': { label: 'Price: high to low', orderBy: { field: 'price', direction: 'desc' } },
+  newest: { label: 'Newest', orderBy: { field: 'createdAt', direction: 'desc' } },
+  'best-selling': { label: 'Best selling', orderBy: { field: 'unitsSold', direction: 'desc' } },
+  'top-rated': { label: 'Top rated', orderBy: { field: 'ratingAverage', direction: 'desc' } },
+  category: { label: 'Category', orderBy: { field: 'category', direction: 'asc' } }
+} satisfies Record<string, { label: string; orderBy: ProductQuery['orderBy'] }>
+
+export type ProductSort = keyof typeof PRODUCT_SORTS
+
+const isProductSort = (value: string | null): value is ProductSort =>
+  value !== null && Object.prototype.hasOwnProperty.call(PRODUCT_SORTS, value)
+
+// The `sort` URL param, falling back to relevance while searching and to
+// name otherwise. Relevance means nothing without a search.
+export function parseProductSort(value: string | null, searching: boolean): ProductSort {
+  const fallback = searching ? 'relevance' : 'name'
+  if (!isProductSort(value)) return fallback
+  return value === 'relevance' && !searching ? fallback : value
+}
+
+// The sorts on offer: relevance only while searching
+export function productSortOptions(searching: boolean) {
+  return (Object.keys(PRODUCT_SORTS) as ProductSort[]).filter((sort) => searching || sort !== 'relevance')
+}
@@ -0,0 +1,28 @@
+const RECENT_SEARCHES_KEY = 'shopeasy:recent-searches'
+const MAX_RECENT_SEARCHES = 5
+
+// Newest first. Unreadable storage is treated as empty.
+export function loadRecentSearches(storage: Storage = localStorage): string[] {
+  try {
+    const stored = JSON.parse(storage.getItem(RECENT_SEARCHES_KEY) ?? '[]')
+    return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// Moves a repeated search back to the top instead of listing it twice
+export function addRecentSearch(term: string, storage: Storage = localStorage) {
+  const trimmed = term.trim()
+  if (!trimmed) return loadRecentSearches(storage)
+  const next = [
+    trimmed,
+    ...loadRecentSearches(storage).filter((item) => item.toLowerCase() !== trimmed.toLowerCase())
+  ].slice(0, MAX_RECENT_SEARCHES)
+  storage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next))
+  return next
+}
+
+export function clearRecentSearches(storage: Storage = localStorage) {
+  storage.removeItem(RECENT_SEARCHES_KEY)
+}
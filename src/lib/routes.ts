@@ -0,0 +1,66 @@
+// Central route table. Path patterns are what <Route> matches against,
+// `routes` builds concrete URLs so pages never hand-assemble strings.
+
+export const routePatterns = {
+  home: '/',
+  products: '/products',
+  productDetail: '/products/:productId',
+  cart: '/cart',
+  wishlist: '/wishlist',
+  checkout: '/checkout',
+  orders: '/orders',
+  // Guests find an order by its number and email; outranks orderDetail
+  orderLookup: '/orders/lookup',
+  orderDetail: '/orders/:orderId',
+  addresses: '/account/addresses',
+  admin: '/admin',
+  adminProducts: '/admin/products',
+  adminProductNew: '/admin/products/new',
+  adminProductEdit: '/admin/products/:productId/edit',
+  adminOrders: '/admin/orders',
+  adminReviews: '/admin/reviews',
+  adminCategories: '/admin/categories',
+} as const
+
+export interface ProductsSearch {
+  category?: string | null
+  // Free-text search
+  q?: string | null
+}
+
+export const routes = {
+  home: () => routePatterns.home,
+  products: (search: ProductsSearch = {}) => {
+    const params = new URLSearchParams()
+    if (search.category) params.set('category', search.category)
+    if (search.q) params.set('q', search.q)
+    const query = params.toString()
+    return query ? `${routePatterns.products}?${query}` : routePatterns.products
+  },
+  productDetail: (productId: string) => `${routePatterns.products}/${encodeURIComponent(productId)}`,
+  cart: () => routePatterns.cart,
+  wishlist: () => routePatterns.wishlist,
+  checkout: () => routePatterns.checkout,
+  orders: () => routePatterns.orders,
+  orderLookup: () => routePatterns.orderLookup,
+  orderDetail: (orderId: string) => `${routePatterns.orders}/${encodeURIComponent(orderId)}`,
+  addresses: () => routePatterns.addresses,
+  admin: () => routePatterns.admin,
+  adminProducts: () => routePatterns.adminProducts,
+  adminProductNew: () => routePatterns.adminProductNew,
+  adminProductEdit: (productId: string) =>
+    `${routePatterns.adminProducts}/${encodeURIComponent(productId)}/edit`,
+  adminOrders: () => routePatterns.adminOrders,
+  adminReviews: () => routePatterns.adminReviews,
+  adminCategories: () => routePatterns.adminCategories,
+}
+
+export type RouteName = keyof typeof routes
+export type RouteArgs<K extends RouteName> = Parameters<(typeof routes)[K]>
+
+// Params exposed by each parameterised pattern, keyed by route name.
+export interface RouteParams {
+  productDetail: { productId: string }
+  orderDetail: { orderId: string }
+  adminProductEdit: { productId: string }
+}
@@ -1,12 +1,27 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import App from './App'
+import { DataContext, createDataBackend, resolveBackendKind } from './data'
+import { resolvePaymentProvider } from './payments'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <Toaster position="top-right" />
-    <App />
-  </React.StrictMode>,
-) 
\ No newline at end of file
+createDataBackend(
+  resolveBackendKind(import.meta.env.VITE_DATA_BACKEND),
+  resolvePaymentProvider(import.meta.env, {
+    // Only the hosted backend has sessions for the payment server to check
+    getAuthToken: async () => (await import('./blink/client')).blink.auth.getValidToken()
+  })
+).then((backend) => {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <DataContext.Provider value={backend}>
+        <BrowserRouter>
+          <Toaster position="top-right" />
+          <App />
+        </BrowserRouter>
+      </DataContext.Provider>
+    </React.StrictMode>,
+  )
+})
@@ -0,0 +1,56 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureAddress, fixtureUser } from '../data'
+import { fillAddress } from '../test/fillAddress'
+import { renderApp } from '../test/renderApp'
+
+describe('AddressesPage', () => {
+  it('checks the postal code against the country before saving', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: fixtureUser })
+    renderApp(backend, '/account/addresses')
+
+    await user.click(await screen.findByRole('button', { name: 'Add Address' }))
+    await fillAddress(user, { ...fixtureAddress, postalCode: '6270' })
+    await user.click(screen.getByRole('button', { name: 'Save Address' }))
+    expect(await screen.findByText('ZIP code should look like 94103')).toBeInTheDocument()
+
+    await user.clear(screen.getByLabelText('ZIP code'))
+    await user.type(screen.getByLabelText('ZIP code'), '62701')
+    await user.click(screen.getByRole('button', { name: 'Save Address' }))
+
+    expect(await screen.findByText('Springfield, IL 62701')).toBeInTheDocument()
+    expect(screen.getByText('Default')).toBeInTheDocument()
+  })
+
+  it('moves the default and hands it on when the default is deleted', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        addresses: [
+          { id: 'addr_home', userId: fixtureUser.id, ...fixtureAddress, isDefault: true, createdAt: '2026-01-01T00:00:00.000Z' },
+          { id: 'addr_work', userId: fixtureUser.id, ...fixtureAddress, line1: '9 Office Park', isDefault: false, createdAt: '2026-02-01T00:00:00.000Z' }
+        ]
+      }
+    })
+    renderApp(backend, '/account/addresses')
+
+    await user.click(await screen.findByRole('button', { name: 'Set as default' }))
+    await waitFor(async () => expect(await backend.addresses.listByUser(fixtureUser.id)).toEqual([
+      expect.objectContaining({ id: 'addr_work', isDefault: true }),
+      expect.objectContaining({ id: 'addr_home', isDefault: false })
+    ]))
+
+    const work = (await screen.findByText('9 Office Park')).closest('.space-y-4') as HTMLElement
+    await user.click(within(work).getByRole('button', { name: 'Delete' }))
+    await user.click(await screen.findByRole('button', { name: 'Delete' }))
+
+    await waitFor(() => expect(screen.queryByText('9 Office Park')).not.toBeInTheDocument())
+    expect(await backend.addresses.listByUser(fixtureUser.id)).toEqual([
+      expect.objectContaining({ id: 'addr_home', isDefault: true })
+    ])
+  })
+})
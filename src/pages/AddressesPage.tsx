@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback } from 'react'
+import { MapPin, Plus } from 'lucide-react'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Card, CardContent } from '../components/ui/card'
+import { Checkbox } from '../components/ui/checkbox'
+import { Label } from '../components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '../components/ui/alert-dialog'
+import { AddressForm } from '../components/addresses/AddressForm'
+import { AddressLines } from '../components/addresses/AddressLines'
+import { useToast } from '../hooks/use-toast'
+import { addressOf, type Address, type SavedAddress } from '../domain'
+import { useData } from '../data'
+import { InvalidAddressError, addAddress, removeAddress, setDefaultAddress, updateAddress } from '../services/addressBook'
+
+export function AddressesPage() {
+  const data = useData()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [addresses, setAddresses] = useState<SavedAddress[]>([])
+  const [loading, setLoading] = useState(true)
+  // The address being edited, 'new' while adding one, null with the dialog closed
+  const [editing, setEditing] = useState<SavedAddress | 'new' | null>(null)
+  const [makeDefault, setMakeDefault] = useState(false)
+  const [updating, setUpdating] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const loadAddresses = useCallback(async () => {
+    try {
+      const user = await data.auth.me()
+      setUserId(user.id)
+      setAddresses(await data.addresses.listByUser(user.id))
+    } catch (error) {
+      console.error('Failed to load addresses:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load your addresses.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [data, toast])
+
+  useEffect(() => {
+    loadAddresses()
+  }, [loadAddresses])
+
+  const openNew = () => {
+    setMakeDefault(false)
+    setEditing('new')
+  }
+
+  const handleSave = async (address: Address) => {
+    if (!userId || !editing) return
+    try {
+      if (editing === 'new') {
+        await addAddress(data, userId, address, { makeDefault })
+        toast({ title: "Address saved", description: "It's ready to pick at checkout." })
+      } else {
+        await updateAddress(data, editing.id, address)
+        toast({ title: "Address updated", description: `${address.line1} has been updated.` })
+      }
+      setEditing(null)
+      await loadAddresses()
+    } catch (error) {
+      // The form shows these against its fields
+      if (error instanceof InvalidAddressError) throw error
+      console.error('Failed to save address:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save the address.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const runUpdate = async (address: SavedAddress, action: () => Promise<void>, failure: string) => {
+    setUpdating(address.id)
+    try {
+      await action()
+      await loadAddresses()
+    } catch (error) {
+      console.error(`Failed to ${failure}:`, error)
+      toast({
+        title: "Error",
+        description: `Failed to ${failure}.`,
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const handleSetDefault = (address: SavedAddress) =>
+    runUpdate(address, () => setDefaultAddress(data, address.userId, address.id), 'set the default address')
+
+  const handleRemove = (address: SavedAddress) =>
+    runUpdate(address, () => removeAddress(data, address.userId, address.id), 'delete the address')
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-300 rounded w-48 mb-8"></div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {[...Array(2)].map((_, i) => (
+                <div key={i} className="h-40 bg-gray-300 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">My Addresses</h1>
+          <Button onClick={openNew}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Address
+          </Button>
+        </div>
+
+        {addresses.length === 0 ? (
+          <div className="text-center py-12">
+            <MapPin className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">No saved addresses</h2>
+            <p className="text-gray-600">Addresses you save here can be picked at checkout.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {addresses.map((address) => (
+              <Card key={address.id}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <AddressLines address={address} />
+                    {address.isDefault && <Badge>Default</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing(address)} disabled={updating === address.id}>
+                      Edit
+                    </Button>
+                    {!address.isDefault && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSetDefault(address)}
+                        disabled={updating === address.id}
+                      >
+                        Set as default
+                      </Button>
+                    )}
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          disabled={updating === address.id}
+                        >
+                          Delete
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this address?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {address.line1} will no longer be offered at checkout. Past orders keep their address.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRemove(address)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Address' : 'Edit Address'}</DialogTitle>
+            <DialogDescription>Postal codes are checked against the country you choose.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <AddressForm
+              defaultValues={editing === 'new' ? undefined : addressOf(editing)}
+              submitLabel="Save Address"
+              onSubmit={handleSave}
+              onCancel={() => setEditing(null)}
+            >
+              {editing === 'new' && addresses.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="make-default"
+                    checked={makeDefault}
+                    onCheckedChange={(checked) => setMakeDefault(checked === true)}
+                  />
+                  <Label htmlFor="make-default">Make this my default address</Label>
+                </div>
+              )}
+            </AddressForm>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
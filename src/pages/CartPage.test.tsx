@@ -0,0 +1,79 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser } from '../data'
+import { renderApp } from '../test/renderApp'
+
+const seedCart = () => createMemoryBackend({
+  storage: null,
+  user: fixtureUser,
+  seed: {
+    cartItems: [
+      { id: 'cart_1', userId: fixtureUser.id, productId: 'prod_headphones', quantity: 2 },
+      { id: 'cart_2', userId: fixtureUser.id, productId: 'prod_football', quantity: 1 },
+      { id: 'cart_other', userId: 'someone_else', productId: 'prod_yoga_mat', quantity: 5 }
+    ]
+  }
+})
+
+describe('CartPage', () => {
+  it("totals only the signed-in user's lines", async () => {
+    renderApp(seedCart(), '/cart')
+
+    expect(await screen.findByText('Shopping Cart (3 items)')).toBeInTheDocument()
+    // 2 × 129.99 + 1 × 29.95
+    expect(screen.getByText('$289.93')).toBeInTheDocument()
+  })
+
+  it('removes a line and updates the totals', async () => {
+    const user = userEvent.setup()
+    renderApp(seedCart(), '/cart')
+
+    const [removeHeadphones] = await screen.findAllByRole('button', { name: 'Remove item' })
+    await user.click(removeHeadphones)
+
+    expect(await screen.findByText('Shopping Cart (1 item)')).toBeInTheDocument()
+    expect(screen.getAllByText('$29.95').length).toBeGreaterThan(0)
+  })
+
+  it('saves a line for later and moves it back', async () => {
+    const user = userEvent.setup()
+    const backend = seedCart()
+    renderApp(backend, '/cart')
+
+    const [saveHeadphones] = await screen.findAllByRole('button', { name: 'Save for later' })
+    await user.click(saveHeadphones)
+
+    expect(await screen.findByText('Shopping Cart (1 item)')).toBeInTheDocument()
+    const saved = screen.getByRole('region', { name: 'Saved for later (1)' })
+    expect(within(saved).getByText('Qty 2')).toBeInTheDocument()
+
+    await user.click(within(saved).getByRole('button', { name: 'Move Wireless Headphones to cart' }))
+
+    expect(await screen.findByText('Shopping Cart (3 items)')).toBeInTheDocument()
+    expect(screen.queryByRole('region', { name: /Saved for later/ })).not.toBeInTheDocument()
+    await waitFor(async () => expect(await backend.wishlist.listByUser(fixtureUser.id)).toEqual([]))
+  })
+})
+
+describe('guest cart', () => {
+  it('lets a guest fill a cart and carries it into the account on sign-in', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: null, loginAs: fixtureUser })
+    renderApp(backend, '/products/prod_planter')
+
+    await user.click(await screen.findByRole('button', { name: 'Add to Cart - $34.50' }))
+    await user.click(screen.getByRole('link', { name: 'Cart' }))
+    expect(await screen.findByText('Shopping Cart (1 item)')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Save for later' })).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Proceed to Checkout' }))
+    expect(await screen.findByLabelText('Email *')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+
+    await waitFor(async () => expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([
+      expect.objectContaining({ productId: 'prod_planter', quantity: 1 })
+    ]))
+    expect(await backend.guestCart.listByUser(fixtureUser.id)).toEqual([])
+  })
+})
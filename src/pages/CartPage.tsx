@@ -1,35 +1,38 @@
 import { useState, useEffect, useCallback } from 'react'
-import { blink } from '../blink/client'
 import { Button } from '../components/ui/button'
 import { Card, CardContent } from '../components/ui/card'
-import { Plus, Minus, Trash2, ShoppingBag } from 'lucide-react'
+import { Plus, Minus, Trash2, ShoppingBag, Heart } from 'lucide-react'
+import { WishlistItemRow } from '../components/wishlist/WishlistItemRow'
 import { useToast } from '../hooks/use-toast'
-
-interface CartItem {
-  id: string
-  userId: string
-  productId: string
-  quantity: number
-  product?: Product
-}
-
-interface Product {
-  id: string
-  name: string
-  description: string
-  price: number
-  imageUrl: string
-  category: string
-  stockQuantity: number
-}
+import { useAppNavigate } from '../hooks/use-app-navigate'
+import { useCategories } from '../hooks/use-categories'
+import {
+  cartItemCount,
+  cartSubtotal,
+  lineStock,
+  lineUnitPrice,
+  variantImage,
+  variantLabel,
+  type CartLine,
+  type User,
+  type WishlistLine
+} from '../domain'
+import { loadCartLines, loadWishlistLines, shopperCart, useData } from '../data'
+import { WishlistError, moveToCart, saveForLater } from '../services/wishlist'
 
 interface CartPageProps {
-  onNavigate: (page: 'home' | 'products' | 'cart' | 'checkout' | 'product-detail') => void
   onCartUpdate: () => void
 }
 
-export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
-  const [cartItems, setCartItems] = useState<CartItem[]>([])
+export function CartPage({ onCartUpdate }: CartPageProps) {
+  const navigate = useAppNavigate()
+  const data = useData()
+  const { categoryName } = useCategories()
+  const { auth } = data
+  // Null for guests, whose cart lives in this browser
+  const [user, setUser] = useState<User | null>(null)
+  const [cartItems, setCartItems] = useState<CartLine[]>([])
+  const [savedItems, setSavedItems] = useState<WishlistLine[]>([])
   const [loading, setLoading] = useState(true)
   const [updating, setUpdating] = useState<string | null>(null)
   const { toast } = useToast()
@@ -37,29 +40,15 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
   const loadCartItems = useCallback(async () => {
     setLoading(true)
     try {
-      const user = await blink.auth.me()
-      
-      // Get cart items
-      const items = await blink.db.cartItems.list({
-        where: { userId: user.id }
-      })
-
-      // Get product details for each cart item
-      const itemsWithProducts = await Promise.all(
-        items.map(async (item) => {
-          const products = await blink.db.products.list({
-            where: { id: item.productId }
-          })
-          return {
-            ...item,
-            product: products[0] || null
-          }
-        })
-      )
-
-      // Filter out items where product no longer exists
-      const validItems = itemsWithProducts.filter(item => item.product)
+      const current = await auth.current()
+      const { cart, ownerId } = shopperCart(data, current)
+      const [validItems, saved] = await Promise.all([
+        loadCartLines({ ...data, cart }, ownerId),
+        current ? loadWishlistLines(data, current.id) : []
+      ])
+      setUser(current)
       setCartItems(validItems)
+      setSavedItems(saved)
     } catch (error) {
       console.error('Failed to load cart items:', error)
       toast({
@@ -70,7 +59,7 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
     } finally {
       setLoading(false)
     }
-  }, [toast])
+  }, [auth, data, toast])
 
   useEffect(() => {
     loadCartItems()
@@ -81,9 +70,7 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
 
     setUpdating(itemId)
     try {
-      await blink.db.cartItems.update(itemId, {
-        quantity: newQuantity
-      })
+      await shopperCart(data, user).cart.updateQuantity(itemId, newQuantity)
       
       // Update local state
       setCartItems(prev => 
@@ -110,7 +97,7 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
   const removeItem = async (itemId: string) => {
     setUpdating(itemId)
     try {
-      await blink.db.cartItems.delete(itemId)
+      await shopperCart(data, user).cart.remove(itemId)
       
       // Update local state
       setCartItems(prev => prev.filter(item => item.id !== itemId))
@@ -132,16 +119,70 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
     }
   }
 
-  const calculateTotal = () => {
-    return cartItems.reduce((total, item) => {
-      return total + (item.product?.price || 0) * Number(item.quantity)
-    }, 0)
+  const handleSaveForLater = async (line: CartLine) => {
+    if (!user) return
+    setUpdating(line.id)
+    try {
+      await saveForLater(data, line)
+      setCartItems(prev => prev.filter(item => item.id !== line.id))
+      setSavedItems(await loadWishlistLines(data, user.id))
+      onCartUpdate()
+      toast({
+        title: "Saved for later",
+        description: `${line.product.name} has been moved to your wishlist.`
+      })
+    } catch (error) {
+      console.error('Failed to save item for later:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save item for later.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(null)
+    }
   }
 
-  const getTotalItems = () => {
-    return cartItems.reduce((total, item) => total + Number(item.quantity), 0)
+  const handleMoveToCart = async (line: WishlistLine) => {
+    setUpdating(line.id)
+    try {
+      await moveToCart(data, line)
+      setCartItems(await loadCartLines(data, line.userId))
+      setSavedItems(prev => prev.filter(item => item.id !== line.id))
+      onCartUpdate()
+    } catch (error) {
+      console.error('Failed to move item to cart:', error)
+      toast({
+        title: "Error",
+        description: error instanceof WishlistError ? error.message : "Failed to move item to cart.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(null)
+    }
   }
 
+  const removeSavedItem = async (line: WishlistLine) => {
+    setUpdating(line.id)
+    try {
+      await data.wishlist.remove(line.id)
+      setSavedItems(prev => prev.filter(item => item.id !== line.id))
+    } catch (error) {
+      console.error('Failed to remove saved item:', error)
+      toast({
+        title: "Error",
+        description: "Failed to remove item.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const calculateTotal = () => cartSubtotal(cartItems)
+
+  const getTotalItems = () => cartItemCount(cartItems)
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -170,6 +211,26 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
     )
   }
 
+  const savedForLater = savedItems.length > 0 && (
+    <section className="mt-12" aria-labelledby="saved-for-later">
+      <h2 id="saved-for-later" className="flex items-center text-2xl font-semibold text-gray-900 mb-4">
+        <Heart className="h-5 w-5 mr-2 text-red-500" />
+        Saved for later ({savedItems.length})
+      </h2>
+      <div className="space-y-4">
+        {savedItems.map((line) => (
+          <WishlistItemRow
+            key={line.id}
+            line={line}
+            busy={updating === line.id}
+            onMoveToCart={() => handleMoveToCart(line)}
+            onRemove={() => removeSavedItem(line)}
+          />
+        ))}
+      </div>
+    </section>
+  )
+
   if (cartItems.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -182,10 +243,12 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
             <p className="text-gray-600 mb-6">
               Looks like you haven't added any items to your cart yet.
             </p>
-            <Button onClick={() => onNavigate('products')} size="lg">
+            <Button onClick={() => navigate('products')} size="lg">
               Start Shopping
             </Button>
           </div>
+
+          {savedForLater}
         </div>
       </div>
     )
@@ -206,8 +269,8 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
                   {/* Product Image */}
                   <div className="w-20 h-20 flex-shrink-0">
                     <img
-                      src={item.product?.imageUrl}
-                      alt={item.product?.name}
+                      src={variantImage(item.product, item.variant)}
+                      alt={item.product.name}
                       className="w-full h-full object-cover rounded"
                     />
                   </div>
@@ -215,13 +278,13 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
                   {/* Product Details */}
                   <div className="flex-1 min-w-0">
                     <h3 className="text-lg font-semibold text-gray-900 truncate">
-                      {item.product?.name}
+                      {item.product.name}
                     </h3>
                     <p className="text-sm text-gray-600 truncate">
-                      {item.product?.category}
+                      {item.variant ? variantLabel(item.variant) : categoryName(item.product.category)}
                     </p>
                     <p className="text-lg font-bold text-blue-600">
-                      ${item.product?.price.toFixed(2)}
+                      ${lineUnitPrice(item).toFixed(2)}
                     </p>
                   </div>
 
@@ -230,8 +293,9 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => updateQuantity(item.id, Number(item.quantity) - 1)}
-                      disabled={updating === item.id || Number(item.quantity) <= 1}
+                      aria-label="Decrease quantity"
+                      onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                      disabled={updating === item.id || item.quantity <= 1}
                     >
                       <Minus className="h-4 w-4" />
                     </Button>
@@ -241,8 +305,9 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => updateQuantity(item.id, Number(item.quantity) + 1)}
-                      disabled={updating === item.id || Number(item.quantity) >= (item.product?.stockQuantity || 0)}
+                      aria-label="Increase quantity"
+                      onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                      disabled={updating === item.id || item.quantity >= lineStock(item)}
                     >
                       <Plus className="h-4 w-4" />
                     </Button>
@@ -251,14 +316,27 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
                   {/* Item Total */}
                   <div className="text-right">
                     <p className="text-lg font-bold text-gray-900">
-                      ${((item.product?.price || 0) * Number(item.quantity)).toFixed(2)}
+                      ${(lineUnitPrice(item) * item.quantity).toFixed(2)}
                     </p>
                   </div>
 
-                  {/* Remove Button */}
+                  {/* Save for later (needs an account) / Remove */}
+                  {user && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label="Save for later"
+                      title="Save for later"
+                      onClick={() => handleSaveForLater(item)}
+                      disabled={updating === item.id}
+                    >
+                      <Heart className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
+                    aria-label="Remove item"
                     onClick={() => removeItem(item.id)}
                     disabled={updating === item.id}
                     className="text-red-600 hover:text-red-700 hover:bg-red-50"
@@ -286,13 +364,13 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
                 <div className="flex space-x-4">
                   <Button
                     variant="outline"
-                    onClick={() => onNavigate('products')}
+                    onClick={() => navigate('products')}
                     className="flex-1"
                   >
                     Continue Shopping
                   </Button>
                   <Button
-                    onClick={() => onNavigate('checkout')}
+                    onClick={() => navigate('checkout')}
                     className="flex-1"
                     size="lg"
                   >
@@ -303,6 +381,8 @@ export function CartPage({ onNavigate, onCartUpdate }: CartPageProps) {
             </div>
           </CardContent>
         </Card>
+
+        {savedForLater}
       </div>
     </div>
   )
@@ -0,0 +1,109 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureAddress, fixtureUser } from '../data'
+import { MOCK_TEST_CARDS } from '../payments'
+import { fillCard } from '../test/fillCard'
+import { renderApp } from '../test/renderApp'
+
+describe('CheckoutPage', () => {
+  it('flags lines that exceed stock and adjusts them on request', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        cartItems: [
+          { id: 'cart_1', userId: fixtureUser.id, productId: 'prod_smartwatch', quantity: 5 },
+          { id: 'cart_2', userId: fixtureUser.id, productId: 'prod_running_tee', quantity: 1 }
+        ]
+      }
+    })
+    renderApp(backend, '/checkout')
+
+    expect(await screen.findByText('Only 3 of Fitness Smartwatch left (you requested 5).')).toBeInTheDocument()
+    expect(screen.getByText('Running Tee is out of stock.')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Place Order/ })).toBeDisabled()
+
+    await user.click(screen.getByRole('button', { name: 'Adjust cart to available stock' }))
+
+    await waitFor(() => expect(screen.queryByText(/out of stock|left \(you requested/)).not.toBeInTheDocument())
+    expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([
+      expect.objectContaining({ id: 'cart_1', quantity: 3 })
+    ])
+  })
+})
+
+describe('CheckoutPage addresses', () => {
+  it('starts on the default address and ships to the one picked', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        cartItems: [{ id: 'cart_1', userId: fixtureUser.id, productId: 'prod_planter', quantity: 1 }],
+        addresses: [
+          { id: 'addr_home', userId: fixtureUser.id, ...fixtureAddress, isDefault: true },
+          { id: 'addr_cabin', userId: fixtureUser.id, ...fixtureAddress, line1: '4 Lakeshore Rd', city: 'Duluth', region: 'MN', postalCode: '55802', isDefault: false }
+        ]
+      }
+    })
+    renderApp(backend, '/checkout')
+
+    expect(await screen.findByRole('radio', { name: /1 Main St/ })).toBeChecked()
+    await user.click(screen.getByRole('radio', { name: /4 Lakeshore Rd/ }))
+    await fillCard(user)
+    await user.click(screen.getByRole('button', { name: 'Place Order - $34.50' }))
+
+    expect(await screen.findByRole('heading', { name: 'Order Details' })).toBeInTheDocument()
+    const [order] = await backend.orders.listByUser(fixtureUser.id)
+    expect(order.shipTo).toMatchObject({ line1: '4 Lakeshore Rd', city: 'Duluth', postalCode: '55802' })
+  })
+})
+
+describe('CheckoutPage payment', () => {
+  const backendWithCart = () => createMemoryBackend({
+    storage: null,
+    user: fixtureUser,
+    seed: {
+      cartItems: [{ id: 'cart_1', userId: fixtureUser.id, productId: 'prod_planter', quantity: 1 }],
+      addresses: [{ id: 'addr_home', userId: fixtureUser.id, ...fixtureAddress, isDefault: true }]
+    }
+  })
+
+  it('takes the shopper through 3-D Secure before the order is paid', async () => {
+    const user = userEvent.setup()
+    const backend = backendWithCart()
+    renderApp(backend, '/checkout')
+
+    await fillCard(user, MOCK_TEST_CARDS.threeDSecure)
+    await user.click(screen.getByRole('button', { name: 'Place Order - $34.50' }))
+
+    const dialog = await screen.findByRole('dialog', { name: 'Confirm with your bank' })
+    const [pending] = await backend.orders.listByUser(fixtureUser.id)
+    expect(pending.status).toBe('pending')
+    await user.click(within(dialog).getByRole('button', { name: 'Approve Payment' }))
+
+    expect(await screen.findByText('Paid $34.50 by card ending 3184', { exact: false })).toBeInTheDocument()
+    expect((await backend.orders.get(pending.id))?.status).toBe('paid')
+  })
+
+  it('keeps a declined order pending so it can be paid from the order page', async () => {
+    const user = userEvent.setup()
+    const backend = backendWithCart()
+    renderApp(backend, '/checkout')
+
+    await fillCard(user, MOCK_TEST_CARDS.declined)
+    await user.click(screen.getByRole('button', { name: 'Place Order - $34.50' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Your card was declined.')
+    const [order] = await backend.orders.listByUser(fixtureUser.id)
+    expect(order.status).toBe('pending')
+
+    await fillCard(user)
+    await user.click(screen.getByRole('button', { name: 'Pay $34.50' }))
+
+    expect(await screen.findByText('Paid $34.50 by card ending 4242', { exact: false })).toBeInTheDocument()
+    expect((await backend.orders.get(order.id))?.status).toBe('paid')
+  })
+})
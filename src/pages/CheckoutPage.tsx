@@ -1,68 +1,82 @@
 import { useState, useEffect, useCallback } from 'react'
-import { blink } from '../blink/client'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Input } from '../components/ui/input'
 import { Label } from '../components/ui/label'
-import { Textarea } from '../components/ui/textarea'
-import { ArrowLeft, CreditCard } from 'lucide-react'
+import { Checkbox } from '../components/ui/checkbox'
+import { RadioGroup, RadioGroupItem } from '../components/ui/radio-group'
+import { AddressForm } from '../components/addresses/AddressForm'
+import { AddressLines } from '../components/addresses/AddressLines'
+import { CardFields } from '../components/payments/CardFields'
+import { ThreeDSecureDialog } from '../components/payments/ThreeDSecureDialog'
+import { ArrowLeft, CreditCard, AlertTriangle } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
+import { useAppNavigate } from '../hooks/use-app-navigate'
+import { useOrderPayment } from '../hooks/use-order-payment'
+import {
+  addressOf,
+  cartItemCount,
+  cartSubtotal,
+  emailAddressSchema,
+  lineUnitPrice,
+  variantImage,
+  variantLabel,
+  type Address,
+  type CartLine,
+  type Order,
+  type SavedAddress,
+  type User
+} from '../domain'
+import { loadCartLines, shopperCart, useData } from '../data'
+import { InsufficientStockError, OrderPlacementError, checkoutKeyFor, placeOrder, releaseCheckoutKey } from '../services/orderPlacement'
+import { adjustCartToStock, describeStockIssue, findStockIssues, type StockIssue } from '../services/inventory'
+import { grantGuestOrderAccess } from '../services/orderLookup'
+import { UNPAID_ORDER_TTL_MS } from '../services/orderLifecycle'
+import { InvalidAddressError, addAddress, defaultAddress } from '../services/addressBook'
+import { canTakePayments, emptyCardForm, readCardForm, type CardDetails, type CardFormErrors } from '../payments'
 
-interface CartItem {
-  id: string
-  userId: string
-  productId: string
-  quantity: number
-  product?: Product
-}
-
-interface Product {
-  id: string
-  name: string
-  description: string
-  price: number
-  imageUrl: string
-  category: string
-  stockQuantity: number
-}
+// Radio value for typing an address instead of picking a saved one
+const NEW_ADDRESS = 'new'
 
 interface CheckoutPageProps {
-  onNavigate: (page: 'home' | 'products' | 'cart' | 'checkout' | 'product-detail') => void
+  onCartUpdate: () => void
 }
 
-export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
-  const [cartItems, setCartItems] = useState<CartItem[]>([])
+export function CheckoutPage({ onCartUpdate }: CheckoutPageProps) {
+  const navigate = useAppNavigate()
+  const data = useData()
+  const { auth } = data
+  const [user, setUser] = useState<User | null>(null)
+  const [cartItems, setCartItems] = useState<CartLine[]>([])
   const [loading, setLoading] = useState(true)
   const [processing, setProcessing] = useState(false)
-  const [shippingAddress, setShippingAddress] = useState('')
+  const [addresses, setAddresses] = useState<SavedAddress[]>([])
+  // A saved address id or NEW_ADDRESS; null until the address book is loaded
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null)
+  // The typed address once the shopper confirms it
+  const [newAddress, setNewAddress] = useState<Address | null>(null)
+  const [saveNewAddress, setSaveNewAddress] = useState(true)
+  // Guests only; signed-in shoppers check out under their account's email
+  const [email, setEmail] = useState('')
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([])
+  const [card, setCard] = useState(emptyCardForm)
+  const [cardErrors, setCardErrors] = useState<CardFormErrors>({})
+  const { pay, challenge, completeChallenge } = useOrderPayment()
   const { toast } = useToast()
+  const paymentsOff = !canTakePayments(data.paymentProvider)
 
   const loadCartItems = useCallback(async () => {
     setLoading(true)
     try {
-      const user = await blink.auth.me()
-      
-      // Get cart items
-      const items = await blink.db.cartItems.list({
-        where: { userId: user.id }
-      })
-
-      // Get product details for each cart item
-      const itemsWithProducts = await Promise.all(
-        items.map(async (item) => {
-          const products = await blink.db.products.list({
-            where: { id: item.productId }
-          })
-          return {
-            ...item,
-            product: products[0] || null
-          }
-        })
-      )
-
-      // Filter out items where product no longer exists
-      const validItems = itemsWithProducts.filter(item => item.product)
+      const shopper = await auth.current()
+      const { cart, ownerId } = shopperCart(data, shopper)
+      const validItems = await loadCartLines({ ...data, cart }, ownerId)
+      const saved = shopper ? await data.addresses.listByUser(shopper.id) : []
+      setUser(shopper)
+      setAddresses(saved)
+      setSelectedAddressId((current) => current ?? defaultAddress(saved)?.id ?? NEW_ADDRESS)
       setCartItems(validItems)
+      setStockIssues(await findStockIssues(data, validItems))
       
       if (validItems.length === 0) {
         toast({
@@ -70,7 +84,7 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
           description: "Please add items to your cart before checkout.",
           variant: "destructive"
         })
-        onNavigate('cart')
+        navigate('cart')
       }
     } catch (error) {
       console.error('Failed to load cart items:', error)
@@ -82,85 +96,156 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
     } finally {
       setLoading(false)
     }
-  }, [toast, onNavigate])
+  }, [auth, data, toast, navigate])
 
   useEffect(() => {
     loadCartItems()
   }, [loadCartItems])
 
-  const calculateTotal = () => {
-    return cartItems.reduce((total, item) => {
-      return total + (item.product?.price || 0) * Number(item.quantity)
-    }, 0)
-  }
-
-  const getTotalItems = () => {
-    return cartItems.reduce((total, item) => total + Number(item.quantity), 0)
-  }
+  const selectedAddress = addresses.find((address) => address.id === selectedAddressId)
+  const shippingAddress = selectedAddress ? addressOf(selectedAddress) : selectedAddressId === NEW_ADDRESS ? newAddress : null
 
-  const handleCheckout = async () => {
-    if (!shippingAddress.trim()) {
+  // Signed-in shoppers keep a typed address in their book unless they opt out
+  const handleUseNewAddress = async (address: Address) => {
+    if (!user || !saveNewAddress) {
+      setNewAddress(address)
+      return
+    }
+    try {
+      const saved = await addAddress(data, user.id, address)
+      setAddresses((prev) => [...prev, saved])
+      setSelectedAddressId(saved.id)
+    } catch (error) {
+      if (error instanceof InvalidAddressError) throw error
+      console.error('Failed to save address:', error)
       toast({
-        title: "Missing information",
-        description: "Please provide a shipping address.",
+        title: "Error",
+        description: "Failed to save the address.",
         variant: "destructive"
       })
-      return
     }
+  }
 
-    setProcessing(true)
+  const calculateTotal = () => cartSubtotal(cartItems)
+
+  const getTotalItems = () => cartItemCount(cartItems)
+
+  // Null when the order could not be placed; the shopper has been told why
+  const submitOrder = async (address: Address): Promise<Order | null> => {
     try {
-      const user = await blink.auth.me()
-      const total = calculateTotal()
-      
-      console.log('Processing checkout:', {
-        userId: user.id,
-        totalAmount: total,
-        itemCount: cartItems.length,
-        shippingAddress: shippingAddress.trim()
+      const { order } = await placeOrder(data, {
+        userId: user?.id,
+        customerEmail: user ? user.email : email,
+        lines: cartItems,
+        shippingAddress: address,
+        idempotencyKey: checkoutKeyFor(cartItems)
       })
-      
-      // Create order
-      const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      const orderData = {
-        id: orderId,
-        userId: user.id,
-        totalAmount: parseFloat(total.toFixed(2)), // Ensure proper number format
-        status: 'pending',
-        shippingAddress: shippingAddress.trim()
+      releaseCheckoutKey()
+      if (!user) grantGuestOrderAccess(order.id)
+      onCartUpdate()
+      return order
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        setStockIssues(error.issues)
+        toast({
+          title: "Some items are no longer available",
+          description: "Review the highlighted items before placing your order.",
+          variant: "destructive"
+        })
+        return null
       }
-      
-      console.log('Creating order with data:', orderData)
-      await blink.db.orders.create(orderData)
+      console.error('Failed to process checkout:', error)
+      toast({
+        title: "Checkout failed",
+        description: error instanceof OrderPlacementError && error.code !== 'write_failed'
+          ? error.message
+          : "There was an error processing your order. Please try again.",
+        variant: "destructive"
+      })
+      return null
+    }
+  }
 
-      // Create order items
-      for (const item of cartItems) {
-        await blink.db.orderItems.create({
-          id: `orderitem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          orderId: orderId,
-          productId: item.productId,
-          quantity: Number(item.quantity),
-          price: parseFloat((item.product?.price || 0).toFixed(2)) // Ensure proper number format
+  // The order exists by now, so a payment that does not go through leaves it
+  // pending for the shopper to pay from the order page
+  const takePayment = async (order: Order, cardDetails?: CardDetails) => {
+    try {
+      const outcome = await pay(order.id, cardDetails)
+      if (outcome.status === 'paid') {
+        toast({
+          title: "Order placed successfully!",
+          description: `Your order #${order.id} has been paid. Total: $${order.totalAmount.toFixed(2)}`
+        })
+      } else {
+        toast({
+          title: "Payment declined",
+          description: `${outcome.status === 'declined' ? outcome.message : 'The payment was not confirmed.'} Your order is saved for ${UNPAID_ORDER_TTL_MS / 60_000} minutes; you can pay for it with another card from the order page.`,
+          variant: "destructive"
         })
       }
+    } catch (error) {
+      console.error('Failed to take payment:', error)
+      toast({
+        title: "Payment not completed",
+        description: "We couldn't complete the payment. Your order is saved; you can try again from the order page.",
+        variant: "destructive"
+      })
+    }
+  }
 
-      // Clear cart
-      for (const item of cartItems) {
-        await blink.db.cartItems.delete(item.id)
-      }
+  const handleCheckout = async () => {
+    if (!user && !emailAddressSchema.safeParse(email.trim()).success) {
+      toast({
+        title: "Missing information",
+        description: "Please provide a valid email address.",
+        variant: "destructive"
+      })
+      return
+    }
+    if (!shippingAddress) {
+      toast({
+        title: "Missing information",
+        description: "Please provide a shipping address.",
+        variant: "destructive"
+      })
+      return
+    }
 
+    const parsed = readCardForm(data.paymentProvider, card)
+    if ('errors' in parsed) {
+      setCardErrors(parsed.errors)
       toast({
-        title: "Order placed successfully!",
-        description: `Your order #${orderId} has been placed. Total: $${total.toFixed(2)}`
+        title: "Missing information",
+        description: "Please check your card details.",
+        variant: "destructive"
       })
+      return
+    }
+    setCardErrors({})
+
+    setProcessing(true)
+    try {
+      const order = await submitOrder(shippingAddress)
+      if (order) {
+        await takePayment(order, parsed.card)
+        navigate('orderDetail', order.id)
+      }
+    } finally {
+      setProcessing(false)
+    }
+  }
 
-      // Navigate to home
-      onNavigate('home')
+  const adjustToStock = async () => {
+    setProcessing(true)
+    try {
+      await adjustCartToStock(shopperCart(data, user), stockIssues)
+      onCartUpdate()
+      await loadCartItems()
     } catch (error) {
-      console.error('Failed to process checkout:', error)
+      console.error('Failed to adjust cart:', error)
       toast({
-        title: "Checkout failed",
-        description: "There was an error processing your order. Please try again.",
+        title: "Error",
+        description: "Failed to update your cart.",
         variant: "destructive"
       })
     } finally {
@@ -168,6 +253,8 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
     }
   }
 
+  const issueFor = (lineId: string) => stockIssues.find((issue) => issue.lineId === lineId)
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -194,7 +281,7 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
         {/* Back button */}
         <Button
           variant="ghost"
-          onClick={() => onNavigate('cart')}
+          onClick={() => navigate('cart')}
           className="mb-8"
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
@@ -211,23 +298,84 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
                 <CardTitle>Shipping Information</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div>
-                  <Label htmlFor="address">Shipping Address *</Label>
-                  <Textarea
-                    id="address"
-                    placeholder="Enter your full shipping address..."
-                    value={shippingAddress}
-                    onChange={(e) => setShippingAddress(e.target.value)}
-                    rows={4}
-                  />
+                {!user && (
+                  <div>
+                    <Label htmlFor="email">Email *</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      autoComplete="email"
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                      You'll need this and your order number to look up the order.{' '}
+                      <button type="button" className="text-blue-600 hover:underline" onClick={() => auth.login()}>
+                        Sign in
+                      </button>{' '}
+                      to keep it in your account instead.
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold text-gray-900">Shipping Address</h4>
+                  {addresses.length > 0 && (
+                    <RadioGroup
+                      value={selectedAddressId ?? undefined}
+                      onValueChange={setSelectedAddressId}
+                      aria-label="Shipping address"
+                    >
+                      {addresses.map((address) => (
+                        <div key={address.id} className="flex items-start gap-3 rounded-lg border bg-white p-3">
+                          <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+                          <Label htmlFor={`address-${address.id}`} className="flex-1 font-normal cursor-pointer">
+                            <AddressLines address={address} />
+                          </Label>
+                          {address.isDefault && <span className="text-xs text-gray-500">Default</span>}
+                        </div>
+                      ))}
+                      <div className="flex items-center gap-3 rounded-lg border bg-white p-3">
+                        <RadioGroupItem value={NEW_ADDRESS} id="address-new" />
+                        <Label htmlFor="address-new" className="font-normal cursor-pointer">Use a new address</Label>
+                      </div>
+                    </RadioGroup>
+                  )}
+                  {selectedAddressId === NEW_ADDRESS && (newAddress ? (
+                    <div className="flex items-start justify-between gap-4 rounded-lg border bg-white p-3">
+                      <AddressLines address={newAddress} />
+                      <Button variant="outline" size="sm" onClick={() => setNewAddress(null)}>
+                        Change
+                      </Button>
+                    </div>
+                  ) : (
+                    <AddressForm submitLabel="Use This Address" onSubmit={handleUseNewAddress}>
+                      {user && (
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="save-address"
+                            checked={saveNewAddress}
+                            onCheckedChange={(checked) => setSaveNewAddress(checked === true)}
+                          />
+                          <Label htmlFor="save-address">Save to my addresses</Label>
+                        </div>
+                      )}
+                    </AddressForm>
+                  ))}
                 </div>
-                
-                <div className="bg-blue-50 p-4 rounded-lg">
-                  <h4 className="font-semibold text-blue-900 mb-2">Payment Information</h4>
-                  <p className="text-blue-800 text-sm">
-                    This is a demo checkout. In a real store, Stripe payment processing would be integrated here 
-                    for secure credit card transactions.
-                  </p>
+
+
+                <div className="space-y-3">
+                  <h4 className="font-semibold text-gray-900">Payment</h4>
+                  {paymentsOff ? (
+                    <p className="text-sm text-red-600 flex items-center">
+                      <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                      This store is not taking payments yet, so orders cannot be placed.
+                    </p>
+                  ) : (
+                    <CardFields value={card} onChange={setCard} errors={cardErrors} disabled={processing} />
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -246,20 +394,29 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
                     {cartItems.map((item) => (
                       <div key={item.id} className="flex items-center space-x-3">
                         <img
-                          src={item.product?.imageUrl}
-                          alt={item.product?.name}
+                          src={variantImage(item.product, item.variant)}
+                          alt={item.product.name}
                           className="w-12 h-12 object-cover rounded"
                         />
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium text-gray-900 truncate">
-                            {item.product?.name}
+                            {item.product.name}
                           </p>
+                          {item.variant && (
+                            <p className="text-xs text-gray-500 truncate">{variantLabel(item.variant)}</p>
+                          )}
                           <p className="text-sm text-gray-600">
-                            Qty: {item.quantity} × ${item.product?.price.toFixed(2)}
+                            Qty: {item.quantity} × ${lineUnitPrice(item).toFixed(2)}
                           </p>
+                          {issueFor(item.id) && (
+                            <p className="text-sm text-red-600 flex items-center">
+                              <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                              {describeStockIssue(issueFor(item.id)!)}
+                            </p>
+                          )}
                         </div>
                         <p className="text-sm font-semibold">
-                          ${((item.product?.price || 0) * Number(item.quantity)).toFixed(2)}
+                          ${(lineUnitPrice(item) * item.quantity).toFixed(2)}
                         </p>
                       </div>
                     ))}
@@ -286,9 +443,20 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
                     </div>
                   </div>
 
+                  {stockIssues.length > 0 && (
+                    <Button
+                      variant="outline"
+                      onClick={adjustToStock}
+                      disabled={processing}
+                      className="w-full"
+                    >
+                      Adjust cart to available stock
+                    </Button>
+                  )}
+
                   <Button
                     onClick={handleCheckout}
-                    disabled={processing || !shippingAddress.trim()}
+                    disabled={processing || paymentsOff || !shippingAddress || (!user && !email.trim()) || stockIssues.length > 0}
                     className="w-full"
                     size="lg"
                   >
@@ -301,6 +469,8 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
           </div>
         </div>
       </div>
+
+      <ThreeDSecureDialog challenge={challenge} onComplete={completeChallenge} />
     </div>
   )
 }
\ No newline at end of file
@@ -1,46 +1,29 @@
-import { useState, useEffect } from 'react'
-import { blink } from '../blink/client'
+import { useState, useEffect, useCallback } from 'react'
 import { Button } from '../components/ui/button'
 import { Card, CardContent } from '../components/ui/card'
-import { ArrowRight, Smartphone, Shirt, Home, Dumbbell } from 'lucide-react'
+import { ArrowRight } from 'lucide-react'
+import { useAppNavigate } from '../hooks/use-app-navigate'
+import { useCategories } from '../hooks/use-categories'
+import { categoryColorClass, categoryIcon } from '../components/categories/categoryStyle'
+import { RatingBadge } from '../components/reviews/StarRating'
+import { WishlistButton } from '../components/wishlist/WishlistButton'
+import { useWishlist } from '../hooks/use-wishlist'
+import { topLevelCategories, type Product } from '../domain'
+import { useData } from '../data'
 
-interface Product {
-  id: string
-  name: string
-  description: string
-  price: number
-  imageUrl: string
-  category: string
-  stockQuantity: number
-}
-
-interface HomePageProps {
-  onNavigate: (page: 'home' | 'products' | 'cart' | 'checkout' | 'product-detail', productId?: string, category?: string) => void
-}
-
-const categoryIcons = {
-  'Electronics': Smartphone,
-  'Clothing': Shirt,
-  'Home & Garden': Home,
-  'Sports': Dumbbell
-}
-
-const categoryColors = {
-  'Electronics': 'bg-blue-100 text-blue-600',
-  'Clothing': 'bg-purple-100 text-purple-600',
-  'Home & Garden': 'bg-green-100 text-green-600',
-  'Sports': 'bg-orange-100 text-orange-600'
-}
-
-export function HomePage({ onNavigate }: HomePageProps) {
+export function HomePage() {
+  const navigate = useAppNavigate()
+  const { products: productRepository } = useData()
   const [featuredProducts, setFeaturedProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
+  const { categories: allCategories, categoryName } = useCategories()
+  const wishlist = useWishlist()
 
-  const loadFeaturedProducts = async () => {
+  const loadFeaturedProducts = useCallback(async () => {
     try {
-      const products = await blink.db.products.list({
+      const products = await productRepository.list({
         limit: 4,
-        orderBy: { createdAt: 'desc' }
+        orderBy: { field: 'createdAt', direction: 'desc' }
       })
       setFeaturedProducts(products)
     } catch (error) {
@@ -48,13 +31,13 @@ export function HomePage({ onNavigate }: HomePageProps) {
     } finally {
       setLoading(false)
     }
-  }
+  }, [productRepository])
 
   useEffect(() => {
     loadFeaturedProducts()
-  }, [])
+  }, [loadFeaturedProducts])
 
-  const categories = ['Electronics', 'Clothing', 'Home & Garden', 'Sports']
+  const categories = topLevelCategories(allCategories)
 
   return (
     <div className="min-h-screen">
@@ -65,11 +48,13 @@ export function HomePage({ onNavigate }: HomePageProps) {
             Welcome to ShopEasy
           </h1>
           <p className="text-xl md:text-2xl mb-8 text-blue-100">
-            Discover amazing products across 4 categories
+            {categories.length > 0
+              ? `Discover amazing products across ${categories.length} categor${categories.length === 1 ? 'y' : 'ies'}`
+              : 'Discover amazing products'}
           </p>
           <Button
             size="lg"
-            onClick={() => onNavigate('products')}
+            onClick={() => navigate('products')}
             className="bg-white text-blue-600 hover:bg-gray-100 text-lg px-8 py-3"
           >
             Shop Now
@@ -92,24 +77,24 @@ export function HomePage({ onNavigate }: HomePageProps) {
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
             {categories.map((category) => {
-              const Icon = categoryIcons[category as keyof typeof categoryIcons]
-              const colorClass = categoryColors[category as keyof typeof categoryColors]
-              
+              const Icon = categoryIcon(category.icon)
+              const colorClass = categoryColorClass(category.color)
+
               return (
                 <Card
-                  key={category}
+                  key={category.id}
                   className="cursor-pointer hover:shadow-lg transition-shadow duration-300"
-                  onClick={() => onNavigate('products', undefined, category)}
+                  onClick={() => navigate('products', { category: category.slug })}
                 >
                   <CardContent className="p-6 text-center">
                     <div className={`w-16 h-16 rounded-full ${colorClass} flex items-center justify-center mx-auto mb-4`}>
                       <Icon className="h-8 w-8" />
                     </div>
                     <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                      {category}
+                      {category.name}
                     </h3>
                     <p className="text-gray-600 text-sm">
-                      Explore our {category.toLowerCase()} collection
+                      {category.description || `Explore our ${category.name.toLowerCase()} collection`}
                     </p>
                   </CardContent>
                 </Card>
@@ -150,14 +135,20 @@ export function HomePage({ onNavigate }: HomePageProps) {
                 <Card
                   key={product.id}
                   className="cursor-pointer hover:shadow-lg transition-shadow duration-300"
-                  onClick={() => onNavigate('product-detail', product.id)}
+                  onClick={() => navigate('productDetail', product.id)}
                 >
-                  <div className="aspect-square overflow-hidden rounded-t-lg">
+                  <div className="relative aspect-square overflow-hidden rounded-t-lg">
                     <img
                       src={product.imageUrl}
                       alt={product.name}
                       className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
                     />
+                    <WishlistButton
+                      productName={product.name}
+                      saved={wishlist.isSaved(product.id)}
+                      onToggle={() => wishlist.toggle(product)}
+                      className="absolute top-2 right-2"
+                    />
                   </div>
                   <CardContent className="p-4">
                     <h3 className="font-semibold text-gray-900 mb-1 line-clamp-1">
@@ -166,12 +157,13 @@ export function HomePage({ onNavigate }: HomePageProps) {
                     <p className="text-sm text-gray-600 mb-2 line-clamp-2">
                       {product.description}
                     </p>
+                    <RatingBadge summary={product} />
                     <div className="flex items-center justify-between">
                       <span className="text-lg font-bold text-blue-600">
                         ${product.price.toFixed(2)}
                       </span>
                       <span className="text-xs text-gray-500">
-                        {product.category}
+                        {categoryName(product.category)}
                       </span>
                     </div>
                   </CardContent>
@@ -182,7 +174,7 @@ export function HomePage({ onNavigate }: HomePageProps) {
 
           <div className="text-center mt-12">
             <Button
-              onClick={() => onNavigate('products')}
+              onClick={() => navigate('products')}
               variant="outline"
               size="lg"
             >
@@ -0,0 +1,25 @@
+import { Link } from 'react-router-dom'
+import { Button } from '../components/ui/button'
+import { routes } from '../lib/routes'
+
+export function NotFoundPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-16">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+        <p className="text-6xl font-bold text-blue-600 mb-4">404</p>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Page not found</h1>
+        <p className="text-gray-600 mb-8">
+          The page you're looking for doesn't exist or has been moved.
+        </p>
+        <div className="flex justify-center space-x-4">
+          <Button asChild variant="outline">
+            <Link to={routes.home()}>Go Home</Link>
+          </Button>
+          <Button asChild>
+            <Link to={routes.products()}>Browse Products</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser, type MemorySeed } from '../data'
+import { renderApp } from '../test/renderApp'
+
+const seed: Partial<MemorySeed> = {
+  orders: [
+    {
+      id: 'order_old',
+      userId: fixtureUser.id,
+      totalAmount: 99,
+      status: 'pending',
+      statusHistory: [{ status: 'pending', at: '2024-04-01T10:00:00.000Z' }],
+      shippingAddress: '1 Main St\nSpringfield',
+      createdAt: '2024-04-01T10:00:00.000Z'
+    },
+    {
+      id: 'order_new',
+      userId: fixtureUser.id,
+      totalAmount: 24.99,
+      status: 'cancelled',
+      // Written before status history was recorded
+      statusHistory: [],
+      shippingAddress: '1 Main St',
+      createdAt: '2024-05-01T10:00:00.000Z'
+    },
+    {
+      id: 'order_someone_else',
+      userId: 'user_other',
+      totalAmount: 10,
+      status: 'pending',
+      statusHistory: [],
+      shippingAddress: 'Elsewhere',
+      createdAt: '2024-05-02T10:00:00.000Z'
+    }
+  ],
+  orderItems: [
+    // Bought at a lower price than the current catalog price of 129.99
+    { id: 'order_old_item_1', orderId: 'order_old', productId: 'prod_headphones', quantity: 1, price: 99 }
+  ]
+}
+
+describe('order pages', () => {
+  it("lists the shopper's orders newest first, reachable from the user menu", async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser, seed }))
+
+    await user.click(await screen.findByRole('button', { name: new RegExp(fixtureUser.email) }))
+    await user.click(await screen.findByRole('menuitem', { name: 'My Orders' }))
+
+    const orderIds = await screen.findAllByText(/^Order #/)
+    expect(orderIds.map((node) => node.textContent)).toEqual(['Order #order_new', 'Order #order_old'])
+    expect(screen.getByText('Cancelled')).toBeInTheDocument()
+    expect(screen.getByText('Pending')).toBeInTheDocument()
+  })
+
+  it('shows captured prices, the address and the status timeline', async () => {
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser, seed }), '/orders/order_old')
+
+    expect(await screen.findByText('Wireless Headphones')).toBeInTheDocument()
+    expect(screen.getByText('Qty: 1 × $99.00')).toBeInTheDocument()
+    expect(screen.getByText(/1 Main St/)).toBeInTheDocument()
+    expect(screen.getByText('Order placed')).toBeInTheDocument()
+  })
+
+  it('shows what has been refunded and why', async () => {
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        ...seed,
+        orders: [{ ...seed.orders![0], status: 'partially_refunded' }],
+        refunds: [{
+          id: 'ref_1',
+          orderId: 'order_old',
+          paymentId: 'pay_1',
+          providerRefundId: 're_1',
+          amount: 99,
+          status: 'succeeded',
+          reason: 'Stopped working after a week',
+          lines: [{ orderItemId: 'order_old_item_1', quantity: 1, amount: 99 }],
+          restocked: false,
+          createdAt: '2024-04-10T10:00:00.000Z'
+        }]
+      }
+    })
+    renderApp(backend, '/orders/order_old')
+
+    expect(await screen.findByText('Refunds')).toBeInTheDocument()
+    expect(screen.getByText('Refunded $99.00')).toBeInTheDocument()
+    expect(screen.getByText('Stopped working after a week')).toBeInTheDocument()
+    expect(screen.getByText('1 × Wireless Headphones')).toBeInTheDocument()
+    expect(screen.getAllByText('Partially refunded').length).toBeGreaterThan(0)
+    expect(screen.queryByText('Not returned to stock')).not.toBeInTheDocument()
+  })
+
+  it("does not reveal another shopper's order", async () => {
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser, seed }), '/orders/order_someone_else')
+
+    expect(await screen.findByText('Order not found')).toBeInTheDocument()
+  })
+})
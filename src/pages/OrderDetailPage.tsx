@@ -0,0 +1,334 @@
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '../components/ui/alert-dialog'
+import { ArrowLeft } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useAppNavigate, useRouteParams } from '../hooks/use-app-navigate'
+import { OrderStatusBadge } from '../components/orders/OrderStatusBadge'
+import { OrderTimeline } from '../components/orders/OrderTimeline'
+import { RefundHistory } from '../components/orders/RefundHistory'
+import { CardFields } from '../components/payments/CardFields'
+import { ThreeDSecureDialog } from '../components/payments/ThreeDSecureDialog'
+import { useOrderPayment } from '../hooks/use-order-payment'
+import { orderLineTotal, orderTimeline, type Payment, type Refund, type User } from '../domain'
+import { loadOrderDetail, useData, type OrderDetail } from '../data'
+import { emptyCardForm, readCardForm, type CardFormErrors } from '../payments'
+import { cancelOrder } from '../services/orderLifecycle'
+import { hasGuestOrderAccess } from '../services/orderLookup'
+import { PaymentError } from '../services/payments'
+
+export function OrderDetailPage() {
+  const { orderId } = useRouteParams<'orderDetail'>()
+  const navigate = useAppNavigate()
+  const data = useData()
+  const { auth } = data
+  const [detail, setDetail] = useState<OrderDetail | null>(null)
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [cancelling, setCancelling] = useState(false)
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [refunds, setRefunds] = useState<Refund[]>([])
+  const [card, setCard] = useState(emptyCardForm)
+  const [cardErrors, setCardErrors] = useState<CardFormErrors>({})
+  const [paying, setPaying] = useState(false)
+  const { pay, challenge, completeChallenge } = useOrderPayment()
+  const { toast } = useToast()
+
+  const loadOrder = useCallback(async () => {
+    if (!orderId) return
+    setLoading(true)
+    try {
+      const shopper = await auth.current()
+      const found = await loadOrderDetail(data, orderId)
+      // Guests see the orders they placed or looked up in this tab. Someone
+      // else's order is reported exactly like a missing one.
+      const allowed = shopper
+        ? found?.order.userId === shopper.id
+        : hasGuestOrderAccess(orderId)
+      setUser(shopper)
+      setDetail(allowed ? found : null)
+      setPayments(allowed && found ? await data.payments.listByOrder(orderId) : [])
+      setRefunds(allowed && found ? await data.refunds.listByOrder(orderId) : [])
+    } catch (error) {
+      console.error('Failed to load order:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load order details.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [orderId, auth, data, toast])
+
+  useEffect(() => {
+    loadOrder()
+  }, [loadOrder])
+
+  const handleCancel = async () => {
+    if (!detail) return
+    setCancelling(true)
+    try {
+      await cancelOrder(data, detail.order.id)
+      toast({
+        title: "Order cancelled",
+        description: `Order #${detail.order.id} has been cancelled.`
+      })
+      await loadOrder()
+    } catch (error) {
+      console.error('Failed to cancel order:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel order.",
+        variant: "destructive"
+      })
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  const handlePay = async () => {
+    if (!detail) return
+    const parsed = readCardForm(data.paymentProvider, card)
+    if ('errors' in parsed) {
+      setCardErrors(parsed.errors)
+      return
+    }
+    setCardErrors({})
+    setPaying(true)
+    try {
+      const outcome = await pay(detail.order.id, parsed.card)
+      if (outcome.status === 'paid') {
+        setCard(emptyCardForm())
+        toast({
+          title: "Payment received",
+          description: `Order #${detail.order.id} is paid. Thank you!`
+        })
+      } else {
+        toast({
+          title: "Payment declined",
+          description: outcome.status === 'declined' ? outcome.message : "The payment was not confirmed.",
+          variant: "destructive"
+        })
+      }
+      await loadOrder()
+    } catch (error) {
+      console.error('Failed to take payment:', error)
+      toast({
+        title: "Error",
+        description: error instanceof PaymentError ? error.message : "We couldn't complete the payment. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setPaying(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-300 rounded w-48 mb-8"></div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-2 h-64 bg-gray-300 rounded"></div>
+              <div className="h-64 bg-gray-300 rounded"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!detail) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Order not found</h1>
+          {user ? (
+            <Button onClick={() => navigate('orders')}>
+              Back to My Orders
+            </Button>
+          ) : (
+            <Button onClick={() => navigate('orderLookup')}>
+              Find Your Order
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const { order, lines } = detail
+  const payment = payments[payments.length - 1]
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Back button */}
+        <Button
+          variant="ghost"
+          onClick={() => (user ? navigate('orders') : navigate('home'))}
+          className="mb-8"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          {user ? 'Back to My Orders' : 'Continue Shopping'}
+        </Button>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Order Details</h1>
+            <p className="text-sm text-gray-500">
+              #{order.id}
+              {order.createdAt && ` · Placed ${format(new Date(order.createdAt), 'PPP')}`}
+            </p>
+          </div>
+          <OrderStatusBadge status={order.status} className="text-sm" />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Items */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Items</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {lines.map((line) => (
+                    <div key={line.id} className="flex items-center space-x-4">
+                      {line.product ? (
+                        <img
+                          src={line.product.imageUrl}
+                          alt={line.product.name}
+                          className="w-16 h-16 object-cover rounded cursor-pointer"
+                          onClick={() => navigate('productDetail', line.productId)}
+                        />
+                      ) : (
+                        <div className="w-16 h-16 bg-gray-200 rounded" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {line.product?.name ?? 'Product no longer available'}
+                        </p>
+                        {line.variantLabel && <p className="text-sm text-gray-500 truncate">{line.variantLabel}</p>}
+                        <p className="text-sm text-gray-600">
+                          Qty: {line.quantity} × ${line.price.toFixed(2)}
+                        </p>
+                      </div>
+                      <p className="font-semibold">
+                        ${orderLineTotal(line).toFixed(2)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="border-t mt-6 pt-4 flex justify-between items-center text-lg font-bold">
+                  <span>Total</span>
+                  <span className="text-blue-600">${order.totalAmount.toFixed(2)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-8">
+            {(order.status === 'pending' || payment) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Payment</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {order.status === 'pending' ? (
+                    <>
+                      <p className="text-sm text-gray-600">This order is waiting for payment.</p>
+                      {payment?.failureMessage && (
+                        <p role="alert" className="text-sm text-red-600">{payment.failureMessage}</p>
+                      )}
+                      <CardFields value={card} onChange={setCard} errors={cardErrors} disabled={paying} />
+                      <Button className="w-full" onClick={handlePay} disabled={paying}>
+                        {paying ? 'Processing...' : `Pay $${order.totalAmount.toFixed(2)}`}
+                      </Button>
+                    </>
+                  ) : payment?.status === 'captured' ? (
+                    <p className="text-sm text-gray-700">
+                      Paid ${payment.amount.toFixed(2)}
+                      {payment.cardLast4 && ` by card ending ${payment.cardLast4}`}
+                      {payment.capturedAt && ` on ${format(new Date(payment.capturedAt), 'PPP')}`}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-700">No payment was taken for this order.</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {refunds.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Refunds</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <RefundHistory refunds={refunds} lines={lines} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Shipping Address</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-gray-700 whitespace-pre-line">{order.shippingAddress}</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Status</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <OrderTimeline entries={orderTimeline(order)} />
+
+                {order.status === 'pending' && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" className="w-full" disabled={cancelling}>
+                        {cancelling ? 'Cancelling...' : 'Cancel Order'}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The items will be released back to stock. This cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Keep Order</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleCancel}>Cancel Order</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <ThreeDSecureDialog challenge={challenge} onComplete={completeChallenge} />
+    </div>
+  )
+}
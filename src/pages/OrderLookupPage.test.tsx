@@ -0,0 +1,59 @@
+import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { GUEST_CART_OWNER, createMemoryBackend, type MailMessage } from '../data'
+import { fillAddress } from '../test/fillAddress'
+import { fillCard } from '../test/fillCard'
+import { renderApp } from '../test/renderApp'
+
+describe('guest checkout', () => {
+  it('places an order with an email and shows it without an account', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: null })
+    await backend.guestCart.add({ id: 'guest_1', userId: GUEST_CART_OWNER, productId: 'prod_planter', quantity: 1 })
+    renderApp(backend, '/checkout')
+
+    await user.type(await screen.findByLabelText('Email *'), 'guest@example.com')
+    await fillAddress(user)
+    await user.click(screen.getByRole('button', { name: 'Use This Address' }))
+    await fillCard(user)
+    await user.click(screen.getByRole('button', { name: /Place Order/ }))
+
+    expect(await screen.findByRole('heading', { name: 'Order Details' })).toBeInTheDocument()
+    const [order] = await backend.orders.list()
+    expect(order).toMatchObject({ customerEmail: 'guest@example.com', userId: undefined })
+  })
+})
+
+describe('OrderLookupPage', () => {
+  it('opens a guest order after the emailed code is entered', async () => {
+    const user = userEvent.setup()
+    const outbox: MailMessage[] = []
+    const backend = createMemoryBackend({
+      storage: null,
+      user: null,
+      outbox,
+      seed: {
+        orders: [{ id: 'order_guest', customerEmail: 'guest@example.com', totalAmount: 34.5, status: 'pending', statusHistory: [], shippingAddress: '1 Main St' }]
+      }
+    })
+    renderApp(backend, '/orders/lookup')
+
+    await user.type(await screen.findByLabelText('Order number'), 'order_guest')
+    await user.type(screen.getByLabelText('Email'), 'someone@example.com')
+    await user.click(screen.getByRole('button', { name: 'Email Me a Code' }))
+    expect(await screen.findByRole('alert')).toHaveTextContent("We couldn't find an order with that number and email.")
+
+    await user.clear(screen.getByLabelText('Email'))
+    await user.type(screen.getByLabelText('Email'), 'guest@example.com')
+    await user.click(screen.getByRole('button', { name: 'Email Me a Code' }))
+    expect(await screen.findByText('Enter the 6-digit code we sent to guest@example.com.')).toBeInTheDocument()
+    const code = outbox[0].text.match(/\d{6}/)![0]
+
+    await user.type(screen.getByLabelText('One-time code'), code)
+    await user.click(screen.getByRole('button', { name: 'View Order' }))
+
+    expect(await screen.findByRole('heading', { name: 'Order Details' })).toBeInTheDocument()
+    expect(screen.getByText('1 Main St')).toBeInTheDocument()
+  })
+})
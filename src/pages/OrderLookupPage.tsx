@@ -0,0 +1,218 @@
+import { useState, type FormEvent } from 'react'
+import { PackageSearch } from 'lucide-react'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Input } from '../components/ui/input'
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp'
+import { Label } from '../components/ui/label'
+import { useToast } from '../hooks/use-toast'
+import { useAppNavigate } from '../hooks/use-app-navigate'
+import type { Order } from '../domain'
+import { useData } from '../data'
+import {
+  LOOKUP_CODE_LENGTH,
+  OrderLookupError,
+  findOrderByEmail,
+  grantGuestOrderAccess,
+  sendLookupCode,
+  verifyLookupCode
+} from '../services/orderLookup'
+
+interface OrderLookupPageProps {
+  // Email a one-time code to the order's address and ask for it before
+  // showing the order
+  requireCode: boolean
+}
+
+export function OrderLookupPage({ requireCode }: OrderLookupPageProps) {
+  const navigate = useAppNavigate()
+  const data = useData()
+  const { toast } = useToast()
+  const [orderNumber, setOrderNumber] = useState('')
+  const [email, setEmail] = useState('')
+  // The order a code was sent for; the form asks for the code from then on
+  const [pending, setPending] = useState<Order | null>(null)
+  const [code, setCode] = useState('')
+  const [problem, setProblem] = useState<string | null>(null)
+  const [working, setWorking] = useState(false)
+
+  const openOrder = (orderId: string) => {
+    grantGuestOrderAccess(orderId)
+    navigate('orderDetail', orderId)
+  }
+
+  const handleFind = async (event: FormEvent) => {
+    event.preventDefault()
+    setWorking(true)
+    setProblem(null)
+    try {
+      const order = await findOrderByEmail(data, orderNumber, email)
+      if (!requireCode) {
+        openOrder(order.id)
+        return
+      }
+      setCode('')
+      try {
+        await sendLookupCode(data, order)
+      } catch (error) {
+        // The code sent a moment ago still works
+        if (!(error instanceof OrderLookupError && error.code === 'resend_too_soon')) throw error
+      }
+      setPending(order)
+    } catch (error) {
+      if (error instanceof OrderLookupError) {
+        setProblem(error.message)
+        return
+      }
+      console.error('Failed to look up order:', error)
+      toast({
+        title: "Error",
+        description: "Failed to look up your order.",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleVerify = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!pending) return
+    setWorking(true)
+    setProblem(null)
+    try {
+      await verifyLookupCode(data, pending.id, code)
+      openOrder(pending.id)
+    } catch (error) {
+      if (error instanceof OrderLookupError) {
+        setProblem(error.message)
+        return
+      }
+      console.error('Failed to verify code:', error)
+      toast({
+        title: "Error",
+        description: "Failed to check the code.",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleResend = async () => {
+    if (!pending) return
+    setWorking(true)
+    setProblem(null)
+    try {
+      await sendLookupCode(data, pending)
+      setCode('')
+      toast({
+        title: "Code sent",
+        description: `We sent a new code to ${email.trim()}.`
+      })
+    } catch (error) {
+      if (error instanceof OrderLookupError) {
+        setProblem(error.message)
+        return
+      }
+      console.error('Failed to send code:', error)
+      toast({
+        title: "Error",
+        description: "Failed to send a new code.",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <PackageSearch className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold text-gray-900">Find Your Order</h1>
+          <p className="text-gray-600 mt-2">Checked out as a guest? Look up an order with its number and your email.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{pending ? 'Check your email' : 'Order details'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {pending ? (
+              <form onSubmit={handleVerify} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Enter the {LOOKUP_CODE_LENGTH}-digit code we sent to {email.trim()}.
+                </p>
+                <InputOTP
+                  maxLength={LOOKUP_CODE_LENGTH}
+                  value={code}
+                  onChange={setCode}
+                  aria-label="One-time code"
+                  autoFocus
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: LOOKUP_CODE_LENGTH }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+                {problem && <p role="alert" className="text-sm text-red-600">{problem}</p>}
+                <Button type="submit" className="w-full" disabled={working || code.length < LOOKUP_CODE_LENGTH}>
+                  {working ? 'Checking...' : 'View Order'}
+                </Button>
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-blue-600 hover:underline disabled:opacity-50"
+                    onClick={handleResend}
+                    disabled={working}
+                  >
+                    Send a new code
+                  </button>
+                  <button
+                    type="button"
+                    className="text-gray-600 hover:underline"
+                    onClick={() => {
+                      setPending(null)
+                      setProblem(null)
+                    }}
+                  >
+                    Use a different order
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <form onSubmit={handleFind} className="space-y-4">
+                <div>
+                  <Label htmlFor="order-number">Order number</Label>
+                  <Input
+                    id="order-number"
+                    placeholder="order_..."
+                    value={orderNumber}
+                    onChange={(e) => setOrderNumber(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="order-email">Email</Label>
+                  <Input
+                    id="order-email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                {problem && <p role="alert" className="text-sm text-red-600">{problem}</p>}
+                <Button type="submit" className="w-full" disabled={working || !orderNumber.trim() || !email.trim()}>
+                  {working ? 'Looking up...' : requireCode ? 'Email Me a Code' : 'Find Order'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { Button } from '../components/ui/button'
+import { Card, CardContent } from '../components/ui/card'
+import { Package, ChevronRight } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { useAppNavigate } from '../hooks/use-app-navigate'
+import { OrderStatusBadge } from '../components/orders/OrderStatusBadge'
+import type { Order } from '../domain'
+import { useData } from '../data'
+
+export function OrdersPage() {
+  const navigate = useAppNavigate()
+  const { auth, orders: orderRepository } = useData()
+  const [orders, setOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const loadOrders = useCallback(async () => {
+    setLoading(true)
+    try {
+      const user = await auth.me()
+      setOrders(await orderRepository.listByUser(user.id))
+    } catch (error) {
+      console.error('Failed to load orders:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load your orders.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [auth, orderRepository, toast])
+
+  useEffect(() => {
+    loadOrders()
+  }, [loadOrders])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-300 rounded w-48 mb-8"></div>
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-20 bg-gray-300 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">My Orders</h1>
+
+        {orders.length === 0 ? (
+          <div className="text-center py-12">
+            <Package className="h-24 w-24 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">No orders yet</h2>
+            <p className="text-gray-600 mb-6">
+              When you place an order it will show up here.
+            </p>
+            <Button onClick={() => navigate('products')} size="lg">
+              Start Shopping
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => (
+              <Card
+                key={order.id}
+                className="cursor-pointer hover:shadow-md transition-shadow"
+                onClick={() => navigate('orderDetail', order.id)}
+              >
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-500 truncate">Order #{order.id}</p>
+                      <p className="text-sm text-gray-600">
+                        {order.createdAt ? format(new Date(order.createdAt), 'PPP') : 'Date unavailable'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <OrderStatusBadge status={order.status} />
+                      <span className="text-lg font-bold text-gray-900">
+                        ${order.totalAmount.toFixed(2)}
+                      </span>
+                      <ChevronRight className="h-5 w-5 text-gray-400" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
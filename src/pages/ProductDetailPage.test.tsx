@@ -0,0 +1,149 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createBlinkBackend, createMemoryBackend, fixtureProducts, fixtureUser, fixtureVariants, type MemorySeed } from '../data'
+import { createFakeBlink } from '../test/fakeBlink'
+import { renderApp } from '../test/renderApp'
+
+describe('ProductDetailPage', () => {
+  it('merges into an existing cart line instead of adding a duplicate', async () => {
+    const user = userEvent.setup()
+    const fake = createFakeBlink({
+      user: fixtureUser,
+      stringifyNumbers: true,
+      tables: {
+        products: fixtureProducts,
+        cartItems: [{ id: 'cart_1', userId: fixtureUser.id, productId: 'prod_planter', quantity: 2 }]
+      }
+    })
+    renderApp(createBlinkBackend(fake.client), '/products/prod_planter')
+
+    await user.click(await screen.findByRole('button', { name: 'Add to Cart - $34.50' }))
+
+    await waitFor(() => expect(fake.tables.cartItems).toEqual([
+      expect.objectContaining({ id: 'cart_1', quantity: 3 })
+    ]))
+  })
+
+  it('creates a new cart line for a product not yet in the cart', async () => {
+    const user = userEvent.setup()
+    const fake = createFakeBlink({ user: fixtureUser, tables: { products: fixtureProducts } })
+    renderApp(createBlinkBackend(fake.client), '/products/prod_planter')
+
+    await user.click(await screen.findByRole('button', { name: 'Add to Cart - $34.50' }))
+
+    await waitFor(() => expect(fake.tables.cartItems).toEqual([
+      expect.objectContaining({ userId: fixtureUser.id, productId: 'prod_planter', quantity: 1 })
+    ]))
+  })
+
+  it('does not offer quantities beyond stock', async () => {
+    const fake = createFakeBlink({ user: fixtureUser, tables: { products: fixtureProducts } })
+    renderApp(createBlinkBackend(fake.client), '/products/prod_running_tee')
+
+    expect(await screen.findByText('Out of stock')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Add to Cart/ })).not.toBeInTheDocument()
+  })
+
+  it('prices and stocks the chosen variant and adds it to the cart', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: fixtureUser })
+    renderApp(backend, '/products/prod_denim_jacket')
+
+    expect(await screen.findByRole('button', { name: 'Choose options' })).toBeDisabled()
+    expect(screen.getByText('From $79.00')).toBeInTheDocument()
+    // Black only comes in a sold out M
+    expect(screen.getByRole('radio', { name: 'Black' })).toBeDisabled()
+
+    await user.click(screen.getByRole('radio', { name: 'Blue' }))
+    await user.click(screen.getByRole('radio', { name: 'L' }))
+    expect(screen.getByText('$84.00')).toBeInTheDocument()
+    expect(screen.getByText('3 in stock')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Add to Cart - $84.00' }))
+
+    await waitFor(async () => expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([
+      expect.objectContaining({ productId: 'prod_denim_jacket', variantId: 'var_denim_blue_l', quantity: 1 })
+    ]))
+  })
+})
+
+describe('ProductDetailPage gallery', () => {
+  it('switches images from the thumbnails and opens them fullscreen', async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser }), '/products/prod_headphones')
+
+    const first = await screen.findByRole('button', { name: 'Show image 1' })
+    expect(first).toHaveAttribute('aria-current', 'true')
+    expect(screen.getByAltText('Headphones folded flat beside a laptop')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Show image 2' }))
+    expect(screen.getByRole('button', { name: 'Show image 2' })).toHaveAttribute('aria-current', 'true')
+    expect(first).toHaveAttribute('aria-current', 'false')
+
+    await user.click(screen.getByRole('button', { name: 'View fullscreen' }))
+    const lightbox = await screen.findByRole('dialog')
+    expect(within(lightbox).getByText('Image 2 of 2')).toBeInTheDocument()
+    expect(within(lightbox).getByAltText('Headphones folded flat beside a laptop')).toBeInTheDocument()
+  })
+
+  it('brings the chosen variant image into view', async () => {
+    const user = userEvent.setup()
+    const jacket = fixtureProducts.find((product) => product.id === 'prod_denim_jacket')!
+    const productVariants = fixtureVariants.map((variant) =>
+      variant.id === 'var_denim_blue_l' ? { ...variant, imageUrl: jacket.images[2].url } : variant
+    )
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser, seed: { productVariants } }), '/products/prod_denim_jacket')
+
+    await user.click(await screen.findByRole('radio', { name: 'Blue' }))
+    expect(screen.getByRole('button', { name: 'Show image 1' })).toHaveAttribute('aria-current', 'true')
+    await user.click(screen.getByRole('radio', { name: 'L' }))
+
+    expect(screen.getByRole('button', { name: 'Show image 3' })).toHaveAttribute('aria-current', 'true')
+    // The sold out black jacket's own picture joins the gallery after the product images
+    expect(screen.getByAltText('Denim Jacket (Colour: Black, Size: M)')).toBeInTheDocument()
+  })
+})
+
+describe('ProductDetailPage reviews', () => {
+  const deliveredFootball: Partial<MemorySeed> = {
+    orders: [{ id: 'order_1', userId: fixtureUser.id, totalAmount: 29.95, status: 'delivered', statusHistory: [], shippingAddress: '1 Main St' }],
+    orderItems: [{ id: 'item_1', orderId: 'order_1', productId: 'prod_football', quantity: 1, price: 29.95 }],
+    reviews: [{ id: 'review_1', productId: 'prod_football', userId: 'user_other', authorName: 'Sam', rating: 3, body: 'Decent ball for the price.' }]
+  }
+
+  it('lets a shopper with a delivered order review the product', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: fixtureUser, seed: deliveredFootball })
+    renderApp(backend, '/products/prod_football')
+
+    await user.click(await screen.findByRole('button', { name: 'Write a review' }))
+    await user.click(screen.getByRole('radio', { name: '5 stars' }))
+    await user.type(screen.getByLabelText('Review'), 'True flight and a good grip when wet.')
+    await user.click(screen.getByRole('button', { name: 'Submit review' }))
+
+    const list = await screen.findByRole('list', { name: 'Reviews' })
+    expect(await within(list).findByText('True flight and a good grip when wet.')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Edit your review' })).toBeInTheDocument()
+    expect(await backend.products.get('prod_football')).toMatchObject({ ratingAverage: 5, ratingCount: 1 })
+  })
+
+  it('records a helpful vote once', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: fixtureUser, seed: deliveredFootball })
+    renderApp(backend, '/products/prod_football')
+
+    await user.click(await screen.findByRole('button', { name: 'Mark review by Sam as helpful' }))
+
+    expect(await screen.findByText('1 person found this helpful')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Mark review by Sam as helpful' })).toBeDisabled()
+    expect((await backend.reviews.get('review_1'))?.helpfulCount).toBe(1)
+  })
+
+  it('hides the review button from shoppers without a delivered order', async () => {
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser }), '/products/prod_football')
+
+    expect(await screen.findByText('Reviews come from shoppers whose order has been delivered.')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Write a review' })).not.toBeInTheDocument()
+  })
+})
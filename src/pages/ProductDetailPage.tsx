@@ -1,54 +1,84 @@
-import { useState, useEffect, useCallback } from 'react'
-import { blink } from '../blink/client'
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react'
+import { Link } from 'react-router-dom'
 import { Button } from '../components/ui/button'
 import { Card, CardContent } from '../components/ui/card'
-import { ArrowLeft, Plus, Minus, ShoppingCart } from 'lucide-react'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from '../components/ui/breadcrumb'
+import { Plus, Minus, ShoppingCart } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
-
-interface Product {
-  id: string
-  name: string
-  description: string
-  price: number
-  imageUrl: string
-  category: string
-  stockQuantity: number
-}
+import { useAppNavigate, useRouteParams } from '../hooks/use-app-navigate'
+import { useCategories } from '../hooks/use-categories'
+import { useWishlist } from '../hooks/use-wishlist'
+import { routes } from '../lib/routes'
+import { ProductGallery } from '../components/products/ProductGallery'
+import { VariantPicker } from '../components/products/VariantPicker'
+import { ProductReviews } from '../components/reviews/ProductReviews'
+import { RatingBadge } from '../components/reviews/StarRating'
+import { WishlistButton } from '../components/wishlist/WishlistButton'
+import {
+  categoryTrail,
+  findVariant,
+  hasVariants,
+  isArchived,
+  sortVariants,
+  variantGallery,
+  variantLabel,
+  variantPrice,
+  type OptionSelection,
+  type Product,
+  type ProductVariant
+} from '../domain'
+import { shopperCart, useData } from '../data'
+import { createId } from '../lib/ids'
 
 interface ProductDetailPageProps {
-  productId: string | null
-  onNavigate: (page: 'home' | 'products' | 'cart' | 'checkout' | 'product-detail') => void
   onCartUpdate: () => void
 }
 
-export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: ProductDetailPageProps) {
+export function ProductDetailPage({ onCartUpdate }: ProductDetailPageProps) {
+  const { productId } = useRouteParams<'productDetail'>()
+  const navigate = useAppNavigate()
+  const data = useData()
+  const { auth, products, variants: productVariants } = data
   const [product, setProduct] = useState<Product | null>(null)
+  const [variants, setVariants] = useState<ProductVariant[]>([])
+  const [selection, setSelection] = useState<OptionSelection>({})
   const [loading, setLoading] = useState(true)
   const [quantity, setQuantity] = useState(1)
   const [addingToCart, setAddingToCart] = useState(false)
+  const { categories, categoryName } = useCategories()
+  const wishlist = useWishlist()
   const { toast } = useToast()
 
   const loadProduct = useCallback(async () => {
     if (!productId) {
-      onNavigate('products')
+      navigate('products')
       return
     }
 
     setLoading(true)
     try {
-      const products = await blink.db.products.list({
-        where: { id: productId }
-      })
-      
-      if (products.length > 0) {
-        setProduct(products[0])
+      const found = await products.get(productId)
+
+      // Archived products are gone from the storefront, even by direct link
+      if (found && !isArchived(found)) {
+        const loaded = hasVariants(found) ? await productVariants.listByProduct(found.id) : []
+        setProduct(found)
+        setVariants(sortVariants(loaded))
+        setSelection({})
       } else {
         toast({
           title: "Product not found",
           description: "The product you're looking for doesn't exist.",
           variant: "destructive"
         })
-        onNavigate('products')
+        navigate('products')
       }
     } catch (error) {
       console.error('Failed to load product:', error)
@@ -60,55 +90,76 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
     } finally {
       setLoading(false)
     }
-  }, [productId, onNavigate, toast])
+  }, [productId, products, productVariants, navigate, toast])
 
   useEffect(() => {
     loadProduct()
   }, [loadProduct])
 
+  // Picks up the new rating after the shopper reviews, without reloading the page
+  const refreshRating = useCallback(async () => {
+    if (!productId) return
+    try {
+      const found = await products.get(productId)
+      if (found) {
+        setProduct((current) =>
+          current && { ...current, ratingAverage: found.ratingAverage, ratingCount: found.ratingCount }
+        )
+      }
+    } catch (error) {
+      console.error('Failed to refresh rating:', error)
+    }
+  }, [productId, products])
+
+  // Until every option is chosen the product's own price and total stock stand in
+  const variant = product ? findVariant(product.options, variants, selection) : undefined
+  const needsSelection = product !== null && hasVariants(product) && !variant
+  const price = product ? variantPrice(product, variant) : 0
+  const available = variant?.stockQuantity ?? product?.stockQuantity ?? 0
+  const gallery = useMemo(() => (product ? variantGallery(product, variants) : []), [product, variants])
+  const prices = variants.map((candidate) => variantPrice({ price: product?.price ?? 0 }, candidate))
+  const pricesVary = needsSelection && new Set(prices).size > 1
+
+  const handleSelectionChange = (next: OptionSelection) => {
+    setSelection(next)
+    setQuantity(1)
+  }
+
   const handleQuantityChange = (change: number) => {
     const newQuantity = quantity + change
-    if (newQuantity >= 1 && newQuantity <= (product?.stockQuantity || 0)) {
+    if (newQuantity >= 1 && newQuantity <= available) {
       setQuantity(newQuantity)
     }
   }
 
   const addToCart = async () => {
-    if (!product) return
+    if (!product || needsSelection) return
 
     setAddingToCart(true)
     try {
-      const user = await blink.auth.me()
-      
+      // Guests fill this browser's cart until they sign in
+      const { cart, ownerId } = shopperCart(data, await auth.current())
+
       // Check if item already exists in cart
-      const existingCartItems = await blink.db.cartItems.list({
-        where: { 
-          userId: user.id,
-          productId: product.id
-        }
-      })
+      const existingItem = await cart.findByProduct(ownerId, product.id, variant?.id)
 
-      if (existingCartItems.length > 0) {
+      if (existingItem) {
         // Update existing cart item
-        const existingItem = existingCartItems[0]
-        const newQuantity = Number(existingItem.quantity) + quantity
-        
-        await blink.db.cartItems.update(existingItem.id, {
-          quantity: newQuantity
-        })
+        await cart.updateQuantity(existingItem.id, existingItem.quantity + quantity)
       } else {
         // Create new cart item
-        await blink.db.cartItems.create({
-          id: `cart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          userId: user.id,
+        await cart.add({
+          id: createId('cart'),
+          userId: ownerId,
           productId: product.id,
+          variantId: variant?.id,
           quantity: quantity
         })
       }
 
       toast({
         title: "Added to cart",
-        description: `${quantity} ${product.name}${quantity > 1 ? 's' : ''} added to your cart.`
+        description: `${quantity} ${product.name}${quantity > 1 ? 's' : ''}${variant ? ` (${variantLabel(variant)})` : ''} added to your cart.`
       })
 
       onCartUpdate()
@@ -151,7 +202,7 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
       <div className="min-h-screen bg-gray-50 py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
           <h1 className="text-2xl font-bold text-gray-900 mb-4">Product not found</h1>
-          <Button onClick={() => onNavigate('products')}>
+          <Button onClick={() => navigate('products')}>
             Back to Products
           </Button>
         </div>
@@ -162,37 +213,56 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        {/* Back button */}
-        <Button
-          variant="ghost"
-          onClick={() => onNavigate('products')}
-          className="mb-8"
-        >
-          <ArrowLeft className="h-4 w-4 mr-2" />
-          Back to Products
-        </Button>
+        {/* Breadcrumbs */}
+        <Breadcrumb className="mb-8">
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to={routes.products()}>Products</Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            {categoryTrail(categories, product.category).map((category) => (
+              <Fragment key={category.id}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbLink asChild>
+                    <Link to={routes.products({ category: category.slug })}>{category.name}</Link>
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+              </Fragment>
+            ))}
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>{product.name}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Product Image */}
-          <div className="aspect-square overflow-hidden rounded-lg bg-white shadow-sm">
-            <img
-              src={product.imageUrl}
-              alt={product.name}
-              className="w-full h-full object-cover"
-            />
-          </div>
+          {/* Product Images */}
+          <ProductGallery images={gallery} focusUrl={variant?.imageUrl || undefined} />
 
           {/* Product Details */}
           <div className="space-y-6">
             <div>
               <span className="inline-block bg-blue-100 text-blue-800 text-sm px-3 py-1 rounded-full mb-2">
-                {product.category}
+                {categoryName(product.category)}
               </span>
-              <h1 className="text-3xl font-bold text-gray-900 mb-2">
-                {product.name}
-              </h1>
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <h1 className="text-3xl font-bold text-gray-900">
+                  {product.name}
+                </h1>
+                <WishlistButton
+                  productName={product.name}
+                  saved={wishlist.isSaved(product.id)}
+                  onToggle={() => wishlist.toggle(product, variant)}
+                />
+              </div>
+              <div className="mb-2">
+                <RatingBadge summary={product} />
+              </div>
               <p className="text-2xl font-bold text-blue-600">
-                ${product.price.toFixed(2)}
+                {pricesVary ? `From $${Math.min(...prices).toFixed(2)}` : `$${price.toFixed(2)}`}
               </p>
             </div>
 
@@ -206,9 +276,9 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">Availability</h3>
               <p className="text-gray-600">
-                {product.stockQuantity > 0 ? (
+                {available > 0 ? (
                   <span className="text-green-600">
-                    {product.stockQuantity} in stock
+                    {available} in stock
                   </span>
                 ) : (
                   <span className="text-red-600">Out of stock</span>
@@ -216,7 +286,16 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
               </p>
             </div>
 
-            {product.stockQuantity > 0 && (
+            {hasVariants(product) && (
+              <VariantPicker
+                options={product.options}
+                variants={variants}
+                selection={selection}
+                onChange={handleSelectionChange}
+              />
+            )}
+
+            {available > 0 && (
               <Card>
                 <CardContent className="p-6">
                   <div className="space-y-4">
@@ -229,6 +308,7 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
                         <Button
                           variant="outline"
                           size="sm"
+                          aria-label="Decrease quantity"
                           onClick={() => handleQuantityChange(-1)}
                           disabled={quantity <= 1}
                         >
@@ -240,8 +320,9 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
                         <Button
                           variant="outline"
                           size="sm"
+                          aria-label="Increase quantity"
                           onClick={() => handleQuantityChange(1)}
-                          disabled={quantity >= product.stockQuantity}
+                          disabled={quantity >= available}
                         >
                           <Plus className="h-4 w-4" />
                         </Button>
@@ -251,12 +332,16 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
                     {/* Add to Cart Button */}
                     <Button
                       onClick={addToCart}
-                      disabled={addingToCart}
+                      disabled={addingToCart || needsSelection}
                       className="w-full"
                       size="lg"
                     >
                       <ShoppingCart className="h-5 w-5 mr-2" />
-                      {addingToCart ? 'Adding...' : `Add to Cart - $${(product.price * quantity).toFixed(2)}`}
+                      {addingToCart
+                        ? 'Adding...'
+                        : needsSelection
+                          ? 'Choose options'
+                          : `Add to Cart - $${(price * quantity).toFixed(2)}`}
                     </Button>
                   </div>
                 </CardContent>
@@ -264,7 +349,9 @@ export function ProductDetailPage({ productId, onNavigate, onCartUpdate }: Produ
             )}
           </div>
         </div>
+
+        <ProductReviews productId={product.id} summary={product} onRatingChange={refreshRating} />
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,191 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createBlinkBackend,
+  createMemoryBackend,
+  fixtureCategories,
+  fixtureProducts,
+  fixtureUser,
+  type MemorySeed
+} from '../data'
+import { createFakeBlink } from '../test/fakeBlink'
+import { renderApp } from '../test/renderApp'
+
+describe('ProductsPage facets', () => {
+  it('narrows results by brand and stock, and removes filters through their chips', async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser }), '/products')
+    expect(await screen.findByText('Showing 8 products')).toBeInTheDocument()
+
+    await user.click(await screen.findByRole('checkbox', { name: 'Stride' }))
+    expect(await screen.findByText('Showing 2 products')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('checkbox', { name: 'In stock only' }))
+    expect(await screen.findByText('Showing 1 product')).toBeInTheDocument()
+    expect(screen.getByText('Yoga Mat')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Remove Stride filter' }))
+    expect(await screen.findByText('Showing 7 products')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Clear all' }))
+    expect(await screen.findByText('Showing 8 products')).toBeInTheDocument()
+  })
+
+  it('restores a shared filtered view from the URL', async () => {
+    const fake = createFakeBlink({
+      user: fixtureUser,
+      tables: { products: fixtureProducts, categories: fixtureCategories }
+    })
+    renderApp(createBlinkBackend(fake.client), '/products?brand=Terra+%26+Co&max=40')
+
+    expect(await screen.findByText('Showing 1 product')).toBeInTheDocument()
+    expect(screen.getByText('Ceramic Planter')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Remove Terra & Co filter' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Remove Up to $40 filter' })).toBeInTheDocument()
+    expect(screen.getByRole('checkbox', { name: 'Terra & Co' })).toBeChecked()
+  })
+})
+
+describe('ProductsPage paging', () => {
+  // 30 products named "Product 01" to "Product 30" so name order is predictable
+  const manyProducts = Array.from({ length: 30 }, (_, i) => ({
+    ...fixtureProducts[4],
+    id: `prod_${i + 1}`,
+    name: `Product ${String(i + 1).padStart(2, '0')}`
+  }))
+
+  it('pages through the catalog with numbered pages', async () => {
+    const user = userEvent.setup()
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => {})
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser, seed: { products: manyProducts } }), '/products')
+
+    expect(await screen.findByText('Showing 1–12 of 30 products')).toBeInTheDocument()
+    expect(screen.getByText('Product 12')).toBeInTheDocument()
+    expect(screen.queryByText('Product 13')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('link', { name: '3' }))
+    expect(await screen.findByText('Showing 25–30 of 30 products')).toBeInTheDocument()
+    expect(screen.getByText('Product 30')).toBeInTheDocument()
+
+    // A new filter starts again from the first page
+    await user.click(screen.getByRole('checkbox', { name: 'In stock only' }))
+    expect(await screen.findByText('Showing 1–12 of 30 products')).toBeInTheDocument()
+  })
+
+  it('loads more as the shopper scrolls and restores the list after viewing a product', async () => {
+    const user = userEvent.setup()
+    const scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => {})
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser, seed: { products: manyProducts } }), '/products')
+
+    await user.click(await screen.findByRole('radio', { name: 'Infinite scroll' }))
+    await user.click(await screen.findByRole('button', { name: 'Load more' }))
+    expect(await screen.findByText('Showing 24 of 30 products')).toBeInTheDocument()
+
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(1800)
+    await user.click(screen.getByText('Product 20'))
+    expect(await screen.findByRole('heading', { name: 'Product 20' })).toBeInTheDocument()
+
+    await user.click(within(screen.getByRole('navigation', { name: 'breadcrumb' })).getByRole('link', { name: 'Products' }))
+    expect(await screen.findByText('Showing 24 of 30 products')).toBeInTheDocument()
+    expect(scrollTo).toHaveBeenCalledWith(0, 1800)
+  })
+
+  it('counts the catalog once per filter on the Blink backend, not per page', async () => {
+    const user = userEvent.setup()
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => {})
+    const fake = createFakeBlink({ user: fixtureUser, tables: { products: manyProducts, categories: fixtureCategories } })
+    renderApp(createBlinkBackend(fake.client), '/products')
+
+    expect(await screen.findByText('Showing 1–12 of 30 products')).toBeInTheDocument()
+    expect(await screen.findByRole('checkbox', { name: 'Terra & Co' })).toBeInTheDocument()
+    const lists = fake.calls.filter((call) => call === 'products.list').length
+    const counts = fake.calls.filter((call) => call === 'products.count').length
+
+    await user.click(screen.getByRole('link', { name: '2' }))
+    expect(await screen.findByText('Showing 13–24 of 30 products')).toBeInTheDocument()
+    expect(fake.calls.filter((call) => call === 'products.count')).toHaveLength(counts)
+    expect(fake.calls.filter((call) => call === 'products.list')).toHaveLength(lists + 1)
+  })
+})
+
+describe('ProductsPage sorting', () => {
+  const order = (id: string, status: MemorySeed['orders'][number]['status']) => ({
+    id,
+    userId: fixtureUser.id,
+    totalAmount: 100,
+    status,
+    statusHistory: [],
+    shippingAddress: '1 Main St'
+  })
+  const line = (orderId: string, productId: string, quantity: number) => ({
+    id: `${orderId}_${productId}`,
+    orderId,
+    productId,
+    quantity,
+    price: 10
+  })
+  // Headphones sold the most units, but on an order that was cancelled, and
+  // two of the five footballs were refunded
+  const sales = {
+    orders: [order('order_1', 'delivered'), order('order_2', 'partially_refunded'), order('order_3', 'cancelled')],
+    orderItems: [
+      line('order_1', 'prod_football', 3),
+      line('order_2', 'prod_football', 2),
+      line('order_2', 'prod_planter', 4),
+      line('order_3', 'prod_headphones', 9)
+    ],
+    refunds: [{
+      id: 'refund_1',
+      orderId: 'order_2',
+      paymentId: 'pay_2',
+      providerRefundId: 're_2',
+      amount: 20,
+      status: 'succeeded' as const,
+      reason: 'Arrived flat',
+      lines: [{ orderItemId: 'order_2_prod_football', quantity: 2, amount: 20 }],
+      restocked: false
+    }]
+  }
+
+  const productNames = () => screen.getAllByRole('img').map((image) => image.getAttribute('alt'))
+
+  const sortBy = async (user: ReturnType<typeof userEvent.setup>, label: string) => {
+    await user.click(screen.getByRole('combobox', { name: 'Sort by' }))
+    await user.click(await screen.findByRole('option', { name: label }))
+  }
+
+  it('sorts by price either way, newest, top rated and best selling', async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser, seed: sales }), '/products')
+    await screen.findByText('Showing 8 products')
+
+    await sortBy(user, 'Price: high to low')
+    await waitFor(() => expect(productNames().slice(0, 2)).toEqual(['Fitness Smartwatch', 'Wireless Headphones']))
+
+    await sortBy(user, 'Price: low to high')
+    await waitFor(() => expect(productNames()[0]).toBe('Running Tee'))
+
+    await sortBy(user, 'Newest')
+    await waitFor(() => expect(productNames().slice(0, 2)).toEqual(['Running Tee', 'Yoga Mat']))
+
+    await sortBy(user, 'Top rated')
+    await waitFor(() => expect(productNames().slice(0, 3)).toEqual(['Denim Jacket', 'Yoga Mat', 'Wireless Headphones']))
+    // Unrated products come last
+    expect(productNames()[7]).toBe('Match Football')
+
+    await sortBy(user, 'Best selling')
+    await waitFor(() => expect(productNames().slice(0, 2)).toEqual(['Ceramic Planter', 'Match Football']))
+  })
+
+  it('sorts by units sold on the Blink backend', async () => {
+    const fake = createFakeBlink({
+      user: fixtureUser,
+      tables: { products: fixtureProducts, categories: fixtureCategories, ...sales }
+    })
+    renderApp(createBlinkBackend(fake.client), '/products?sort=best-selling&max=40')
+
+    await waitFor(() => expect(productNames().slice(0, 2)).toEqual(['Ceramic Planter', 'Match Football']))
+    expect(screen.getByRole('combobox', { name: 'Sort by' })).toHaveTextContent('Best selling')
+  })
+})
@@ -1,83 +1,279 @@
-import { useState, useEffect, useCallback } from 'react'
-import { blink } from '../blink/client'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { Button } from '../components/ui/button'
 import { Card, CardContent } from '../components/ui/card'
 import { Input } from '../components/ui/input'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '../components/ui/pagination'
+import { ToggleGroup, ToggleGroupItem } from '../components/ui/toggle-group'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { Search, Filter } from 'lucide-react'
+import { HighlightedText } from '../components/search/HighlightedText'
+import { FilterChips, ProductFilterPanel } from '../components/products/ProductFilterPanel'
+import { RatingBadge } from '../components/reviews/StarRating'
+import { WishlistButton } from '../components/wishlist/WishlistButton'
+import { useAppNavigate } from '../hooks/use-app-navigate'
+import { useWishlist } from '../hooks/use-wishlist'
+import { addRecentSearch } from '../lib/recentSearches'
+import { parseProductFilters, writeProductFilters } from '../lib/productFilters'
+import { pageWindow } from '../lib/pagination'
+import { PRODUCT_SORTS, parseProductSort, productSortOptions, type ProductSort } from '../lib/productSort'
+import {
+  PRODUCTS_PAGE_SIZE,
+  clearListPosition,
+  loadPagingMode,
+  parsePage,
+  readListPosition,
+  saveListPosition,
+  savePagingMode,
+  type PagingMode
+} from '../lib/productPaging'
+import { useCategories } from '../hooks/use-categories'
+import {
+  categoryFilterValues,
+  childCategories,
+  findCategory,
+  flattenCategoryTree,
+  type Product
+} from '../domain'
+import { useData, type ProductFacets, type ProductFilters, type ProductQuery, type ProductSearchHit } from '../data'
 
-interface Product {
-  id: string
-  name: string
-  description: string
-  price: number
-  imageUrl: string
-  category: string
-  stockQuantity: number
+interface ProductResult {
+  product: Product
+  highlights?: ProductSearchHit['highlights']
 }
 
-interface ProductsPageProps {
-  onNavigate: (page: 'home' | 'products' | 'cart' | 'checkout' | 'product-detail', productId?: string, category?: string) => void
-  category?: string | null
-}
-
-export function ProductsPage({ onNavigate, category }: ProductsPageProps) {
-  const [products, setProducts] = useState<Product[]>([])
+export function ProductsPage() {
+  const navigate = useAppNavigate()
+  const { products: productRepository } = useData()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [results, setResults] = useState<ProductResult[]>([])
+  const [facets, setFacets] = useState<ProductFacets | null>(null)
   const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [selectedCategory, setSelectedCategory] = useState(category || 'all')
-  const [sortBy, setSortBy] = useState('name')
+  const { categories, loading: categoriesLoading, categoryName } = useCategories()
+  const wishlist = useWishlist()
 
-  const categories = ['Electronics', 'Clothing', 'Home & Garden', 'Sports']
+  // The category, facet filters and search live in the URL so filtered views
+  // survive reloads, can be shared and the command palette can link to them
+  const selectedCategory = searchParams.get('category') || 'all'
+  const searchTerm = searchParams.get('q') ?? ''
+  const filterParams = writeProductFilters(new URLSearchParams(), parseProductFilters(searchParams)).toString()
+  const filters = useMemo(() => parseProductFilters(new URLSearchParams(filterParams)), [filterParams])
+  const searching = searchTerm.trim() !== ''
+  // Relevance while searching, name otherwise, unless the shopper picked one
+  const sortBy = parseProductSort(searchParams.get('sort'), searching)
 
-  const loadProducts = useCallback(async () => {
-    setLoading(true)
-    try {
-      const whereClause: any = {}
-      
-      if (selectedCategory !== 'all') {
-        whereClause.category = selectedCategory
+  const [pagingMode, setPagingMode] = useState<PagingMode>(() => loadPagingMode())
+  const page = pagingMode === 'pages' ? parsePage(searchParams.get('page')) : 1
+  const [total, setTotal] = useState(0)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const loadMoreTrigger = useRef<HTMLDivElement>(null)
+  // Bumped by every fresh load, so a "load more" that finishes after the
+  // list was replaced does not append to the new list
+  const listVersion = useRef(0)
+  const summaryVersion = useRef(0)
+
+  // Returning from a product page puts the shopper back where they were
+  const listKey = `${pagingMode}:${searchParams.toString()}`
+  const [savedPosition] = useState(() => readListPosition(listKey))
+  const positionRestored = useRef(false)
+
+  // Any change to what is listed starts again from the first page
+  const updateListParams = useCallback((update: (params: URLSearchParams) => URLSearchParams) => {
+    setSearchParams((prev) => {
+      const next = update(new URLSearchParams(prev))
+      next.delete('page')
+      return next
+    }, { replace: true })
+  }, [setSearchParams])
+
+  const setSelectedCategory = useCallback((category: string) => {
+    updateListParams((next) => {
+      if (category === 'all') {
+        next.delete('category')
+      } else {
+        next.set('category', category)
       }
+      return next
+    })
+  }, [updateListParams])
 
-      const allProducts = await blink.db.products.list({
-        where: Object.keys(whereClause).length > 0 ? whereClause : undefined,
-        orderBy: { [sortBy]: 'asc' }
-      })
-
-      // Filter by search term if provided
-      let filteredProducts = allProducts
-      if (searchTerm) {
-        filteredProducts = allProducts.filter(product =>
-          product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          product.description.toLowerCase().includes(searchTerm.toLowerCase())
-        )
+  const setSearchTerm = useCallback((term: string) => {
+    updateListParams((next) => {
+      // A new search starts out sorted by relevance
+      if (term && !next.get('q')) next.delete('sort')
+      if (term) {
+        next.set('q', term)
+      } else {
+        next.delete('q')
       }
+      return next
+    })
+  }, [updateListParams])
+
+  const setFilters = useCallback((next: ProductFilters) => {
+    updateListParams((params) => writeProductFilters(params, next))
+  }, [updateListParams])
+
+  const changeSort = (sort: ProductSort) => {
+    updateListParams((next) => {
+      next.set('sort', sort)
+      return next
+    })
+  }
+
+  const changePagingMode = (mode: PagingMode) => {
+    savePagingMode(mode)
+    setPagingMode(mode)
+    updateListParams((next) => next)
+  }
+
+  const currentCategory = findCategory(categories, selectedCategory)
+  const subcategories = currentCategory ? childCategories(categories, currentCategory.id) : []
+
+  // What is listed, leaving aside how it is sorted and paged
+  const scope = useMemo<ProductQuery>(() => {
+    const filterValues = categoryFilterValues(categories, selectedCategory)
+    return {
+      ...filters,
+      categories: selectedCategory === 'all'
+        ? undefined
+        : filterValues.length > 0 ? filterValues : [selectedCategory]
+    }
+  }, [categories, selectedCategory, filters])
 
-      setProducts(filteredProducts)
+  const query = useMemo<ProductQuery>(
+    () => ({ ...scope, orderBy: PRODUCT_SORTS[sortBy].orderBy }),
+    [scope, sortBy]
+  )
+
+  const fetchResults = useCallback(async (offset: number, limit: number): Promise<ProductResult[]> => {
+    if (searchTerm.trim()) {
+      return productRepository.search(searchTerm, { ...query, offset, limit })
+    }
+    const pageProducts = await productRepository.list({
+      ...query,
+      orderBy: query.orderBy ?? { field: 'name', direction: 'asc' },
+      offset,
+      limit
+    })
+    return pageProducts.map((product) => ({ product }))
+  }, [productRepository, query, searchTerm])
+
+  const loadProducts = useCallback(async () => {
+    // The filter needs the category tree to include subcategories
+    if (categoriesLoading) return
+    const version = ++listVersion.current
+    setLoading(true)
+    try {
+      // An infinite list reloads as far as the shopper had scrolled
+      const limit = pagingMode === 'infinite'
+        ? Math.max(PRODUCTS_PAGE_SIZE, savedPosition?.key === listKey ? savedPosition.loaded : 0)
+        : PRODUCTS_PAGE_SIZE
+      const pageResults = await fetchResults((page - 1) * PRODUCTS_PAGE_SIZE, limit)
+      if (version !== listVersion.current) return
+      setResults(pageResults)
     } catch (error) {
       console.error('Failed to load products:', error)
     } finally {
       setLoading(false)
     }
-  }, [selectedCategory, sortBy, searchTerm])
+  }, [categoriesLoading, fetchResults, pagingMode, page, savedPosition, listKey])
+
+  // The total and facet counts only change with the scope, so paging and
+  // sorting do not recount the catalog
+  const loadSummary = useCallback(async () => {
+    if (categoriesLoading) return
+    const version = ++summaryVersion.current
+    try {
+      const text = searchTerm.trim() || undefined
+      const [matching, productFacets] = await Promise.all([
+        productRepository.count(scope, text),
+        productRepository.facets(scope, text)
+      ])
+      if (version !== summaryVersion.current) return
+      setTotal(matching)
+      setFacets(productFacets)
+    } catch (error) {
+      console.error('Failed to load product counts:', error)
+    }
+  }, [productRepository, categoriesLoading, scope, searchTerm])
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || results.length >= total) return
+    const version = listVersion.current
+    setLoadingMore(true)
+    try {
+      const more = await fetchResults(results.length, PRODUCTS_PAGE_SIZE)
+      if (version === listVersion.current) setResults((current) => [...current, ...more])
+    } catch (error) {
+      console.error('Failed to load more products:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [loading, loadingMore, results.length, total, fetchResults])
 
   useEffect(() => {
     loadProducts()
   }, [loadProducts])
 
   useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      loadProducts()
-    }, 300)
+    loadSummary()
+  }, [loadSummary])
 
-    return () => clearTimeout(timeoutId)
-  }, [loadProducts])
+  // Infinite scroll: load the next page as the end of the list comes into view
+  useEffect(() => {
+    const trigger = loadMoreTrigger.current
+    if (pagingMode !== 'infinite' || !trigger || typeof IntersectionObserver === 'undefined') return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore()
+      },
+      { rootMargin: '400px' }
+    )
+    observer.observe(trigger)
+    return () => observer.disconnect()
+  }, [pagingMode, loadMore])
 
   useEffect(() => {
-    if (category) {
-      setSelectedCategory(category)
+    if (loading || positionRestored.current) return
+    positionRestored.current = true
+    if (savedPosition) {
+      window.scrollTo(0, savedPosition.scrollY)
+      clearListPosition()
     }
-  }, [category])
+  }, [loading, savedPosition])
+
+  const openProduct = (productId: string) => {
+    saveListPosition({ key: listKey, loaded: results.length, scrollY: window.scrollY })
+    navigate('productDetail', productId)
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PRODUCTS_PAGE_SIZE))
+  const goToPage = (next: number) => (event: React.MouseEvent) => {
+    event.preventDefault()
+    if (next < 1 || next > pageCount) return
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev)
+      if (next === 1) {
+        params.delete('page')
+      } else {
+        params.set('page', String(next))
+      }
+      return params
+    })
+    window.scrollTo(0, 0)
+  }
+
+  const firstShown = pagingMode === 'pages' ? (page - 1) * PRODUCTS_PAGE_SIZE + 1 : 1
+  const lastShown = firstShown + results.length - 1
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -85,11 +281,25 @@ export function ProductsPage({ onNavigate, category }: ProductsPageProps) {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            {selectedCategory === 'all' ? 'All Products' : selectedCategory}
+            {selectedCategory === 'all' ? 'All Products' : currentCategory?.name ?? selectedCategory}
           </h1>
           <p className="text-gray-600">
-            Discover our amazing collection of products
+            {currentCategory?.description || 'Discover our amazing collection of products'}
           </p>
+          {subcategories.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {subcategories.map((subcategory) => (
+                <Button
+                  key={subcategory.id}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedCategory(subcategory.slug)}
+                >
+                  {subcategory.name}
+                </Button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Filters */}
@@ -103,6 +313,9 @@ export function ProductsPage({ onNavigate, category }: ProductsPageProps) {
                   placeholder="Search products..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addRecentSearch(searchTerm)
+                  }}
                   className="pl-10"
                 />
               </div>
@@ -117,9 +330,13 @@ export function ProductsPage({ onNavigate, category }: ProductsPageProps) {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Categories</SelectItem>
-                  {categories.map((cat) => (
-                    <SelectItem key={cat} value={cat}>
-                      {cat}
+                  {flattenCategoryTree(categories).map(({ category, depth }) => (
+                    <SelectItem
+                      key={category.id}
+                      value={category.slug}
+                      style={depth > 0 ? { paddingLeft: `${2 + depth}rem` } : undefined}
+                    >
+                      {category.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -128,95 +345,175 @@ export function ProductsPage({ onNavigate, category }: ProductsPageProps) {
 
             {/* Sort */}
             <div className="w-full md:w-48">
-              <Select value={sortBy} onValueChange={setSortBy}>
-                <SelectTrigger>
+              <Select value={sortBy} onValueChange={(value) => changeSort(value as ProductSort)}>
+                <SelectTrigger aria-label="Sort by">
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="name">Name</SelectItem>
-                  <SelectItem value="price">Price</SelectItem>
-                  <SelectItem value="category">Category</SelectItem>
+                  {productSortOptions(searching).map((sort) => (
+                    <SelectItem key={sort} value={sort}>
+                      {PRODUCT_SORTS[sort].label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
         </div>
 
-        {/* Products Grid */}
-        {loading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {[...Array(8)].map((_, i) => (
-              <Card key={i} className="animate-pulse">
-                <div className="aspect-square bg-gray-300 rounded-t-lg"></div>
-                <CardContent className="p-4">
-                  <div className="h-4 bg-gray-300 rounded mb-2"></div>
-                  <div className="h-3 bg-gray-300 rounded mb-2"></div>
-                  <div className="h-4 bg-gray-300 rounded w-1/2"></div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        ) : products.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-gray-500 text-lg">No products found</p>
-            <Button
-              onClick={() => {
-                setSearchTerm('')
-                setSelectedCategory('all')
-              }}
-              variant="outline"
-              className="mt-4"
-            >
-              Clear Filters
-            </Button>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {products.map((product) => (
-              <Card
-                key={product.id}
-                className="cursor-pointer hover:shadow-lg transition-shadow duration-300"
-                onClick={() => onNavigate('product-detail', product.id)}
+        <div className="flex flex-col lg:flex-row gap-8">
+          {/* Facets */}
+          <aside className="w-full lg:w-64 shrink-0" aria-label="Product filters">
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <ProductFilterPanel facets={facets} filters={filters} onChange={setFilters} />
+            </div>
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            <FilterChips filters={filters} onChange={setFilters} />
+
+            {/* Products Grid */}
+            {/* Reloads keep the current products on screen so the page keeps its height */}
+            {loading && results.length === 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                {[...Array(8)].map((_, i) => (
+                  <Card key={i} className="animate-pulse">
+                    <div className="aspect-square bg-gray-300 rounded-t-lg"></div>
+                    <CardContent className="p-4">
+                      <div className="h-4 bg-gray-300 rounded mb-2"></div>
+                      <div className="h-3 bg-gray-300 rounded mb-2"></div>
+                      <div className="h-4 bg-gray-300 rounded w-1/2"></div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : !loading && results.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-gray-500 text-lg">No products found</p>
+                <Button
+                  onClick={() => {
+                    setSearchTerm('')
+                    setSelectedCategory('all')
+                    setFilters({})
+                  }}
+                  variant="outline"
+                  className="mt-4"
+                >
+                  Clear Filters
+                </Button>
+              </div>
+            ) : (
+              <div
+                className={`grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 transition-opacity ${loading ? 'opacity-60' : ''}`}
+                aria-busy={loading}
               >
-                <div className="aspect-square overflow-hidden rounded-t-lg">
-                  <img
-                    src={product.imageUrl}
-                    alt={product.name}
-                    className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
-                  />
-                </div>
-                <CardContent className="p-4">
-                  <div className="flex items-start justify-between mb-2">
-                    <h3 className="font-semibold text-gray-900 line-clamp-1 flex-1">
-                      {product.name}
-                    </h3>
-                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded ml-2">
-                      {product.category}
-                    </span>
-                  </div>
-                  <p className="text-sm text-gray-600 mb-3 line-clamp-2">
-                    {product.description}
-                  </p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-lg font-bold text-blue-600">
-                      ${product.price.toFixed(2)}
-                    </span>
-                    <span className="text-xs text-gray-500">
-                      {product.stockQuantity} in stock
-                    </span>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
+                {results.map(({ product, highlights }) => (
+                  <Card
+                    key={product.id}
+                    className="cursor-pointer hover:shadow-lg transition-shadow duration-300"
+                    onClick={() => openProduct(product.id)}
+                  >
+                    <div className="relative aspect-square overflow-hidden rounded-t-lg">
+                      <img
+                        src={product.imageUrl}
+                        alt={product.name}
+                        className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
+                      />
+                      <WishlistButton
+                        productName={product.name}
+                        saved={wishlist.isSaved(product.id)}
+                        onToggle={() => wishlist.toggle(product)}
+                        className="absolute top-2 right-2"
+                      />
+                    </div>
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between mb-2">
+                        <h3 className="font-semibold text-gray-900 line-clamp-1 flex-1">
+                          {highlights ? <HighlightedText segments={highlights.name} /> : product.name}
+                        </h3>
+                        <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded ml-2">
+                          {categoryName(product.category)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mb-3 line-clamp-2">
+                        {highlights ? <HighlightedText segments={highlights.description} /> : product.description}
+                      </p>
+                      <div className="mb-3 -mt-1">
+                        <RatingBadge summary={product} />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-lg font-bold text-blue-600">
+                          ${product.price.toFixed(2)}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {product.stockQuantity} in stock
+                        </span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
 
-        {/* Results count */}
-        {!loading && products.length > 0 && (
-          <div className="mt-8 text-center text-gray-600">
-            Showing {products.length} product{products.length !== 1 ? 's' : ''}
+            {/* Infinite scroll */}
+            {pagingMode === 'infinite' && !loading && results.length < total && (
+              <div ref={loadMoreTrigger} className="mt-8 flex justify-center">
+                <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+
+            {/* Numbered pages */}
+            {pagingMode === 'pages' && pageCount > 1 && (
+              <Pagination className="mt-8">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious href="#" onClick={goToPage(page - 1)} aria-disabled={page === 1} />
+                  </PaginationItem>
+                  {pageWindow(page, pageCount).map((item, index) => (
+                    <PaginationItem key={index}>
+                      {item === 'ellipsis' ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink href="#" isActive={page === item} onClick={goToPage(item)}>
+                          {item}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext href="#" onClick={goToPage(page + 1)} aria-disabled={page === pageCount} />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+
+            {/* Results count */}
+            {!loading && results.length > 0 && (
+              <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4 text-gray-600">
+                <span>
+                  {results.length === total
+                    ? `Showing ${total} product${total !== 1 ? 's' : ''}`
+                    : pagingMode === 'pages'
+                      ? `Showing ${firstShown}–${lastShown} of ${total} products`
+                      : `Showing ${results.length} of ${total} products`}
+                </span>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={pagingMode}
+                  onValueChange={(value) => value && changePagingMode(value as PagingMode)}
+                  aria-label="Browse by"
+                >
+                  <ToggleGroupItem value="pages">Pages</ToggleGroupItem>
+                  <ToggleGroupItem value="infinite">Infinite scroll</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,30 @@
+import type { ReactNode } from 'react'
+import { LogIn } from 'lucide-react'
+import { Button } from '../components/ui/button'
+import { useData } from '../data'
+
+interface SignInRequiredPageProps {
+  // What signing in unlocks, e.g. "Sign in to see your orders."
+  message: string
+  // Another way forward for guests, shown under the sign-in button
+  children?: ReactNode
+}
+
+// Shown to guests on account pages in place of the page itself
+export function SignInRequiredPage({ message, children }: SignInRequiredPageProps) {
+  const { auth } = useData()
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-md mx-auto px-4 text-center py-12">
+        <LogIn className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Sign in to continue</h1>
+        <p className="text-gray-600 mb-6">{message}</p>
+        <Button onClick={() => auth.login()} size="lg">
+          Sign In
+        </Button>
+        {children}
+      </div>
+    </div>
+  )
+}
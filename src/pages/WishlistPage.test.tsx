@@ -0,0 +1,50 @@
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser } from '../data'
+import { renderApp } from '../test/renderApp'
+
+describe('WishlistPage', () => {
+  it('lists products hearted on the product page', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: fixtureUser })
+    renderApp(backend, '/products/prod_planter')
+
+    await user.click(await screen.findByRole('button', { name: 'Save Ceramic Planter to wishlist' }))
+    expect(await screen.findByRole('button', { name: 'Remove Ceramic Planter from wishlist' })).toHaveAttribute('aria-pressed', 'true')
+
+    await user.click(screen.getByRole('link', { name: 'Wishlist' }))
+    expect(await screen.findByRole('heading', { name: 'Ceramic Planter' })).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Move Ceramic Planter to cart' }))
+    expect(await screen.findByText('Your wishlist is empty')).toBeInTheDocument()
+    await waitFor(async () => expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([
+      expect.objectContaining({ productId: 'prod_planter', quantity: 1 })
+    ]))
+  })
+
+  it('announces a price drop after sign-in and shows the old price', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        wishlistItems: [{
+          id: 'wish_1',
+          userId: fixtureUser.id,
+          productId: 'prod_football',
+          savedPrice: 39.95,
+          seenPrice: 39.95,
+          seenInStock: true
+        }]
+      }
+    })
+    renderApp(backend, '/')
+
+    expect(await screen.findByText('Match Football dropped from $39.95 to $29.95.')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'View' }))
+
+    expect(await screen.findByText('Price dropped')).toBeInTheDocument()
+    expect(screen.getByText('$39.95')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Heart } from 'lucide-react'
+import { Button } from '../components/ui/button'
+import { Card, CardContent } from '../components/ui/card'
+import { WishlistItemRow } from '../components/wishlist/WishlistItemRow'
+import { useToast } from '../hooks/use-toast'
+import { useAppNavigate } from '../hooks/use-app-navigate'
+import type { WishlistLine } from '../domain'
+import { loadWishlistLines, useData } from '../data'
+import { WishlistError, moveToCart } from '../services/wishlist'
+
+interface WishlistPageProps {
+  onCartUpdate: () => void
+}
+
+export function WishlistPage({ onCartUpdate }: WishlistPageProps) {
+  const navigate = useAppNavigate()
+  const data = useData()
+  const [lines, setLines] = useState<WishlistLine[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const loadWishlist = useCallback(async () => {
+    try {
+      const user = await data.auth.me()
+      setLines(await loadWishlistLines(data, user.id))
+    } catch (error) {
+      console.error('Failed to load wishlist:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load your wishlist.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [data, toast])
+
+  useEffect(() => {
+    loadWishlist()
+  }, [loadWishlist])
+
+  const handleMoveToCart = async (line: WishlistLine) => {
+    setUpdating(line.id)
+    try {
+      const quantity = await moveToCart(data, line)
+      setLines((prev) => prev.filter((item) => item.id !== line.id))
+      onCartUpdate()
+      toast({
+        title: "Moved to cart",
+        description: `${line.product.name} is in your cart (quantity ${quantity}).`
+      })
+    } catch (error) {
+      console.error('Failed to move item to cart:', error)
+      toast({
+        title: "Error",
+        description: error instanceof WishlistError ? error.message : "Failed to move item to cart.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const handleRemove = async (line: WishlistLine) => {
+    setUpdating(line.id)
+    try {
+      await data.wishlist.remove(line.id)
+      setLines((prev) => prev.filter((item) => item.id !== line.id))
+    } catch (error) {
+      console.error('Failed to remove wishlist item:', error)
+      toast({
+        title: "Error",
+        description: "Failed to remove item.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Wishlist</h1>
+
+        {loading ? (
+          <div className="space-y-4 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i}>
+                <CardContent className="p-4">
+                  <div className="flex items-center space-x-4">
+                    <div className="w-20 h-20 bg-gray-300 rounded"></div>
+                    <div className="flex-1 space-y-2">
+                      <div className="h-4 bg-gray-300 rounded w-3/4"></div>
+                      <div className="h-3 bg-gray-300 rounded w-1/2"></div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : lines.length === 0 ? (
+          <div className="text-center py-12">
+            <Heart className="h-24 w-24 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">Your wishlist is empty</h2>
+            <p className="text-gray-600 mb-6">
+              Tap the heart on any product to save it here. We'll tell you when it gets cheaper or comes back in stock.
+            </p>
+            <Button onClick={() => navigate('products')} size="lg">
+              Browse Products
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {lines.map((line) => (
+              <WishlistItemRow
+                key={line.id}
+                line={line}
+                busy={updating === line.id}
+                onMoveToCart={() => handleMoveToCart(line)}
+                onRemove={() => handleRemove(line)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser } from '../../data'
+import type { User } from '../../domain'
+import { renderApp } from '../../test/renderApp'
+
+const adminUser: User = { ...fixtureUser, role: 'admin' }
+
+describe('admin categories', () => {
+  it('creates a subcategory with a slug derived from its name', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: adminUser })
+    renderApp(backend, '/admin/categories')
+
+    await user.click(await screen.findByRole('button', { name: 'New Category' }))
+    const dialog = await screen.findByRole('dialog')
+    await user.type(within(dialog).getByLabelText('Name'), 'Running Shoes')
+    expect(within(dialog).getByLabelText('Slug')).toHaveValue('running-shoes')
+    await user.click(within(dialog).getByLabelText('Parent category'))
+    await user.click(await screen.findByRole('option', { name: 'Sports' }))
+    await user.click(within(dialog).getByRole('button', { name: 'Create Category' }))
+
+    expect(await screen.findByText('Running Shoes')).toBeInTheDocument()
+    const created = (await backend.categories.list()).find((category) => category.slug === 'running-shoes')
+    expect(created).toMatchObject({ name: 'Running Shoes', parentId: 'cat_sports' })
+  })
+
+  it('explains why a category with products cannot be deleted', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: adminUser })
+    renderApp(backend, '/admin/categories')
+
+    await user.click(await screen.findByRole('button', { name: 'Actions for Clothing' }))
+    await user.click(await screen.findByRole('menuitem', { name: 'Delete' }))
+    await user.click(await screen.findByRole('button', { name: 'Delete Category' }))
+
+    expect(await screen.findByText('Clothing still has products. Move them to another category first.')).toBeInTheDocument()
+    await waitFor(async () => expect(await backend.categories.get('cat_clothing')).not.toBeNull())
+  })
+})
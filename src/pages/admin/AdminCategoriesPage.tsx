@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '../../components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '../../components/ui/table'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '../../components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '../../components/ui/alert-dialog'
+import { CategoryFormDialog } from '../../components/admin/CategoryFormDialog'
+import { categoryColorClass, categoryIcon } from '../../components/categories/categoryStyle'
+import { useToast } from '../../hooks/use-toast'
+import { findCategory, flattenCategoryTree, type Category, type Product } from '../../domain'
+import { useData } from '../../data'
+import { deleteCategory } from '../../services/categoryAdmin'
+
+export function AdminCategoriesPage() {
+  const data = useData()
+  const { toast } = useToast()
+  const [categories, setCategories] = useState<Category[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<Category | null>(null)
+  const [deleting, setDeleting] = useState<Category | null>(null)
+
+  const loadCategories = useCallback(async () => {
+    try {
+      const [allCategories, allProducts] = await Promise.all([
+        data.categories.list(),
+        data.products.list({ includeArchived: true })
+      ])
+      setCategories(allCategories)
+      setProducts(allProducts)
+    } catch (error) {
+      console.error('Failed to load categories:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load categories.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [data, toast])
+
+  useEffect(() => {
+    loadCategories()
+  }, [loadCategories])
+
+  // Products filed directly under each category, keyed by category id
+  const productCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    products.forEach((product) => {
+      const category = findCategory(categories, product.category)
+      if (category) counts.set(category.id, (counts.get(category.id) ?? 0) + 1)
+    })
+    return counts
+  }, [categories, products])
+
+  const openForm = (category: Category | null) => {
+    setEditing(category)
+    setFormOpen(true)
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    try {
+      await deleteCategory(data, deleting.id)
+      toast({ title: "Category deleted", description: `${deleting.name} has been removed.` })
+      loadCategories()
+    } catch (error) {
+      console.error('Failed to delete category:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete category.",
+        variant: "destructive"
+      })
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Categories</h1>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Category
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead className="text-right">Position</TableHead>
+              <TableHead className="text-right">Products</TableHead>
+              <TableHead className="w-10"><span className="sr-only">Actions</span></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              [...Array(4)].map((_, i) => (
+                <TableRow key={i} className="animate-pulse">
+                  <TableCell colSpan={5}>
+                    <div className="h-4 bg-gray-300 rounded"></div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : categories.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                  No categories yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              flattenCategoryTree(categories).map(({ category, depth }) => {
+                const Icon = categoryIcon(category.icon)
+                return (
+                  <TableRow key={category.id}>
+                    <TableCell>
+                      <div className="flex items-center space-x-3" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                        <div className={`w-8 h-8 rounded-full flex items-center justify-center ${categoryColorClass(category.color)}`}>
+                          <Icon className="h-4 w-4" />
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-900">{category.name}</p>
+                          {category.description && (
+                            <p className="text-sm text-gray-500">{category.description}</p>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm text-gray-600">{category.slug}</TableCell>
+                    <TableCell className="text-right">{category.sortOrder}</TableCell>
+                    <TableCell className="text-right">{productCounts.get(category.id) ?? 0}</TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" aria-label={`Actions for ${category.name}`}>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onSelect={() => openForm(category)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => setDeleting(category)} className="text-red-600">
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <CategoryFormDialog
+        open={formOpen}
+        category={editing}
+        categories={categories}
+        onOpenChange={setFormOpen}
+        onSaved={loadCategories}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only categories without products or subcategories can be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Category</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete Category</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createBlinkBackend, createMemoryBackend, fixtureProducts, fixtureUser, type MemorySeed } from '../../data'
+import type { User } from '../../domain'
+import { MOCK_TEST_CARDS, createMockGateway } from '../../payments'
+import { createFakeBlink } from '../../test/fakeBlink'
+import { renderApp } from '../../test/renderApp'
+
+const adminUser: User = { ...fixtureUser, id: 'user_admin', role: 'admin' }
+
+const order = (n: number, overrides: Partial<MemorySeed['orders'][number]> = {}) => ({
+  id: `order_${String(n).padStart(2, '0')}`,
+  userId: fixtureUser.id,
+  customerEmail: fixtureUser.email,
+  totalAmount: 10 * n,
+  status: 'pending' as const,
+  statusHistory: [],
+  shippingAddress: `${n} Main St`,
+  createdAt: `2024-05-${String(n).padStart(2, '0')}T10:00:00.000Z`,
+  ...overrides
+})
+
+const seed: Partial<MemorySeed> = {
+  orders: [
+    order(1, { status: 'paid', customerEmail: 'ada@example.com' }),
+    ...Array.from({ length: 24 }, (_, index) => order(index + 2))
+  ],
+  orderItems: [{ id: 'order_01_item_1', orderId: 'order_01', productId: 'prod_denim_jacket', quantity: 2, price: 5 }]
+}
+
+const orderLinks = () => screen.getAllByRole('button', { name: /^#order_/ }).map((node) => node.textContent)
+
+describe('admin orders dashboard', () => {
+  it('pages through every customer, newest first', async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: adminUser, seed }), '/admin/orders')
+
+    expect(await screen.findByText('25 orders')).toBeInTheDocument()
+    expect(orderLinks()).toHaveLength(20)
+    expect(orderLinks()[0]).toBe('#order_25')
+
+    await user.click(screen.getByRole('link', { name: 'Go to next page' }))
+    await waitFor(() => expect(orderLinks()).toEqual(['#order_05', '#order_04', '#order_03', '#order_02', '#order_01']))
+  })
+
+  it('filters by status and customer', async () => {
+    const user = userEvent.setup()
+    renderApp(createMemoryBackend({ storage: null, user: adminUser, seed }), '/admin/orders')
+    await screen.findByText('25 orders')
+
+    await user.click(screen.getByRole('button', { name: 'Paid' }))
+    await waitFor(() => expect(orderLinks()).toEqual(['#order_01']))
+
+    await user.click(screen.getByRole('button', { name: 'Paid' }))
+    await user.type(screen.getByLabelText('Customer'), 'ADA@')
+    await waitFor(() => expect(orderLinks()).toEqual(['#order_01']))
+  })
+
+  it('shows an order in the drawer and advances it', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: adminUser, seed })
+    renderApp(backend, '/admin/orders')
+    await user.click(await screen.findByRole('button', { name: 'Paid' }))
+
+    await user.click(await screen.findByRole('button', { name: '#order_01' }))
+    const drawer = await screen.findByRole('dialog')
+    expect(await within(drawer).findByText('Denim Jacket')).toBeInTheDocument()
+    expect(within(drawer).getByText('1 Main St')).toBeInTheDocument()
+    expect(within(drawer).queryByRole('button', { name: 'Mark as paid' })).not.toBeInTheDocument()
+
+    await user.type(within(drawer).getByLabelText('Note (optional)'), 'Picked by Sam')
+    await user.click(within(drawer).getByRole('button', { name: 'Mark as fulfilled' }))
+
+    await waitFor(async () => expect((await backend.orders.get('order_01'))?.status).toBe('fulfilled'))
+    expect(await within(drawer).findByText('Picked by Sam')).toBeInTheDocument()
+  })
+
+  it('captures a payment that was authorized but not captured', async () => {
+    const user = userEvent.setup()
+    const paymentProvider = createMockGateway()
+    const intent = await paymentProvider.createIntent({ orderId: 'order_25', amount: 250, currency: 'usd', idempotencyKey: 'order_order_25' })
+    await paymentProvider.confirm(intent.id, { number: MOCK_TEST_CARDS.success, expMonth: 12, expYear: 2040, cvc: '123' })
+    const backend = createMemoryBackend({
+      storage: null,
+      user: adminUser,
+      paymentProvider,
+      seed: {
+        ...seed,
+        payments: [{ id: 'pay_1', orderId: 'order_25', provider: 'mock', intentId: intent.id, amount: 250, status: 'authorized', cardLast4: '4242' }]
+      }
+    })
+    renderApp(backend, '/admin/orders')
+
+    await user.click(await screen.findByRole('button', { name: '#order_25' }))
+    const drawer = await screen.findByRole('dialog')
+    expect(await within(drawer).findByText(/Authorized · \$250\.00 · card ending 4242/)).toBeInTheDocument()
+    await user.click(within(drawer).getByRole('button', { name: 'Capture payment' }))
+
+    await waitFor(async () => expect((await backend.orders.get('order_25'))?.status).toBe('paid'))
+    expect(await within(drawer).findByText(/Captured · \$250\.00/)).toBeInTheDocument()
+  })
+
+  it('refunds part of a paid order, restocking it, and lists the refund', async () => {
+    const user = userEvent.setup()
+    const paymentProvider = createMockGateway()
+    const intent = await paymentProvider.createIntent({ orderId: 'order_01', amount: 10, currency: 'usd', idempotencyKey: 'order_order_01' })
+    await paymentProvider.confirm(intent.id, { number: MOCK_TEST_CARDS.success, expMonth: 12, expYear: 2040, cvc: '123' })
+    await paymentProvider.capture(intent.id)
+    const backend = createMemoryBackend({
+      storage: null,
+      user: adminUser,
+      paymentProvider,
+      seed: {
+        ...seed,
+        payments: [{ id: 'pay_1', orderId: 'order_01', provider: 'mock', intentId: intent.id, amount: 10, status: 'captured', cardLast4: '4242' }]
+      }
+    })
+    renderApp(backend, '/admin/orders')
+    await user.click(await screen.findByRole('button', { name: 'Paid' }))
+    await user.click(await screen.findByRole('button', { name: '#order_01' }))
+    const drawer = await screen.findByRole('dialog')
+    await user.click(await within(drawer).findByRole('button', { name: 'Issue refund' }))
+
+    const dialog = await screen.findByRole('dialog', { name: 'Refund order #order_01' })
+    expect(within(dialog).getByRole('button', { name: 'Refund $0.00' })).toBeDisabled()
+    await user.type(within(dialog).getByLabelText(/Denim Jacket/), '1')
+    await user.type(within(dialog).getByLabelText('Reason'), 'One arrived torn')
+    expect(within(dialog).getByLabelText('Return refunded items to stock')).toBeChecked()
+    await user.click(within(dialog).getByRole('button', { name: 'Refund $5.00' }))
+
+    await waitFor(async () => expect((await backend.orders.get('order_01'))?.status).toBe('partially_refunded'))
+    expect((await backend.products.get('prod_denim_jacket'))?.stockQuantity).toBe(13)
+    expect(await paymentProvider.retrieve(intent.id)).toMatchObject({ amountRefunded: 5 })
+    expect(await within(drawer).findByText('Refunded $5.00')).toBeInTheDocument()
+    expect(within(drawer).getByText('1 × Denim Jacket')).toBeInTheDocument()
+    expect(within(drawer).getByText('Returned to stock')).toBeInTheDocument()
+  })
+
+  it('filters with Blink operators', async () => {
+    const fake = createFakeBlink({
+      user: fixtureUser,
+      tables: {
+        products: fixtureProducts,
+        userRoles: [{ id: 'role_1', userId: fixtureUser.id, role: 'admin' }],
+        orders: seed.orders ?? []
+      }
+    })
+    const backend = createBlinkBackend(fake.client)
+
+    const matching = await backend.orders.list({
+      statuses: ['pending'],
+      createdFrom: '2024-05-10T00:00:00.000Z',
+      createdTo: '2024-05-12T23:59:59.999Z',
+      customer: 'SHOPPER'
+    })
+
+    expect(matching.map((found) => found.id)).toEqual(['order_12', 'order_11', 'order_10'])
+    expect(await backend.orders.count({ statuses: ['paid'] })).toBe(1)
+  })
+})
@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { format } from 'date-fns'
+import { Download, Search } from 'lucide-react'
+import { Button } from '../../components/ui/button'
+import { Checkbox } from '../../components/ui/checkbox'
+import { Input } from '../../components/ui/input'
+import { Label } from '../../components/ui/label'
+import { ToggleGroup, ToggleGroupItem } from '../../components/ui/toggle-group'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '../../components/ui/table'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '../../components/ui/pagination'
+import { AdminOrderDrawer } from '../../components/admin/AdminOrderDrawer'
+import { OrderStatusBadge } from '../../components/orders/OrderStatusBadge'
+import { useToast } from '../../hooks/use-toast'
+import { downloadTextFile } from '../../lib/download'
+import { pageWindow } from '../../lib/pagination'
+import { ORDER_STATUSES, orderStatusLabels, type Order, type OrderStatus } from '../../domain'
+import { useData, type OrderQuery } from '../../data'
+import { exportOrdersCsv } from '../../services/orderExport'
+import { expireUnpaidOrders } from '../../services/orderLifecycle'
+
+const PAGE_SIZE = 20
+
+// Date inputs give local calendar days; the query needs instants
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined)
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined)
+
+export function AdminOrdersPage() {
+  const data = useData()
+  const { toast } = useToast()
+  const [orders, setOrders] = useState<Order[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [statuses, setStatuses] = useState<OrderStatus[]>([])
+  const [fromDay, setFromDay] = useState('')
+  const [toDay, setToDay] = useState('')
+  const [customer, setCustomer] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [openOrderId, setOpenOrderId] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [expiryChecked, setExpiryChecked] = useState(false)
+
+  const filters = useMemo<OrderQuery>(() => ({
+    statuses,
+    createdFrom: startOfDay(fromDay),
+    createdTo: endOfDay(toDay),
+    customer
+  }), [statuses, fromDay, toDay, customer])
+
+  const loadOrders = useCallback(async () => {
+    try {
+      const [pageOrders, matching] = await Promise.all([
+        data.orders.list({ ...filters, limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE }),
+        data.orders.count(filters)
+      ])
+      setOrders(pageOrders)
+      setTotal(matching)
+    } catch (error) {
+      console.error('Failed to load orders:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load orders.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [data, filters, page, toast])
+
+  // Orders left unpaid too long are cancelled once, when the page opens,
+  // before staff see them
+  useEffect(() => {
+    expireUnpaidOrders(data)
+      .catch((error) => {
+        console.error('Failed to expire unpaid orders:', error)
+      })
+      .finally(() => setExpiryChecked(true))
+  }, [data])
+
+  useEffect(() => {
+    if (!expiryChecked) return
+    // Typing in the customer filter should not query on every keystroke
+    const timeoutId = setTimeout(() => {
+      loadOrders()
+    }, 300)
+    return () => clearTimeout(timeoutId)
+  }, [expiryChecked, loadOrders])
+
+  // New filters start from the first page with nothing selected
+  useEffect(() => {
+    setPage(1)
+    setSelected(new Set())
+  }, [filters])
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const allSelected = orders.length > 0 && orders.every((order) => selected.has(order.id))
+
+  const toggleSelected = (orderId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(orderId)
+      } else {
+        next.delete(orderId)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      orders.forEach((order) => (checked ? next.add(order.id) : next.delete(order.id)))
+      return next
+    })
+  }
+
+  // Exports the selected orders, or every order matching the filters when
+  // nothing is selected
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const matching = await data.orders.list(filters)
+      const toExport = selected.size > 0 ? matching.filter((order) => selected.has(order.id)) : matching
+      const csv = await exportOrdersCsv(data, toExport)
+      downloadTextFile(`orders-${format(new Date(), 'yyyy-MM-dd')}.csv`, csv)
+      toast({
+        title: "Export ready",
+        description: `${toExport.length} order${toExport.length !== 1 ? 's' : ''} exported.`
+      })
+    } catch (error) {
+      console.error('Failed to export orders:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export orders.",
+        variant: "destructive"
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const goToPage = (next: number) => (event: React.MouseEvent) => {
+    event.preventDefault()
+    if (next >= 1 && next <= pageCount) setPage(next)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Orders</h1>
+        <Button variant="outline" onClick={handleExport} disabled={exporting || total === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          {selected.size > 0 ? `Export ${selected.size} selected` : 'Export CSV'}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm p-4 mb-4 space-y-4">
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={statuses}
+          onValueChange={(value) => setStatuses(value as OrderStatus[])}
+          className="flex-wrap justify-start"
+          aria-label="Filter by status"
+        >
+          {ORDER_STATUSES.map((status) => (
+            <ToggleGroupItem key={status} value={status}>
+              {orderStatusLabels[status]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="relative">
+            <Label htmlFor="order-customer" className="sr-only">Customer</Label>
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              id="order-customer"
+              placeholder="Customer email..."
+              value={customer}
+              onChange={(e) => setCustomer(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="order-from" className="whitespace-nowrap">From</Label>
+            <Input id="order-from" type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="order-to" className="whitespace-nowrap">To</Label>
+            <Input id="order-to" type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  aria-label="Select all orders on this page"
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                />
+              </TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Placed</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              [...Array(5)].map((_, i) => (
+                <TableRow key={i} className="animate-pulse">
+                  <TableCell colSpan={6}>
+                    <div className="h-4 bg-gray-300 rounded"></div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : orders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                  No orders found
+                </TableCell>
+              </TableRow>
+            ) : (
+              orders.map((order) => (
+                <TableRow key={order.id} data-state={selected.has(order.id) ? 'selected' : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      aria-label={`Select order ${order.id}`}
+                      checked={selected.has(order.id)}
+                      onCheckedChange={(checked) => toggleSelected(order.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <button
+                      type="button"
+                      onClick={() => setOpenOrderId(order.id)}
+                      className="font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      #{order.id}
+                    </button>
+                  </TableCell>
+                  <TableCell>{order.createdAt ? format(new Date(order.createdAt), 'PP') : '—'}</TableCell>
+                  <TableCell>{order.customerEmail ?? order.userId}</TableCell>
+                  <TableCell>
+                    <OrderStatusBadge status={order.status} />
+                  </TableCell>
+                  <TableCell className="text-right">${order.totalAmount.toFixed(2)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mt-4">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goToPage(page - 1)} aria-disabled={page === 1} />
+            </PaginationItem>
+            {pageWindow(page, pageCount).map((item, index) => (
+              <PaginationItem key={index}>
+                {item === 'ellipsis' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={page === item} onClick={goToPage(item)}>
+                    {item}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goToPage(page + 1)} aria-disabled={page === pageCount} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      {!loading && total > 0 && (
+        <p className="mt-4 text-center text-sm text-gray-600">
+          {total} order{total !== 1 ? 's' : ''}
+        </p>
+      )}
+
+      <AdminOrderDrawer
+        orderId={openOrderId}
+        onClose={() => setOpenOrderId(null)}
+        onChanged={loadOrders}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,546 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { useFieldArray, useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { ArrowDown, ArrowLeft, ArrowUp, Trash2, Upload } from 'lucide-react'
+import { Button } from '../../components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card'
+import { Input } from '../../components/ui/input'
+import { Textarea } from '../../components/ui/textarea'
+import { CategorySelect } from '../../components/categories/CategorySelect'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '../../components/ui/form'
+import {
+  generateVariantRows,
+  parseOptionLines,
+  productFormSchema,
+  toProductDraft,
+  toProductFormValues,
+  toVariantDrafts,
+  type ProductFormValues
+} from '../../components/admin/productFormSchema'
+import { useCategories } from '../../hooks/use-categories'
+import { useToast } from '../../hooks/use-toast'
+import { useAppNavigate, useRouteParams } from '../../hooks/use-app-navigate'
+import { routes } from '../../lib/routes'
+import { findCategory, variantLabel } from '../../domain'
+import { useData } from '../../data'
+import { createProduct, saveVariants, updateProduct, uploadProductImage } from '../../services/catalogAdmin'
+
+// Serves both /admin/products/new and /admin/products/:productId/edit
+export function AdminProductFormPage() {
+  const { productId } = useRouteParams<'adminProductEdit'>()
+  const isEditing = productId !== undefined
+  const data = useData()
+  const navigate = useAppNavigate()
+  const { toast } = useToast()
+  const { categories } = useCategories()
+  const [loading, setLoading] = useState(isEditing)
+  const [notFound, setNotFound] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  // Whether the product had variants when loaded, so removing every option
+  // still clears them on save
+  const [hadVariants, setHadVariants] = useState(false)
+
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: toProductFormValues()
+  })
+  const { reset, getValues } = form
+  const variantRows = useFieldArray({ control: form.control, name: 'variants', keyName: 'key' })
+  const galleryRows = useFieldArray({ control: form.control, name: 'gallery', keyName: 'key' })
+  const { replace: replaceVariantRows } = variantRows
+  const optionsText = form.watch('options')
+
+  // The variant rows follow the options: one per combination of values
+  useEffect(() => {
+    if (loading) return
+    replaceVariantRows(generateVariantRows(parseOptionLines(optionsText), getValues('variants')))
+  }, [optionsText, loading, getValues, replaceVariantRows])
+
+  useEffect(() => {
+    if (!productId) return
+    const loadProduct = async () => {
+      try {
+        const [product, variants] = await Promise.all([
+          data.products.get(productId),
+          data.variants.listByProduct(productId)
+        ])
+        if (product) {
+          reset(toProductFormValues(product, variants))
+          setHadVariants(variants.length > 0)
+        } else {
+          setNotFound(true)
+        }
+      } catch (error) {
+        console.error('Failed to load product:', error)
+        toast({
+          title: "Error",
+          description: "Failed to load product.",
+          variant: "destructive"
+        })
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadProduct()
+  }, [productId, data, reset, toast])
+
+  // The cover and gallery share one upload flow; `onUploaded` places the URL
+  const handleImageChange = (onUploaded: (url: string) => void) => async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setUploading(true)
+    try {
+      onUploaded(await uploadProductImage(data, file))
+    } catch (error) {
+      console.error('Failed to upload image:', error)
+      toast({
+        title: "Error",
+        description: "Failed to upload image.",
+        variant: "destructive"
+      })
+    } finally {
+      setUploading(false)
+      event.target.value = ''
+    }
+  }
+
+  const onSubmit = async (values: ProductFormValues) => {
+    const draft = toProductDraft(values)
+    const variants = toVariantDrafts(values)
+    try {
+      if (productId) {
+        // Stock is only changed through adjustments so concurrent checkouts are not overwritten
+        const { stockQuantity: _stock, ...changes } = draft
+        await updateProduct(data, productId, changes)
+        if (variants.length > 0 || hadVariants) {
+          await saveVariants(data, productId, variants)
+        }
+        toast({ title: "Product saved", description: `${values.name} has been updated.` })
+      } else {
+        const product = await createProduct(data, draft)
+        if (variants.length > 0) {
+          await saveVariants(data, product.id, variants)
+        }
+        toast({ title: "Product created", description: `${values.name} is now in the catalog.` })
+      }
+      navigate('adminProducts')
+    } catch (error) {
+      console.error('Failed to save product:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save product.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-8 bg-gray-300 rounded w-1/3"></div>
+        <div className="h-96 bg-gray-300 rounded"></div>
+      </div>
+    )
+  }
+
+  if (notFound) {
+    return (
+      <div className="text-center py-16">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">Product not found</h1>
+        <Button asChild variant="outline">
+          <Link to={routes.adminProducts()}>Back to Products</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const imageUrl = form.watch('imageUrl')
+  const hasVariantRows = variantRows.fields.length > 0
+
+  return (
+    <div className="max-w-3xl">
+      <Button asChild variant="ghost" className="mb-4">
+        <Link to={routes.adminProducts()}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Products
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{isEditing ? 'Edit Product' : 'New Product'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={4} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <FormControl>
+                        <CategorySelect
+                          categories={categories}
+                          // Older products may still hold a category name
+                          value={findCategory(categories, field.value)?.slug ?? field.value}
+                          onValueChange={field.onChange}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price ($)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="stockQuantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{isEditing ? 'Stock' : 'Initial stock'}</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} disabled={isEditing || hasVariantRows} />
+                      </FormControl>
+                      {hasVariantRows ? (
+                        <FormDescription>The total over the variants.</FormDescription>
+                      ) : (
+                        isEditing && <FormDescription>Use "Adjust stock" on the products list.</FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="brand"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Brand</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="attributes"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Attributes</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} placeholder={'Colour: Black\nMaterial: Cotton'} {...field} />
+                      </FormControl>
+                      <FormDescription>One per line. Shoppers can filter by these.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="options"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Options</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder={'Size: S, M, L\nColour: Black, White'} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      One per line with comma separated values. Each combination becomes a variant.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {hasVariantRows && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium">Variants</h3>
+                  {variantRows.fields.map((row, index) => (
+                    <div key={row.key} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-start border-b pb-3">
+                      <p className="col-span-2 md:col-span-1 text-sm text-gray-700 pt-2">{variantLabel(row)}</p>
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.sku`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="SKU" aria-label={`SKU for ${variantLabel(row)}`} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.price`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                inputMode="decimal"
+                                placeholder="Product price"
+                                aria-label={`Price for ${variantLabel(row)}`}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.stockQuantity`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                inputMode="numeric"
+                                aria-label={`Stock for ${variantLabel(row)}`}
+                                {...field}
+                                // Saved variants change stock through adjustments
+                                disabled={row.id !== ''}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.imageUrl`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                placeholder="Image URL"
+                                aria-label={`Image for ${variantLabel(row)}`}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  ))}
+                  <p className="text-sm text-muted-foreground">
+                    Leave the price blank to use the product price. Stock for saved variants changes through
+                    "Adjust stock" on the products list.
+                  </p>
+                </div>
+              )}
+              <FormField
+                control={form.control}
+                name="imageUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Image URL</FormLabel>
+                    <div className="flex items-start gap-4">
+                      <div className="w-24 h-24 rounded bg-gray-100 overflow-hidden flex-shrink-0">
+                        {imageUrl && (
+                          <img src={imageUrl} alt="Product preview" className="w-full h-full object-cover" />
+                        )}
+                      </div>
+                      <div className="flex-1 space-y-2">
+                        <FormControl>
+                          <Input placeholder="https://..." {...field} />
+                        </FormControl>
+                        <Button type="button" variant="outline" size="sm" asChild disabled={uploading}>
+                          <label className="cursor-pointer">
+                            <Upload className="h-4 w-4 mr-2" />
+                            {uploading ? 'Uploading...' : 'Upload image'}
+                            <input
+                              type="file"
+                              accept="image/*"
+                              className="sr-only"
+                              aria-label="Upload image"
+                              onChange={handleImageChange((url) =>
+                                form.setValue('imageUrl', url, { shouldDirty: true, shouldValidate: true })
+                              )}
+                              disabled={uploading}
+                            />
+                          </label>
+                        </Button>
+                      </div>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="imageAlt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Image description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="What the picture shows" {...field} />
+                    </FormControl>
+                    <FormDescription>Read out by screen readers. Blank uses the product name.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium">More images</h3>
+                {galleryRows.fields.map((row, index) => (
+                  <div key={row.key} className="flex items-start gap-3">
+                    <div className="w-16 h-16 rounded bg-gray-100 overflow-hidden flex-shrink-0">
+                      {form.watch(`gallery.${index}.url`) && (
+                        <img
+                          src={form.watch(`gallery.${index}.url`)}
+                          alt={`Image ${index + 2} preview`}
+                          className="w-full h-full object-cover"
+                        />
+                      )}
+                    </div>
+                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`gallery.${index}.url`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="https://..." aria-label={`Image ${index + 2} URL`} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`gallery.${index}.alt`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                placeholder="What the picture shows"
+                                aria-label={`Image ${index + 2} description`}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="flex">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Move image ${index + 2} up`}
+                        disabled={index === 0}
+                        onClick={() => galleryRows.move(index, index - 1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Move image ${index + 2} down`}
+                        disabled={index === galleryRows.fields.length - 1}
+                        onClick={() => galleryRows.move(index, index + 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove image ${index + 2}`}
+                        onClick={() => galleryRows.remove(index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => galleryRows.append({ url: '', alt: '' })}>
+                    Add image URL
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" asChild disabled={uploading}>
+                    <label className="cursor-pointer">
+                      <Upload className="h-4 w-4 mr-2" />
+                      {uploading ? 'Uploading...' : 'Upload more'}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        className="sr-only"
+                        aria-label="Upload gallery image"
+                        onChange={handleImageChange((url) => galleryRows.append({ url, alt: '' }))}
+                        disabled={uploading}
+                      />
+                    </label>
+                  </Button>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => navigate('adminProducts')}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting || uploading}>
+                  {form.formState.isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Product'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
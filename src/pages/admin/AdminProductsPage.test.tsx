@@ -0,0 +1,93 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createBlinkBackend, createMemoryBackend, fixtureProducts, fixtureUser } from '../../data'
+import type { User } from '../../domain'
+import { createFakeBlink } from '../../test/fakeBlink'
+import { renderApp } from '../../test/renderApp'
+
+const adminUser: User = { ...fixtureUser, role: 'admin' }
+
+describe('admin product console', () => {
+  it('is not reachable for shoppers', async () => {
+    renderApp(createMemoryBackend({ storage: null, user: fixtureUser }), '/admin/products')
+
+    expect(await screen.findByText('Page not found')).toBeInTheDocument()
+  })
+
+  it('grants admin access from the Blink userRoles table', async () => {
+    const user = userEvent.setup()
+    const fake = createFakeBlink({
+      user: fixtureUser,
+      tables: {
+        products: fixtureProducts,
+        userRoles: [{ id: 'role_1', userId: fixtureUser.id, role: 'admin' }]
+      }
+    })
+    renderApp(createBlinkBackend(fake.client))
+
+    await user.click(await screen.findByRole('button', { name: new RegExp(fixtureUser.email) }))
+    await user.click(await screen.findByRole('menuitem', { name: 'Admin' }))
+
+    expect(await screen.findByRole('heading', { name: 'Products' })).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Wireless Headphones' })).toBeInTheDocument()
+  })
+
+  it('archives the selected products and hides them from the storefront', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: adminUser })
+    renderApp(backend, '/admin/products')
+
+    await user.click(await screen.findByRole('checkbox', { name: 'Select Garden Tool Set' }))
+    await user.click(screen.getByRole('checkbox', { name: 'Select Ceramic Planter' }))
+    await user.click(screen.getByRole('button', { name: 'Archive' }))
+
+    await waitFor(() => expect(screen.queryByRole('link', { name: 'Ceramic Planter' })).not.toBeInTheDocument())
+    const storefront = await backend.products.list({ categories: ['home-garden'] })
+    expect(storefront).toEqual([])
+
+    await user.click(screen.getByRole('switch', { name: 'Show archived' }))
+    const row = screen.getByRole('link', { name: 'Ceramic Planter' }).closest('tr') as HTMLElement
+    expect(within(row).getByText('Archived')).toBeInTheDocument()
+  })
+
+  it('adjusts stock relative to the current level', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: adminUser })
+    renderApp(backend, '/admin/products')
+
+    await user.click(await screen.findByRole('button', { name: 'Actions for Fitness Smartwatch' }))
+    await user.click(await screen.findByRole('menuitem', { name: 'Adjust stock' }))
+    await user.type(await screen.findByLabelText('Change'), '12')
+    expect(screen.getByText('New stock level: 15')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Apply' }))
+
+    await waitFor(async () => expect((await backend.products.get('prod_smartwatch'))?.stockQuantity).toBe(15))
+  })
+
+  it('validates and creates a product with an uploaded image', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: adminUser })
+    renderApp(backend, '/admin/products/new')
+
+    await user.type(await screen.findByLabelText('Name'), 'Desk Lamp')
+    await user.click(screen.getByLabelText('Category'))
+    await user.click(await screen.findByRole('option', { name: 'Home & Garden' }))
+    await user.type(screen.getByLabelText('Price ($)'), '12.345')
+    await user.click(screen.getByRole('button', { name: 'Create Product' }))
+    expect(await screen.findByText('Enter a price like 19.99')).toBeInTheDocument()
+
+    await user.clear(screen.getByLabelText('Price ($)'))
+    await user.type(screen.getByLabelText('Price ($)'), '45')
+    await user.upload(
+      screen.getByLabelText('Upload image'),
+      new File(['lamp'], 'lamp.png', { type: 'image/png' })
+    )
+    await waitFor(() => expect(screen.getByAltText('Product preview')).toHaveAttribute('src', expect.stringMatching(/^data:image\/png/)))
+    await user.click(screen.getByRole('button', { name: 'Create Product' }))
+
+    expect(await screen.findByRole('link', { name: 'Desk Lamp' })).toBeInTheDocument()
+    const [created] = (await backend.products.list()).filter((product) => product.name === 'Desk Lamp')
+    expect(created).toMatchObject({ category: 'home-garden', price: 45, stockQuantity: 0 })
+  })
+})
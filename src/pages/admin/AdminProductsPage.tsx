@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { Archive, ArchiveRestore, Boxes, MoreHorizontal, Pencil, Plus, Search } from 'lucide-react'
+import { Button } from '../../components/ui/button'
+import { Badge } from '../../components/ui/badge'
+import { Checkbox } from '../../components/ui/checkbox'
+import { Input } from '../../components/ui/input'
+import { Label } from '../../components/ui/label'
+import { Switch } from '../../components/ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '../../components/ui/table'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '../../components/ui/dropdown-menu'
+import { BulkEditDialog } from '../../components/admin/BulkEditDialog'
+import { StockAdjustDialog } from '../../components/admin/StockAdjustDialog'
+import { useCategories } from '../../hooks/use-categories'
+import { useToast } from '../../hooks/use-toast'
+import { useAppNavigate } from '../../hooks/use-app-navigate'
+import { routes } from '../../lib/routes'
+import { isArchived, type Product } from '../../domain'
+import { useData } from '../../data'
+import { setProductsArchived } from '../../services/catalogAdmin'
+
+export function AdminProductsPage() {
+  const data = useData()
+  const navigate = useAppNavigate()
+  const { toast } = useToast()
+  const { categoryName } = useCategories()
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showArchived, setShowArchived] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [stockProduct, setStockProduct] = useState<Product | null>(null)
+  const [bulkEditOpen, setBulkEditOpen] = useState(false)
+
+  const loadProducts = useCallback(async () => {
+    try {
+      const allProducts = await data.products.list({
+        includeArchived: true,
+        orderBy: { field: 'name', direction: 'asc' }
+      })
+      setProducts(allProducts)
+    } catch (error) {
+      console.error('Failed to load products:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load products.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [data, toast])
+
+  useEffect(() => {
+    loadProducts()
+  }, [loadProducts])
+
+  const visibleProducts = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    return products.filter((product) =>
+      (showArchived || !isArchived(product)) &&
+      (!term || product.name.toLowerCase().includes(term) || categoryName(product.category).toLowerCase().includes(term))
+    )
+  }, [products, searchTerm, showArchived, categoryName])
+
+  // Selection only ever refers to rows the admin can currently see
+  const selectedIds = visibleProducts.filter((product) => selected.has(product.id)).map((product) => product.id)
+  const allSelected = visibleProducts.length > 0 && selectedIds.length === visibleProducts.length
+
+  const toggleSelected = (productId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(productId)
+      } else {
+        next.delete(productId)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(visibleProducts.map((product) => product.id)) : new Set())
+  }
+
+  const handleArchive = async (productIds: string[], archived: boolean) => {
+    const result = await setProductsArchived(data, productIds, archived)
+    result.failed.forEach(({ productId, error }) => console.error(`Failed to update ${productId}:`, error))
+    const verb = archived ? 'archived' : 'restored'
+    toast({
+      title: result.failed.length > 0 ? "Some products were not updated" : `Products ${verb}`,
+      description: `${result.updated.length} ${verb}${result.failed.length > 0 ? `, ${result.failed.length} failed` : ''}.`,
+      variant: result.failed.length > 0 ? "destructive" : undefined
+    })
+    setSelected(new Set())
+    await loadProducts()
+  }
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-8 bg-gray-300 rounded w-1/4"></div>
+        <div className="h-64 bg-gray-300 rounded"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Products</h1>
+        <Button asChild>
+          <Link to={routes.adminProductNew()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Product
+          </Link>
+        </Button>
+      </div>
+
+      {/* Filters and bulk actions */}
+      <div className="bg-white rounded-lg shadow-sm p-4 mb-4 flex flex-col md:flex-row md:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            placeholder="Search by name or category..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+          <Label htmlFor="show-archived">Show archived</Label>
+        </div>
+        {selectedIds.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">{selectedIds.length} selected</span>
+            <Button variant="outline" size="sm" onClick={() => setBulkEditOpen(true)}>
+              Edit
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleArchive(selectedIds, true)}>
+              Archive
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleArchive(selectedIds, false)}>
+              Restore
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  aria-label="Select all products"
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                />
+              </TableHead>
+              <TableHead>Product</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Stock</TableHead>
+              <TableHead className="w-10"><span className="sr-only">Actions</span></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleProducts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                  No products found
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleProducts.map((product) => (
+                <TableRow key={product.id} data-state={selected.has(product.id) ? 'selected' : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      aria-label={`Select ${product.name}`}
+                      checked={selected.has(product.id)}
+                      onCheckedChange={(checked) => toggleSelected(product.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <img
+                        src={product.imageUrl}
+                        alt=""
+                        className="w-10 h-10 object-cover rounded bg-gray-100"
+                      />
+                      <Link
+                        to={routes.adminProductEdit(product.id)}
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {product.name}
+                      </Link>
+                      {isArchived(product) && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{categoryName(product.category)}</TableCell>
+                  <TableCell className="text-right">${product.price.toFixed(2)}</TableCell>
+                  <TableCell className={`text-right ${product.stockQuantity === 0 ? 'text-red-600' : ''}`}>
+                    {product.stockQuantity}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" aria-label={`Actions for ${product.name}`}>
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onSelect={() => navigate('adminProductEdit', product.id)}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => setStockProduct(product)}>
+                          <Boxes className="h-4 w-4 mr-2" />
+                          Adjust stock
+                        </DropdownMenuItem>
+                        {isArchived(product) ? (
+                          <DropdownMenuItem onSelect={() => handleArchive([product.id], false)}>
+                            <ArchiveRestore className="h-4 w-4 mr-2" />
+                            Restore
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem onSelect={() => handleArchive([product.id], true)}>
+                            <Archive className="h-4 w-4 mr-2" />
+                            Archive
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <StockAdjustDialog
+        product={stockProduct}
+        onClose={() => setStockProduct(null)}
+        onAdjusted={loadProducts}
+      />
+      <BulkEditDialog
+        open={bulkEditOpen}
+        productIds={selectedIds}
+        onOpenChange={setBulkEditOpen}
+        onApplied={loadProducts}
+      />
+    </div>
+  )
+}
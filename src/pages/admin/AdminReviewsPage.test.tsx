@@ -0,0 +1,32 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser, type MemorySeed } from '../../data'
+import type { User } from '../../domain'
+import { renderApp } from '../../test/renderApp'
+
+const adminUser: User = { ...fixtureUser, id: 'user_admin', role: 'admin' }
+
+const reviews: MemorySeed['reviews'] = [
+  { id: 'review_1', productId: 'prod_football', userId: 'user_a', authorName: 'Ana', rating: 1, body: 'Spam spam spam.', createdAt: '2024-05-02T10:00:00.000Z' },
+  { id: 'review_2', productId: 'prod_football', userId: 'user_b', authorName: 'Ben', rating: 5, body: 'Great ball.', createdAt: '2024-05-01T10:00:00.000Z' }
+]
+
+describe('admin reviews', () => {
+  it('hides a review from the storefront and its rating', async () => {
+    const user = userEvent.setup()
+    const backend = createMemoryBackend({ storage: null, user: adminUser, seed: { reviews } })
+    await backend.products.update('prod_football', { ratingAverage: 3, ratingCount: 2 })
+    renderApp(backend, '/admin/reviews')
+
+    await user.click(await screen.findByRole('button', { name: 'Actions for review by Ana' }))
+    await user.click(await screen.findByRole('menuitem', { name: 'Hide' }))
+
+    await waitFor(async () => expect((await backend.reviews.get('review_1'))?.status).toBe('hidden'))
+    expect(await backend.products.get('prod_football')).toMatchObject({ ratingAverage: 5, ratingCount: 1 })
+
+    await user.click(screen.getByRole('radio', { name: 'Hidden' }))
+    await waitFor(() => expect(screen.queryByText('Great ball.')).not.toBeInTheDocument())
+    expect(within(screen.getAllByRole('row')[1]).getByText('Spam spam spam.')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,295 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { Eye, EyeOff, MoreHorizontal, Trash2 } from 'lucide-react'
+import { Badge } from '../../components/ui/badge'
+import { Button } from '../../components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '../../components/ui/table'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '../../components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '../../components/ui/alert-dialog'
+import { ToggleGroup, ToggleGroupItem } from '../../components/ui/toggle-group'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '../../components/ui/pagination'
+import { StarRating } from '../../components/reviews/StarRating'
+import { useToast } from '../../hooks/use-toast'
+import { pageWindow } from '../../lib/pagination'
+import { routes } from '../../lib/routes'
+import type { Product, Review, ReviewStatus } from '../../domain'
+import { useData, type ReviewQuery } from '../../data'
+import { deleteReview, setReviewStatus } from '../../services/reviews'
+
+const PAGE_SIZE = 20
+
+type StatusFilter = ReviewStatus | 'all'
+
+const statusFilters: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'published', label: 'Published' },
+  { value: 'hidden', label: 'Hidden' }
+]
+
+export function AdminReviewsPage() {
+  const data = useData()
+  const { toast } = useToast()
+  const [reviews, setReviews] = useState<Review[]>([])
+  // Products named in the current page of reviews, keyed by id
+  const [products, setProducts] = useState<Map<string, Product>>(new Map())
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [status, setStatus] = useState<StatusFilter>('all')
+  const [deleting, setDeleting] = useState<Review | null>(null)
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const filter: ReviewQuery = status === 'all' ? {} : { statuses: [status] }
+      const [pageReviews, matching] = await Promise.all([
+        data.reviews.list({ ...filter, limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE }),
+        data.reviews.count(filter)
+      ])
+      const productIds = [...new Set(pageReviews.map((review) => review.productId))]
+      const found = await Promise.all(productIds.map((productId) => data.products.get(productId)))
+      setReviews(pageReviews)
+      setTotal(matching)
+      setProducts(new Map(found.filter((product): product is Product => product !== null).map((product) => [product.id, product])))
+    } catch (error) {
+      console.error('Failed to load reviews:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load reviews.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [data, status, page, toast])
+
+  useEffect(() => {
+    loadReviews()
+  }, [loadReviews])
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  const goToPage = (next: number) => (event: React.MouseEvent) => {
+    event.preventDefault()
+    if (next >= 1 && next <= pageCount) setPage(next)
+  }
+
+  const handleStatusChange = async (review: Review, next: ReviewStatus) => {
+    try {
+      await setReviewStatus(data, review.id, next)
+      toast({
+        title: next === 'hidden' ? "Review hidden" : "Review published",
+        description: next === 'hidden'
+          ? "It no longer shows on the product page or counts towards the rating."
+          : "It shows on the product page again."
+      })
+      loadReviews()
+    } catch (error) {
+      console.error('Failed to moderate review:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update review.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    try {
+      await deleteReview(data, deleting.id)
+      toast({ title: "Review deleted", description: "The review has been removed." })
+      loadReviews()
+    } catch (error) {
+      console.error('Failed to delete review:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete review.",
+        variant: "destructive"
+      })
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Reviews</h1>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={status}
+          onValueChange={(value) => {
+            if (!value) return
+            setStatus(value as StatusFilter)
+            setPage(1)
+          }}
+          aria-label="Filter by status"
+        >
+          {statusFilters.map((filter) => (
+            <ToggleGroupItem key={filter.value} value={filter.value}>
+              {filter.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Rating</TableHead>
+              <TableHead>Review</TableHead>
+              <TableHead>Author</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-10"><span className="sr-only">Actions</span></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              [...Array(5)].map((_, i) => (
+                <TableRow key={i} className="animate-pulse">
+                  <TableCell colSpan={6}>
+                    <div className="h-6 bg-gray-200 rounded" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : reviews.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                  No reviews to show.
+                </TableCell>
+              </TableRow>
+            ) : (
+              reviews.map((review) => (
+                <TableRow key={review.id}>
+                  <TableCell className="font-medium">
+                    <Link to={routes.productDetail(review.productId)} className="hover:underline">
+                      {products.get(review.productId)?.name ?? review.productId}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <StarRating rating={review.rating} />
+                  </TableCell>
+                  <TableCell className="max-w-md">
+                    {review.title && <p className="font-medium">{review.title}</p>}
+                    <p className="text-sm text-gray-600 line-clamp-2">{review.body}</p>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {review.authorName || review.userId}
+                    {review.createdAt && (
+                      <span className="block text-xs text-gray-400">
+                        {new Date(review.createdAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={review.status === 'hidden' ? 'secondary' : 'outline'}>
+                      {review.status === 'hidden' ? 'Hidden' : 'Published'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" aria-label={`Actions for review by ${review.authorName || review.userId}`}>
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {review.status === 'hidden' ? (
+                          <DropdownMenuItem onSelect={() => handleStatusChange(review, 'published')}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            Publish
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem onSelect={() => handleStatusChange(review, 'hidden')}>
+                            <EyeOff className="h-4 w-4 mr-2" />
+                            Hide
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem className="text-red-600" onSelect={() => setDeleting(review)}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mt-4">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goToPage(page - 1)} aria-disabled={page === 1} />
+            </PaginationItem>
+            {pageWindow(page, pageCount).map((item, index) => (
+              <PaginationItem key={index}>
+                {item === 'ellipsis' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={page === item} onClick={goToPage(item)}>
+                    {item}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goToPage(page + 1)} aria-disabled={page === pageCount} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this review?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The review and its helpful votes are removed for good. Hide it instead to keep a record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
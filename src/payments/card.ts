@@ -0,0 +1,52 @@
+import { z } from 'zod'
+import type { CardDetails, PaymentProvider } from './types'
+
+// Card details as typed into the checkout
+export interface CardForm {
+  number: string
+  // MM/YY
+  expiry: string
+  cvc: string
+}
+
+export const emptyCardForm = (): CardForm => ({ number: '', expiry: '', cvc: '' })
+
+// Only the shape is checked here; whether the card is real, current and
+// good for the money is the provider's call
+const cardFormSchema = z.object({
+  number: z.string().transform((value) => value.replace(/[\s-]/g, '')).pipe(
+    z.string().regex(/^\d{12,19}$/, 'Card number should be 12 to 19 digits')
+  ),
+  expiry: z.string().trim().regex(/^(0[1-9]|1[0-2]) ?\/ ?\d{2}$/, 'Expiry should look like MM/YY'),
+  cvc: z.string().trim().regex(/^\d{3,4}$/, 'Security code should be 3 or 4 digits')
+})
+
+export type CardFormErrors = Partial<Record<keyof CardForm, string>>
+
+export function parseCardForm(form: CardForm): { card: CardDetails } | { errors: CardFormErrors } {
+  const result = cardFormSchema.safeParse(form)
+  if (!result.success) {
+    const errors: CardFormErrors = {}
+    for (const issue of result.error.issues) {
+      errors[issue.path[0] as keyof CardForm] ??= issue.message
+    }
+    return { errors }
+  }
+  const { number, expiry, cvc } = result.data
+  const [month, year] = expiry.split('/').map((part) => Number(part.trim()))
+  return { card: { number, expMonth: month, expYear: 2000 + year, cvc } }
+}
+
+// The card to pay with, read from the form unless the provider has its own
+// card field, in which case the card never passes through the store
+export function readCardForm(
+  provider: PaymentProvider,
+  form: CardForm
+): { card?: CardDetails } | { errors: CardFormErrors } {
+  return provider.mountCardField ? {} : parseCardForm(form)
+}
+
+// 4242424242424242 → 4242 4242 4242 4242, as the shopper types
+export function formatCardNumber(value: string) {
+  return value.replace(/\D/g, '').slice(0, 19).replace(/(\d{4})(?=\d)/g, '$1 ')
+}
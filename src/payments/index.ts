@@ -0,0 +1,39 @@
+import { defaultStorage } from '../data/memoryTable'
+import { createMockGateway } from './mockGateway'
+import { createStripeProvider } from './stripeProvider'
+import type { PaymentProvider } from './types'
+
+export * from './types'
+export * from './webhook'
+export * from './stripeProvider'
+export * from './mockGateway'
+export * from './unconfigured'
+
+export interface PaymentEnv {
+  VITE_PAYMENT_PROVIDER?: string
+  VITE_STRIPE_API_URL?: string
+  VITE_STRIPE_PUBLISHABLE_KEY?: string
+}
+
+export interface PaymentProviderContext {
+  // The signed-in user's access token, for the store's payment server
+  getAuthToken?: () => Promise<string | null>
+}
+
+// Stripe when it is asked for and has its keys and server, or the mock
+// gateway when asked for by name. Otherwise undefined, leaving each backend
+// to its default: the mock gateway offline, no payments on Blink.
+export function resolvePaymentProvider(env: PaymentEnv, context: PaymentProviderContext = {}): PaymentProvider | undefined {
+  if (env.VITE_PAYMENT_PROVIDER === 'mock') return createMockGateway({ storage: defaultStorage() })
+  if (env.VITE_PAYMENT_PROVIDER !== 'stripe') return undefined
+  if (!env.VITE_STRIPE_API_URL || !env.VITE_STRIPE_PUBLISHABLE_KEY) {
+    console.warn('VITE_PAYMENT_PROVIDER is stripe but VITE_STRIPE_API_URL or VITE_STRIPE_PUBLISHABLE_KEY is not set; payments stay off')
+    return undefined
+  }
+  return createStripeProvider({
+    apiUrl: env.VITE_STRIPE_API_URL,
+    publishableKey: env.VITE_STRIPE_PUBLISHABLE_KEY,
+    getAuthToken: context.getAuthToken
+  })
+}
+export * from './card'
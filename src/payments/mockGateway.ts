@@ -0,0 +1,179 @@
+import { MemoryTable } from '../data/memoryTable'
+import { createId } from '../lib/ids'
+import { decodeStripeEvent } from './stripeProvider'
+import { PaymentProviderError, type PaymentIntent, type PaymentProvider, type PaymentRefund } from './types'
+import { verifyWebhookSignature } from './webhook'
+
+// Card numbers with scripted outcomes, borrowed from Stripe's test cards so
+// the same numbers work against Stripe in test mode. Any other number that
+// passes the Luhn check is approved.
+export const MOCK_TEST_CARDS = {
+  success: '4242424242424242',
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+  threeDSecure: '4000002760003184',
+  // Authorizes, but the response never arrives
+  networkFailure: '4000000000000119'
+} as const
+
+export const MOCK_WEBHOOK_SECRET = 'whsec_mock'
+
+export interface MockGatewayOptions {
+  // Where intents are kept between reloads; by default they live in memory only
+  storage?: Storage | null
+  webhookSecret?: string
+}
+
+interface MockIntentRow extends PaymentIntent {
+  idempotencyKey: string
+  refunds: (PaymentRefund & { idempotencyKey?: string })[]
+}
+
+// Amounts are summed in cents so refunds add up exactly
+const cents = (amount: number) => Math.round(amount * 100)
+
+function passesLuhn(number: string) {
+  let sum = 0
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return number.length >= 12 && sum % 10 === 0
+}
+
+// The intent without the gateway's own bookkeeping
+function toIntent(row: MockIntentRow): PaymentIntent {
+  const { id, amount, currency, status, amountCaptured, amountRefunded, cardLast4, nextAction, lastError, orderId } = row
+  return { id, amount, currency, status, amountCaptured, amountRefunded, cardLast4, nextAction, lastError, orderId }
+}
+
+const decline = (code: string, message: string): Partial<MockIntentRow> => ({
+  status: 'requires_payment_method',
+  lastError: { code, message },
+  nextAction: undefined
+})
+
+// A payment provider that never leaves the browser, for offline development
+// and tests. It follows Stripe's intent lifecycle closely enough that the
+// checkout cannot tell the two apart.
+export function createMockGateway(options: MockGatewayOptions = {}): PaymentProvider {
+  const intents = new MemoryTable<MockIntentRow>('mockPaymentIntents', options.storage ?? null)
+  const webhookSecret = options.webhookSecret ?? MOCK_WEBHOOK_SECRET
+
+  const find = (intentId: string) => {
+    const row = intents.get(intentId)
+    if (!row) throw new PaymentProviderError('invalid_request', `No such payment intent: ${intentId}`)
+    return row
+  }
+
+  const update = (intentId: string, changes: Partial<MockIntentRow>) => toIntent(intents.update(intentId, changes))
+
+  return {
+    name: 'mock',
+
+    async createIntent(input) {
+      const existing = intents.where((row) => row.idempotencyKey === input.idempotencyKey)[0]
+      if (existing) return toIntent(existing)
+      return toIntent(intents.insert({
+        id: createId('pi_mock'),
+        amount: input.amount,
+        currency: input.currency,
+        status: 'requires_payment_method',
+        amountCaptured: 0,
+        amountRefunded: 0,
+        orderId: input.orderId,
+        idempotencyKey: input.idempotencyKey,
+        refunds: []
+      }))
+    },
+
+    async confirm(intentId, card) {
+      const intent = find(intentId)
+      if (intent.status !== 'requires_payment_method' && intent.status !== 'requires_action') {
+        throw new PaymentProviderError('invalid_state', `Payment ${intentId} has already been confirmed.`)
+      }
+      if (!card) throw new PaymentProviderError('invalid_request', 'Enter the card details.')
+      const number = card.number.replace(/\D/g, '')
+      const cardLast4 = number.slice(-4)
+      const now = new Date()
+      const expired = card.expYear < now.getFullYear() ||
+        (card.expYear === now.getFullYear() && card.expMonth < now.getMonth() + 1)
+
+      if (!passesLuhn(number)) {
+        return update(intentId, { cardLast4, ...decline('incorrect_number', 'Your card number is incorrect.') })
+      }
+      if (expired) {
+        return update(intentId, { cardLast4, ...decline('expired_card', 'Your card has expired.') })
+      }
+      switch (number) {
+        case MOCK_TEST_CARDS.declined:
+          return update(intentId, { cardLast4, ...decline('card_declined', 'Your card was declined.') })
+        case MOCK_TEST_CARDS.insufficientFunds:
+          return update(intentId, { cardLast4, ...decline('insufficient_funds', 'Your card has insufficient funds.') })
+        case MOCK_TEST_CARDS.threeDSecure:
+          return update(intentId, {
+            cardLast4,
+            status: 'requires_action',
+            nextAction: { type: 'three_d_secure', url: `mock://3ds/${intentId}` },
+            lastError: undefined
+          })
+        case MOCK_TEST_CARDS.networkFailure:
+          update(intentId, { cardLast4, status: 'requires_capture', nextAction: undefined, lastError: undefined })
+          throw new PaymentProviderError('network', 'The connection to the payment provider was lost.')
+        default:
+          return update(intentId, { cardLast4, status: 'requires_capture', nextAction: undefined, lastError: undefined })
+      }
+    },
+
+    async retrieve(intentId) {
+      return toIntent(find(intentId))
+    },
+
+    async capture(intentId) {
+      const intent = find(intentId)
+      if (intent.status !== 'requires_capture') {
+        throw new PaymentProviderError('invalid_state', `Payment ${intentId} is not authorized, so it cannot be captured.`)
+      }
+      return update(intentId, { status: 'succeeded', amountCaptured: intent.amount })
+    },
+
+    async refund(intentId, amount, refundOptions = {}) {
+      const intent = find(intentId)
+      const repeated = intent.refunds.find((refund) =>
+        refundOptions.idempotencyKey && refund.idempotencyKey === refundOptions.idempotencyKey
+      )
+      if (repeated) return { id: repeated.id, intentId, amount: repeated.amount, status: repeated.status }
+      if (intent.status !== 'succeeded') {
+        throw new PaymentProviderError('invalid_state', `Payment ${intentId} has not been captured, so there is nothing to refund.`)
+      }
+      if (cents(amount) <= 0 || cents(amount) > cents(intent.amountCaptured) - cents(intent.amountRefunded)) {
+        throw new PaymentProviderError('invalid_request', 'The refund is more than is left to refund on this payment.')
+      }
+      const refund: PaymentRefund = { id: createId('re_mock'), intentId, amount, status: 'succeeded' }
+      update(intentId, {
+        amountRefunded: (cents(intent.amountRefunded) + cents(amount)) / 100,
+        refunds: [...intent.refunds, { ...refund, idempotencyKey: refundOptions.idempotencyKey }]
+      })
+      return refund
+    },
+
+    async parseWebhook(payload, signature) {
+      await verifyWebhookSignature(payload, signature, webhookSecret)
+      return decodeStripeEvent(payload)
+    },
+
+    async simulateChallenge(intentId, approve) {
+      const intent = find(intentId)
+      if (intent.status !== 'requires_action') {
+        throw new PaymentProviderError('invalid_state', `Payment ${intentId} is not waiting for the bank.`)
+      }
+      update(intentId, approve
+        ? { status: 'requires_capture', nextAction: undefined }
+        : decline('authentication_failed', 'Your bank could not confirm the payment.'))
+    }
+  }
+}
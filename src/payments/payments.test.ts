@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TEST_CARDS,
+  MOCK_WEBHOOK_SECRET,
+  PaymentProviderError,
+  createMockGateway,
+  createStripeProvider,
+  parseCardForm,
+  signWebhookPayload,
+  type CardDetails,
+  type StripeJs
+} from '.'
+
+const card = (number: string): CardDetails => ({ number, expMonth: 12, expYear: 2040, cvc: '123' })
+
+const intentInput = { orderId: 'order_1', amount: 34.5, currency: 'usd', idempotencyKey: 'order_order_1' }
+
+describe('mock gateway', () => {
+  it('authorizes, captures and refunds up to the captured amount', async () => {
+    const gateway = createMockGateway()
+    const intent = await gateway.createIntent(intentInput)
+    expect(await gateway.createIntent(intentInput)).toEqual(intent)
+
+    expect(await gateway.confirm(intent.id, card(MOCK_TEST_CARDS.success))).toMatchObject({ status: 'requires_capture', cardLast4: '4242' })
+    expect(await gateway.capture(intent.id)).toMatchObject({ status: 'succeeded', amountCaptured: 34.5 })
+
+    await gateway.refund(intent.id, 10.2)
+    await expect(gateway.refund(intent.id, 24.31)).rejects.toMatchObject({ code: 'invalid_request' })
+    await gateway.refund(intent.id, 24.3)
+    expect(await gateway.retrieve(intent.id)).toMatchObject({ amountRefunded: 34.5 })
+  })
+
+  it('declines the scripted cards and leaves the intent open for another', async () => {
+    const gateway = createMockGateway()
+    const intent = await gateway.createIntent(intentInput)
+
+    expect(await gateway.confirm(intent.id, card(MOCK_TEST_CARDS.declined))).toMatchObject({
+      status: 'requires_payment_method',
+      lastError: { code: 'card_declined', message: 'Your card was declined.' }
+    })
+    expect((await gateway.confirm(intent.id, card(MOCK_TEST_CARDS.insufficientFunds))).lastError?.code).toBe('insufficient_funds')
+    expect((await gateway.confirm(intent.id, { ...card(MOCK_TEST_CARDS.success), expYear: 2001 })).lastError?.code).toBe('expired_card')
+    expect((await gateway.confirm(intent.id, card('4242424242424241'))).lastError?.code).toBe('incorrect_number')
+    expect(await gateway.confirm(intent.id, card(MOCK_TEST_CARDS.success))).toMatchObject({ status: 'requires_capture', lastError: undefined })
+  })
+
+  it('asks for 3-D Secure and follows the simulated answer', async () => {
+    const gateway = createMockGateway()
+    const intent = await gateway.createIntent(intentInput)
+
+    const challenged = await gateway.confirm(intent.id, card(MOCK_TEST_CARDS.threeDSecure))
+    expect(challenged).toMatchObject({ status: 'requires_action', nextAction: { type: 'three_d_secure' } })
+
+    await gateway.simulateChallenge!(intent.id, false)
+    expect((await gateway.retrieve(intent.id)).lastError?.code).toBe('authentication_failed')
+
+    await gateway.confirm(intent.id, card(MOCK_TEST_CARDS.threeDSecure))
+    await gateway.simulateChallenge!(intent.id, true)
+    expect((await gateway.retrieve(intent.id)).status).toBe('requires_capture')
+  })
+
+  it('loses the response of a confirmation that went through', async () => {
+    const gateway = createMockGateway()
+    const intent = await gateway.createIntent(intentInput)
+
+    await expect(gateway.confirm(intent.id, card(MOCK_TEST_CARDS.networkFailure))).rejects.toMatchObject({ code: 'network' })
+    expect((await gateway.retrieve(intent.id)).status).toBe('requires_capture')
+  })
+})
+
+describe('stripe provider', () => {
+  const stripeIntent = {
+    id: 'pi_123',
+    object: 'payment_intent',
+    amount: 3450,
+    currency: 'usd',
+    status: 'requires_payment_method',
+    amount_received: 0,
+    metadata: { orderId: 'order_1' },
+    client_secret: 'pi_123_secret_abc'
+  }
+
+  const fakeFetch = (responses: { status: number; body: unknown }[]) => {
+    const requests: { url: string; init: RequestInit }[] = []
+    const fetch = async (url: string | URL | Request, init: RequestInit = {}) => {
+      requests.push({ url: String(url), init })
+      const next = responses.shift()
+      if (!next) throw new TypeError('Failed to fetch')
+      return new Response(JSON.stringify(next.body), { status: next.status })
+    }
+    return { fetch: fetch as typeof globalThis.fetch, requests }
+  }
+
+  // Stripe.js with a card field that does nothing, and confirmations that
+  // answer with the given results in turn
+  const fakeStripeJs = (results: Awaited<ReturnType<StripeJs['confirmCardPayment']>>[]) => {
+    const element = { mount: vi.fn(), destroy: vi.fn() }
+    const confirmCardPayment = vi.fn(async () => results.shift()!)
+    const stripeJs = { elements: () => ({ create: () => element }), confirmCardPayment } as unknown as StripeJs
+    return { element, confirmCardPayment, loadStripe: async () => stripeJs }
+  }
+
+  const options = { apiUrl: 'https://pay.example.com/', publishableKey: 'pk_test_123' }
+
+  it('creates intents through the payment server with the shopper\'s token', async () => {
+    const { fetch, requests } = fakeFetch([{ status: 200, body: stripeIntent }])
+    const stripe = createStripeProvider({ ...options, fetch, getAuthToken: async () => 'token_1' })
+
+    expect(await stripe.createIntent(intentInput)).toMatchObject({ id: 'pi_123', amount: 34.5, status: 'requires_payment_method', orderId: 'order_1' })
+
+    expect(requests[0].url).toBe('https://pay.example.com/payment-intents')
+    const headers = new Headers(requests[0].init.headers)
+    expect(headers.get('Authorization')).toBe('Bearer token_1')
+    expect(headers.get('Idempotency-Key')).toBe('order_order_1')
+    expect(JSON.parse(String(requests[0].init.body))).toEqual({ orderId: 'order_1', amount: 3450, currency: 'usd' })
+  })
+
+  it('confirms through the hosted card field and reads the result back from the server', async () => {
+    const declined = {
+      type: 'card_error',
+      code: 'card_declined',
+      decline_code: 'insufficient_funds',
+      message: 'Your card has insufficient funds.'
+    }
+    const { element, confirmCardPayment, loadStripe } = fakeStripeJs([{ error: declined } as never, { paymentIntent: {} } as never])
+    const { fetch, requests } = fakeFetch([
+      { status: 200, body: stripeIntent },
+      { status: 200, body: { ...stripeIntent, last_payment_error: declined } },
+      {
+        status: 200,
+        body: { ...stripeIntent, status: 'requires_capture', latest_charge: { payment_method_details: { card: { last4: '4242' } } } }
+      }
+    ])
+    const stripe = createStripeProvider({ ...options, fetch, loadStripe })
+    const unmount = await stripe.mountCardField!(document.createElement('div'))
+    await stripe.createIntent(intentInput)
+
+    expect((await stripe.confirm('pi_123')).lastError).toEqual({ code: 'insufficient_funds', message: 'Your card has insufficient funds.' })
+    expect(await stripe.confirm('pi_123')).toMatchObject({ status: 'requires_capture', cardLast4: '4242' })
+
+    expect(confirmCardPayment).toHaveBeenCalledWith('pi_123_secret_abc', { payment_method: { card: element } })
+    expect(requests.map((request) => request.url)).toEqual([
+      'https://pay.example.com/payment-intents',
+      'https://pay.example.com/payment-intents/pi_123',
+      'https://pay.example.com/payment-intents/pi_123'
+    ])
+    unmount()
+    expect(element.destroy).toHaveBeenCalled()
+  })
+
+  it('needs the card field to confirm, and reports outages', async () => {
+    const { fetch } = fakeFetch([{ status: 503, body: {} }])
+    const stripe = createStripeProvider({ ...options, fetch, loadStripe: fakeStripeJs([]).loadStripe })
+
+    await expect(stripe.confirm('pi_123')).rejects.toMatchObject({ code: 'invalid_request' })
+    await expect(stripe.capture('pi_123')).rejects.toMatchObject({ code: 'network' })
+    await expect(stripe.retrieve('pi_123')).rejects.toBeInstanceOf(PaymentProviderError)
+  })
+})
+
+describe('webhooks', () => {
+  const payload = JSON.stringify({
+    id: 'evt_1',
+    type: 'payment_intent.succeeded',
+    data: { object: { id: 'pi_123', object: 'payment_intent', amount: 3450, currency: 'usd', status: 'succeeded', amount_received: 3450 } }
+  })
+
+  it('accepts signed events and rejects tampered or stale ones', async () => {
+    const gateway = createMockGateway()
+    const signature = await signWebhookPayload(payload, MOCK_WEBHOOK_SECRET)
+
+    expect(await gateway.parseWebhook(payload, signature)).toMatchObject({
+      id: 'evt_1',
+      type: 'payment_intent.succeeded',
+      intentId: 'pi_123',
+      intent: { status: 'succeeded', amountCaptured: 34.5 }
+    })
+    await expect(gateway.parseWebhook(payload.replace('3450', '1'), signature)).rejects.toMatchObject({ code: 'invalid_signature' })
+    const stale = await signWebhookPayload(payload, MOCK_WEBHOOK_SECRET, new Date(Date.now() - 3_600_000))
+    await expect(gateway.parseWebhook(payload, stale)).rejects.toMatchObject({ code: 'invalid_signature' })
+    await expect(createStripeProvider({ apiUrl: 'https://pay.example.com', publishableKey: 'pk_test_123' }).parseWebhook(payload, signature))
+      .rejects.toMatchObject({ code: 'invalid_signature' })
+  })
+})
+
+describe('parseCardForm', () => {
+  it('reads the card or says what is wrong with each field', () => {
+    expect(parseCardForm({ number: '4242 4242 4242 4242', expiry: '07/31', cvc: '123' })).toEqual({
+      card: { number: '4242424242424242', expMonth: 7, expYear: 2031, cvc: '123' }
+    })
+    expect(parseCardForm({ number: '4242', expiry: '13/31', cvc: '1' })).toEqual({
+      errors: {
+        number: 'Card number should be 12 to 19 digits',
+        expiry: 'Expiry should look like MM/YY',
+        cvc: 'Security code should be 3 or 4 digits'
+      }
+    })
+  })
+})
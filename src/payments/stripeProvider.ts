@@ -0,0 +1,265 @@
+import type { Stripe, StripeCardElement, StripeError } from '@stripe/stripe-js'
+import { loadStripe } from '@stripe/stripe-js/pure'
+import {
+  PaymentProviderError,
+  type PaymentEvent,
+  type PaymentIntent,
+  type PaymentIntentStatus,
+  type PaymentProvider,
+  type PaymentRefund
+} from './types'
+import { verifyWebhookSignature } from './webhook'
+
+// The parts of Stripe.js the provider uses
+export type StripeJs = Pick<Stripe, 'elements' | 'confirmCardPayment'>
+
+export interface StripeProviderOptions {
+  // Publishable key (pk_…), the only Stripe key the browser sees
+  publishableKey: string
+  // The store's payment server, which holds the secret key. It creates,
+  // reads, captures and refunds intents for callers it has authenticated;
+  // the README lists its endpoints.
+  apiUrl: string
+  // The signed-in user's access token, sent to the payment server. Guests
+  // have none; the server decides what they may do.
+  getAuthToken?: () => Promise<string | null>
+  // Signing secret of the webhook endpoint (whsec_…)
+  webhookSecret?: string
+  // Loads Stripe.js; defaults to the script from js.stripe.com
+  loadStripe?: (publishableKey: string) => Promise<StripeJs | null>
+  fetch?: typeof fetch
+}
+
+interface StripeCharge {
+  amount_refunded?: number
+  payment_method_details?: { card?: { last4?: string } }
+}
+
+interface StripeIntent {
+  object: 'payment_intent'
+  id: string
+  amount: number
+  currency: string
+  status: string
+  amount_received?: number
+  latest_charge?: StripeCharge | string | null
+  next_action?: { type: string; redirect_to_url?: { url: string } } | null
+  last_payment_error?: { code?: string; decline_code?: string; message?: string } | null
+  metadata?: Record<string, string>
+  // Present when the caller may confirm the intent from the browser
+  client_secret?: string | null
+}
+
+interface StripeRefund {
+  id: string
+  amount: number
+  status: string
+  payment_intent: string
+}
+
+// Stripe amounts are in the currency's smallest unit
+const toMinor = (amount: number) => Math.round(amount * 100)
+const fromMinor = (amount: number | undefined) => (amount ?? 0) / 100
+
+const intentStatuses: Record<string, PaymentIntentStatus> = {
+  requires_payment_method: 'requires_payment_method',
+  requires_confirmation: 'requires_payment_method',
+  requires_action: 'requires_action',
+  requires_capture: 'requires_capture',
+  succeeded: 'succeeded',
+  canceled: 'canceled'
+}
+
+export function fromStripeIntent(raw: StripeIntent): PaymentIntent {
+  const status = intentStatuses[raw.status]
+  if (!status) {
+    throw new PaymentProviderError('invalid_state', `Payment ${raw.id} is ${raw.status}, which the store does not handle.`)
+  }
+  const charge = typeof raw.latest_charge === 'object' ? raw.latest_charge : null
+  const error = raw.last_payment_error
+  const redirect = raw.next_action?.redirect_to_url?.url
+  return {
+    id: raw.id,
+    amount: fromMinor(raw.amount),
+    currency: raw.currency,
+    status,
+    amountCaptured: fromMinor(raw.amount_received),
+    amountRefunded: fromMinor(charge?.amount_refunded),
+    cardLast4: charge?.payment_method_details?.card?.last4,
+    nextAction: status === 'requires_action' && redirect ? { type: 'three_d_secure', url: redirect } : undefined,
+    lastError: error
+      ? { code: error.decline_code ?? error.code ?? 'card_error', message: error.message ?? 'Your card was declined.' }
+      : undefined,
+    orderId: raw.metadata?.orderId
+  }
+}
+
+// Charge and refund events name their intent instead of carrying it
+type StripeEventObject = StripeIntent | { object?: string; payment_intent?: string }
+
+const isStripeIntent = (object: StripeEventObject): object is StripeIntent => object.object === 'payment_intent'
+
+// Stripe's event envelope; the mock gateway's webhooks use it too
+export function decodeStripeEvent(payload: string): PaymentEvent {
+  let event: { id?: string; type?: string; data?: { object?: StripeEventObject } }
+  try {
+    event = JSON.parse(payload)
+  } catch {
+    throw new PaymentProviderError('invalid_request', 'The webhook body is not JSON.')
+  }
+  const object = event.data?.object
+  if (!event.id || !event.type || !object) {
+    throw new PaymentProviderError('invalid_request', 'The webhook body is not a payment event.')
+  }
+  if (isStripeIntent(object)) {
+    const intent = fromStripeIntent(object)
+    return { id: event.id, type: event.type, intentId: intent.id, intent }
+  }
+  return { id: event.id, type: event.type, intentId: object.payment_intent ?? '' }
+}
+
+// The decline Stripe.js reported, on the intent as the server now sees it
+function withConfirmError(intent: PaymentIntent, error: StripeError): PaymentIntent {
+  if (intent.status !== 'requires_payment_method' && intent.status !== 'requires_action') return intent
+  return {
+    ...intent,
+    status: 'requires_payment_method',
+    nextAction: undefined,
+    lastError: {
+      code: error.decline_code ?? error.code ?? 'card_error',
+      message: error.message ?? 'Your card was declined.'
+    }
+  }
+}
+
+// Card details go straight from Stripe's hosted card field to Stripe, and
+// Stripe.js runs any 3-D Secure challenge itself, so no card data passes
+// through the store. Everything that needs the secret key goes through the
+// store's payment server. Intents are created for manual capture so
+// authorizing a card and taking the money stay separate steps.
+export function createStripeProvider(options: StripeProviderOptions): PaymentProvider {
+  const fetchImpl = options.fetch ?? fetch.bind(globalThis)
+  const apiUrl = options.apiUrl.replace(/\/$/, '')
+  // Client secrets of the intents this browser has created or read
+  const clientSecrets = new Map<string, string>()
+  let stripeJs: Promise<StripeJs | null> | null = null
+  let cardElement: StripeCardElement | null = null
+
+  const loadStripeJs = async () => {
+    stripeJs ??= (options.loadStripe ?? loadStripe)(options.publishableKey)
+    const stripe = await stripeJs.catch(() => null)
+    if (!stripe) {
+      stripeJs = null
+      throw new PaymentProviderError('network', 'Could not load Stripe.')
+    }
+    return stripe
+  }
+
+  const request = async <T>(method: 'GET' | 'POST', path: string, body?: object, idempotencyKey?: string): Promise<T> => {
+    let response: Response
+    try {
+      const token = await options.getAuthToken?.()
+      response = await fetchImpl(`${apiUrl}${path}`, {
+        method,
+        headers: {
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+        },
+        body: body ? JSON.stringify(body) : undefined
+      })
+    } catch (error) {
+      throw new PaymentProviderError('network', `Could not reach the payment server: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const json = await response.json().catch(() => null)
+    if (response.ok) return json as T
+    // Outages and rate limits are worth retrying
+    if (response.status >= 500 || response.status === 429) {
+      throw new PaymentProviderError('network', `The payment server is unavailable (${response.status}).`)
+    }
+    const code = json?.error?.code === 'payment_intent_unexpected_state' ? 'invalid_state' : 'invalid_request'
+    throw new PaymentProviderError(code, json?.error?.message ?? `The payment server rejected the request (${response.status}).`)
+  }
+
+  const intentRequest = async (method: 'GET' | 'POST', path: string, body?: object, idempotencyKey?: string) => {
+    const raw = await request<StripeIntent>(method, path, body, idempotencyKey)
+    if (raw.client_secret) clientSecrets.set(raw.id, raw.client_secret)
+    return fromStripeIntent(raw)
+  }
+
+  const retrieve = (intentId: string) => intentRequest('GET', `/payment-intents/${encodeURIComponent(intentId)}`)
+
+  return {
+    name: 'stripe',
+
+    createIntent(input) {
+      return intentRequest('POST', '/payment-intents', {
+        orderId: input.orderId,
+        amount: toMinor(input.amount),
+        currency: input.currency
+      }, input.idempotencyKey)
+    },
+
+    async confirm(intentId) {
+      if (!cardElement) {
+        throw new PaymentProviderError('invalid_request', 'The card field is not on the page.')
+      }
+      const stripe = await loadStripeJs()
+      if (!clientSecrets.has(intentId)) await retrieve(intentId)
+      const clientSecret = clientSecrets.get(intentId)
+      if (!clientSecret) {
+        throw new PaymentProviderError('invalid_request', `Payment ${intentId} cannot be confirmed from this browser.`)
+      }
+
+      let result: Awaited<ReturnType<StripeJs['confirmCardPayment']>>
+      try {
+        result = await stripe.confirmCardPayment(clientSecret, { payment_method: { card: cardElement } })
+      } catch (error) {
+        throw new PaymentProviderError('network', `Could not reach Stripe: ${error instanceof Error ? error.message : error}`)
+      }
+      // Read back through the server for the card and charge details
+      const intent = await retrieve(intentId)
+      return result.error ? withConfirmError(intent, result.error) : intent
+    },
+
+    retrieve,
+
+    capture(intentId) {
+      return intentRequest('POST', `/payment-intents/${encodeURIComponent(intentId)}/capture`, {})
+    },
+
+    async refund(intentId, amount, refundOptions = {}): Promise<PaymentRefund> {
+      const refund = await request<StripeRefund>('POST', '/refunds', {
+        paymentIntent: intentId,
+        amount: toMinor(amount),
+        reason: refundOptions.reason
+      }, refundOptions.idempotencyKey)
+      return {
+        id: refund.id,
+        intentId: refund.payment_intent,
+        amount: fromMinor(refund.amount),
+        status: refund.status === 'succeeded' ? 'succeeded' : refund.status === 'pending' || refund.status === 'requires_action' ? 'pending' : 'failed'
+      }
+    },
+
+    async parseWebhook(payload, signature) {
+      if (!options.webhookSecret) {
+        throw new PaymentProviderError('invalid_signature', 'No webhook signing secret is configured.')
+      }
+      await verifyWebhookSignature(payload, signature, options.webhookSecret)
+      return decodeStripeEvent(payload)
+    },
+
+    async mountCardField(container) {
+      const stripe = await loadStripeJs()
+      const element = stripe.elements().create('card', { hidePostalCode: true })
+      element.mount(container)
+      cardElement = element
+      return () => {
+        if (cardElement === element) cardElement = null
+        element.destroy()
+      }
+    }
+  }
+}
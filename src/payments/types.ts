@@ -0,0 +1,129 @@
+// Amounts are in the store's currency units (dollars, not cents) like every
+// other price in the app; providers convert at their own boundary.
+
+// Mirrors Stripe's PaymentIntent lifecycle, minus the states the store never
+// asks for (processing, requires_confirmation)
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_action'
+  | 'requires_capture'
+  | 'succeeded'
+  | 'canceled'
+
+// The shopper has to do something at their bank before the card is authorized
+export interface PaymentNextAction {
+  type: 'three_d_secure'
+  // The issuer's challenge page
+  url: string
+}
+
+export interface PaymentIntentError {
+  // Provider decline code, e.g. card_declined or insufficient_funds
+  code: string
+  // Safe to show the shopper
+  message: string
+}
+
+export interface PaymentIntent {
+  id: string
+  amount: number
+  currency: string
+  status: PaymentIntentStatus
+  // Taken so far; the full amount once captured
+  amountCaptured: number
+  amountRefunded: number
+  cardLast4?: string
+  nextAction?: PaymentNextAction
+  // Why the last confirmation failed; set while the intent waits for another card
+  lastError?: PaymentIntentError
+  // The store's order id, as passed to createIntent
+  orderId?: string
+}
+
+export interface CreateIntentInput {
+  orderId: string
+  amount: number
+  currency: string
+  // Retrying with the same key returns the intent created the first time
+  idempotencyKey: string
+}
+
+export interface CardDetails {
+  number: string
+  expMonth: number
+  // Four digits
+  expYear: number
+  cvc: string
+}
+
+export interface PaymentRefund {
+  id: string
+  intentId: string
+  amount: number
+  status: 'succeeded' | 'pending' | 'failed'
+}
+
+export interface RefundOptions {
+  // Free text kept with the refund at the provider
+  reason?: string
+  idempotencyKey?: string
+}
+
+export type PaymentEventType =
+  | 'payment_intent.amount_capturable_updated'
+  | 'payment_intent.succeeded'
+  | 'payment_intent.payment_failed'
+  | 'payment_intent.canceled'
+  | 'charge.refunded'
+
+// A webhook notification, already checked to come from the provider
+export interface PaymentEvent {
+  id: string
+  // A PaymentEventType; other types come through as-is and are ignored
+  type: string
+  intentId: string
+  // Present for payment_intent.* events
+  intent?: PaymentIntent
+}
+
+export interface PaymentProvider {
+  // Stored on each payment so records stay tied to the provider that took them
+  readonly name: string
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>
+  // Authorizes the card without taking the money. Declines come back as an
+  // intent with lastError set rather than as an error. Providers with a
+  // hosted card field read the card from it and ignore `card`.
+  confirm(intentId: string, card?: CardDetails): Promise<PaymentIntent>
+  // The intent as the provider sees it now, e.g. after a 3-D Secure challenge
+  retrieve(intentId: string): Promise<PaymentIntent>
+  // Takes the authorized money; only then is an order paid
+  capture(intentId: string): Promise<PaymentIntent>
+  refund(intentId: string, amount: number, options?: RefundOptions): Promise<PaymentRefund>
+  // Verifies a webhook's signature header and decodes its body
+  parseWebhook(payload: string, signature: string): Promise<PaymentEvent>
+  // Offline providers have no issuer page to send the shopper to, so the
+  // checkout stands in for it and reports the shopper's answer here
+  simulateChallenge?(intentId: string, approve: boolean): Promise<void>
+  // Providers whose card details must never touch the store's code put their
+  // own card field in `container`. Resolves to a function that removes it.
+  mountCardField?(container: HTMLElement): Promise<() => void>
+}
+
+export type PaymentProviderErrorCode =
+  // The request may or may not have reached the provider; safe to retry
+  | 'network'
+  | 'invalid_request'
+  | 'invalid_state'
+  | 'invalid_signature'
+  // No real provider is set up, see createUnconfiguredProvider
+  | 'not_configured'
+
+export class PaymentProviderError extends Error {
+  readonly code: PaymentProviderErrorCode
+
+  constructor(code: PaymentProviderErrorCode, message: string) {
+    super(message)
+    this.name = 'PaymentProviderError'
+    this.code = code
+  }
+}
@@ -0,0 +1,23 @@
+import { PaymentProviderError, type PaymentProvider } from './types'
+
+const NO_PROVIDER = 'none'
+
+// Stands in on the hosted backend until a real provider is configured, so
+// no order can be paid for with the mock gateway's test cards. Every call
+// fails; the checkout checks canTakePayments first and says so up front.
+export function createUnconfiguredProvider(): PaymentProvider {
+  const fail = async (): Promise<never> => {
+    throw new PaymentProviderError('not_configured', 'No payment provider is configured for this store.')
+  }
+  return {
+    name: NO_PROVIDER,
+    createIntent: fail,
+    confirm: fail,
+    retrieve: fail,
+    capture: fail,
+    refund: fail,
+    parseWebhook: fail
+  }
+}
+
+export const canTakePayments = (provider: PaymentProvider) => provider.name !== NO_PROVIDER
@@ -0,0 +1,44 @@
+import { PaymentProviderError } from './types'
+
+// Signatures older than this are rejected so a captured webhook cannot be replayed later
+const SIGNATURE_TOLERANCE_S = 300
+
+async function hmacHex(secret: string, message: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Compares every character so the time taken does not reveal how much matched
+function sameText(a: string, b: string) {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+// Signs a payload the way Stripe does: `t=<unix seconds>,v1=<hex HMAC-SHA256
+// of "t.payload">`. The mock gateway's webhooks are signed the same way.
+export async function signWebhookPayload(payload: string, secret: string, at = new Date()) {
+  const timestamp = Math.floor(at.getTime() / 1000)
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${payload}`)}`
+}
+
+export async function verifyWebhookSignature(payload: string, header: string, secret: string, now = new Date()) {
+  const parts = header.split(',').map((part) => part.trim().split('='))
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1])
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '')
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new PaymentProviderError('invalid_signature', 'The webhook signature header is malformed.')
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_S) {
+    throw new PaymentProviderError('invalid_signature', 'The webhook signature has expired.')
+  }
+  const expected = await hmacHex(secret, `${timestamp}.${payload}`)
+  if (!signatures.some((signature) => sameText(signature, expected))) {
+    throw new PaymentProviderError('invalid_signature', 'The webhook signature does not match.')
+  }
+}
@@ -0,0 +1,32 @@
+// How many typos a query word may contain and still match: none for short
+// words, where one edit already turns "cap" into "car" or "cat"
+export function typoBudget(term: string) {
+  if (term.length < 4) return 0
+  return term.length < 8 ? 1 : 2
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps, so
+// "haedphones" is one typo away, not two). Gives up and returns max + 1 once
+// every alignment is already over `max`.
+export function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previous2 = previous
+    previous = current
+  }
+  return previous[b.length]
+}
@@ -0,0 +1,40 @@
+import { tokenize } from './text'
+
+// Highlighted text as plain segments, so callers render <mark> elements
+// instead of injecting HTML
+export interface TextSegment {
+  text: string
+  match: boolean
+}
+
+// Splits `text` so every word whose index term is in `terms` is its own
+// matching segment
+export function highlight(text: string, terms: ReadonlySet<string>): TextSegment[] {
+  const segments: TextSegment[] = []
+  let cursor = 0
+  for (const token of tokenize(text)) {
+    if (!terms.has(token.term)) continue
+    if (token.start > cursor) segments.push({ text: text.slice(cursor, token.start), match: false })
+    segments.push({ text: text.slice(token.start, token.end), match: true })
+    cursor = token.end
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false })
+  return segments
+}
+
+// A window of about `maxLength` characters around the first match, cut at
+// word boundaries and marked with ellipses where text was dropped
+export function snippet(text: string, terms: ReadonlySet<string>, maxLength = 160): TextSegment[] {
+  if (text.length <= maxLength) return highlight(text, terms)
+  const first = tokenize(text).find((token) => terms.has(token.term))
+  let start = first ? Math.max(0, first.start - Math.floor(maxLength / 4)) : 0
+  let end = Math.min(text.length, start + maxLength)
+  start = Math.max(0, end - maxLength)
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start
+  if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end
+
+  const segments = highlight(text.slice(start, end), terms)
+  if (start > 0) segments.unshift({ text: '…', match: false })
+  if (end < text.length) segments.push({ text: '…', match: false })
+  return segments
+}
@@ -0,0 +1,4 @@
+export * from './text'
+export * from './fuzzy'
+export * from './highlight'
+export * from './searchIndex'
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { createBlinkBackend, createMemoryBackend, fixtureCategories, fixtureProducts, fixtureUser } from '../data'
+import { createFakeBlink } from '../test/fakeBlink'
+import { SearchIndex, editDistance, snippet, stem } from '.'
+
+const newBackend = () => createMemoryBackend({ storage: null })
+
+describe('text analysis', () => {
+  it('reduces plurals and verb endings to a shared stem', () => {
+    expect(stem('headphones')).toBe('headphone')
+    expect(stem('boxes')).toBe('box')
+    expect(stem('accessories')).toBe('accessory')
+    expect(stem('running')).toBe('run')
+    expect(stem('glass')).toBe('glass')
+  })
+
+  it('counts a swapped pair of letters as one typo', () => {
+    expect(editDistance('haedphone', 'headphone', 2)).toBe(1)
+    expect(editDistance('planter', 'garden', 2)).toBe(3)
+  })
+
+  it('cuts long text down to a window around the first match', () => {
+    const text = `${'Lorem ipsum dolor sit amet. '.repeat(10)}Comes with a carry strap. ${'Sed do eiusmod. '.repeat(10)}`
+    const segments = snippet(text, new Set(['strap']), 80)
+
+    expect(segments[0]).toEqual({ text: '…', match: false })
+    expect(segments).toContainEqual({ text: 'strap', match: true })
+    expect(segments.map((segment) => segment.text).join('').length).toBeLessThanOrEqual(82)
+  })
+})
+
+describe('SearchIndex', () => {
+  it('ranks matches in boosted fields first', () => {
+    const index = new SearchIndex(
+      [
+        { title: 'Reading light', body: 'A lamp for the bedside' },
+        { title: 'Desk lamp', body: 'Adjustable arm' }
+      ],
+      [
+        { name: 'title', boost: 3, text: (doc) => doc.title },
+        { name: 'body', boost: 1, text: (doc) => doc.body }
+      ]
+    )
+
+    expect(index.search('lamp').map((match) => match.doc.title)).toEqual(['Desk lamp', 'Reading light'])
+  })
+
+  it('requires every query word to match', () => {
+    const index = new SearchIndex(['red shoe', 'red hat'], [{ name: 'text', boost: 1, text: (doc) => doc }])
+
+    expect(index.search('red shoes').map((match) => match.doc)).toEqual(['red shoe'])
+  })
+})
+
+describe('product search', () => {
+  it('finds products by prefix, plural and typo', async () => {
+    const backend = newBackend()
+    const names = async (text: string) => (await backend.products.search(text)).map((hit) => hit.product.name)
+
+    expect(await names('plant')).toEqual(['Ceramic Planter'])
+    expect(await names('planters')).toEqual(['Ceramic Planter'])
+    expect(await names('wireles hedphones')).toEqual(['Wireless Headphones'])
+  })
+
+  it('matches parent categories and respects the category filter', async () => {
+    const backend = newBackend()
+
+    const all = await backend.products.search('electronics')
+    expect(all.map((hit) => hit.product.id).sort()).toEqual(['prod_headphones', 'prod_smartwatch'])
+
+    const audio = await backend.products.search('electronics', { categories: ['audio'] })
+    expect(audio.map((hit) => hit.product.id)).toEqual(['prod_headphones'])
+  })
+
+  it('highlights the words that matched', async () => {
+    const [hit] = await newBackend().products.search('headphone')
+
+    expect(hit.highlights.name).toEqual([
+      { text: 'Wireless ', match: false },
+      { text: 'Headphones', match: true }
+    ])
+    expect(hit.highlights.description).toContainEqual({ text: 'headphones', match: true })
+  })
+
+  it('shows current prices from Blink while reusing the index', async () => {
+    const fake = createFakeBlink({
+      user: fixtureUser,
+      tables: { products: fixtureProducts, categories: fixtureCategories }
+    })
+    const backend = createBlinkBackend(fake.client)
+
+    await backend.products.search('yoga')
+    fake.tables.products.forEach((row) => {
+      if (row.id === 'prod_yoga_mat') row.price = 29
+    })
+    const [hit] = await backend.products.search('yoga')
+
+    expect(hit.product.price).toBe(29)
+  })
+})
@@ -0,0 +1,121 @@
+import { editDistance, typoBudget } from './fuzzy'
+import { tokenize, type Token } from './text'
+
+export interface SearchField<T> {
+  name: string
+  // Multiplies the score of matches in this field (a name match outranks a
+  // description match)
+  boost: number
+  text: (doc: T) => string
+}
+
+export interface SearchMatch<T> {
+  doc: T
+  score: number
+  // Index terms that matched, for highlighting with the same analysis
+  terms: Set<string>
+}
+
+// How much a looser match is worth compared with the exact term
+const PREFIX_WEIGHT = 0.7
+const TYPO_WEIGHT = [1, 0.6, 0.4]
+
+// An in-memory inverted index: for every term, which documents contain it and
+// how often in each field. Catalog-sized vocabularies are small enough that
+// prefix and typo candidates are found by scanning the term list.
+export class SearchIndex<T> {
+  private readonly docs: T[]
+  private readonly fields: SearchField<T>[]
+  // term → doc position → occurrences per field
+  private readonly postings = new Map<string, Map<number, number[]>>()
+  private readonly vocabulary: string[]
+
+  constructor(docs: T[], fields: SearchField<T>[]) {
+    this.docs = docs
+    this.fields = fields
+    docs.forEach((doc, position) => {
+      fields.forEach((field, fieldIndex) => {
+        for (const { term } of tokenize(field.text(doc))) {
+          let byDoc = this.postings.get(term)
+          if (!byDoc) {
+            byDoc = new Map()
+            this.postings.set(term, byDoc)
+          }
+          const counts = byDoc.get(position) ?? fields.map(() => 0)
+          counts[fieldIndex] += 1
+          byDoc.set(position, counts)
+        }
+      })
+    })
+    this.vocabulary = [...this.postings.keys()]
+  }
+
+  // Index terms a query word can stand for, with how much each is worth
+  private candidates({ term, word }: Token) {
+    const weights = new Map<string, number>()
+    const budget = typoBudget(term)
+    for (const candidate of this.vocabulary) {
+      if (candidate === term) {
+        weights.set(candidate, 1)
+      } else if (candidate.startsWith(term) || candidate.startsWith(word)) {
+        weights.set(candidate, PREFIX_WEIGHT)
+      } else if (budget > 0) {
+        const distance = editDistance(term, candidate, budget)
+        if (distance <= budget) weights.set(candidate, TYPO_WEIGHT[distance])
+      }
+    }
+    return weights
+  }
+
+  private termScore(term: string, counts: number[]) {
+    const byDoc = this.postings.get(term)
+    const idf = Math.log(1 + this.docs.length / (byDoc?.size ?? 1))
+    return counts.reduce(
+      (sum, count, fieldIndex) => (count > 0 ? sum + this.fields[fieldIndex].boost * (1 + Math.log(count)) : sum),
+      0
+    ) * idf
+  }
+
+  // Documents matching every word of the query, best first. Each word may
+  // match exactly, as the start of a longer word, or with a few typos.
+  search(query: string, filter: (doc: T) => boolean = () => true): SearchMatch<T>[] {
+    const tokens = tokenize(query)
+    if (tokens.length === 0) return []
+
+    let results: Map<number, SearchMatch<T>> | null = null
+    for (const token of tokens) {
+      const matches = new Map<number, { score: number; terms: string[] }>()
+      this.candidates(token).forEach((weight, term) => {
+        this.postings.get(term)?.forEach((counts, position) => {
+          const score = weight * this.termScore(term, counts)
+          const best = matches.get(position)
+          if (!best) {
+            matches.set(position, { score, terms: [term] })
+          } else {
+            best.score = Math.max(best.score, score)
+            best.terms.push(term)
+          }
+        })
+      })
+
+      const next = new Map<number, SearchMatch<T>>()
+      matches.forEach((match, position) => {
+        const previous: SearchMatch<T> | undefined = results?.get(position)
+        if (results && !previous) return
+        const doc = this.docs[position]
+        if (!previous && !filter(doc)) return
+        next.set(position, {
+          doc,
+          score: (previous?.score ?? 0) + match.score,
+          terms: new Set([...(previous?.terms ?? []), ...match.terms])
+        })
+      })
+      results = next
+      if (results.size === 0) break
+    }
+
+    return [...(results?.entries() ?? [])]
+      .sort(([positionA, a], [positionB, b]) => b.score - a.score || positionA - positionB)
+      .map(([, match]) => match)
+  }
+}
@@ -0,0 +1,55 @@
+// Text analysis shared by indexing and querying. Both sides must agree on
+// every step, otherwise terms written to the index can never be found.
+
+export interface Token {
+  // Index term: normalised and stemmed
+  term: string
+  // Normalised but unstemmed, for matching words that are still being typed
+  word: string
+  // Where the original word sits in the source text, for highlighting
+  start: number
+  end: number
+}
+
+const WORD = /[\p{L}\p{N}]+/gu
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'with', 'in', 'on', 'to', 'or', 'by', 'at'])
+
+export function normalize(word: string) {
+  return word.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+}
+
+const isVowel = (char: string) => 'aeiou'.includes(char)
+
+// Trims "running" to "run" but leaves "dress" or "ball" alone
+function undouble(word: string) {
+  const last = word[word.length - 1]
+  return word.length > 3 && last === word[word.length - 2] && !'lsz'.includes(last) && !isVowel(last)
+    ? word.slice(0, -1)
+    : word
+}
+
+// A deliberately light English stemmer: plurals and the common verb endings.
+// Over-stemming costs precision that prefix and fuzzy matching already spend,
+// so anything more ambitious (Porter's full rule set) is not worth it here.
+export function stem(word: string) {
+  if (word.length <= 3 || /\d/.test(word)) return word
+  if (word.endsWith('sses')) return word.slice(0, -2)
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`
+  if (/(?:ch|sh|x|z)es$/.test(word)) return word.slice(0, -2)
+  if (word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) return word.slice(0, -1)
+  if (word.endsWith('ing') && word.length > 5) return undouble(word.slice(0, -3))
+  if (word.endsWith('ed') && word.length > 4) return undouble(word.slice(0, -2))
+  return word
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of text.matchAll(WORD)) {
+    const word = normalize(match[0])
+    if (STOP_WORDS.has(word)) continue
+    const start = match.index ?? 0
+    tokens.push({ term: stem(word), word, start, end: start + match[0].length })
+  }
+  return tokens
+}
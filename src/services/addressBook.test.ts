@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureAddress, fixtureUser } from '../data'
+import {
+  InvalidAddressError,
+  addAddress,
+  defaultAddress,
+  removeAddress,
+  setDefaultAddress,
+  validateAddress
+} from './addressBook'
+
+const fieldErrors = (address: typeof fixtureAddress) => {
+  try {
+    validateAddress(address)
+    return {}
+  } catch (error) {
+    if (error instanceof InvalidAddressError) return error.fieldErrors
+    throw error
+  }
+}
+
+describe('validateAddress', () => {
+  it('applies each country’s postal code and region rules', () => {
+    expect(fieldErrors({ ...fixtureAddress, postalCode: '6270' })).toEqual({ postalCode: 'ZIP code should look like 94103' })
+    expect(fieldErrors({ ...fixtureAddress, region: '' })).toEqual({ region: 'State is required' })
+    expect(fieldErrors({ ...fixtureAddress, country: 'GB', region: '', postalCode: '' })).toEqual({ postalCode: 'Postcode is required' })
+    expect(fieldErrors({ ...fixtureAddress, country: 'IE', region: '', postalCode: '' })).toEqual({})
+    expect(fieldErrors({ ...fixtureAddress, country: 'ZZ' })).toEqual({ country: "We don't ship to that country" })
+    expect(fieldErrors({ ...fixtureAddress, fullName: ' ', phone: 'call me' })).toEqual({
+      fullName: 'Full name is required',
+      phone: 'Phone number should only have digits, spaces and + ( ) - .'
+    })
+  })
+
+  it('trims fields and upper-cases postal codes', () => {
+    expect(validateAddress({ ...fixtureAddress, city: ' Ottawa ', region: 'ON', country: 'CA', postalCode: 'k1a 0b1' }))
+      .toMatchObject({ city: 'Ottawa', postalCode: 'K1A 0B1' })
+  })
+})
+
+describe('address book', () => {
+  it('keeps exactly one default as addresses come and go', async () => {
+    const backend = createMemoryBackend({ storage: null })
+    const home = await addAddress(backend, fixtureUser.id, fixtureAddress)
+    const work = await addAddress(backend, fixtureUser.id, { ...fixtureAddress, line1: '9 Office Park' })
+    expect(home.isDefault).toBe(true)
+    expect(work.isDefault).toBe(false)
+
+    await setDefaultAddress(backend, fixtureUser.id, work.id)
+    const afterSwitch = await backend.addresses.listByUser(fixtureUser.id)
+    expect(afterSwitch.map((address) => [address.id, address.isDefault])).toEqual([[work.id, true], [home.id, false]])
+
+    await removeAddress(backend, fixtureUser.id, work.id)
+    expect(defaultAddress(await backend.addresses.listByUser(fixtureUser.id))).toMatchObject({ id: home.id, isDefault: true })
+  })
+
+  it('refuses to save an invalid address', async () => {
+    const backend = createMemoryBackend({ storage: null })
+
+    await expect(addAddress(backend, fixtureUser.id, { ...fixtureAddress, city: '' })).rejects.toBeInstanceOf(InvalidAddressError)
+    expect(await backend.addresses.listByUser(fixtureUser.id)).toEqual([])
+  })
+})
@@ -0,0 +1,81 @@
+import { addressSchema, type Address, type SavedAddress } from '../domain'
+import type { DataBackend } from '../data'
+import { createId } from '../lib/ids'
+
+type AddressBackend = Pick<DataBackend, 'addresses'>
+
+export class InvalidAddressError extends Error {
+  // Field → first problem with it, as shown next to the form field
+  readonly fieldErrors: Record<string, string>
+
+  constructor(fieldErrors: Record<string, string>) {
+    super(Object.values(fieldErrors)[0] ?? 'The address is incomplete.')
+    this.name = 'InvalidAddressError'
+    this.fieldErrors = fieldErrors
+  }
+}
+
+// Checks an address against its country's rules and returns it cleaned up
+// (trimmed, postal code upper-cased)
+export function validateAddress(address: Address): Address {
+  const result = addressSchema.safeParse(address)
+  if (!result.success) {
+    const fieldErrors: Record<string, string> = {}
+    for (const issue of result.error.issues) {
+      fieldErrors[issue.path.join('.')] ??= issue.message
+    }
+    throw new InvalidAddressError(fieldErrors)
+  }
+  return result.data
+}
+
+// The address checkout starts with: the default, or failing that the newest
+export function defaultAddress(addresses: SavedAddress[]) {
+  return addresses.find((address) => address.isDefault) ?? addresses[0]
+}
+
+async function clearDefault(backend: AddressBackend, userId: string, keepId?: string) {
+  const addresses = await backend.addresses.listByUser(userId)
+  await Promise.all(
+    addresses
+      .filter((address) => address.isDefault && address.id !== keepId)
+      .map((address) => backend.addresses.update(address.id, { isDefault: false }))
+  )
+}
+
+// Adds an address to the shopper's book. Their first address becomes the
+// default whether asked or not.
+export async function addAddress(
+  backend: AddressBackend,
+  userId: string,
+  address: Address,
+  options: { makeDefault?: boolean } = {}
+): Promise<SavedAddress> {
+  const valid = validateAddress(address)
+  const existing = await backend.addresses.listByUser(userId)
+  const isDefault = Boolean(options.makeDefault) || existing.length === 0
+  if (isDefault) await clearDefault(backend, userId)
+  return backend.addresses.create({ id: createId('addr'), userId, ...valid, isDefault })
+}
+
+export async function updateAddress(backend: AddressBackend, id: string, address: Address) {
+  await backend.addresses.update(id, validateAddress(address))
+}
+
+export async function setDefaultAddress(backend: AddressBackend, userId: string, id: string) {
+  await clearDefault(backend, userId, id)
+  await backend.addresses.update(id, { isDefault: true })
+}
+
+// Deleting the default hands the role to the newest remaining address, so a
+// shopper with addresses always has a default
+export async function removeAddress(backend: AddressBackend, userId: string, id: string) {
+  const addresses = await backend.addresses.listByUser(userId)
+  const removed = addresses.find((address) => address.id === id)
+  await backend.addresses.remove(id)
+
+  const remaining = addresses.filter((address) => address.id !== id)
+  if (removed?.isDefault && remaining.length > 0) {
+    await backend.addresses.update(remaining[0].id, { isDefault: true })
+  }
+}
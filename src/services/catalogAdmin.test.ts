@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend } from '../data'
+import {
+  ProductNotFoundError,
+  adjustPriceByPercent,
+  adjustStock,
+  bulkUpdateProducts,
+  createProduct,
+  saveVariants,
+  setProductsArchived
+} from './catalogAdmin'
+
+const newBackend = () => createMemoryBackend({ storage: null })
+
+describe('createProduct', () => {
+  it('assigns an id and lists the product in the catalog', async () => {
+    const backend = newBackend()
+
+    const product = await createProduct(backend, {
+      name: 'Desk Lamp',
+      description: 'Warm LED lamp',
+      price: 45,
+      imageUrl: '',
+      category: 'home-garden',
+      brand: 'Lumen',
+      attributes: { Colour: 'White' },
+      options: [],
+      images: [],
+      stockQuantity: 6
+    })
+
+    expect(product.id).toMatch(/^prod_/)
+    const catalog = await backend.products.list({ categories: ['home-garden'] })
+    expect(catalog.map((item) => item.name)).toContain('Desk Lamp')
+  })
+})
+
+describe('setProductsArchived', () => {
+  it('hides archived products from the catalog but keeps them readable', async () => {
+    const backend = newBackend()
+
+    const result = await setProductsArchived(backend, ['prod_planter', 'prod_missing'], true)
+
+    expect(result.updated).toEqual(['prod_planter'])
+    expect(result.failed).toEqual([{ productId: 'prod_missing', error: expect.any(ProductNotFoundError) }])
+    expect((await backend.products.list()).map((item) => item.id)).not.toContain('prod_planter')
+    expect((await backend.products.list({ includeArchived: true })).map((item) => item.id)).toContain('prod_planter')
+    expect((await backend.products.get('prod_planter'))?.archived).toBe(true)
+  })
+})
+
+describe('bulkUpdateProducts', () => {
+  it('computes changes per product', async () => {
+    const backend = newBackend()
+
+    await bulkUpdateProducts(backend, ['prod_headphones', 'prod_yoga_mat'], (product) => ({
+      price: adjustPriceByPercent(product.price, -10)
+    }))
+
+    expect((await backend.products.get('prod_headphones'))?.price).toBe(116.99)
+    expect((await backend.products.get('prod_yoga_mat'))?.price).toBe(35.1)
+  })
+})
+
+describe('adjustStock', () => {
+  it('applies deltas to the stored level and never goes below zero', async () => {
+    const backend = newBackend()
+
+    expect(await adjustStock(backend, 'prod_smartwatch', 10)).toBe(13)
+    expect(await adjustStock(backend, 'prod_smartwatch', -20)).toBe(0)
+    expect((await backend.products.get('prod_smartwatch'))?.stockQuantity).toBe(0)
+  })
+
+  it('reports unknown products', async () => {
+    await expect(adjustStock(newBackend(), 'prod_missing', 1)).rejects.toBeInstanceOf(ProductNotFoundError)
+  })
+})
+
+describe('variants', () => {
+  it('saves the variant rows and totals their stock on the product', async () => {
+    const backend = newBackend()
+    const [blueS, blueM] = await backend.variants.listByProduct('prod_denim_jacket')
+
+    const saved = await saveVariants(backend, 'prod_denim_jacket', [
+      { ...blueM, sku: 'DJ-M' },
+      { options: { Colour: 'Blue', Size: 'XL' }, sku: 'DJ-XL', price: 89, stockQuantity: 2, imageUrl: '' }
+    ])
+
+    expect(saved.map((variant) => [variant.sku, variant.position])).toEqual([['DJ-M', 0], ['DJ-XL', 1]])
+    expect(await backend.variants.get(blueS.id)).toBeNull()
+    expect((await backend.variants.listByProduct('prod_denim_jacket')).map((variant) => variant.sku)).toEqual([
+      'DJ-M',
+      'DJ-XL'
+    ])
+    expect((await backend.products.get('prod_denim_jacket'))?.stockQuantity).toBe(7)
+  })
+
+  it('adjusts one variant and moves the product total with it', async () => {
+    const backend = newBackend()
+
+    expect(await adjustStock(backend, 'prod_denim_jacket', 6, 'var_denim_black_m')).toBe(6)
+
+    expect((await backend.variants.get('var_denim_black_m'))?.stockQuantity).toBe(6)
+    expect((await backend.products.get('prod_denim_jacket'))?.stockQuantity).toBe(18)
+  })
+})
@@ -0,0 +1,168 @@
+import { totalVariantStock, type Product, type ProductChanges, type ProductVariant } from '../domain'
+import type { DataBackend } from '../data'
+import { createId } from '../lib/ids'
+
+type CatalogBackend = Pick<DataBackend, 'products' | 'media' | 'variants'>
+
+export class VariantNotFoundError extends Error {
+  readonly variantId: string
+
+  constructor(variantId: string) {
+    super(`Variant ${variantId} does not exist.`)
+    this.name = 'VariantNotFoundError'
+    this.variantId = variantId
+  }
+}
+
+export class ProductNotFoundError extends Error {
+  readonly productId: string
+
+  constructor(productId: string) {
+    super(`Product ${productId} does not exist.`)
+    this.name = 'ProductNotFoundError'
+    this.productId = productId
+  }
+}
+
+// What the admin form produces; ids and timestamps are assigned on save
+export type ProductDraft = Omit<
+  Product,
+  'id' | 'createdAt' | 'updatedAt' | 'archived' | 'ratingAverage' | 'ratingCount'
+>
+
+// One row of the variant editor. Rows without an id are new variants; only
+// those take a stock level, existing ones change through adjustStock.
+export type VariantDraft = Pick<ProductVariant, 'options' | 'sku' | 'price' | 'stockQuantity' | 'imageUrl'> & {
+  id?: string
+}
+
+export async function createProduct(backend: CatalogBackend, draft: ProductDraft): Promise<Product> {
+  return backend.products.create({ ...draft, id: createId('prod'), archived: false })
+}
+
+export async function updateProduct(backend: CatalogBackend, productId: string, changes: ProductChanges) {
+  const product = await backend.products.get(productId)
+  if (!product) {
+    throw new ProductNotFoundError(productId)
+  }
+  await backend.products.update(productId, changes)
+  return { ...product, ...changes }
+}
+
+export interface BulkUpdateResult {
+  updated: string[]
+  failed: { productId: string; error: unknown }[]
+}
+
+// Applies the same edit to many products. Changes may be computed per product
+// (e.g. a percentage price change). One bad row does not abort the batch:
+// failures are collected so the console can say exactly what did not apply.
+export async function bulkUpdateProducts(
+  backend: CatalogBackend,
+  productIds: string[],
+  changes: ProductChanges | ((product: Product) => ProductChanges)
+): Promise<BulkUpdateResult> {
+  const result: BulkUpdateResult = { updated: [], failed: [] }
+  for (const productId of productIds) {
+    try {
+      const product = await backend.products.get(productId)
+      if (!product) {
+        throw new ProductNotFoundError(productId)
+      }
+      await backend.products.update(productId, typeof changes === 'function' ? changes(product) : changes)
+      result.updated.push(productId)
+    } catch (error) {
+      result.failed.push({ productId, error })
+    }
+  }
+  return result
+}
+
+export function setProductsArchived(backend: CatalogBackend, productIds: string[], archived: boolean) {
+  return bulkUpdateProducts(backend, productIds, { archived })
+}
+
+// Scales a price by `percent` (e.g. -10 for a 10% discount), rounded to cents
+// and never below zero.
+export function adjustPriceByPercent(price: number, percent: number) {
+  return Math.max(0, Math.round(price * (100 + percent)) / 100)
+}
+
+// Makes the product's variants match `drafts`, in order: variants missing from
+// the drafts are removed, the rest updated or created. The product's stock
+// becomes the total over its variants; without variants it keeps its own.
+export async function saveVariants(
+  backend: CatalogBackend,
+  productId: string,
+  drafts: VariantDraft[]
+): Promise<ProductVariant[]> {
+  const product = await backend.products.get(productId)
+  if (!product) {
+    throw new ProductNotFoundError(productId)
+  }
+  const existing = await backend.variants.listByProduct(productId)
+  const kept = new Set(drafts.map((draft) => draft.id).filter(Boolean))
+  for (const variant of existing) {
+    if (!kept.has(variant.id)) await backend.variants.remove(variant.id)
+  }
+
+  const saved: ProductVariant[] = []
+  for (const [position, { id, stockQuantity, ...fields }] of drafts.entries()) {
+    const current = id ? existing.find((variant) => variant.id === id) : undefined
+    if (id && !current) {
+      throw new VariantNotFoundError(id)
+    }
+    if (current) {
+      await backend.variants.update(current.id, { ...fields, position })
+      saved.push({ ...current, ...fields, position })
+    } else {
+      saved.push(
+        await backend.variants.create({ ...fields, id: createId('var'), productId, stockQuantity, position })
+      )
+    }
+  }
+
+  if (saved.length > 0) {
+    await backend.products.updateStock(productId, totalVariantStock(saved))
+  }
+  return saved
+}
+
+// Applies a relative stock correction (deliveries, shrinkage, recounts) to the
+// current stored level and returns the new level, which never goes below 0.
+// With a variant the correction applies to it and the product's total follows.
+export async function adjustStock(
+  backend: CatalogBackend,
+  productId: string,
+  delta: number,
+  variantId?: string
+): Promise<number> {
+  const product = await backend.products.get(productId)
+  if (!product) {
+    throw new ProductNotFoundError(productId)
+  }
+  if (!variantId) {
+    const stockQuantity = Math.max(0, product.stockQuantity + delta)
+    await backend.products.updateStock(productId, stockQuantity)
+    return stockQuantity
+  }
+
+  const variants = await backend.variants.listByProduct(productId)
+  const variant = variants.find((candidate) => candidate.id === variantId)
+  if (!variant) {
+    throw new VariantNotFoundError(variantId)
+  }
+  const stockQuantity = Math.max(0, variant.stockQuantity + delta)
+  await backend.variants.updateStock(variantId, stockQuantity)
+  await backend.products.updateStock(
+    productId,
+    totalVariantStock(variants.map((candidate) => (candidate === variant ? { stockQuantity } : candidate)))
+  )
+  return stockQuantity
+}
+
+// Every upload gets a fresh path so browsers never show a cached old image,
+// and new products can carry an image before they have an id
+export function uploadProductImage(backend: CatalogBackend, file: File) {
+  return backend.media.upload(file, `products/${createId('image')}`)
+}
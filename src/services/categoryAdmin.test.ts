@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend } from '../data'
+import { CategoryAdminError, createCategory, deleteCategory, updateCategory } from './categoryAdmin'
+
+const newBackend = () => createMemoryBackend({ storage: null })
+
+const draft = {
+  name: 'Garden Tools',
+  slug: 'garden-tools',
+  icon: 'home',
+  color: 'green',
+  description: '',
+  sortOrder: 0,
+  parentId: 'cat_home_garden'
+}
+
+describe('createCategory', () => {
+  it('adds a subcategory under an existing parent', async () => {
+    const backend = newBackend()
+
+    const category = await createCategory(backend, draft)
+
+    expect(category.id).toMatch(/^cat_/)
+    expect((await backend.categories.get(category.id))?.parentId).toBe('cat_home_garden')
+  })
+
+  it('rejects a slug that is already taken', async () => {
+    const backend = newBackend()
+
+    await expect(createCategory(backend, { ...draft, slug: 'sports' })).rejects.toMatchObject({
+      code: 'duplicate_slug'
+    })
+  })
+})
+
+describe('updateCategory', () => {
+  it('moves products along when the slug changes', async () => {
+    const backend = newBackend()
+
+    await updateCategory(backend, 'cat_home_garden', { slug: 'home' })
+
+    expect((await backend.products.get('prod_planter'))?.category).toBe('home')
+    expect(await backend.products.list({ categories: ['home-garden'] })).toEqual([])
+  })
+
+  it('refuses to nest a category inside its own subcategory', async () => {
+    const backend = newBackend()
+
+    await expect(updateCategory(backend, 'cat_electronics', { parentId: 'cat_audio' })).rejects.toMatchObject({
+      code: 'invalid_parent'
+    })
+    expect((await backend.categories.get('cat_electronics'))?.parentId).toBeUndefined()
+  })
+})
+
+describe('deleteCategory', () => {
+  it('keeps categories that still have products or subcategories', async () => {
+    const backend = newBackend()
+
+    await expect(deleteCategory(backend, 'cat_sports')).rejects.toBeInstanceOf(CategoryAdminError)
+    await expect(deleteCategory(backend, 'cat_electronics')).rejects.toMatchObject({ code: 'in_use' })
+    expect(await backend.categories.get('cat_sports')).not.toBeNull()
+  })
+
+  it('removes an empty category', async () => {
+    const backend = newBackend()
+    const category = await createCategory(backend, draft)
+
+    await deleteCategory(backend, category.id)
+
+    expect(await backend.categories.get(category.id)).toBeNull()
+  })
+})
@@ -0,0 +1,93 @@
+import { categoryFilterValues, wouldCreateCycle, type Category, type CategoryChanges } from '../domain'
+import type { DataBackend } from '../data'
+import { createId } from '../lib/ids'
+
+type CategoryBackend = Pick<DataBackend, 'categories' | 'products'>
+
+export type CategoryAdminErrorCode = 'not_found' | 'duplicate_slug' | 'invalid_parent' | 'in_use'
+
+export class CategoryAdminError extends Error {
+  readonly code: CategoryAdminErrorCode
+
+  constructor(code: CategoryAdminErrorCode, message: string) {
+    super(message)
+    this.name = 'CategoryAdminError'
+    this.code = code
+  }
+}
+
+// What the admin form produces; ids and timestamps are assigned on save
+export type CategoryDraft = Omit<Category, 'id' | 'createdAt' | 'updatedAt'>
+
+function checkSlugAvailable(categories: Category[], slug: string, categoryId?: string) {
+  if (categories.some((category) => category.slug === slug && category.id !== categoryId)) {
+    throw new CategoryAdminError('duplicate_slug', `Another category already uses the slug "${slug}".`)
+  }
+}
+
+function checkParent(categories: Category[], categoryId: string, parentId: string | undefined) {
+  if (!parentId) return
+  if (!categories.some((category) => category.id === parentId)) {
+    throw new CategoryAdminError('invalid_parent', 'The parent category does not exist.')
+  }
+  if (wouldCreateCycle(categories, categoryId, parentId)) {
+    throw new CategoryAdminError('invalid_parent', 'A category cannot be nested inside itself.')
+  }
+}
+
+export async function createCategory(backend: CategoryBackend, draft: CategoryDraft): Promise<Category> {
+  const categories = await backend.categories.list()
+  const id = createId('cat')
+  checkSlugAvailable(categories, draft.slug)
+  checkParent(categories, id, draft.parentId)
+  const at = new Date().toISOString()
+  return backend.categories.create({ ...draft, id, createdAt: at, updatedAt: at })
+}
+
+// Products reference categories by slug, so renaming a slug re-points every
+// product (archived ones included) that used the old one.
+export async function updateCategory(
+  backend: CategoryBackend,
+  categoryId: string,
+  changes: CategoryChanges
+): Promise<Category> {
+  const categories = await backend.categories.list()
+  const category = categories.find((item) => item.id === categoryId)
+  if (!category) {
+    throw new CategoryAdminError('not_found', `Category ${categoryId} does not exist.`)
+  }
+  if (changes.slug !== undefined) checkSlugAvailable(categories, changes.slug, categoryId)
+  if ('parentId' in changes) checkParent(categories, categoryId, changes.parentId)
+
+  await backend.categories.update(categoryId, changes)
+
+  if (changes.slug !== undefined && changes.slug !== category.slug) {
+    const products = await backend.products.list({ categories: [category.slug, category.name], includeArchived: true })
+    for (const product of products) {
+      await backend.products.update(product.id, { category: changes.slug })
+    }
+  }
+  return { ...category, ...changes }
+}
+
+// Only empty leaf categories can be removed; products are never left
+// pointing at a category that no longer exists.
+export async function deleteCategory(backend: CategoryBackend, categoryId: string) {
+  const categories = await backend.categories.list()
+  const category = categories.find((item) => item.id === categoryId)
+  if (!category) {
+    throw new CategoryAdminError('not_found', `Category ${categoryId} does not exist.`)
+  }
+  if (categories.some((item) => item.parentId === categoryId)) {
+    throw new CategoryAdminError('in_use', `Move or delete the subcategories of ${category.name} first.`)
+  }
+  const products = await backend.products.list({
+    categories: categoryFilterValues([category], category.slug),
+    includeArchived: true,
+    limit: 1
+  })
+  if (products.length > 0) {
+    throw new CategoryAdminError('in_use', `${category.name} still has products. Move them to another category first.`)
+  }
+  await backend.categories.remove(categoryId)
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { GUEST_CART_OWNER, createMemoryBackend, fixtureUser } from '../data'
+import { mergeGuestCart } from './guestCart'
+
+const guestLine = (id: string, productId: string, quantity: number, variantId?: string) => ({
+  id,
+  userId: GUEST_CART_OWNER,
+  productId,
+  variantId,
+  quantity
+})
+
+describe('mergeGuestCart', () => {
+  it('adds guest quantities to the account cart, up to the stock, and drops archived products', async () => {
+    const backend = createMemoryBackend({
+      storage: null,
+      seed: { cartItems: [{ id: 'cart_1', userId: fixtureUser.id, productId: 'prod_planter', quantity: 2 }] }
+    })
+    await backend.products.update('prod_planter', { stockQuantity: 4 })
+    await backend.guestCart.add(guestLine('guest_1', 'prod_planter', 3))
+    await backend.guestCart.add(guestLine('guest_2', 'prod_football', 1))
+    await backend.guestCart.add(guestLine('guest_3', 'prod_running_tee', 1))
+    await backend.guestCart.add(guestLine('guest_4', 'prod_yoga_mat', 1))
+    await backend.products.update('prod_yoga_mat', { archived: true })
+
+    const result = await mergeGuestCart(backend, fixtureUser.id)
+
+    expect(result).toEqual({ merged: 2, clamped: 3 })
+    const cart = await backend.cart.listByUser(fixtureUser.id)
+    expect(cart.map((item) => [item.productId, item.quantity])).toEqual([
+      ['prod_planter', 4],
+      ['prod_football', 1]
+    ])
+    expect(cart.every((item) => item.userId === fixtureUser.id)).toBe(true)
+    expect(await backend.guestCart.listByUser(GUEST_CART_OWNER)).toEqual([])
+  })
+
+  it('does not add a line twice when a merge fails partway and runs again', async () => {
+    const backend = createMemoryBackend({ storage: null })
+    await backend.guestCart.add(guestLine('guest_1', 'prod_planter', 1))
+    await backend.guestCart.add(guestLine('guest_2', 'prod_football', 1))
+    const add = backend.cart.add
+    let adds = 0
+    backend.cart.add = async (item) => {
+      adds += 1
+      if (adds === 2) throw new Error('Network error')
+      return add(item)
+    }
+
+    await expect(mergeGuestCart(backend, fixtureUser.id)).rejects.toThrow('Network error')
+    await mergeGuestCart(backend, fixtureUser.id)
+
+    const cart = await backend.cart.listByUser(fixtureUser.id)
+    expect(cart.map((item) => [item.productId, item.quantity])).toEqual([
+      ['prod_planter', 1],
+      ['prod_football', 1]
+    ])
+    expect(await backend.guestCart.listByUser(GUEST_CART_OWNER)).toEqual([])
+  })
+
+  it('keeps variants apart', async () => {
+    const backend = createMemoryBackend({
+      storage: null,
+      seed: {
+        cartItems: [{ id: 'cart_1', userId: fixtureUser.id, productId: 'prod_denim_jacket', variantId: 'var_denim_blue_s', quantity: 1 }]
+      }
+    })
+    await backend.guestCart.add(guestLine('guest_1', 'prod_denim_jacket', 1, 'var_denim_blue_m'))
+
+    await mergeGuestCart(backend, fixtureUser.id)
+
+    expect((await backend.cart.listByUser(fixtureUser.id)).map((item) => item.variantId).sort()).toEqual([
+      'var_denim_blue_m',
+      'var_denim_blue_s'
+    ])
+  })
+})
@@ -0,0 +1,51 @@
+import { isArchived, lineStock } from '../domain'
+import { loadCartLines, type DataBackend } from '../data'
+import { createId } from '../lib/ids'
+
+type GuestCartBackend = Pick<DataBackend, 'cart' | 'guestCart' | 'products' | 'variants'>
+
+export interface GuestCartMerge {
+  // Guest lines now in the account's cart
+  merged: number
+  // Lines that were cut down, or dropped, because stock ran short or the
+  // product is no longer sold
+  clamped: number
+}
+
+// Moves the guest cart into the account that just signed in. A product
+// already in the account's cart gets the quantities added together, never
+// more than is in stock. The guest cart is emptied either way, one line as
+// soon as it is merged, so a merge that fails partway and runs again on the
+// next load never adds a line twice.
+export async function mergeGuestCart(backend: GuestCartBackend, userId: string): Promise<GuestCartMerge> {
+  const guestItems = await backend.guestCart.listByUser(userId)
+  const guestLines = await loadCartLines({ ...backend, cart: backend.guestCart }, userId)
+  const result: GuestCartMerge = { merged: 0, clamped: 0 }
+
+  for (const line of guestLines) {
+    const existing = await backend.cart.findByProduct(userId, line.productId, line.variantId)
+    const wanted = (existing?.quantity ?? 0) + line.quantity
+    // Archived products have been taken off sale since the guest added them
+    const quantity = isArchived(line.product) ? 0 : Math.min(wanted, lineStock(line))
+    if (quantity < wanted) result.clamped += 1
+
+    if (existing && quantity > existing.quantity) {
+      await backend.cart.updateQuantity(existing.id, quantity)
+    } else if (!existing && quantity > 0) {
+      await backend.cart.add({
+        id: createId('cart'),
+        userId,
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity
+      })
+    }
+    await backend.guestCart.remove(line.id)
+    if (quantity > 0) result.merged += 1
+  }
+
+  // Lines whose product is gone were never loaded above
+  const merged = new Set(guestLines.map((line) => line.id))
+  await Promise.all(guestItems.filter((item) => !merged.has(item.id)).map((item) => backend.guestCart.remove(item.id)))
+  return result
+}
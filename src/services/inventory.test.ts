@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createMemoryBackend, fixtureAddress, fixtureUser, loadCartLines } from '../data'
+import { findStockIssues, reserveStock } from './inventory'
+import { cancelOrder } from './orderLifecycle'
+import { setProductsArchived } from './catalogAdmin'
+import { InsufficientStockError, placeOrder } from './orderPlacement'
+
+const backendWithCart = (cartItems: { productId: string; variantId?: string; quantity: number }[]) => createMemoryBackend({
+  storage: null,
+  user: fixtureUser,
+  seed: {
+    cartItems: cartItems.map((item, index) => ({ id: `cart_${index + 1}`, userId: fixtureUser.id, ...item }))
+  }
+})
+
+const stockOf = async (backend: ReturnType<typeof createMemoryBackend>, productId: string) =>
+  (await backend.products.get(productId))!.stockQuantity
+
+const variantStockOf = async (backend: ReturnType<typeof createMemoryBackend>, variantId: string) =>
+  (await backend.variants.get(variantId))!.stockQuantity
+
+describe('inventory', () => {
+  it('reports lines that exceed current stock', async () => {
+    const backend = backendWithCart([
+      { productId: 'prod_smartwatch', quantity: 5 },
+      { productId: 'prod_running_tee', quantity: 1 },
+      { productId: 'prod_yoga_mat', quantity: 1 }
+    ])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+
+    expect(await findStockIssues(backend, lines)).toEqual([
+      { lineId: 'cart_1', productId: 'prod_smartwatch', productName: 'Fitness Smartwatch', requested: 5, available: 3 },
+      { lineId: 'cart_2', productId: 'prod_running_tee', productName: 'Running Tee', requested: 1, available: 0 }
+    ])
+  })
+
+  it('puts back earlier decrements when a later line runs short', async () => {
+    const backend = backendWithCart([
+      { productId: 'prod_yoga_mat', quantity: 2 },
+      { productId: 'prod_smartwatch', quantity: 1 }
+    ])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    // Another shopper buys the last watches after the cart was loaded
+    await backend.products.updateStock('prod_smartwatch', 0)
+
+    const { reserved, issues } = await reserveStock(backend, lines)
+
+    expect(reserved).toEqual([])
+    expect(issues).toHaveLength(1)
+    expect(await stockOf(backend, 'prod_yoga_mat')).toBe(30)
+  })
+
+  it('decrements stock when an order is placed and restores it on cancellation', async () => {
+    const backend = backendWithCart([{ productId: 'prod_smartwatch', quantity: 2 }])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+
+    const { order } = await placeOrder(backend, {
+      userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_stock'
+    })
+    expect(await stockOf(backend, 'prod_smartwatch')).toBe(1)
+
+    await cancelOrder(backend, order.id)
+    expect(await stockOf(backend, 'prod_smartwatch')).toBe(3)
+    expect((await backend.orders.get(order.id))!.status).toBe('cancelled')
+
+    // Cancelling twice must not restock twice
+    await cancelOrder(backend, order.id)
+    expect(await stockOf(backend, 'prod_smartwatch')).toBe(3)
+  })
+
+  it('rejects an order for the last unit once someone else has bought it', async () => {
+    const backend = backendWithCart([{ productId: 'prod_smartwatch', quantity: 3 }])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    await backend.products.updateStock('prod_smartwatch', 2)
+
+    const attempt = placeOrder(backend, {
+      userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_race'
+    })
+
+    await expect(attempt).rejects.toBeInstanceOf(InsufficientStockError)
+    await expect(attempt).rejects.toThrow('Only 2 of Fitness Smartwatch left (you requested 3).')
+    expect(await backend.orders.get('order_key_race')).toBeNull()
+    expect(await stockOf(backend, 'prod_smartwatch')).toBe(2)
+  })
+
+  it('refuses to sell a product archived while it sat in the cart', async () => {
+    const backend = backendWithCart([{ productId: 'prod_yoga_mat', quantity: 1 }])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    await setProductsArchived(backend, ['prod_yoga_mat'], true)
+
+    expect(await findStockIssues(backend, lines)).toEqual([
+      { lineId: 'cart_1', productId: 'prod_yoga_mat', productName: 'Yoga Mat', requested: 1, available: 0, noLongerSold: true }
+    ])
+    await expect(placeOrder(backend, {
+      userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_archived'
+    })).rejects.toThrow('Yoga Mat is no longer sold.')
+    expect(await stockOf(backend, 'prod_yoga_mat')).toBe(30)
+  })
+
+  it('sells the last unit once when two checkouts run at the same time', async () => {
+    const backend = backendWithCart([{ productId: 'prod_smartwatch', quantity: 1 }])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    await backend.products.updateStock('prod_smartwatch', 1)
+    // Network latency between reading the stock and writing it
+    const get = backend.products.get.bind(backend.products)
+    vi.spyOn(backend.products, 'get').mockImplementation(async (id) => {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      return get(id)
+    })
+    const checkout = (idempotencyKey: string) =>
+      placeOrder(backend, { userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey })
+
+    const results = await Promise.allSettled([checkout('key_first'), checkout('key_second')])
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected'])
+    expect(results[1]).toMatchObject({ reason: expect.any(InsufficientStockError) })
+    expect(await stockOf(backend, 'prod_smartwatch')).toBe(0)
+  })
+
+  it('refuses a line whose stock another checkout wrote over', async () => {
+    const backend = backendWithCart([{ productId: 'prod_smartwatch', quantity: 2 }])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    const updateStock = backend.products.updateStock.bind(backend.products)
+    // Another browser sells a watch just after this checkout writes
+    vi.spyOn(backend.products, 'updateStock').mockImplementationOnce(async (id, quantity) => {
+      await updateStock(id, quantity)
+      await updateStock(id, quantity - 1)
+    })
+
+    const { reserved, issues } = await reserveStock(backend, lines)
+
+    expect(reserved).toEqual([])
+    expect(issues).toEqual([expect.objectContaining({ productId: 'prod_smartwatch', requested: 2, available: 0 })])
+    expect(await stockOf(backend, 'prod_smartwatch')).toBe(0)
+  })
+
+  it('returns reserved stock when the order cannot be written', async () => {
+    const backend = backendWithCart([{ productId: 'prod_yoga_mat', quantity: 4 }])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    vi.spyOn(backend.orders, 'create').mockRejectedValueOnce(new Error('network down'))
+
+    await expect(placeOrder(backend, {
+      userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_fail'
+    })).rejects.toMatchObject({ code: 'write_failed' })
+    expect(await stockOf(backend, 'prod_yoga_mat')).toBe(30)
+  })
+
+  it('draws variant lines on the variant and keeps the product total in step', async () => {
+    const backend = backendWithCart([
+      { productId: 'prod_denim_jacket', variantId: 'var_denim_blue_l', quantity: 2 },
+      { productId: 'prod_denim_jacket', variantId: 'var_denim_blue_s', quantity: 1 }
+    ])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+
+    const { order } = await placeOrder(backend, {
+      userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_variant'
+    })
+    expect(await variantStockOf(backend, 'var_denim_blue_l')).toBe(1)
+    expect(await variantStockOf(backend, 'var_denim_blue_s')).toBe(3)
+    expect(await stockOf(backend, 'prod_denim_jacket')).toBe(9)
+    expect(order.totalAmount).toBe(247)
+    expect(await backend.orders.listItems(order.id)).toEqual([
+      expect.objectContaining({ variantId: 'var_denim_blue_l', sku: 'NL-DJ-BLU-L', variantLabel: 'Colour: Blue, Size: L', price: 84 }),
+      expect.objectContaining({ variantId: 'var_denim_blue_s', sku: 'NL-DJ-BLU-S', price: 79 })
+    ])
+
+    await cancelOrder(backend, order.id)
+    expect(await variantStockOf(backend, 'var_denim_blue_l')).toBe(3)
+    expect(await stockOf(backend, 'prod_denim_jacket')).toBe(12)
+  })
+
+  it('names the variant when it runs short', async () => {
+    const backend = backendWithCart([{ productId: 'prod_denim_jacket', variantId: 'var_denim_black_m', quantity: 1 }])
+    const lines = await loadCartLines(backend, fixtureUser.id)
+
+    expect(await findStockIssues(backend, lines)).toEqual([
+      expect.objectContaining({ productName: 'Denim Jacket (Colour: Black, Size: M)', requested: 1, available: 0 })
+    ])
+  })
+})
@@ -0,0 +1,189 @@
+import { isArchived, variantLabel, type CartLine, type OrderItem, type Product, type ProductVariant } from '../domain'
+import type { DataBackend } from '../data'
+
+type InventoryBackend = Pick<DataBackend, 'products' | 'variants'>
+
+export interface StockIssue {
+  lineId: string
+  productId: string
+  variantId?: string
+  // Includes the variant's options, e.g. "Denim Jacket (Colour: Blue, Size: M)"
+  productName: string
+  requested: number
+  // 0 when the product is sold out or no longer sold
+  available: number
+  // The product or variant was removed or archived, so it cannot come back
+  noLongerSold?: boolean
+}
+
+export interface StockReservation {
+  productId: string
+  variantId?: string
+  quantity: number
+}
+
+export function describeStockIssue(issue: StockIssue) {
+  if (issue.noLongerSold) {
+    return `${issue.productName} is no longer sold.`
+  }
+  if (issue.available === 0) {
+    return `${issue.productName} is out of stock.`
+  }
+  return `Only ${issue.available} of ${issue.productName} left (you requested ${issue.requested}).`
+}
+
+interface StockLevel {
+  product: Product | null
+  // Set for lines that name a variant; null once the variant is removed
+  variant?: ProductVariant | null
+  available: number
+}
+
+// Variant lines draw on the variant's stock; everything else on the
+// product's. Archived products are hidden from the shop and have none to sell.
+async function readStock(
+  backend: InventoryBackend,
+  { productId, variantId }: { productId: string; variantId?: string }
+): Promise<StockLevel> {
+  const product = await backend.products.get(productId)
+  const sold = product && !isArchived(product)
+  if (!variantId) return { product, available: sold ? product.stockQuantity : 0 }
+  const variant = await backend.variants.get(variantId)
+  return { product, variant, available: sold && variant ? variant.stockQuantity : 0 }
+}
+
+const noLongerSold = (stock: StockLevel) => !stock.product || isArchived(stock.product) || stock.variant === null
+
+// Something to take from stock: a cart line, or an order's item when an
+// order takes its stock again
+type StockLine = Pick<CartLine, 'id' | 'productId' | 'variantId' | 'quantity'> & Partial<Pick<CartLine, 'product' | 'variant'>>
+
+function issueFor(line: StockLine, stock: StockLevel): StockIssue {
+  const name = stock.product?.name ?? line.product?.name ?? 'A product no longer sold'
+  const variant = stock.variant ?? line.variant
+  return {
+    lineId: line.id,
+    productId: line.productId,
+    variantId: line.variantId,
+    productName: variant ? `${name} (${variantLabel(variant)})` : name,
+    requested: line.quantity,
+    available: stock.available,
+    noLongerSold: noLongerSold(stock) || undefined
+  }
+}
+
+const stockKey = ({ productId, variantId }: { productId: string; variantId?: string }) =>
+  variantId ? `${productId}:${variantId}` : productId
+
+// Re-reads current stock for every line rather than trusting the product
+// snapshot the cart was rendered with.
+export async function findStockIssues(backend: InventoryBackend, lines: CartLine[]): Promise<StockIssue[]> {
+  const requested = new Map<string, number>()
+  for (const line of lines) {
+    requested.set(stockKey(line), (requested.get(stockKey(line)) ?? 0) + line.quantity)
+  }
+
+  const issues: StockIssue[] = []
+  for (const line of lines) {
+    const stock = await readStock(backend, line)
+    if ((requested.get(stockKey(line)) ?? 0) > stock.available) {
+      issues.push(issueFor(line, stock))
+    }
+  }
+  return issues
+}
+
+// Moves `delta` units in or out of stock. A variant's product carries the
+// total over its variants, so it moves with the variant.
+async function shiftStock(backend: InventoryBackend, stock: StockLevel, delta: number) {
+  if (stock.variant) {
+    await backend.variants.updateStock(stock.variant.id, stock.variant.stockQuantity + delta)
+  }
+  if (stock.product) {
+    await backend.products.updateStock(stock.product.id, Math.max(0, stock.product.stockQuantity + delta))
+  }
+}
+
+// Stock is changed by reading the level and writing a new one, so changes in
+// this tab run one at a time per product (a variant's product total moves with
+// it). Other browsers are not covered: see reserveStock.
+const stockLocks = new Map<string, Promise<void>>()
+
+function withStockLock<T>(productId: string, task: () => Promise<T>): Promise<T> {
+  const run = (stockLocks.get(productId) ?? Promise.resolve()).then(task)
+  const settled = run.then(() => {}, () => {})
+  stockLocks.set(productId, settled)
+  void settled.then(() => {
+    if (stockLocks.get(productId) === settled) stockLocks.delete(productId)
+  })
+  return run
+}
+
+// Decrements stock for each line. If any product runs short part way through,
+// the decrements already applied are put back before the issue is reported.
+//
+// Neither backend can write stock conditionally, so after each decrement the
+// level is read back: a different value means another checkout wrote in
+// between, and the line is refused. That catches a write landing after ours
+// but not two browsers writing the same value, so on Blink the last unit can
+// still be sold twice; only a server-side decrement can rule that out. The
+// refused line's own decrement is not put back, since it may already have
+// been overwritten: a clash under-counts stock rather than over-counts it.
+export async function reserveStock(
+  backend: InventoryBackend,
+  lines: StockLine[]
+): Promise<{ reserved: StockReservation[]; issues: StockIssue[] }> {
+  const reserved: StockReservation[] = []
+  for (const line of lines) {
+    let issue: StockIssue | null
+    try {
+      issue = await withStockLock(line.productId, async () => {
+        const stock = await readStock(backend, line)
+        if (noLongerSold(stock) || line.quantity > stock.available) {
+          return issueFor(line, stock)
+        }
+        await shiftStock(backend, stock, -line.quantity)
+        const written = await readStock(backend, line)
+        if (written.available === stock.available - line.quantity) return null
+        // Whatever the other checkout left is less than this line can rely on
+        return issueFor(line, { ...written, available: Math.max(0, Math.min(written.available, line.quantity - 1)) })
+      })
+    } catch (error) {
+      await releaseStock(backend, reserved)
+      throw error
+    }
+    if (issue) {
+      await releaseStock(backend, reserved)
+      return { reserved: [], issues: [issue] }
+    }
+    reserved.push({ productId: line.productId, variantId: line.variantId, quantity: line.quantity })
+  }
+  return { reserved, issues: [] }
+}
+
+export async function releaseStock(backend: InventoryBackend, reservations: StockReservation[]) {
+  for (const reservation of reservations) {
+    try {
+      await withStockLock(reservation.productId, async () => {
+        await shiftStock(backend, await readStock(backend, reservation), reservation.quantity)
+      })
+    } catch (error) {
+      console.error(`Failed to restore ${reservation.quantity} of ${stockKey(reservation)} to stock:`, error)
+    }
+  }
+}
+
+export function reservationsFor(items: Pick<OrderItem, 'productId' | 'variantId' | 'quantity'>[]): StockReservation[] {
+  return items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity }))
+}
+
+// Shrinks each offending cart line to what is available, dropping sold-out lines
+export async function adjustCartToStock(backend: Pick<DataBackend, 'cart'>, issues: StockIssue[]) {
+  for (const issue of issues) {
+    if (issue.available > 0) {
+      await backend.cart.updateQuantity(issue.lineId, issue.available)
+    } else {
+      await backend.cart.remove(issue.lineId)
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { fixtureProducts } from '../data'
+import type { OrderDetail } from '../data'
+import { ordersToCsv } from './orderExport'
+
+const detail: OrderDetail = {
+  order: {
+    id: 'order_1',
+    userId: 'user_1',
+    customerEmail: '=cmd@example.com',
+    totalAmount: 158,
+    status: 'shipped',
+    statusHistory: [],
+    shippingAddress: '1 Main St, Apt "B"\nSpringfield',
+    createdAt: '2024-05-01T10:00:00.000Z'
+  },
+  lines: [
+    { id: 'i1', orderId: 'order_1', productId: 'prod_denim_jacket', quantity: 2, price: 79, product: fixtureProducts[2] },
+    { id: 'i2', orderId: 'order_1', productId: 'prod_gone', quantity: 1, price: 0, product: null }
+  ]
+}
+
+describe('ordersToCsv', () => {
+  it('writes one quoted, formula-safe row per order', () => {
+    const [header, row] = ordersToCsv([detail]).split('\r\n')
+
+    expect(header).toBe('Order ID,Placed,Customer,Status,Items,Units,Total,Shipping address,Lines')
+    expect(row).toBe(
+      'order_1,2024-05-01T10:00:00.000Z,\'=cmd@example.com,Shipped,2,3,158.00,' +
+      '"1 Main St, Apt ""B""\nSpringfield",' +
+      '2 × Denim Jacket @ 79.00 = 158.00; 1 × prod_gone @ 0.00 = 0.00'
+    )
+  })
+})
@@ -0,0 +1,46 @@
+import { orderLineTotal, orderStatusLabels, type Order, type OrderLine } from '../domain'
+import { loadOrderDetail, type DataBackend, type OrderDetail } from '../data'
+
+type ExportBackend = Pick<DataBackend, 'orders' | 'products'>
+
+const columns = ['Order ID', 'Placed', 'Customer', 'Status', 'Items', 'Units', 'Total', 'Shipping address', 'Lines']
+
+// Spreadsheet apps execute cells that start with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: string | number) {
+  let text = String(value)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function lineSummary(line: OrderLine) {
+  const name = line.product?.name ?? line.productId
+  const label = line.variantLabel ? `${name} (${line.variantLabel})` : name
+  return `${line.quantity} × ${label} @ ${line.price.toFixed(2)} = ${orderLineTotal(line).toFixed(2)}`
+}
+
+// One row per order; the individual lines are summarised in the last column
+// as "quantity × name @ price" so the file stays one order per row. Variant
+// lines name their options, e.g. "Denim Jacket (Colour: Blue, Size: M)".
+export function ordersToCsv(details: OrderDetail[]) {
+  const rows = details.map(({ order, lines }) => [
+    order.id,
+    order.createdAt ?? '',
+    order.customerEmail ?? order.userId ?? '',
+    orderStatusLabels[order.status],
+    lines.length,
+    lines.reduce((sum, line) => sum + line.quantity, 0),
+    order.totalAmount.toFixed(2),
+    order.shippingAddress,
+    lines.map(lineSummary).join('; ')
+  ])
+  return [columns, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n')
+}
+
+export async function exportOrdersCsv(backend: ExportBackend, orders: Order[]) {
+  const details = await Promise.all(orders.map((order) => loadOrderDetail(backend, order.id)))
+  return ordersToCsv(details.filter((detail): detail is OrderDetail => detail !== null))
+}
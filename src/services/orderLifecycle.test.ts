@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest'
+import { IllegalTransitionError, type OrderStatus } from '../domain'
+import { createMemoryBackend, fixtureUser, type MemorySeed } from '../data'
+import { OrderNotFoundError, PaymentNotCapturedError, cancelOrder, expireUnpaidOrders, transitionOrderStatus } from './orderLifecycle'
+
+const seedOrder = (status: OrderStatus): Partial<MemorySeed> => ({
+  orders: [{
+    id: 'order_1',
+    userId: fixtureUser.id,
+    totalAmount: 79,
+    status,
+    statusHistory: [{ status: 'pending', at: '2024-04-01T10:00:00.000Z' }],
+    shippingAddress: '1 Main St'
+  }],
+  orderItems: [{ id: 'order_1_item_1', orderId: 'order_1', productId: 'prod_denim_jacket', quantity: 2, price: 39.5 }]
+})
+
+const backendWith = (status: OrderStatus) => createMemoryBackend({ storage: null, user: fixtureUser, seed: seedOrder(status) })
+
+describe('transitionOrderStatus', () => {
+  it('persists the new status with its timestamp and note', async () => {
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        ...seedOrder('pending'),
+        payments: [{ id: 'pay_1', orderId: 'order_1', provider: 'mock', intentId: 'pi_1', amount: 79, status: 'captured' }]
+      }
+    })
+
+    await transitionOrderStatus(backend, 'order_1', 'paid', { at: '2024-04-02T10:00:00.000Z', note: 'Card captured' })
+
+    const stored = await backend.orders.get('order_1')
+    expect(stored?.status).toBe('paid')
+    expect(stored?.statusHistory[stored.statusHistory.length - 1]).toEqual({ status: 'paid', at: '2024-04-02T10:00:00.000Z', note: 'Card captured' })
+  })
+
+  it('refuses to mark an order paid before its payment is captured', async () => {
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        ...seedOrder('pending'),
+        payments: [{ id: 'pay_1', orderId: 'order_1', provider: 'mock', intentId: 'pi_1', amount: 79, status: 'authorized' }]
+      }
+    })
+
+    await expect(transitionOrderStatus(backend, 'order_1', 'paid')).rejects.toBeInstanceOf(PaymentNotCapturedError)
+    expect((await backend.orders.get('order_1'))?.status).toBe('pending')
+  })
+
+  it('writes nothing for an illegal move', async () => {
+    const backend = backendWith('pending')
+
+    await expect(transitionOrderStatus(backend, 'order_1', 'delivered')).rejects.toBeInstanceOf(IllegalTransitionError)
+    expect((await backend.orders.get('order_1'))?.status).toBe('pending')
+  })
+
+  it('reports unknown orders', async () => {
+    await expect(transitionOrderStatus(backendWith('pending'), 'order_missing', 'paid'))
+      .rejects.toBeInstanceOf(OrderNotFoundError)
+  })
+
+  it('restocks a pending order on cancellation but refuses to cancel one already paid for', async () => {
+    const pending = backendWith('pending')
+    await cancelOrder(pending, 'order_1')
+    expect((await pending.products.get('prod_denim_jacket'))?.stockQuantity).toBe(14)
+
+    for (const status of ['paid', 'fulfilled', 'shipped'] as const) {
+      const backend = backendWith(status)
+      await expect(cancelOrder(backend, 'order_1')).rejects.toBeInstanceOf(IllegalTransitionError)
+      expect((await backend.products.get('prod_denim_jacket'))?.stockQuantity).toBe(12)
+    }
+  })
+})
+
+describe('expireUnpaidOrders', () => {
+  const unpaid = (id: string, createdAt: string, stockReleased = false) => ({
+    id,
+    userId: fixtureUser.id,
+    totalAmount: 39.5,
+    status: 'pending' as const,
+    statusHistory: [{ status: 'pending' as const, at: createdAt }],
+    shippingAddress: '1 Main St',
+    stockReleased,
+    createdAt
+  })
+  const line = (orderId: string) => ({ id: `${orderId}_item_1`, orderId, productId: 'prod_denim_jacket', quantity: 1, price: 39.5 })
+
+  it('cancels orders left unpaid too long and restocks only what they still hold', async () => {
+    const orders = [
+      unpaid('order_stale', '2024-04-01T09:00:00.000Z'),
+      unpaid('order_declined', '2024-04-01T09:00:00.000Z', true),
+      unpaid('order_authorized', '2024-04-01T09:00:00.000Z'),
+      unpaid('order_recent', '2024-04-01T09:45:00.000Z')
+    ]
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        orders,
+        orderItems: orders.map((order) => line(order.id)),
+        payments: [{ id: 'pay_1', orderId: 'order_authorized', provider: 'mock', intentId: 'pi_1', amount: 39.5, status: 'authorized' }]
+      }
+    })
+
+    const expired = await expireUnpaidOrders(backend, { at: '2024-04-01T10:00:00.000Z' })
+
+    expect(expired.map((order) => order.id).sort()).toEqual(['order_declined', 'order_stale'])
+    expect(expired[0].statusHistory[1]).toEqual({ status: 'cancelled', at: '2024-04-01T10:00:00.000Z', note: 'Not paid for in time' })
+    expect((await backend.orders.get('order_authorized'))?.status).toBe('pending')
+    expect((await backend.orders.get('order_recent'))?.status).toBe('pending')
+    // The declined order gave its jacket back when the card failed
+    expect((await backend.products.get('prod_denim_jacket'))?.stockQuantity).toBe(13)
+  })
+
+  it('restocks once when two runs overlap', async () => {
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: { orders: [unpaid('order_stale', '2024-04-01T09:00:00.000Z')], orderItems: [line('order_stale')] }
+    })
+    const get = backend.orders.get.bind(backend.orders)
+    vi.spyOn(backend.orders, 'get').mockImplementation(async (id) => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      return get(id)
+    })
+
+    await Promise.all([
+      expireUnpaidOrders(backend, { at: '2024-04-01T10:00:00.000Z' }),
+      expireUnpaidOrders(backend, { at: '2024-04-01T10:00:00.000Z' })
+    ])
+
+    expect((await backend.orders.get('order_stale'))?.status).toBe('cancelled')
+    expect((await backend.products.get('prod_denim_jacket'))?.stockQuantity).toBe(13)
+  })
+})
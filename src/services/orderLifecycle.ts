@@ -0,0 +1,130 @@
+import { IllegalTransitionError, applyTransition, holdsStock, type Order, type OrderStatus } from '../domain'
+import type { DataBackend } from '../data'
+import { releaseStock, reservationsFor } from './inventory'
+
+type LifecycleBackend = Pick<DataBackend, 'orders' | 'products' | 'variants' | 'payments'>
+
+export class OrderNotFoundError extends Error {
+  readonly orderId: string
+
+  constructor(orderId: string) {
+    super(`Order ${orderId} does not exist.`)
+    this.name = 'OrderNotFoundError'
+    this.orderId = orderId
+  }
+}
+
+// Orders are only paid once their money has been taken, never on say-so
+export class PaymentNotCapturedError extends Error {
+  readonly orderId: string
+
+  constructor(orderId: string) {
+    super(`Order ${orderId} has no captured payment, so it cannot be marked as paid.`)
+    this.name = 'PaymentNotCapturedError'
+    this.orderId = orderId
+  }
+}
+
+export interface TransitionOptions {
+  note?: string
+  at?: string
+}
+
+// Cancellations in progress, by order id
+const cancelling = new Map<string, Promise<Order>>()
+
+// Moves an order to `to`, recording the change in its status history. Illegal
+// moves throw IllegalTransitionError, and marking an order paid before its
+// payment is captured throws PaymentNotCapturedError, before anything is
+// written. Cancelling an order whose goods are still held returns them to
+// stock, unless a declined payment already did; the status is written first
+// so a failed restock under-counts rather than double-counts on retry.
+export function transitionOrderStatus(
+  backend: LifecycleBackend,
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions = {}
+): Promise<Order> {
+  if (to !== 'cancelled') return writeTransition(backend, orderId, to, options)
+
+  // Overlapping cancellations in this tab share one restock
+  const running = cancelling.get(orderId)
+  if (running) return running
+  const attempt = writeTransition(backend, orderId, to, options).finally(() => {
+    cancelling.delete(orderId)
+  })
+  cancelling.set(orderId, attempt)
+  return attempt
+}
+
+async function writeTransition(
+  backend: LifecycleBackend,
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions
+): Promise<Order> {
+  const order = await backend.orders.get(orderId)
+  if (!order) {
+    throw new OrderNotFoundError(orderId)
+  }
+
+  const next = applyTransition(order, to, options.at ?? new Date().toISOString(), options.note)
+  if (to === 'paid') {
+    const payments = await backend.payments.listByOrder(orderId)
+    if (!payments.some((payment) => payment.status === 'captured')) {
+      throw new PaymentNotCapturedError(orderId)
+    }
+  }
+  await backend.orders.updateStatus(orderId, { status: next.status, statusHistory: next.statusHistory })
+
+  if (to === 'cancelled' && holdsStock(order.status) && !order.stockReleased && await wroteLast(backend, next)) {
+    await releaseStock(backend, reservationsFor(await backend.orders.listItems(orderId)))
+  }
+
+  return next
+}
+
+// Another tab cancelling the same order writes its own status history, so
+// only the cancellation whose write is stored restocks. Both can still read
+// their own write if neither lands in between; Blink cannot rule that out.
+async function wroteLast(backend: LifecycleBackend, written: Order) {
+  const stored = await backend.orders.get(written.id)
+  const last = (order: Order) => order.statusHistory[order.statusHistory.length - 1]
+  return stored?.status === written.status && last(stored)?.at === last(written)?.at
+}
+
+// Cancelling is safe to repeat: an already cancelled order is returned as is.
+export async function cancelOrder(backend: LifecycleBackend, orderId: string, note?: string): Promise<Order> {
+  const order = await backend.orders.get(orderId)
+  if (order?.status === 'cancelled') {
+    return order
+  }
+  return transitionOrderStatus(backend, orderId, 'cancelled', { note })
+}
+
+// How long an order may wait for its payment before it is cancelled
+export const UNPAID_ORDER_TTL_MS = 30 * 60_000
+
+// Cancels orders left unpaid for longer than UNPAID_ORDER_TTL_MS, e.g. after
+// a 3-D Secure challenge the shopper walked away from, so their stock goes
+// back on sale. Orders whose card has been authorized are left for staff to
+// capture. Overlapping runs cancel and restock each order once. Returns the
+// orders cancelled.
+export async function expireUnpaidOrders(backend: LifecycleBackend, options: TransitionOptions = {}): Promise<Order[]> {
+  const at = options.at ?? new Date().toISOString()
+  const cutoff = new Date(Date.parse(at) - UNPAID_ORDER_TTL_MS).toISOString()
+  const stale = await backend.orders.list({ statuses: ['pending'], createdTo: cutoff })
+
+  const expired: Order[] = []
+  for (const order of stale) {
+    const payments = await backend.payments.listByOrder(order.id)
+    if (payments.some((payment) => payment.status === 'authorized' || payment.status === 'captured')) continue
+    try {
+      expired.push(await transitionOrderStatus(backend, order.id, 'cancelled', { at, note: options.note ?? 'Not paid for in time' }))
+    } catch (error) {
+      // Paid or cancelled since it was listed
+      if (!(error instanceof IllegalTransitionError)) throw error
+    }
+  }
+  return expired
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, type MailMessage } from '../data'
+import {
+  OrderLookupError,
+  findOrderByEmail,
+  grantGuestOrderAccess,
+  hasGuestOrderAccess,
+  sendLookupCode,
+  verifyLookupCode
+} from './orderLookup'
+
+const guestOrder = {
+  id: 'order_guest',
+  customerEmail: 'Guest@Example.com',
+  totalAmount: 34.5,
+  status: 'pending' as const,
+  statusHistory: [],
+  shippingAddress: '1 Main St'
+}
+
+const newBackend = (outbox: MailMessage[] = []) =>
+  createMemoryBackend({ storage: null, outbox, seed: { orders: [guestOrder] } })
+
+const sentCode = (message: MailMessage) => message.text.match(/\d{6}/)![0]
+
+describe('findOrderByEmail', () => {
+  it('matches the email case-insensitively and hides which part was wrong', async () => {
+    const backend = newBackend()
+
+    expect(await findOrderByEmail(backend, ' #order_guest ', 'guest@example.com ')).toMatchObject({ id: 'order_guest' })
+    await expect(findOrderByEmail(backend, 'order_guest', 'someone@example.com')).rejects.toMatchObject({ code: 'not_found' })
+    await expect(findOrderByEmail(backend, 'order_missing', 'guest@example.com')).rejects.toBeInstanceOf(OrderLookupError)
+  })
+})
+
+describe('lookup codes', () => {
+  it('emails a code that works once', async () => {
+    const outbox: MailMessage[] = []
+    const backend = newBackend(outbox)
+    const order = (await backend.orders.get('order_guest'))!
+
+    await sendLookupCode(backend, order)
+    expect(outbox).toEqual([expect.objectContaining({ to: 'Guest@Example.com', subject: 'Your code for order #order_guest' })])
+    expect(await backend.orderLookupCodes.findByOrder('order_guest')).not.toHaveProperty('code')
+
+    await verifyLookupCode(backend, 'order_guest', sentCode(outbox[0]))
+    await expect(verifyLookupCode(backend, 'order_guest', sentCode(outbox[0]))).rejects.toMatchObject({ code: 'expired_code' })
+  })
+
+  it('rejects wrong guesses, then stops accepting the code', async () => {
+    const outbox: MailMessage[] = []
+    const backend = newBackend(outbox)
+    await sendLookupCode(backend, (await backend.orders.get('order_guest'))!)
+    const wrong = sentCode(outbox[0]) === '000000' ? '111111' : '000000'
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      await expect(verifyLookupCode(backend, 'order_guest', wrong)).rejects.toMatchObject({ code: 'wrong_code' })
+    }
+    await expect(verifyLookupCode(backend, 'order_guest', sentCode(outbox[0]))).rejects.toMatchObject({ code: 'too_many_attempts' })
+  })
+
+  it('throttles new codes and keeps counting wrong guesses across them', async () => {
+    const outbox: MailMessage[] = []
+    const backend = newBackend(outbox)
+    const order = (await backend.orders.get('order_guest'))!
+    const send = (at: string) => sendLookupCode(backend, order, { at })
+    const guessWrong = async (at: string) => {
+      const wrong = sentCode(outbox[outbox.length - 1]) === '000000' ? '111111' : '000000'
+      await expect(verifyLookupCode(backend, 'order_guest', wrong, { at })).rejects.toMatchObject({ code: 'wrong_code' })
+    }
+
+    await send('2026-01-01T10:00:00.000Z')
+    await expect(send('2026-01-01T10:00:30.000Z')).rejects.toMatchObject({ code: 'resend_too_soon' })
+    for (let attempt = 0; attempt < 4; attempt += 1) await guessWrong('2026-01-01T10:00:40.000Z')
+
+    await send('2026-01-01T10:01:00.000Z')
+    await guessWrong('2026-01-01T10:01:10.000Z')
+    await expect(verifyLookupCode(backend, 'order_guest', sentCode(outbox[1]), { at: '2026-01-01T10:01:20.000Z' }))
+      .rejects.toMatchObject({ code: 'too_many_attempts' })
+    await expect(send('2026-01-01T10:05:00.000Z')).rejects.toMatchObject({
+      code: 'too_many_attempts',
+      message: 'Too many wrong codes. Try again in 6 minutes.'
+    })
+
+    // A fresh code once the used-up one has expired
+    await send('2026-01-01T10:11:00.000Z')
+    await verifyLookupCode(backend, 'order_guest', sentCode(outbox[2]), { at: '2026-01-01T10:11:10.000Z' })
+  })
+
+  it('expires codes after ten minutes', async () => {
+    const outbox: MailMessage[] = []
+    const backend = newBackend(outbox)
+    await sendLookupCode(backend, (await backend.orders.get('order_guest'))!, { at: '2026-01-01T10:00:00.000Z' })
+
+    await expect(verifyLookupCode(backend, 'order_guest', sentCode(outbox[0]), { at: '2026-01-01T10:10:00.000Z' }))
+      .rejects.toMatchObject({ code: 'expired_code' })
+  })
+})
+
+describe('guest order access', () => {
+  it('remembers granted orders in the given storage', () => {
+    grantGuestOrderAccess('order_guest', sessionStorage)
+
+    expect(hasGuestOrderAccess('order_guest', sessionStorage)).toBe(true)
+    expect(hasGuestOrderAccess('order_other', sessionStorage)).toBe(false)
+  })
+})
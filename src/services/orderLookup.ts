@@ -0,0 +1,149 @@
+import { normalizeEmail, type Order } from '../domain'
+import type { DataBackend } from '../data'
+import { createId } from '../lib/ids'
+
+export type OrderLookupErrorCode = 'not_found' | 'wrong_code' | 'expired_code' | 'too_many_attempts' | 'resend_too_soon'
+
+export class OrderLookupError extends Error {
+  readonly code: OrderLookupErrorCode
+
+  constructor(code: OrderLookupErrorCode, message: string) {
+    super(message)
+    this.name = 'OrderLookupError'
+    this.code = code
+  }
+}
+
+type LookupBackend = Pick<DataBackend, 'orders' | 'orderLookupCodes' | 'mail'>
+
+export const LOOKUP_CODE_LENGTH = 6
+const LOOKUP_CODE_TTL_MS = 10 * 60_000
+const MAX_CODE_ATTEMPTS = 5
+// How long a guest waits before asking for another code
+const RESEND_COOLDOWN_MS = 60_000
+
+export interface LookupOptions {
+  at?: string
+}
+
+// Finds a guest's order by its number and the email it was placed with. A
+// wrong email is reported exactly like a missing order, so the form cannot
+// be used to probe which order numbers exist.
+export async function findOrderByEmail(
+  backend: Pick<DataBackend, 'orders'>,
+  orderNumber: string,
+  email: string
+): Promise<Order> {
+  const orderId = orderNumber.trim().replace(/^#/, '')
+  const order = orderId ? await backend.orders.get(orderId) : null
+  if (!order?.customerEmail || normalizeEmail(order.customerEmail) !== normalizeEmail(email)) {
+    throw new OrderLookupError('not_found', "We couldn't find an order with that number and email.")
+  }
+  return order
+}
+
+// The hash only keeps the code out of plain sight. The codes table is read
+// from the browser like every other table, and a six-digit code hashed
+// without a secret is found by trying all million of them, so this check is
+// advisory: it stops casual lookups, not someone who reads the table. A
+// real guarantee needs the hash kept and checked on a server.
+async function hashCode(orderId: string, code: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${orderId}:${code}`))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function randomCode() {
+  const [value] = crypto.getRandomValues(new Uint32Array(1))
+  return String(value % 10 ** LOOKUP_CODE_LENGTH).padStart(LOOKUP_CODE_LENGTH, '0')
+}
+
+// Emails a fresh one-time code to the address on the order, replacing any
+// code sent before. Returns when the code stops working. Wrong guesses carry
+// over to the new code while the old one is live, and a code used up by
+// wrong guesses is only replaced once it expires, so asking again does not
+// buy more guesses. Codes can be asked for once a minute.
+export async function sendLookupCode(backend: LookupBackend, order: Order, options: LookupOptions = {}) {
+  if (!order.customerEmail) {
+    throw new OrderLookupError('not_found', "We couldn't find an order with that number and email.")
+  }
+  const at = options.at ?? new Date().toISOString()
+  const expiresAt = new Date(Date.parse(at) + LOOKUP_CODE_TTL_MS).toISOString()
+
+  const previous = await backend.orderLookupCodes.findByOrder(order.id)
+  const live = previous && previous.expiresAt > at ? previous : null
+  if (live && live.attempts >= MAX_CODE_ATTEMPTS) {
+    const minutes = Math.ceil((Date.parse(live.expiresAt) - Date.parse(at)) / 60_000)
+    throw new OrderLookupError(
+      'too_many_attempts',
+      `Too many wrong codes. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`
+    )
+  }
+  if (live?.createdAt && Date.parse(at) - Date.parse(live.createdAt) < RESEND_COOLDOWN_MS) {
+    throw new OrderLookupError('resend_too_soon', 'We just sent you a code. Wait a minute before asking for another.')
+  }
+
+  const code = randomCode()
+  if (previous) await backend.orderLookupCodes.remove(previous.id)
+  await backend.orderLookupCodes.create({
+    id: createId('lookup'),
+    orderId: order.id,
+    codeHash: await hashCode(order.id, code),
+    expiresAt,
+    attempts: live?.attempts ?? 0,
+    createdAt: at
+  })
+
+  await backend.mail.send({
+    to: order.customerEmail,
+    subject: `Your code for order #${order.id}`,
+    text: `Enter ${code} to view order #${order.id}. The code expires in ${LOOKUP_CODE_TTL_MS / 60_000} minutes.`
+  })
+  return expiresAt
+}
+
+// Checks a code sent by sendLookupCode. A correct code is used up; after
+// too many wrong guesses the code stops working until it expires.
+export async function verifyLookupCode(
+  backend: Pick<DataBackend, 'orderLookupCodes'>,
+  orderId: string,
+  code: string,
+  options: LookupOptions = {}
+) {
+  const at = options.at ?? new Date().toISOString()
+  const sent = await backend.orderLookupCodes.findByOrder(orderId)
+  if (!sent || sent.expiresAt <= at) {
+    throw new OrderLookupError('expired_code', 'That code has expired. Request a new one.')
+  }
+  if (sent.attempts >= MAX_CODE_ATTEMPTS) {
+    throw new OrderLookupError('too_many_attempts', 'Too many wrong codes. Try again once the code has expired.')
+  }
+  if ((await hashCode(orderId, code.trim())) !== sent.codeHash) {
+    await backend.orderLookupCodes.update(sent.id, { attempts: sent.attempts + 1 })
+    throw new OrderLookupError('wrong_code', "That code isn't right. Check the email and try again.")
+  }
+  await backend.orderLookupCodes.remove(sent.id)
+}
+
+const GUEST_ORDERS_STORAGE = 'shopeasy:guest-orders'
+
+function readGuestOrders(storage: Storage): string[] {
+  try {
+    const stored = JSON.parse(storage.getItem(GUEST_ORDERS_STORAGE) ?? '[]')
+    return Array.isArray(stored) ? stored.filter((entry) => typeof entry === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// Lets this tab show a guest order once the buyer has placed it or proven
+// they own it. Closing the tab forgets it.
+export function grantGuestOrderAccess(orderId: string, storage: Storage = sessionStorage) {
+  const orderIds = readGuestOrders(storage)
+  if (!orderIds.includes(orderId)) {
+    storage.setItem(GUEST_ORDERS_STORAGE, JSON.stringify([...orderIds, orderId]))
+  }
+}
+
+export function hasGuestOrderAccess(orderId: string, storage: Storage = sessionStorage) {
+  return readGuestOrders(storage).includes(orderId)
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  GUEST_CART_OWNER,
+  createBlinkBackend,
+  createMemoryBackend,
+  fixtureAddress,
+  fixtureProducts,
+  fixtureUser,
+  loadCartLines,
+  type DataBackend
+} from '../data'
+import { createFakeBlink } from '../test/fakeBlink'
+import { OrderPlacementError, checkoutKeyFor, orderIdFor, placeOrder, releaseCheckoutKey } from './orderPlacement'
+
+const seededBackend = () => createMemoryBackend({
+  storage: null,
+  user: fixtureUser,
+  seed: {
+    cartItems: [
+      { id: 'cart_1', userId: fixtureUser.id, productId: 'prod_headphones', quantity: 2 },
+      { id: 'cart_2', userId: fixtureUser.id, productId: 'prod_yoga_mat', quantity: 1 }
+    ]
+  }
+})
+
+async function checkout(backend: DataBackend, idempotencyKey = 'key_1') {
+  const lines = await loadCartLines(backend, fixtureUser.id)
+  return placeOrder(backend, { userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey })
+}
+
+describe('placeOrder', () => {
+  let backend: DataBackend
+
+  beforeEach(() => {
+    backend = seededBackend()
+  })
+
+  it('writes the order with its items and clears the cart', async () => {
+    const { order, replayed } = await checkout(backend)
+
+    expect(replayed).toBe(false)
+    expect(order).toMatchObject({
+      id: orderIdFor('key_1'),
+      totalAmount: 298.98,
+      status: 'pending',
+      shippingAddress: 'Local Shopper\n1 Main St\nSpringfield, IL 62701\nUnited States',
+      shipTo: fixtureAddress
+    })
+    expect(await backend.orders.get(order.id)).not.toBeNull()
+    expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([])
+  })
+
+  it('replays instead of duplicating when retried with the same key', async () => {
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    const input = { userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_1' }
+    const create = vi.spyOn(backend.orders, 'create')
+
+    const first = await placeOrder(backend, input)
+    const second = await placeOrder(backend, input)
+
+    expect(second).toEqual({ order: first.order, replayed: true })
+    expect(create).toHaveBeenCalledTimes(1)
+  })
+
+  it('joins a concurrent double submit', async () => {
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    const input = { userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_1' }
+    const create = vi.spyOn(backend.orders, 'create')
+
+    const [first, second] = await Promise.all([placeOrder(backend, input), placeOrder(backend, input)])
+
+    expect(first).toBe(second)
+    expect(create).toHaveBeenCalledTimes(1)
+  })
+
+  it('rolls back the order when its items cannot be written', async () => {
+    vi.spyOn(backend.orders, 'addItems').mockRejectedValueOnce(new Error('network down'))
+
+    await expect(checkout(backend)).rejects.toMatchObject({ code: 'write_failed' })
+    expect(await backend.orders.get(orderIdFor('key_1'))).toBeNull()
+    expect(await backend.cart.listByUser(fixtureUser.id)).toHaveLength(2)
+
+    // The same key succeeds once the backend recovers
+    const { replayed } = await checkout(backend)
+    expect(replayed).toBe(false)
+  })
+
+  it('finishes clearing a half-cleared cart on retry', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(backend.cart, 'remove').mockRejectedValueOnce(new Error('network down'))
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    const input = { userId: fixtureUser.id, lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_1' }
+
+    const first = await placeOrder(backend, input)
+    expect(await backend.cart.listByUser(fixtureUser.id)).toHaveLength(1)
+
+    const retry = await placeOrder(backend, input)
+    expect(retry).toEqual({ order: first.order, replayed: true })
+    expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([])
+  })
+
+  it('rejects an empty cart or an incomplete address', async () => {
+    await expect(placeOrder(backend, {
+      userId: fixtureUser.id, lines: [], shippingAddress: fixtureAddress, idempotencyKey: 'key_empty'
+    })).rejects.toMatchObject({ code: 'empty_cart' })
+
+    const lines = await loadCartLines(backend, fixtureUser.id)
+    await expect(placeOrder(backend, {
+      userId: fixtureUser.id, lines, shippingAddress: { ...fixtureAddress, city: '   ' }, idempotencyKey: 'key_blank'
+    })).rejects.toBeInstanceOf(OrderPlacementError)
+    await expect(placeOrder(backend, {
+      userId: fixtureUser.id, lines, shippingAddress: { ...fixtureAddress, postalCode: '6270' }, idempotencyKey: 'key_zip'
+    })).rejects.toMatchObject({ code: 'invalid_address', message: 'ZIP code should look like 94103.' })
+  })
+
+  it('places a guest order from the guest cart under the given email', async () => {
+    await backend.guestCart.add({ id: 'guest_1', userId: GUEST_CART_OWNER, productId: 'prod_planter', quantity: 1 })
+    const lines = await loadCartLines({ ...backend, cart: backend.guestCart }, GUEST_CART_OWNER)
+    const input = { lines, shippingAddress: fixtureAddress, idempotencyKey: 'key_guest' }
+
+    await expect(placeOrder(backend, { ...input, customerEmail: 'not an email' }))
+      .rejects.toMatchObject({ code: 'missing_email' })
+    const { order } = await placeOrder(backend, { ...input, customerEmail: ' guest@example.com ' })
+
+    expect(order.userId).toBeUndefined()
+    expect(order).toMatchObject({ customerEmail: 'guest@example.com', totalAmount: 34.5 })
+    expect(await backend.guestCart.listByUser(GUEST_CART_OWNER)).toEqual([])
+    expect(await backend.cart.listByUser(fixtureUser.id)).toHaveLength(2)
+  })
+
+  it('refuses orders on Blink until a payment provider is configured', async () => {
+    const fake = createFakeBlink({
+      user: fixtureUser,
+      tables: {
+        products: fixtureProducts,
+        cartItems: [{ id: 'cart_1', userId: fixtureUser.id, productId: 'prod_planter', quantity: 1 }]
+      }
+    })
+    const blinkBackend = createBlinkBackend(fake.client, { storage: null })
+
+    await expect(checkout(blinkBackend)).rejects.toMatchObject({ code: 'payments_unavailable' })
+    expect(await blinkBackend.orders.get(orderIdFor('key_1'))).toBeNull()
+    expect((await blinkBackend.products.get('prod_planter'))?.stockQuantity).toBe(40)
+  })
+})
+
+describe('checkoutKeyFor', () => {
+  it('keeps the key while the cart is unchanged and rotates it when it changes', async () => {
+    const lines = await loadCartLines(seededBackend(), fixtureUser.id)
+
+    const key = checkoutKeyFor(lines, sessionStorage)
+    expect(checkoutKeyFor([...lines].reverse(), sessionStorage)).toBe(key)
+    expect(checkoutKeyFor([{ ...lines[0], quantity: 5 }, lines[1]], sessionStorage)).not.toBe(key)
+
+    releaseCheckoutKey(sessionStorage)
+    expect(checkoutKeyFor(lines, sessionStorage)).not.toBe(key)
+  })
+})
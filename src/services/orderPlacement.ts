@@ -0,0 +1,253 @@
+import {
+  cartSubtotal,
+  emailAddressSchema,
+  formatAddress,
+  hasVariants,
+  initialStatusHistory,
+  lineUnitPrice,
+  roundMoney,
+  variantLabel,
+  type Address,
+  type CartLine,
+  type Order,
+  type OrderItem
+} from '../domain'
+import { GUEST_CART_OWNER, type DataBackend } from '../data'
+import { createId } from '../lib/ids'
+import { canTakePayments } from '../payments'
+import { InvalidAddressError, validateAddress } from './addressBook'
+import { describeStockIssue, findStockIssues, releaseStock, reserveStock, type StockIssue } from './inventory'
+
+export type OrderPlacementErrorCode =
+  | 'empty_cart'
+  | 'invalid_address'
+  | 'missing_email'
+  | 'invalid_line'
+  | 'insufficient_stock'
+  | 'write_failed'
+  | 'payments_unavailable'
+
+export class OrderPlacementError extends Error {
+  readonly code: OrderPlacementErrorCode
+  readonly cause?: unknown
+
+  constructor(code: OrderPlacementErrorCode, message: string, cause?: unknown) {
+    super(message)
+    this.name = 'OrderPlacementError'
+    this.code = code
+    this.cause = cause
+  }
+}
+
+// Thrown when one or more lines ask for more than is currently in stock
+export class InsufficientStockError extends OrderPlacementError {
+  readonly issues: StockIssue[]
+
+  constructor(issues: StockIssue[]) {
+    super('insufficient_stock', issues.map(describeStockIssue).join(' '))
+    this.name = 'InsufficientStockError'
+    this.issues = issues
+  }
+}
+
+export interface PlaceOrderInput {
+  // Unset for a guest checkout, which buys the lines of this browser's guest cart
+  userId?: string
+  // Required for guests: order lookup and every email about the order use it
+  customerEmail?: string
+  lines: CartLine[]
+  shippingAddress: Address
+  // Stable for one checkout attempt; retries with the same key never create a second order
+  idempotencyKey: string
+}
+
+export interface PlaceOrderResult {
+  order: Order
+  // True when the key had already produced an order and nothing new was written
+  replayed: boolean
+}
+
+type OrderBackend = Pick<DataBackend, 'orders' | 'cart' | 'guestCart' | 'products' | 'variants' | 'paymentProvider'>
+
+// Placements currently running, so a double submit joins the first attempt
+// instead of racing it.
+const inFlight = new Map<string, Promise<PlaceOrderResult>>()
+
+export function orderIdFor(idempotencyKey: string) {
+  return `order_${idempotencyKey}`
+}
+
+// The cart the lines come from and the owner id they carry
+function sourceCart(backend: OrderBackend, input: PlaceOrderInput) {
+  return input.userId
+    ? { cart: backend.cart, ownerId: input.userId }
+    : { cart: backend.guestCart, ownerId: GUEST_CART_OWNER }
+}
+
+// Returns the shipping address cleaned up for storing
+function validate(input: PlaceOrderInput): Address {
+  if (input.lines.length === 0) {
+    throw new OrderPlacementError('empty_cart', 'Your cart is empty.')
+  }
+  let shippingAddress: Address
+  try {
+    shippingAddress = validateAddress(input.shippingAddress)
+  } catch (error) {
+    if (error instanceof InvalidAddressError) {
+      throw new OrderPlacementError('invalid_address', `${error.message}.`, error)
+    }
+    throw error
+  }
+  if (!input.userId && !emailAddressSchema.safeParse(input.customerEmail?.trim()).success) {
+    throw new OrderPlacementError('missing_email', 'Please provide a valid email address.')
+  }
+  const ownerId = input.userId ?? GUEST_CART_OWNER
+  for (const line of input.lines) {
+    if (line.userId !== ownerId || line.productId !== line.product.id) {
+      throw new OrderPlacementError('invalid_line', `Cart line ${line.id} does not belong to this checkout.`)
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new OrderPlacementError('invalid_line', `${line.product.name} has an invalid quantity.`)
+    }
+    if (hasVariants(line.product) && (!line.variant || line.variant.id !== line.variantId)) {
+      throw new OrderPlacementError('invalid_line', `Choose the options for ${line.product.name}.`)
+    }
+  }
+  return shippingAddress
+}
+
+// Removes the purchased lines from the cart. Runs after the order is written,
+// and again on every replay, so a cart left half-cleared by an earlier
+// failure is finished off by the retry.
+async function clearPurchasedLines(backend: OrderBackend, input: PlaceOrderInput) {
+  const { cart, ownerId } = sourceCart(backend, input)
+  const remaining = await cart.listByUser(ownerId)
+  const purchased = new Set(input.lines.map((line) => line.id))
+  await Promise.all(
+    remaining.filter((item) => purchased.has(item.id)).map((item) => cart.remove(item.id))
+  )
+}
+
+async function writeOrder(backend: OrderBackend, input: PlaceOrderInput): Promise<PlaceOrderResult> {
+  const orderId = orderIdFor(input.idempotencyKey)
+
+  const existing = await backend.orders.get(orderId)
+  if (existing) {
+    await clearPurchasedLines(backend, input)
+    return { order: existing, replayed: true }
+  }
+
+  const shippingAddress = validate(input)
+  // An order that cannot be paid for would only hold stock
+  if (!canTakePayments(backend.paymentProvider)) {
+    throw new OrderPlacementError('payments_unavailable', 'This store is not taking payments yet, so orders cannot be placed.')
+  }
+
+  const issues = await findStockIssues(backend, input.lines)
+  if (issues.length > 0) {
+    throw new InsufficientStockError(issues)
+  }
+
+  const order: Order = {
+    id: orderId,
+    userId: input.userId,
+    customerEmail: input.customerEmail?.trim() || undefined,
+    totalAmount: roundMoney(cartSubtotal(input.lines)),
+    status: 'pending',
+    statusHistory: initialStatusHistory(new Date().toISOString()),
+    shippingAddress: formatAddress(shippingAddress),
+    shipTo: shippingAddress,
+    idempotencyKey: input.idempotencyKey
+  }
+  const items: OrderItem[] = input.lines.map((line, index) => ({
+    id: `${orderId}_item_${index + 1}`,
+    orderId,
+    productId: line.productId,
+    variantId: line.variant?.id,
+    sku: line.variant?.sku || undefined,
+    variantLabel: line.variant ? variantLabel(line.variant) : undefined,
+    quantity: line.quantity,
+    price: roundMoney(lineUnitPrice(line))
+  }))
+
+  // Stock is taken before the order exists, so a checkout that finds it gone
+  // writes nothing (see reserveStock for what that does and does not catch);
+  // every failure below hands it back.
+  const reservation = await reserveStock(backend, input.lines)
+  if (reservation.issues.length > 0) {
+    throw new InsufficientStockError(reservation.issues)
+  }
+
+  let created: Order
+  try {
+    created = await backend.orders.create(order)
+  } catch (error) {
+    await releaseStock(backend, reservation.reserved)
+    throw new OrderPlacementError('write_failed', 'The order could not be saved.', error)
+  }
+
+  try {
+    await backend.orders.addItems(items)
+  } catch (error) {
+    // Compensate: an order without its items must never be visible
+    await backend.orders.removeItems(orderId).catch((cleanupError) => {
+      console.error('Failed to remove partial order items:', cleanupError)
+    })
+    await backend.orders.remove(orderId).catch((cleanupError) => {
+      console.error('Failed to remove partial order:', cleanupError)
+    })
+    await releaseStock(backend, reservation.reserved)
+    throw new OrderPlacementError('write_failed', 'The order could not be saved.', error)
+  }
+
+  try {
+    await clearPurchasedLines(backend, input)
+  } catch (error) {
+    // The order stands; a retry with the same key finishes clearing the cart
+    console.error('Order placed but cart could not be fully cleared:', error)
+  }
+
+  return { order: created, replayed: false }
+}
+
+export function placeOrder(backend: OrderBackend, input: PlaceOrderInput): Promise<PlaceOrderResult> {
+  const running = inFlight.get(input.idempotencyKey)
+  if (running) return running
+
+  const attempt = writeOrder(backend, input).finally(() => {
+    inFlight.delete(input.idempotencyKey)
+  })
+  inFlight.set(input.idempotencyKey, attempt)
+  return attempt
+}
+
+const CHECKOUT_KEY_STORAGE = 'shopeasy:checkout-key'
+
+function cartFingerprint(lines: CartLine[]) {
+  return lines
+    .map((line) => `${line.id}:${line.quantity}`)
+    .sort()
+    .join('|')
+}
+
+// Returns the idempotency key for checking out exactly these lines. The key
+// survives reloads within the tab and is only replaced once the cart changes,
+// so a retry after a lost response replays the original order.
+export function checkoutKeyFor(lines: CartLine[], storage: Storage = sessionStorage) {
+  const fingerprint = cartFingerprint(lines)
+  try {
+    const stored = JSON.parse(storage.getItem(CHECKOUT_KEY_STORAGE) ?? 'null')
+    if (stored?.fingerprint === fingerprint && typeof stored.key === 'string') {
+      return stored.key as string
+    }
+  } catch {
+    // Fall through and issue a fresh key
+  }
+  const key = createId('checkout')
+  storage.setItem(CHECKOUT_KEY_STORAGE, JSON.stringify({ key, fingerprint }))
+  return key
+}
+
+export function releaseCheckoutKey(storage: Storage = sessionStorage) {
+  storage.removeItem(CHECKOUT_KEY_STORAGE)
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser } from '../data'
+import { MOCK_TEST_CARDS, MOCK_WEBHOOK_SECRET, signWebhookPayload, type CardDetails } from '../payments'
+import { PaymentError, capturePayment, handlePaymentWebhook, payOrder, resumePayment } from './payments'
+
+const card = (number: string): CardDetails => ({ number, expMonth: 12, expYear: 2040, cvc: '123' })
+
+function backendWithOrder() {
+  return createMemoryBackend({
+    storage: null,
+    user: fixtureUser,
+    seed: {
+      orders: [{
+        id: 'order_1',
+        userId: fixtureUser.id,
+        totalAmount: 34.5,
+        status: 'pending',
+        statusHistory: [{ status: 'pending', at: '2024-04-01T10:00:00.000Z' }],
+        shippingAddress: '1 Main St'
+      }],
+      orderItems: [{ id: 'order_1_item_1', orderId: 'order_1', productId: 'prod_planter', quantity: 1, price: 34.5 }]
+    }
+  })
+}
+
+describe('payOrder', () => {
+  it('captures the payment and only then marks the order paid', async () => {
+    const backend = backendWithOrder()
+
+    const outcome = await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.success), { at: '2024-04-01T10:05:00.000Z' })
+
+    expect(outcome.status).toBe('paid')
+    const [payment] = await backend.payments.listByOrder('order_1')
+    expect(payment).toMatchObject({ provider: 'mock', amount: 34.5, status: 'captured', cardLast4: '4242', capturedAt: '2024-04-01T10:05:00.000Z' })
+    expect(await backend.paymentProvider.retrieve(payment.intentId)).toMatchObject({ status: 'succeeded', amountCaptured: 34.5 })
+    const order = await backend.orders.get('order_1')
+    expect(order?.status).toBe('paid')
+    expect(order?.statusHistory[1]).toEqual({ status: 'paid', at: '2024-04-01T10:05:00.000Z', note: 'Payment of $34.50 captured' })
+
+    await expect(payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.success))).rejects.toBeInstanceOf(PaymentError)
+  })
+
+  it('leaves a declined order pending and pays it with the next card', async () => {
+    const backend = backendWithOrder()
+
+    expect(await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.declined))).toMatchObject({
+      status: 'declined',
+      message: 'Your card was declined.'
+    })
+    expect((await backend.orders.get('order_1'))?.status).toBe('pending')
+    expect(await backend.payments.listByOrder('order_1')).toEqual([
+      expect.objectContaining({ status: 'failed', failureMessage: 'Your card was declined.' })
+    ])
+
+    expect((await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.success))).status).toBe('paid')
+    expect(await backend.payments.listByOrder('order_1')).toEqual([
+      expect.objectContaining({ status: 'captured', failureMessage: undefined })
+    ])
+  })
+
+  it('puts a declined order\'s stock back on sale until it is paid for', async () => {
+    const backend = backendWithOrder()
+
+    await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.declined))
+    expect((await backend.orders.get('order_1'))?.stockReleased).toBe(true)
+    expect((await backend.products.get('prod_planter'))?.stockQuantity).toBe(41)
+
+    // A second decline does not hand the stock back twice
+    await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.declined))
+    expect((await backend.products.get('prod_planter'))?.stockQuantity).toBe(41)
+
+    expect((await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.success))).status).toBe('paid')
+    expect((await backend.orders.get('order_1'))?.stockReleased).toBe(false)
+    expect((await backend.products.get('prod_planter'))?.stockQuantity).toBe(40)
+  })
+
+  it('refuses to take payment once a declined order\'s stock has sold', async () => {
+    const backend = backendWithOrder()
+    await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.declined))
+    await backend.products.updateStock('prod_planter', 0)
+
+    await expect(payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.success))).rejects.toMatchObject({ code: 'out_of_stock' })
+    expect(await backend.payments.listByOrder('order_1')).toEqual([expect.objectContaining({ status: 'failed' })])
+    expect((await backend.orders.get('order_1'))?.stockReleased).toBe(true)
+  })
+
+  it('waits for 3-D Secure and resumes with the bank\'s answer', async () => {
+    const backend = backendWithOrder()
+
+    const outcome = await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.threeDSecure))
+    expect(outcome).toMatchObject({ status: 'requires_action', payment: { status: 'requires_action' } })
+    expect((await backend.orders.get('order_1'))?.status).toBe('pending')
+
+    // Walking away from the challenge declines the payment
+    expect(await resumePayment(backend, 'order_1')).toMatchObject({ status: 'declined', message: 'Your bank did not confirm the payment.' })
+
+    await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.threeDSecure))
+    const [payment] = await backend.payments.listByOrder('order_1')
+    await backend.paymentProvider.simulateChallenge!(payment.intentId, true)
+    expect((await resumePayment(backend, 'order_1')).status).toBe('paid')
+  })
+
+  it('recovers from a lost response without charging twice', async () => {
+    const backend = backendWithOrder()
+
+    await expect(payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.networkFailure))).rejects.toMatchObject({ code: 'network' })
+    expect((await backend.orders.get('order_1'))?.status).toBe('pending')
+
+    // The retry finds the authorization and captures it instead of confirming again
+    expect((await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.networkFailure))).status).toBe('paid')
+    expect(await backend.payments.listByOrder('order_1')).toHaveLength(1)
+  })
+})
+
+describe('capturePayment', () => {
+  it('captures an authorization left behind by a failed capture', async () => {
+    const backend = backendWithOrder()
+    const provider = backend.paymentProvider
+    // The authorization goes through but the capture call fails
+    backend.paymentProvider = {
+      ...provider,
+      capture: async () => {
+        throw new Error('timeout')
+      }
+    }
+    await expect(payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.success))).rejects.toThrow('timeout')
+    expect(await backend.payments.listByOrder('order_1')).toEqual([expect.objectContaining({ status: 'authorized' })])
+
+    backend.paymentProvider = provider
+    expect((await capturePayment(backend, 'order_1')).status).toBe('paid')
+    expect((await backend.orders.get('order_1'))?.status).toBe('paid')
+  })
+})
+
+describe('handlePaymentWebhook', () => {
+  it('settles a payment the provider reports as authorized', async () => {
+    const backend = backendWithOrder()
+    await payOrder(backend, 'order_1', card(MOCK_TEST_CARDS.threeDSecure))
+    const [payment] = await backend.payments.listByOrder('order_1')
+    // The shopper finished the challenge in a tab the checkout never heard back from
+    await backend.paymentProvider.simulateChallenge!(payment.intentId, true)
+
+    const payload = JSON.stringify({
+      id: 'evt_1',
+      type: 'payment_intent.amount_capturable_updated',
+      data: { object: { id: payment.intentId, object: 'payment_intent', amount: 3450, currency: 'usd', status: 'requires_capture' } }
+    })
+    const outcome = await handlePaymentWebhook(backend, payload, await signWebhookPayload(payload, MOCK_WEBHOOK_SECRET))
+
+    expect(outcome?.status).toBe('paid')
+    expect((await backend.orders.get('order_1'))?.status).toBe('paid')
+    expect(await handlePaymentWebhook(backend, payload, await signWebhookPayload(payload, MOCK_WEBHOOK_SECRET))).toBeNull()
+  })
+})
@@ -0,0 +1,232 @@
+import { orderStatusLabels, type Order, type Payment, type PaymentChanges } from '../domain'
+import type { DataBackend } from '../data'
+import { createId } from '../lib/ids'
+import type { CardDetails, PaymentIntent, PaymentNextAction } from '../payments'
+import { describeStockIssue, releaseStock, reservationsFor, reserveStock } from './inventory'
+import { OrderNotFoundError, transitionOrderStatus } from './orderLifecycle'
+
+type PaymentBackend = Pick<DataBackend, 'orders' | 'products' | 'variants' | 'payments' | 'paymentProvider'>
+
+// Every price in the store is in US dollars
+export const STORE_CURRENCY = 'usd'
+
+export type PaymentErrorCode = 'not_payable' | 'no_payment' | 'not_capturable' | 'out_of_stock'
+
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message)
+    this.name = 'PaymentError'
+    this.code = code
+  }
+}
+
+export type PaymentOutcome =
+  | { status: 'paid'; order: Order; payment: Payment }
+  // The shopper has to confirm with their bank, then call resumePayment
+  | { status: 'requires_action'; payment: Payment; action: PaymentNextAction }
+  // The order stays pending and can be paid with another card, but its stock
+  // goes back on sale until then
+  | { status: 'declined'; payment: Payment; message: string }
+
+export interface PaymentOptions {
+  at?: string
+}
+
+async function findOrder(backend: PaymentBackend, orderId: string) {
+  const order = await backend.orders.get(orderId)
+  if (!order) throw new OrderNotFoundError(orderId)
+  return order
+}
+
+async function payableOrder(backend: PaymentBackend, orderId: string) {
+  const order = await findOrder(backend, orderId)
+  if (order.status !== 'pending') {
+    throw new PaymentError('not_payable', `Order #${orderId} is ${orderStatusLabels[order.status].toLowerCase()} and needs no payment.`)
+  }
+  return order
+}
+
+async function latestPayment(backend: PaymentBackend, orderId: string) {
+  const payments = await backend.payments.listByOrder(orderId)
+  const payment = payments[payments.length - 1]
+  if (!payment) throw new PaymentError('no_payment', `Order #${orderId} has no payment yet.`)
+  return payment
+}
+
+// Each order has one intent at the provider, reused across card attempts.
+// The idempotency key means a retry after a lost response finds the same one.
+async function openPayment(backend: PaymentBackend, order: Order): Promise<Payment> {
+  const provider = backend.paymentProvider
+  const payments = await backend.payments.listByOrder(order.id)
+  const existing = payments[payments.length - 1]
+  if (existing?.provider === provider.name) return existing
+
+  const intent = await provider.createIntent({
+    orderId: order.id,
+    amount: order.totalAmount,
+    currency: STORE_CURRENCY,
+    idempotencyKey: `order_${order.id}`
+  })
+  return backend.payments.create({
+    id: createId('pay'),
+    orderId: order.id,
+    provider: provider.name,
+    intentId: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
+    status: 'pending'
+  })
+}
+
+async function record(backend: PaymentBackend, payment: Payment, changes: PaymentChanges): Promise<Payment> {
+  await backend.payments.update(payment.id, changes)
+  return { ...payment, ...changes }
+}
+
+// A declined order should not keep others from buying its goods. The flag is
+// written first so a failed restock under-counts rather than double-counts.
+async function releaseUnpaidStock(backend: PaymentBackend, orderId: string) {
+  const order = await findOrder(backend, orderId)
+  if (order.status !== 'pending' || order.stockReleased) return
+  await backend.orders.setStockReleased(orderId, true)
+  await releaseStock(backend, reservationsFor(await backend.orders.listItems(orderId)))
+}
+
+// Takes the stock of a declined order again before another card is tried
+async function reclaimStock(backend: PaymentBackend, order: Order) {
+  if (!order.stockReleased) return
+  const { issues } = await reserveStock(backend, await backend.orders.listItems(order.id))
+  if (issues.length > 0) {
+    throw new PaymentError('out_of_stock', `${issues.map(describeStockIssue).join(' ')} Order #${order.id} can no longer be paid for.`)
+  }
+  await backend.orders.setStockReleased(order.id, false)
+}
+
+async function decline(backend: PaymentBackend, order: Order, payment: Payment, changes: PaymentChanges, message: string): Promise<PaymentOutcome> {
+  const failed = await record(backend, payment, { ...changes, status: 'failed', failureMessage: message })
+  await releaseUnpaidStock(backend, order.id)
+  return { status: 'declined', payment: failed, message }
+}
+
+// Brings the stored payment and the order in line with the provider's
+// intent. Authorized cards are captured straight away: everything ships from
+// stock, so there is nothing to wait for. The authorization is recorded first
+// so a failed capture can be retried from the admin console.
+async function settle(
+  backend: PaymentBackend,
+  order: Order,
+  payment: Payment,
+  intent: PaymentIntent,
+  at: string
+): Promise<PaymentOutcome> {
+  const cardLast4 = intent.cardLast4 ?? payment.cardLast4
+  let current = intent
+  if (current.status === 'requires_capture') {
+    payment = await record(backend, payment, { status: 'authorized', cardLast4, failureMessage: undefined })
+    current = await backend.paymentProvider.capture(current.id)
+  }
+
+  if (current.status === 'succeeded') {
+    const captured = await record(backend, payment, {
+      status: 'captured',
+      cardLast4,
+      failureMessage: undefined,
+      capturedAt: payment.capturedAt ?? at
+    })
+    const latest = await findOrder(backend, order.id)
+    const paid = latest.status === 'pending'
+      ? await transitionOrderStatus(backend, order.id, 'paid', { at, note: `Payment of $${current.amountCaptured.toFixed(2)} captured` })
+      : latest
+    return { status: 'paid', order: paid, payment: captured }
+  }
+
+  if (current.status === 'requires_action' && current.nextAction) {
+    const waiting = await record(backend, payment, { status: 'requires_action', cardLast4, failureMessage: undefined })
+    return { status: 'requires_action', payment: waiting, action: current.nextAction }
+  }
+
+  return decline(backend, order, payment, { cardLast4 }, current.lastError?.message ?? 'The payment did not go through.')
+}
+
+// Charges the card for a pending order. The order becomes paid only once the
+// money is captured; a decline leaves it pending for another card. `card` is
+// left out for providers that read it from their own card field.
+export async function payOrder(
+  backend: PaymentBackend,
+  orderId: string,
+  card: CardDetails | undefined,
+  options: PaymentOptions = {}
+): Promise<PaymentOutcome> {
+  const at = options.at ?? new Date().toISOString()
+  const order = await payableOrder(backend, orderId)
+  await reclaimStock(backend, order)
+  const payment = await openPayment(backend, order)
+
+  // A confirmation whose response was lost may have gone through anyway, so
+  // look before asking for the money a second time
+  const current = await backend.paymentProvider.retrieve(payment.intentId)
+  const waitingForCard = current.status === 'requires_payment_method' || current.status === 'requires_action'
+  const intent = waitingForCard ? await backend.paymentProvider.confirm(payment.intentId, card) : current
+  return settle(backend, order, payment, intent, at)
+}
+
+// Picks up after the shopper leaves the bank's 3-D Secure challenge. A
+// challenge they walked away from counts as a decline.
+export async function resumePayment(
+  backend: PaymentBackend,
+  orderId: string,
+  options: PaymentOptions = {}
+): Promise<PaymentOutcome> {
+  const at = options.at ?? new Date().toISOString()
+  const order = await payableOrder(backend, orderId)
+  const payment = await latestPayment(backend, orderId)
+  const intent = await backend.paymentProvider.retrieve(payment.intentId)
+  if (intent.status === 'requires_action') {
+    return decline(backend, order, payment, {}, 'Your bank did not confirm the payment.')
+  }
+  return settle(backend, order, payment, intent, at)
+}
+
+// Takes the money for an authorized payment whose capture did not go
+// through at checkout
+export async function capturePayment(
+  backend: PaymentBackend,
+  orderId: string,
+  options: PaymentOptions = {}
+): Promise<PaymentOutcome> {
+  const at = options.at ?? new Date().toISOString()
+  const order = await payableOrder(backend, orderId)
+  const payment = await latestPayment(backend, orderId)
+  const intent = await backend.paymentProvider.retrieve(payment.intentId)
+  if (intent.status !== 'requires_capture' && intent.status !== 'succeeded') {
+    throw new PaymentError('not_capturable', `The payment for order #${orderId} has not been authorized.`)
+  }
+  return settle(backend, order, payment, intent, at)
+}
+
+// Applies a provider webhook, for payments that finish away from the
+// checkout (a 3-D Secure tab closed early, say). Events for unknown intents
+// or orders that are no longer pending are ignored; returns null for them.
+export async function handlePaymentWebhook(
+  backend: PaymentBackend,
+  payload: string,
+  signature: string,
+  options: PaymentOptions = {}
+): Promise<PaymentOutcome | null> {
+  const at = options.at ?? new Date().toISOString()
+  const event = await backend.paymentProvider.parseWebhook(payload, signature)
+  const payment = await backend.payments.findByIntent(event.intentId)
+  const order = payment ? await backend.orders.get(payment.orderId) : null
+  if (!payment || order?.status !== 'pending') return null
+
+  switch (event.type) {
+    case 'payment_intent.amount_capturable_updated':
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed':
+      return settle(backend, order, payment, event.intent ?? await backend.paymentProvider.retrieve(event.intentId), at)
+    default:
+      return null
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { IllegalTransitionError } from '../domain'
+import { createMemoryBackend, fixtureUser } from '../data'
+import { MOCK_TEST_CARDS } from '../payments'
+import { transitionOrderStatus } from './orderLifecycle'
+import { payOrder } from './payments'
+import { RefundError, refundOrder, refundableLines } from './refunds'
+
+// Two planters and a yoga mat
+async function paidOrder() {
+  const backend = createMemoryBackend({
+    storage: null,
+    user: fixtureUser,
+    seed: {
+      orders: [{
+        id: 'order_1',
+        userId: fixtureUser.id,
+        totalAmount: 108,
+        status: 'pending',
+        statusHistory: [{ status: 'pending', at: '2024-04-01T10:00:00.000Z' }],
+        shippingAddress: '1 Main St'
+      }],
+      orderItems: [
+        { id: 'order_1_item_1', orderId: 'order_1', productId: 'prod_planter', quantity: 2, price: 34.5 },
+        { id: 'order_1_item_2', orderId: 'order_1', productId: 'prod_yoga_mat', quantity: 1, price: 39 }
+      ]
+    }
+  })
+  await payOrder(backend, 'order_1', { number: MOCK_TEST_CARDS.success, expMonth: 12, expYear: 2040, cvc: '123' })
+  return backend
+}
+
+describe('refundOrder', () => {
+  it('refunds a line, then everything left', async () => {
+    const backend = await paidOrder()
+
+    const partial = await refundOrder(backend, 'order_1', {
+      lines: [{ orderItemId: 'order_1_item_1', quantity: 1 }],
+      reason: 'Arrived cracked',
+      restock: true,
+      at: '2024-04-03T10:00:00.000Z'
+    })
+    expect(partial.refund).toMatchObject({ amount: 34.5, status: 'succeeded', restocked: true, lines: [{ orderItemId: 'order_1_item_1', quantity: 1, amount: 34.5 }] })
+    expect(partial.order.status).toBe('partially_refunded')
+    expect(partial.order.statusHistory[2]).toEqual({ status: 'partially_refunded', at: '2024-04-03T10:00:00.000Z', note: 'Refunded $34.50: Arrived cracked' })
+    expect((await backend.products.get('prod_planter'))?.stockQuantity).toBe(41)
+
+    const rest = await refundOrder(backend, 'order_1', { reason: 'Customer returned the rest', restock: false })
+    expect(rest.refund.amount).toBe(73.5)
+    expect(rest.refund.lines.map((line) => [line.orderItemId, line.quantity])).toEqual([['order_1_item_1', 1], ['order_1_item_2', 1]])
+    expect(rest.order.status).toBe('refunded')
+    expect((await backend.products.get('prod_yoga_mat'))?.stockQuantity).toBe(30)
+
+    const [payment] = await backend.payments.listByOrder('order_1')
+    expect(await backend.paymentProvider.retrieve(payment.intentId)).toMatchObject({ amountRefunded: 108 })
+    const refunds = await backend.refunds.listByOrder('order_1')
+    expect(refunds.map((refund) => refund.reason)).toEqual(['Arrived cracked', 'Customer returned the rest'])
+    expect(refundableLines(await backend.orders.listItems('order_1'), refunds).map((line) => line.remaining)).toEqual([0, 0])
+  })
+
+  it('becomes a full refund once the chosen lines cover what is left', async () => {
+    const backend = await paidOrder()
+
+    const { order, refund } = await refundOrder(backend, 'order_1', {
+      lines: [{ orderItemId: 'order_1_item_1', quantity: 2 }, { orderItemId: 'order_1_item_2', quantity: 1 }],
+      reason: 'Order never arrived',
+      restock: false
+    })
+
+    expect(order.status).toBe('refunded')
+    expect(refund.amount).toBe(108)
+  })
+
+  it('lets a partially refunded order carry on to delivery', async () => {
+    const backend = await paidOrder()
+    await refundOrder(backend, 'order_1', { lines: [{ orderItemId: 'order_1_item_2', quantity: 1 }], reason: 'Out of stock', restock: false })
+
+    await expect(transitionOrderStatus(backend, 'order_1', 'cancelled')).rejects.toBeInstanceOf(IllegalTransitionError)
+    expect((await transitionOrderStatus(backend, 'order_1', 'fulfilled')).status).toBe('fulfilled')
+    expect((await refundOrder(backend, 'order_1', { reason: 'Damaged', restock: false })).order.status).toBe('refunded')
+  })
+
+  it('refuses bad requests before any money moves', async () => {
+    const backend = await paidOrder()
+    const refund = (lines: { orderItemId: string; quantity: number }[], reason = 'Damaged') =>
+      refundOrder(backend, 'order_1', { lines, reason, restock: true })
+
+    await expect(refund([{ orderItemId: 'order_1_item_1', quantity: 3 }])).rejects.toMatchObject({ code: 'invalid_request' })
+    await expect(refund([{ orderItemId: 'order_missing', quantity: 1 }])).rejects.toMatchObject({ code: 'invalid_request' })
+    await expect(refund([{ orderItemId: 'order_1_item_1', quantity: 0 }])).rejects.toMatchObject({ code: 'invalid_request' })
+    await expect(refund([{ orderItemId: 'order_1_item_1', quantity: 1 }], '  ')).rejects.toMatchObject({ code: 'invalid_request' })
+
+    expect(await backend.refunds.listByOrder('order_1')).toEqual([])
+    expect((await backend.orders.get('order_1'))?.status).toBe('paid')
+    expect((await backend.products.get('prod_planter'))?.stockQuantity).toBe(40)
+  })
+
+  it('only refunds orders with money taken', async () => {
+    const backend = createMemoryBackend({
+      storage: null,
+      user: fixtureUser,
+      seed: {
+        orders: [{ id: 'order_1', userId: fixtureUser.id, totalAmount: 34.5, status: 'pending', statusHistory: [], shippingAddress: '1 Main St' }],
+        orderItems: [{ id: 'order_1_item_1', orderId: 'order_1', productId: 'prod_planter', quantity: 1, price: 34.5 }]
+      }
+    })
+
+    await expect(refundOrder(backend, 'order_1', { reason: 'Changed mind', restock: false })).rejects.toBeInstanceOf(RefundError)
+    await expect(refundOrder(backend, 'order_1', { reason: 'Changed mind', restock: false })).rejects.toMatchObject({ code: 'not_refundable' })
+  })
+})
@@ -0,0 +1,175 @@
+import {
+  allowedTransitions,
+  orderLineTotal,
+  orderStatusLabels,
+  roundMoney,
+  type Order,
+  type OrderItem,
+  type Payment,
+  type Refund,
+  type RefundLine
+} from '../domain'
+import type { DataBackend } from '../data'
+import { createId } from '../lib/ids'
+import { releaseStock, reservationsFor } from './inventory'
+import { OrderNotFoundError, transitionOrderStatus } from './orderLifecycle'
+
+type RefundBackend = Pick<DataBackend, 'orders' | 'products' | 'variants' | 'payments' | 'refunds' | 'paymentProvider'>
+
+export type RefundErrorCode = 'not_refundable' | 'no_payment' | 'invalid_request' | 'declined'
+
+export class RefundError extends Error {
+  readonly code: RefundErrorCode
+
+  constructor(code: RefundErrorCode, message: string) {
+    super(message)
+    this.name = 'RefundError'
+    this.code = code
+  }
+}
+
+export interface RefundLineRequest {
+  orderItemId: string
+  quantity: number
+}
+
+export interface RefundRequest {
+  // The quantities to give back per order line; leave out to refund
+  // everything not refunded yet
+  lines?: RefundLineRequest[]
+  reason: string
+  // Put the refunded quantities back on sale
+  restock: boolean
+  at?: string
+}
+
+export interface RefundableLine {
+  item: OrderItem
+  refunded: number
+  remaining: number
+}
+
+export interface RefundResult {
+  order: Order
+  refund: Refund
+}
+
+// How much of each order line is left to refund
+export function refundableLines(items: OrderItem[], refunds: Refund[]): RefundableLine[] {
+  return items.map((item) => {
+    const refunded = refunds
+      .flatMap((refund) => refund.lines)
+      .filter((line) => line.orderItemId === item.id)
+      .reduce((sum, line) => sum + line.quantity, 0)
+    return { item, refunded, remaining: Math.max(0, item.quantity - refunded) }
+  })
+}
+
+export function refundedAmount(refunds: Refund[]) {
+  return roundMoney(refunds.reduce((sum, refund) => sum + refund.amount, 0))
+}
+
+// How much of the payment has not been given back yet
+export function refundableAmount(payment: Payment, refunds: Refund[]) {
+  return Math.max(0, roundMoney(payment.amount - refundedAmount(refunds)))
+}
+
+// What refunding `lines` comes to, given how much of the payment is `left`.
+// Refunding everything still on the order returns all of it, even where the
+// lines' prices add up to less, so no cents are stranded on the payment.
+export function refundTotal(refundable: RefundableLine[], lines: RefundLine[], left: number) {
+  const coversRest = refundable.every((line) =>
+    line.remaining === (lines.find((refunded) => refunded.orderItemId === line.item.id)?.quantity ?? 0)
+  )
+  const amount = coversRest ? left : Math.min(left, roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)))
+  return { amount, coversRest }
+}
+
+export const refundLine = (item: OrderItem, quantity: number): RefundLine => ({
+  orderItemId: item.id,
+  quantity,
+  amount: orderLineTotal({ price: item.price, quantity })
+})
+
+function linesToRefund(orderId: string, refundable: RefundableLine[], requested?: RefundLineRequest[]): RefundLine[] {
+  if (!requested) {
+    return refundable
+      .filter((line) => line.remaining > 0)
+      .map(({ item, remaining }) => refundLine(item, remaining))
+  }
+
+  return requested
+    .filter((line) => line.quantity !== 0)
+    .map((line) => {
+      const match = refundable.find((candidate) => candidate.item.id === line.orderItemId)
+      if (!match) {
+        throw new RefundError('invalid_request', `Order #${orderId} has no line ${line.orderItemId}.`)
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity < 0 || line.quantity > match.remaining) {
+        throw new RefundError('invalid_request', `Only ${match.remaining} of line ${line.orderItemId} can still be refunded.`)
+      }
+      return refundLine(match.item, line.quantity)
+    })
+}
+
+// Gives money back on a paid order, in full or line by line. The provider
+// refunds the captured payment first; only then is the refund recorded, the
+// order moved to partially refunded or refunded (once nothing is left), and
+// the quantities restocked if asked. The idempotency key counts the order's
+// refunds, so retrying after a lost response does not refund twice.
+export async function refundOrder(backend: RefundBackend, orderId: string, request: RefundRequest): Promise<RefundResult> {
+  const at = request.at ?? new Date().toISOString()
+  const order = await backend.orders.get(orderId)
+  if (!order) throw new OrderNotFoundError(orderId)
+  if (!allowedTransitions(order).includes('refunded')) {
+    throw new RefundError('not_refundable', `Order #${orderId} is ${orderStatusLabels[order.status].toLowerCase()} and cannot be refunded.`)
+  }
+
+  const reason = request.reason.trim()
+  if (!reason) throw new RefundError('invalid_request', 'Say why the order is being refunded.')
+
+  const payment = (await backend.payments.listByOrder(orderId)).find((candidate) => candidate.status === 'captured')
+  if (!payment) throw new RefundError('no_payment', `Order #${orderId} has no captured payment to refund.`)
+
+  const [items, refunds] = await Promise.all([backend.orders.listItems(orderId), backend.refunds.listByOrder(orderId)])
+  const refundable = refundableLines(items, refunds)
+  const lines = linesToRefund(orderId, refundable, request.lines)
+  if (lines.length === 0) throw new RefundError('invalid_request', 'Choose at least one item to refund.')
+
+  const { amount, coversRest } = refundTotal(refundable, lines, refundableAmount(payment, refunds))
+  if (amount <= 0) throw new RefundError('invalid_request', `Nothing is left to refund on order #${orderId}.`)
+
+  const providerRefund = await backend.paymentProvider.refund(payment.intentId, amount, {
+    reason,
+    idempotencyKey: `refund_${orderId}_${refunds.length + 1}`
+  })
+  if (providerRefund.status === 'failed') {
+    throw new RefundError('declined', `The refund for order #${orderId} was declined by ${payment.provider}.`)
+  }
+
+  const refund = await backend.refunds.create({
+    id: createId('ref'),
+    orderId,
+    paymentId: payment.id,
+    providerRefundId: providerRefund.id,
+    amount: providerRefund.amount,
+    status: providerRefund.status,
+    reason,
+    lines,
+    restocked: request.restock,
+    createdAt: at
+  })
+
+  const to = coversRest ? 'refunded' : 'partially_refunded'
+  const next = await transitionOrderStatus(backend, orderId, to, { at, note: `Refunded $${refund.amount.toFixed(2)}: ${reason}` })
+
+  if (request.restock) {
+    const returned = items.flatMap((item) => {
+      const line = lines.find((refunded) => refunded.orderItemId === item.id)
+      return line ? [{ ...item, quantity: line.quantity }] : []
+    })
+    await releaseStock(backend, reservationsFor(returned))
+  }
+
+  return { order: next, refund }
+}
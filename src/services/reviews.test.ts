@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser, type MemorySeed } from '../data'
+import type { User } from '../domain'
+import { ReviewError, deleteReview, setReviewStatus, submitReview, voteHelpful } from './reviews'
+
+const otherUser: User = { id: 'user_other', email: 'other@example.com', displayName: 'Other Shopper' }
+
+const deliveredTo = (userId: string, status: MemorySeed['orders'][number]['status'] = 'delivered') => ({
+  id: `order_${userId}`,
+  userId,
+  totalAmount: 29.95,
+  status,
+  statusHistory: [],
+  shippingAddress: '1 Main St'
+})
+
+const seed: Partial<MemorySeed> = {
+  orders: [deliveredTo(fixtureUser.id), deliveredTo(otherUser.id), deliveredTo('user_waiting', 'shipped')],
+  orderItems: ['user_local', 'user_other', 'user_waiting'].map((userId) => ({
+    id: `item_${userId}`,
+    orderId: `order_${userId}`,
+    productId: 'prod_football',
+    quantity: 1,
+    price: 29.95
+  }))
+}
+
+const newBackend = () => createMemoryBackend({ storage: null, seed })
+
+const review = { rating: 4, title: 'Holds its shape', body: 'Survived a season of five-a-side.' }
+
+describe('submitReview', () => {
+  it('needs a delivered order containing the product', async () => {
+    const backend = newBackend()
+    const waiting: User = { id: 'user_waiting', email: 'waiting@example.com' }
+
+    await expect(submitReview(backend, waiting, 'prod_football', review)).rejects.toMatchObject({ code: 'not_eligible' })
+    await expect(submitReview(backend, fixtureUser, 'prod_planter', review)).rejects.toBeInstanceOf(ReviewError)
+    expect(await backend.reviews.count()).toBe(0)
+  })
+
+  it('counts a delivered order that was partly refunded afterwards', async () => {
+    const refundedAfter = (id: string, reached: 'shipped' | 'delivered') => ({
+      ...deliveredTo(id, 'partially_refunded'),
+      statusHistory: [
+        { status: reached, at: '2024-04-05T10:00:00.000Z' },
+        { status: 'partially_refunded' as const, at: '2024-04-06T10:00:00.000Z' }
+      ]
+    })
+    const backend = createMemoryBackend({
+      storage: null,
+      seed: { ...seed, orders: [refundedAfter(fixtureUser.id, 'delivered'), refundedAfter('user_waiting', 'shipped')] }
+    })
+
+    expect(await submitReview(backend, fixtureUser, 'prod_football', review)).toMatchObject({ status: 'published' })
+    await expect(submitReview(backend, { id: 'user_waiting', email: 'waiting@example.com' }, 'prod_football', review))
+      .rejects.toMatchObject({ code: 'not_eligible' })
+  })
+
+  it('publishes the review and moves the product rating', async () => {
+    const backend = newBackend()
+
+    const written = await submitReview(backend, fixtureUser, 'prod_football', review)
+    await submitReview(backend, otherUser, 'prod_football', { ...review, rating: 5 })
+
+    expect(written).toMatchObject({ status: 'published', authorName: 'Local Shopper', helpfulCount: 0 })
+    expect(await backend.products.get('prod_football')).toMatchObject({ ratingAverage: 4.5, ratingCount: 2 })
+  })
+
+  it('rewrites the shopper’s existing review instead of adding another', async () => {
+    const backend = newBackend()
+    await submitReview(backend, fixtureUser, 'prod_football', review)
+
+    await submitReview(backend, fixtureUser, 'prod_football', { ...review, rating: 2 })
+
+    expect(await backend.reviews.countByProduct('prod_football')).toBe(1)
+    expect(await backend.products.get('prod_football')).toMatchObject({ ratingAverage: 2, ratingCount: 1 })
+  })
+})
+
+describe('moderation', () => {
+  it('takes hidden and deleted reviews out of the rating', async () => {
+    const backend = newBackend()
+    const mine = await submitReview(backend, fixtureUser, 'prod_football', review)
+    const theirs = await submitReview(backend, otherUser, 'prod_football', { ...review, rating: 2 })
+
+    await setReviewStatus(backend, mine.id, 'hidden')
+    expect(await backend.products.get('prod_football')).toMatchObject({ ratingAverage: 2, ratingCount: 1 })
+    expect(await backend.reviews.countByProduct('prod_football', { statuses: ['published'] })).toBe(1)
+
+    await setReviewStatus(backend, mine.id, 'published')
+    await deleteReview(backend, theirs.id)
+    expect(await backend.products.get('prod_football')).toMatchObject({ ratingAverage: 4, ratingCount: 1 })
+    expect(await backend.reviews.get(theirs.id)).toBeNull()
+  })
+})
+
+describe('voteHelpful', () => {
+  it('counts one vote per shopper and none for the author', async () => {
+    const backend = newBackend()
+    const mine = await submitReview(backend, fixtureUser, 'prod_football', review)
+
+    expect(await voteHelpful(backend, mine.id, otherUser.id)).toBe(1)
+    await expect(voteHelpful(backend, mine.id, otherUser.id)).rejects.toMatchObject({ code: 'already_voted' })
+    await expect(voteHelpful(backend, mine.id, fixtureUser.id)).rejects.toMatchObject({ code: 'own_review' })
+    expect((await backend.reviews.get(mine.id))?.helpfulCount).toBe(1)
+  })
+})
@@ -0,0 +1,137 @@
+import {
+  fulfilmentStatus,
+  reviewVoteId,
+  updateRatingSummary,
+  type Review,
+  type ReviewStatus,
+  type User
+} from '../domain'
+import type { DataBackend } from '../data'
+import { createId } from '../lib/ids'
+
+type ReviewBackend = Pick<DataBackend, 'reviews' | 'orders' | 'products'>
+
+export type ReviewErrorCode = 'not_eligible' | 'invalid_review' | 'own_review' | 'already_voted' | 'not_found'
+
+export class ReviewError extends Error {
+  readonly code: ReviewErrorCode
+
+  constructor(code: ReviewErrorCode, message: string) {
+    super(message)
+    this.name = 'ReviewError'
+    this.code = code
+  }
+}
+
+export interface ReviewInput {
+  rating: number
+  title: string
+  body: string
+}
+
+// Only shoppers who received the product may review it, including on an
+// order that was partly refunded after delivery
+export async function hasDeliveredPurchase(backend: ReviewBackend, userId: string, productId: string) {
+  const delivered = (await backend.orders.listByUser(userId)).filter((order) => fulfilmentStatus(order) === 'delivered')
+  for (const order of delivered) {
+    const items = await backend.orders.listItems(order.id)
+    if (items.some((item) => item.productId === productId)) return true
+  }
+  return false
+}
+
+// Moves the product's rating aggregates by one review. Hidden reviews do not
+// count, so only published ratings go in or come out.
+async function applyRating(
+  backend: ReviewBackend,
+  productId: string,
+  change: { previous?: number; next?: number }
+) {
+  if (change.previous === change.next) return
+  const product = await backend.products.get(productId)
+  if (!product) return
+  await backend.products.update(productId, updateRatingSummary(product, change))
+}
+
+const published = (review: Pick<Review, 'status' | 'rating'>) =>
+  review.status === 'published' ? review.rating : undefined
+
+// Writes the shopper's review of the product, or rewrites the one they
+// already left. A rewrite keeps its helpful votes and moderation status.
+export async function submitReview(
+  backend: ReviewBackend,
+  user: User,
+  productId: string,
+  input: ReviewInput
+): Promise<Review> {
+  if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+    throw new ReviewError('invalid_review', 'Choose a rating from 1 to 5 stars.')
+  }
+  if (!(await hasDeliveredPurchase(backend, user.id, productId))) {
+    throw new ReviewError('not_eligible', 'You can review products once your order has been delivered.')
+  }
+
+  const fields = { rating: input.rating, title: input.title.trim(), body: input.body.trim() }
+  const existing = await backend.reviews.findByUser(productId, user.id)
+  if (existing) {
+    await backend.reviews.update(existing.id, fields)
+    const updated = { ...existing, ...fields }
+    await applyRating(backend, productId, { previous: published(existing), next: published(updated) })
+    return updated
+  }
+
+  const review = await backend.reviews.create({
+    ...fields,
+    id: createId('review'),
+    productId,
+    userId: user.id,
+    authorName: user.displayName || user.email.split('@')[0],
+    status: 'published',
+    helpfulCount: 0
+  })
+  await applyRating(backend, productId, { next: review.rating })
+  return review
+}
+
+// Records one "helpful" vote. Shoppers cannot vote for their own review or
+// vote twice for the same one.
+export async function voteHelpful(backend: ReviewBackend, reviewId: string, userId: string): Promise<number> {
+  const review = await backend.reviews.get(reviewId)
+  if (!review) {
+    throw new ReviewError('not_found', 'This review no longer exists.')
+  }
+  if (review.userId === userId) {
+    throw new ReviewError('own_review', 'You cannot vote for your own review.')
+  }
+  const voted = await backend.reviews.listVotedReviewIds(review.productId, userId)
+  if (voted.includes(reviewId)) {
+    throw new ReviewError('already_voted', 'You already found this review helpful.')
+  }
+
+  await backend.reviews.addVote({ id: reviewVoteId(reviewId, userId), reviewId, productId: review.productId, userId })
+  const helpfulCount = review.helpfulCount + 1
+  await backend.reviews.update(reviewId, { helpfulCount })
+  return helpfulCount
+}
+
+// Hides a review from the storefront or restores it; the product's rating
+// follows.
+export async function setReviewStatus(backend: ReviewBackend, reviewId: string, status: ReviewStatus) {
+  const review = await backend.reviews.get(reviewId)
+  if (!review) {
+    throw new ReviewError('not_found', 'This review no longer exists.')
+  }
+  if (review.status === status) return review
+  const updated = { ...review, status }
+  await backend.reviews.update(reviewId, { status })
+  await applyRating(backend, review.productId, { previous: published(review), next: published(updated) })
+  return updated
+}
+
+export async function deleteReview(backend: ReviewBackend, reviewId: string) {
+  const review = await backend.reviews.get(reviewId)
+  if (!review) return
+  await backend.reviews.remove(reviewId)
+  await backend.reviews.removeVotes(reviewId)
+  await applyRating(backend, review.productId, { previous: published(review) })
+}
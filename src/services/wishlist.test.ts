@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend, fixtureUser, loadWishlistLines, type MemorySeed } from '../data'
+import {
+  WishlistError,
+  addToWishlist,
+  collectWishlistNotices,
+  moveToCart,
+  removeFromWishlist
+} from './wishlist'
+
+const saved = (overrides: Partial<MemorySeed['wishlistItems'][number]>) => ({
+  id: 'wish_1',
+  userId: fixtureUser.id,
+  productId: 'prod_football',
+  savedPrice: 29.95,
+  seenPrice: 29.95,
+  seenInStock: true,
+  ...overrides
+})
+
+const newBackend = (seed: Partial<MemorySeed> = {}) => createMemoryBackend({ storage: null, seed })
+
+describe('addToWishlist', () => {
+  it('records the price and stock it was saved at, once per product', async () => {
+    const backend = newBackend()
+    const football = (await backend.products.get('prod_football'))!
+
+    const first = await addToWishlist(backend, fixtureUser.id, football)
+    const again = await addToWishlist(backend, fixtureUser.id, football)
+
+    expect(again.id).toBe(first.id)
+    expect(first).toMatchObject({ quantity: 1, savedPrice: 29.95, seenPrice: 29.95, seenInStock: true })
+
+    await removeFromWishlist(backend, fixtureUser.id, 'prod_football')
+    expect(await backend.wishlist.listByUser(fixtureUser.id)).toEqual([])
+  })
+})
+
+describe('moveToCart', () => {
+  it('merges into the cart line and clamps to stock', async () => {
+    const backend = newBackend({
+      wishlistItems: [saved({ productId: 'prod_planter', quantity: 5, savedPrice: 34.5, seenPrice: 34.5 })],
+      cartItems: [{ id: 'cart_1', userId: fixtureUser.id, productId: 'prod_planter', quantity: 2 }]
+    })
+    await backend.products.update('prod_planter', { stockQuantity: 4 })
+    const [line] = await loadWishlistLines(backend, fixtureUser.id)
+
+    expect(await moveToCart(backend, line)).toBe(4)
+
+    expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([expect.objectContaining({ id: 'cart_1', quantity: 4 })])
+    expect(await backend.wishlist.listByUser(fixtureUser.id)).toEqual([])
+  })
+
+  it('refuses out of stock items, archived products and products that need options', async () => {
+    const backend = newBackend({
+      wishlistItems: [
+        saved({ id: 'wish_tee', productId: 'prod_running_tee' }),
+        saved({ id: 'wish_jacket', productId: 'prod_denim_jacket' }),
+        saved({ id: 'wish_mat', productId: 'prod_yoga_mat' })
+      ]
+    })
+    await backend.products.update('prod_yoga_mat', { archived: true })
+    const lines = await loadWishlistLines(backend, fixtureUser.id)
+    const lineFor = (productId: string) => lines.find((line) => line.productId === productId)!
+
+    await expect(moveToCart(backend, lineFor('prod_running_tee'))).rejects.toMatchObject({ code: 'out_of_stock' })
+    await expect(moveToCart(backend, lineFor('prod_denim_jacket'))).rejects.toBeInstanceOf(WishlistError)
+    await expect(moveToCart(backend, lineFor('prod_yoga_mat'))).rejects.toMatchObject({ code: 'not_sold' })
+    expect(await backend.cart.listByUser(fixtureUser.id)).toEqual([])
+  })
+})
+
+describe('collectWishlistNotices', () => {
+  it('reports price drops and restocks once', async () => {
+    const backend = newBackend({
+      wishlistItems: [
+        saved({ id: 'wish_ball', seenPrice: 35 }),
+        saved({ id: 'wish_tee', productId: 'prod_running_tee', seenPrice: 24.99, seenInStock: false }),
+        saved({ id: 'wish_mat', productId: 'prod_yoga_mat', seenPrice: 10 })
+      ]
+    })
+    await backend.products.update('prod_running_tee', { stockQuantity: 3 })
+
+    const notices = await collectWishlistNotices(backend, fixtureUser.id)
+
+    expect(Object.fromEntries(notices.map((notice) => [notice.line.productId, notice.alerts]))).toEqual({
+      prod_football: [{ kind: 'price_drop', previousPrice: 35, price: 29.95 }],
+      prod_running_tee: [{ kind: 'back_in_stock' }]
+    })
+    expect(await collectWishlistNotices(backend, fixtureUser.id)).toEqual([])
+  })
+})
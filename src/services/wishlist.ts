@@ -0,0 +1,133 @@
+import {
+  hasVariants,
+  isArchived,
+  lineStock,
+  wishlistAlerts,
+  wishlistSnapshot,
+  type CartLine,
+  type Product,
+  type ProductVariant,
+  type WishlistAlert,
+  type WishlistItem,
+  type WishlistLine
+} from '../domain'
+import { loadWishlistLines, type DataBackend } from '../data'
+import { createId } from '../lib/ids'
+
+type WishlistBackend = Pick<DataBackend, 'wishlist' | 'cart' | 'products' | 'variants'>
+
+export type WishlistErrorCode = 'out_of_stock' | 'needs_options' | 'not_sold'
+
+export class WishlistError extends Error {
+  readonly code: WishlistErrorCode
+
+  constructor(code: WishlistErrorCode, message: string) {
+    super(message)
+    this.name = 'WishlistError'
+    this.code = code
+  }
+}
+
+// Whether any entry, with or without a variant, is for this product
+export const isWishlisted = (items: Pick<WishlistItem, 'productId'>[], productId: string) =>
+  items.some((item) => item.productId === productId)
+
+// Saves the product (or one variant of it). The heart leaves an existing entry
+// alone; saving a cart line onto one adds to its quantity.
+export async function addToWishlist(
+  backend: WishlistBackend,
+  userId: string,
+  product: Product,
+  options: { variant?: ProductVariant; quantity?: number } = {}
+): Promise<WishlistItem> {
+  const { variant, quantity = 1 } = options
+  const existing = await backend.wishlist.findByProduct(userId, product.id, variant?.id)
+  if (existing) {
+    if (options.quantity === undefined) return existing
+    const updated = { ...existing, quantity: existing.quantity + quantity }
+    await backend.wishlist.update(existing.id, { quantity: updated.quantity })
+    return updated
+  }
+
+  const snapshot = wishlistSnapshot({ product, variant })
+  return backend.wishlist.add({
+    id: createId('wish'),
+    userId,
+    productId: product.id,
+    variantId: variant?.id,
+    quantity,
+    savedPrice: snapshot.seenPrice,
+    ...snapshot
+  })
+}
+
+// Takes every entry for the product off the wishlist
+export async function removeFromWishlist(backend: WishlistBackend, userId: string, productId: string) {
+  const items = await backend.wishlist.listByUser(userId)
+  await Promise.all(
+    items.filter((item) => item.productId === productId).map((item) => backend.wishlist.remove(item.id))
+  )
+}
+
+// Moves a cart line onto the wishlist, keeping its variant and quantity
+export async function saveForLater(backend: WishlistBackend, line: CartLine): Promise<WishlistItem> {
+  const item = await addToWishlist(backend, line.userId, line.product, {
+    variant: line.variant,
+    quantity: line.quantity
+  })
+  await backend.cart.remove(line.id)
+  return item
+}
+
+// Moves a wishlist entry into the cart, merging with an existing cart line
+// and clamping to what is in stock. Returns the quantity now in the cart.
+export async function moveToCart(backend: WishlistBackend, line: WishlistLine): Promise<number> {
+  if (isArchived(line.product)) {
+    throw new WishlistError('not_sold', `${line.product.name} is no longer sold.`)
+  }
+  if (hasVariants(line.product) && !line.variant) {
+    throw new WishlistError('needs_options', `Choose the options for ${line.product.name} on its page.`)
+  }
+  const available = lineStock(line)
+  if (available <= 0) {
+    throw new WishlistError('out_of_stock', `${line.product.name} is out of stock.`)
+  }
+
+  const existing = await backend.cart.findByProduct(line.userId, line.productId, line.variantId)
+  const quantity = Math.min((existing?.quantity ?? 0) + line.quantity, available)
+  if (existing) {
+    await backend.cart.updateQuantity(existing.id, quantity)
+  } else {
+    await backend.cart.add({
+      id: createId('cart'),
+      userId: line.userId,
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity
+    })
+  }
+  await backend.wishlist.remove(line.id)
+  return quantity
+}
+
+export interface WishlistNotice {
+  line: WishlistLine
+  alerts: WishlistAlert[]
+}
+
+// Price drops and restocks since the shopper last checked. Each entry's
+// snapshot moves to the current price and stock, so each change is reported
+// once.
+export async function collectWishlistNotices(backend: WishlistBackend, userId: string): Promise<WishlistNotice[]> {
+  const lines = await loadWishlistLines(backend, userId)
+  const notices: WishlistNotice[] = []
+  for (const line of lines) {
+    const alerts = wishlistAlerts(line)
+    const snapshot = wishlistSnapshot(line)
+    if (snapshot.seenPrice !== line.seenPrice || snapshot.seenInStock !== line.seenInStock) {
+      await backend.wishlist.update(line.id, snapshot)
+    }
+    if (alerts.length > 0) notices.push({ line: { ...line, ...snapshot }, alerts })
+  }
+  return notices
+}
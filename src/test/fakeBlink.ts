@@ -0,0 +1,189 @@
+import type { BlinkClient, BlinkUser } from '@blinkdotnew/sdk'
+
+type Row = Record<string, unknown> & { id: string }
+
+interface ListOptions {
+  where?: Record<string, unknown>
+  orderBy?: Record<string, 'asc' | 'desc'>
+  limit?: number
+  offset?: number
+  select?: string[]
+}
+
+export interface FakeBlinkOptions {
+  user?: BlinkUser | null
+  tables?: Record<string, object[]>
+  // Return numeric columns as strings, the way Blink does for some queries
+  stringifyNumbers?: boolean
+}
+
+export interface FakeBlink {
+  client: BlinkClient
+  tables: Record<string, Row[]>
+  calls: string[]
+  // Every email sent through notifications, in order
+  emails: { to: string | string[]; subject: string; text?: string }[]
+}
+
+function likePattern(pattern: string, flags: string) {
+  const source = pattern.split('%').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${source}$`, flags)
+}
+
+// Numbers compare numerically (missing values never match), anything else as
+// strings, which suits the ISO timestamps ranges are used on
+function compareRange(actual: unknown, expected: unknown) {
+  if (typeof expected === 'number') return actual === null || actual === undefined ? NaN : Number(actual) - expected
+  const left = String(actual ?? '')
+  const right = String(expected)
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+function matchesOperator(actual: unknown, operator: string, expected: unknown) {
+  switch (operator) {
+    case 'eq': return actual === expected
+    case 'neq': return actual !== expected
+    case 'gt': return compareRange(actual, expected) > 0
+    case 'gte': return compareRange(actual, expected) >= 0
+    case 'lt': return compareRange(actual, expected) < 0
+    case 'lte': return compareRange(actual, expected) <= 0
+    case 'like': return likePattern(String(expected), '').test(String(actual ?? ''))
+    case 'ilike': return likePattern(String(expected), 'i').test(String(actual ?? ''))
+    case 'in': return (expected as unknown[]).includes(actual)
+    default: throw new Error(`Unsupported operator ${operator}`)
+  }
+}
+
+// Booleans are stored as 0/1 like SQLite, with missing columns defaulting to 0.
+function matches(row: Row, where: Record<string, unknown> = {}) {
+  return Object.entries(where).every(([key, value]) => {
+    if (typeof value === 'boolean') return Boolean(Number(row[key] ?? 0)) === value
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return Object.entries(value).every(([operator, expected]) => matchesOperator(row[key], operator, expected))
+    }
+    return row[key] === value
+  })
+}
+
+// Just enough of the Blink client for the app: table CRUD with equality
+// filters, ordering, limits and column selection, plus a signed-in auth session and email.
+export function createFakeBlink(options: FakeBlinkOptions = {}): FakeBlink {
+  const tables: Record<string, Row[]> = {}
+  for (const [name, rows] of Object.entries(options.tables ?? {})) {
+    tables[name] = structuredClone(rows) as Row[]
+  }
+  const calls: string[] = []
+  const emails: FakeBlink['emails'] = []
+
+  const serialize = (row: Row) => {
+    const copy = structuredClone(row)
+    if (!options.stringifyNumbers) return copy
+    return Object.fromEntries(
+      Object.entries(copy).map(([key, value]) => [key, typeof value === 'number' ? String(value) : value])
+    )
+  }
+
+  const table = (name: string) => {
+    tables[name] ??= []
+    const rows = () => tables[name]
+
+    return {
+      async list(query: ListOptions = {}) {
+        calls.push(`${name}.list`)
+        let result = rows().filter((row) => matches(row, query.where))
+        for (const [field, direction] of Object.entries(query.orderBy ?? {}).reverse()) {
+          const sign = direction === 'asc' ? 1 : -1
+          result = [...result].sort((a, b) => {
+            const left = a[field]
+            const right = b[field]
+            if (typeof left === 'number' && typeof right === 'number') return sign * (left - right)
+            return sign * String(left ?? '').localeCompare(String(right ?? ''))
+          })
+        }
+        const offset = query.offset ?? 0
+        const page = result.slice(offset, query.limit !== undefined ? offset + query.limit : undefined).map(serialize)
+        const { select } = query
+        if (!select) return page
+        return page.map((row) => Object.fromEntries(Object.entries(row).filter(([key]) => select.includes(key))))
+      },
+      async count(query: Pick<ListOptions, 'where'> = {}) {
+        calls.push(`${name}.count`)
+        return rows().filter((row) => matches(row, query.where)).length
+      },
+      async get(id: string) {
+        calls.push(`${name}.get`)
+        const row = rows().find((candidate) => candidate.id === id)
+        return row ? serialize(row) : null
+      },
+      async create(data: Row) {
+        calls.push(`${name}.create`)
+        if (rows().some((row) => row.id === data.id)) {
+          throw new Error(`Duplicate id ${data.id} in ${name}`)
+        }
+        rows().push(structuredClone(data))
+        return serialize(data)
+      },
+      async createMany(data: Row[]) {
+        calls.push(`${name}.createMany`)
+        const created = []
+        for (const row of data) {
+          created.push(await this.create(row))
+        }
+        return created
+      },
+      async update(id: string, data: Partial<Row>) {
+        calls.push(`${name}.update`)
+        const row = rows().find((candidate) => candidate.id === id)
+        if (!row) throw new Error(`No row ${id} in ${name}`)
+        Object.assign(row, structuredClone(data))
+        return serialize(row)
+      },
+      async delete(id: string) {
+        calls.push(`${name}.delete`)
+        tables[name] = rows().filter((row) => row.id !== id)
+      },
+      async deleteMany({ where }: { where: Record<string, unknown> }) {
+        calls.push(`${name}.deleteMany`)
+        tables[name] = rows().filter((row) => !matches(row, where))
+      }
+    }
+  }
+
+  let user = options.user ?? null
+
+  const client = {
+    db: { table },
+    storage: {
+      async upload(_file: Blob, path: string) {
+        calls.push('storage.upload')
+        return { publicUrl: `https://storage.test/${path}` }
+      }
+    },
+    notifications: {
+      async email(message: FakeBlink['emails'][number]) {
+        calls.push('notifications.email')
+        emails.push(message)
+        return { success: true, messageId: `msg_${emails.length}` }
+      }
+    },
+    auth: {
+      onAuthStateChanged(callback: (state: object) => void) {
+        callback({ user, tokens: null, isAuthenticated: !!user, isLoading: false })
+        return () => {}
+      },
+      async me() {
+        if (!user) throw new Error('Not signed in')
+        return user
+      },
+      isAuthenticated() {
+        return !!user
+      },
+      login() {},
+      logout() {
+        user = null
+      }
+    }
+  }
+
+  return { client: client as unknown as BlinkClient, tables, calls, emails }
+}
@@ -0,0 +1,12 @@
+import { screen } from '@testing-library/react'
+import type { UserEvent } from '@testing-library/user-event'
+import { fixtureAddress } from '../data'
+
+// Types a US address into the AddressForm on screen
+export async function fillAddress(user: UserEvent, address = fixtureAddress) {
+  await user.type(await screen.findByLabelText('Full name'), address.fullName)
+  await user.type(screen.getByLabelText('Street address'), address.line1)
+  await user.type(screen.getByLabelText('City'), address.city)
+  await user.type(screen.getByLabelText('State'), address.region)
+  await user.type(screen.getByLabelText('ZIP code'), address.postalCode)
+}
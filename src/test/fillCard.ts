@@ -0,0 +1,10 @@
+import { screen } from '@testing-library/react'
+import type { UserEvent } from '@testing-library/user-event'
+import { MOCK_TEST_CARDS } from '../payments'
+
+// Types a card into the CardFields on screen; the mock gateway approves it by default
+export async function fillCard(user: UserEvent, number: string = MOCK_TEST_CARDS.success) {
+  await user.type(await screen.findByLabelText('Card number'), number)
+  await user.type(screen.getByLabelText('Expiry (MM/YY)'), '12/40')
+  await user.type(screen.getByLabelText('Security code'), '123')
+}
@@ -0,0 +1,14 @@
+import { render } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import App from '../App'
+import { DataContext, type DataBackend } from '../data'
+
+export function renderApp(backend: DataBackend, route = '/') {
+  return render(
+    <DataContext.Provider value={backend}>
+      <MemoryRouter initialEntries={[route]}>
+        <App />
+      </MemoryRouter>
+    </DataContext.Provider>
+  )
+}
@@ -0,0 +1,63 @@
+import '@testing-library/jest-dom/vitest'
+import { cleanup } from '@testing-library/react'
+import { afterEach, vi } from 'vitest'
+
+// jsdom has no matchMedia; components that query breakpoints (the sidebar)
+// only need it to exist and report no match
+if (!window.matchMedia) {
+  window.matchMedia = (query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    addListener: () => {},
+    removeListener: () => {},
+    dispatchEvent: () => false
+  })
+}
+
+// The drawer (vaul) captures the pointer on press and reads the element's
+// computed transform on release, falling back to the vendor-prefixed
+// property that jsdom does not define
+Element.prototype.setPointerCapture ??= () => {}
+Element.prototype.releasePointerCapture ??= () => {}
+Element.prototype.hasPointerCapture ??= () => false
+if (!('mozTransform' in CSSStyleDeclaration.prototype)) {
+  Object.defineProperty(CSSStyleDeclaration.prototype, 'mozTransform', { get: () => 'none' })
+}
+
+// Radix Select scrolls the highlighted option into view when it opens
+Element.prototype.scrollIntoView ??= () => {}
+
+// The command palette (cmdk) watches its list's size to animate height
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+// Infinite scroll watches the end of the product list; tests load more
+// through the button instead
+globalThis.IntersectionObserver ??= class {
+  readonly root = null
+  readonly rootMargin = ''
+  readonly thresholds = []
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+  takeRecords() {
+    return []
+  }
+}
+
+// The one-time code input (input-otp) probes for password manager badges
+// next to itself
+document.elementFromPoint ??= () => null
+
+afterEach(() => {
+  cleanup()
+  vi.restoreAllMocks()
+  localStorage.clear()
+  sessionStorage.clear()
+})
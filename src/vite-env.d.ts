@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'memory' runs against seeded localStorage data instead of Blink
+  readonly VITE_DATA_BACKEND?: string
+  // 'off' lets guests open an order with its number and email alone,
+  // without the emailed one-time code
+  readonly VITE_ORDER_LOOKUP_CODE?: string
+  // 'stripe' takes real payments and 'mock' uses the in-browser mock gateway.
+  // Unset, the offline backend uses the mock and Blink takes no payments.
+  readonly VITE_PAYMENT_PROVIDER?: string
+  // The store's payment server, which holds the Stripe secret key
+  readonly VITE_STRIPE_API_URL?: string
+  // Stripe's publishable key (pk_…) for the hosted card field
+  readonly VITE_STRIPE_PUBLISHABLE_KEY?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}